@@ -0,0 +1,79 @@
+import { BehaviorNode } from './BehaviorTree';
+import { EnemyContext, ENEMY_BEHAVIORS } from './EnemyBehaviors';
+import { buildBehaviorTree } from './TreeBuilder';
+import archetypeData from './archetypes.json';
+import gruntTree from './trees/grunt.json';
+import sniperTree from './trees/sniper.json';
+import flankerTree from './trees/flanker.json';
+import droneTree from './trees/drone.json';
+import tankTree from './trees/tank.json';
+
+/**
+ * Tree definitions archetypes can refer to by name
+ */
+const TREES: Record<string, unknown> = {
+  grunt: gruntTree,
+  sniper: sniperTree,
+  flanker: flankerTree,
+  drone: droneTree,
+  tank: tankTree
+};
+
+/**
+ * Enemy stats and behavior, as authored in archetypes.json
+ */
+export interface ArchetypeDefinition {
+  /** Name of a tree in ./trees */
+  tree: string;
+  health: number;
+  speed: number;
+  sightRange: number;
+  /** Vision cone width in degrees */
+  fieldOfView: number;
+  /** Multiplier on how far noises carry to this enemy */
+  hearing: number;
+  attackKind: 'melee' | 'ranged';
+  attackRange: number;
+  attackDamage: number;
+  attackWindup: number;
+  attackCooldown: number;
+  projectileSpeed: number;
+  /** 0 turns the enemy to face its target instead of spinning */
+  spinSpeed: number;
+  scale: number;
+  mass: number;
+  color: string;
+  emissive: string;
+  shield?: { arcDegrees: number; reduction: number };
+}
+
+export type ArchetypeName = 'grunt' | 'sniper' | 'flanker' | 'drone' | 'tank';
+
+const ARCHETYPES = archetypeData as Record<ArchetypeName, ArchetypeDefinition>;
+
+/**
+ * Every archetype defined in archetypes.json
+ */
+export const ARCHETYPE_NAMES = Object.keys(ARCHETYPES) as ArchetypeName[];
+
+/**
+ * Get the definition of an archetype
+ */
+export function getArchetype(name: ArchetypeName): ArchetypeDefinition {
+  const archetype = ARCHETYPES[name];
+  if (!archetype) {
+    throw new Error(`Unknown enemy archetype '${name}'`);
+  }
+  return archetype;
+}
+
+/**
+ * Build a fresh behavior tree for an archetype
+ */
+export function createArchetypeTree(name: ArchetypeName): BehaviorNode<EnemyContext> {
+  const { tree } = getArchetype(name);
+  if (!(tree in TREES)) {
+    throw new Error(`Archetype '${name}' refers to unknown tree '${tree}'`);
+  }
+  return buildBehaviorTree(TREES[tree], ENEMY_BEHAVIORS, tree);
+}
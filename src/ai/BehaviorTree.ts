@@ -0,0 +1,219 @@
+import { Blackboard } from './Blackboard';
+
+export type NodeStatus = 'success' | 'failure' | 'running';
+
+/**
+ * Data every tick receives; agents extend it with their own state
+ */
+export interface BehaviorContext {
+  blackboard: Blackboard;
+  deltaTime: number;
+  /** Seconds since the agent started thinking */
+  time: number;
+}
+
+/**
+ * A node of a behavior tree
+ * Trees are built per agent, so nodes may keep their own state
+ */
+export interface BehaviorNode<C extends BehaviorContext = BehaviorContext> {
+  tick(context: C): NodeStatus;
+  /** Drop any in-progress state when a running node is interrupted */
+  reset(): void;
+}
+
+/**
+ * Base for nodes with several children
+ * Remembers which child was running so it can be reset when a different
+ * branch takes over - composites re-evaluate from the first child every tick
+ */
+abstract class Composite<C extends BehaviorContext> implements BehaviorNode<C> {
+  protected children: BehaviorNode<C>[];
+  private runningIndex: number;
+
+  constructor(children: BehaviorNode<C>[]) {
+    this.children = children;
+    this.runningIndex = -1;
+  }
+
+  public abstract tick(context: C): NodeStatus;
+
+  public reset(): void {
+    if (this.runningIndex !== -1) {
+      this.children[this.runningIndex].reset();
+    }
+    this.runningIndex = -1;
+  }
+
+  /**
+   * Record which child produced the result, interrupting the previous runner
+   */
+  protected settle(index: number, status: NodeStatus): NodeStatus {
+    if (this.runningIndex !== -1 && this.runningIndex !== index) {
+      this.children[this.runningIndex].reset();
+    }
+    this.runningIndex = status === 'running' ? index : -1;
+    return status;
+  }
+}
+
+/**
+ * Runs children in order until one does not succeed
+ */
+export class Sequence<C extends BehaviorContext> extends Composite<C> {
+  public tick(context: C): NodeStatus {
+    for (let i = 0; i < this.children.length; i++) {
+      const status = this.children[i].tick(context);
+      if (status !== 'success') return this.settle(i, status);
+    }
+    return this.settle(-1, 'success');
+  }
+}
+
+/**
+ * Runs children in priority order until one does not fail
+ */
+export class Selector<C extends BehaviorContext> extends Composite<C> {
+  public tick(context: C): NodeStatus {
+    for (let i = 0; i < this.children.length; i++) {
+      const status = this.children[i].tick(context);
+      if (status !== 'failure') return this.settle(i, status);
+    }
+    return this.settle(-1, 'failure');
+  }
+}
+
+/**
+ * Base for nodes wrapping a single child
+ */
+abstract class Decorator<C extends BehaviorContext> implements BehaviorNode<C> {
+  protected child: BehaviorNode<C>;
+
+  constructor(child: BehaviorNode<C>) {
+    this.child = child;
+  }
+
+  public abstract tick(context: C): NodeStatus;
+
+  public reset(): void {
+    this.child.reset();
+  }
+}
+
+/**
+ * Swaps success and failure
+ */
+export class Inverter<C extends BehaviorContext> extends Decorator<C> {
+  public tick(context: C): NodeStatus {
+    const status = this.child.tick(context);
+    if (status === 'running') return status;
+    return status === 'success' ? 'failure' : 'success';
+  }
+}
+
+/**
+ * Turns failure into success
+ */
+export class Succeeder<C extends BehaviorContext> extends Decorator<C> {
+  public tick(context: C): NodeStatus {
+    return this.child.tick(context) === 'running' ? 'running' : 'success';
+  }
+}
+
+/**
+ * Fails without ticking the child for a while after it finishes
+ */
+export class Cooldown<C extends BehaviorContext> extends Decorator<C> {
+  private seconds: number;
+  private readyAt: number;
+
+  constructor(child: BehaviorNode<C>, seconds: number) {
+    super(child);
+    this.seconds = seconds;
+    this.readyAt = 0;
+  }
+
+  public tick(context: C): NodeStatus {
+    if (context.time < this.readyAt) return 'failure';
+    
+    const status = this.child.tick(context);
+    if (status !== 'running') {
+      this.readyAt = context.time + this.seconds;
+    }
+    return status;
+  }
+}
+
+/**
+ * Fails a child that keeps running for too long
+ * Combine with Cooldown to keep a timed-out branch from restarting right away
+ */
+export class TimeLimit<C extends BehaviorContext> extends Decorator<C> {
+  private seconds: number;
+  private startedAt: number | null;
+
+  constructor(child: BehaviorNode<C>, seconds: number) {
+    super(child);
+    this.seconds = seconds;
+    this.startedAt = null;
+  }
+
+  public tick(context: C): NodeStatus {
+    this.startedAt ??= context.time;
+    if (context.time - this.startedAt > this.seconds) {
+      this.reset();
+      return 'failure';
+    }
+    
+    const status = this.child.tick(context);
+    if (status !== 'running') {
+      this.startedAt = null;
+    }
+    return status;
+  }
+
+  public reset(): void {
+    super.reset();
+    this.startedAt = null;
+  }
+}
+
+/**
+ * Leaf that runs a function each tick
+ */
+export class Action<C extends BehaviorContext> implements BehaviorNode<C> {
+  private run: (context: C) => NodeStatus;
+  private onReset?: () => void;
+
+  constructor(run: (context: C) => NodeStatus, onReset?: () => void) {
+    this.run = run;
+    this.onReset = onReset;
+  }
+
+  public tick(context: C): NodeStatus {
+    return this.run(context);
+  }
+
+  public reset(): void {
+    this.onReset?.();
+  }
+}
+
+/**
+ * Leaf that succeeds when a predicate holds
+ */
+export class Condition<C extends BehaviorContext> implements BehaviorNode<C> {
+  private predicate: (context: C) => boolean;
+
+  constructor(predicate: (context: C) => boolean) {
+    this.predicate = predicate;
+  }
+
+  public tick(context: C): NodeStatus {
+    return this.predicate(context) ? 'success' : 'failure';
+  }
+
+  public reset(): void {
+    // Stateless
+  }
+}
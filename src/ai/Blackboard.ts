@@ -0,0 +1,45 @@
+/**
+ * Per-agent key/value memory shared by the nodes of a behavior tree
+ */
+export class Blackboard {
+  private values: Map<string, unknown>;
+
+  constructor() {
+    this.values = new Map();
+  }
+
+  /**
+   * Get a value, or undefined if unset
+   */
+  public get<T>(key: string): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  /**
+   * Set a value
+   */
+  public set<T>(key: string, value: T): void {
+    this.values.set(key, value);
+  }
+
+  /**
+   * Check if a value is set
+   */
+  public has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  /**
+   * Remove a value
+   */
+  public delete(key: string): void {
+    this.values.delete(key);
+  }
+
+  /**
+   * Remove every value
+   */
+  public clear(): void {
+    this.values.clear();
+  }
+}
@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { AIStateComponent, NavAgent, TransformComponent } from '../ecs/Components';
+import { Action, BehaviorContext, Condition, NodeStatus } from './BehaviorTree';
+import { NodeLibrary, NodeParams } from './TreeBuilder';
+
+/**
+ * What an enemy's behavior tree sees each tick
+ */
+export interface EnemyContext extends BehaviorContext {
+  registry: Registry;
+  entity: Entity;
+  ai: AIStateComponent;
+  transform: TransformComponent;
+}
+
+/**
+ * Blackboard keys written by PerceptionSystem before the tree runs
+ */
+export const EnemyKeys = {
+  /** Entity being hunted, absent when there is none */
+  target: 'target',
+  targetPosition: 'targetPosition',
+  targetDistance: 'targetDistance',
+  /** Horizontal direction the target is facing */
+  targetForward: 'targetForward',
+  /** Where the target was last seen or heard, absent once forgotten */
+  lastKnownPosition: 'lastKnownPosition'
+} as const;
+
+const toPoint = new THREE.Vector3();
+const offset = new THREE.Vector3();
+
+function numberParam(params: NodeParams, key: string, fallback: number): number {
+  const value = params[key];
+  return typeof value === 'number' ? value : fallback;
+}
+
+function getTargetPosition(context: EnemyContext): THREE.Vector3 | undefined {
+  return context.blackboard.get<THREE.Vector3>(EnemyKeys.targetPosition);
+}
+
+function getTargetDistance(context: EnemyContext): number {
+  return context.blackboard.get<number>(EnemyKeys.targetDistance) ?? Infinity;
+}
+
+/**
+ * Head for a point - through the nav agent when there is one, else in a straight line
+ */
+export function moveTo(context: EnemyContext, point: THREE.Vector3, speed: number): void {
+  const agent = context.registry.getComponent(context.entity, NavAgent);
+  if (agent) {
+    agent.destination = agent.destination ? agent.destination.copy(point) : point.clone();
+    agent.speed = speed;
+    return;
+  }
+  
+  const direction = toPoint.copy(point).sub(context.transform.position);
+  if (direction.length() > 0) {
+    context.transform.position.addScaledVector(direction.normalize(), speed * context.deltaTime);
+  }
+}
+
+/**
+ * Hold position
+ */
+export function stop(context: EnemyContext): void {
+  const agent = context.registry.getComponent(context.entity, NavAgent);
+  if (agent) {
+    agent.destination = null;
+  }
+}
+
+/**
+ * Pick a point `radius` from the target, rotated `angle` radians around it from
+ * the enemy's bearing, at the enemy's current height
+ */
+function pointAroundTarget(context: EnemyContext, target: THREE.Vector3, radius: number, angle: number): THREE.Vector3 {
+  offset.subVectors(context.transform.position, target);
+  offset.y = 0;
+  if (offset.lengthSq() === 0) offset.set(1, 0, 0);
+  offset.normalize().applyAxisAngle(THREE.Object3D.DEFAULT_UP, angle).multiplyScalar(radius);
+  
+  return toPoint.set(target.x + offset.x, context.transform.position.y, target.z + offset.z);
+}
+
+/**
+ * Leaves available to enemy behavior trees, by name
+ */
+export const ENEMY_BEHAVIORS: NodeLibrary<EnemyContext> = {
+  conditions: {
+    hasTarget: () => new Condition(context => context.blackboard.has(EnemyKeys.target)),
+    
+    hasLastKnownPosition: () => new Condition(context => context.blackboard.has(EnemyKeys.lastKnownPosition)),
+    
+    // Defaults to the enemy's attack range
+    targetWithin: params => new Condition(context =>
+      getTargetDistance(context) <= numberParam(params, 'distance', context.ai.attackRange)
+    ),
+    
+    // True once the enemy is outside the target's front arc (degrees)
+    behindTarget: params => {
+      const halfArc = THREE.MathUtils.degToRad(numberParam(params, 'arc', 120)) / 2;
+      return new Condition(context => {
+        const target = getTargetPosition(context);
+        const forward = context.blackboard.get<THREE.Vector3>(EnemyKeys.targetForward);
+        if (!target || !forward) return false;
+        
+        offset.subVectors(context.transform.position, target).setY(0).normalize();
+        return offset.dot(forward) < Math.cos(halfArc);
+      });
+    }
+  },
+  
+  actions: {
+    // Walk to the current patrol point; succeeds while standing on it
+    patrol: () => new Action(context => {
+      const ai = context.ai;
+      if (ai.patrolPoints.length === 0) return 'failure';
+      
+      const point = ai.patrolPoints[ai.currentPatrolIndex];
+      ai.target.copy(point);
+      if (context.transform.position.distanceTo(point) < 2) return 'success';
+      
+      ai.state = 'patrol';
+      moveTo(context, point, ai.speed);
+      return 'running';
+    }),
+    
+    nextPatrolPoint: () => new Action(context => {
+      const ai = context.ai;
+      if (ai.patrolPoints.length === 0) return 'failure';
+      
+      ai.currentPatrolIndex = (ai.currentPatrolIndex + 1) % ai.patrolPoints.length;
+      return 'success';
+    }),
+    
+    wait: params => {
+      let elapsed = 0;
+      return new Action(context => {
+        context.ai.state = 'idle';
+        stop(context);
+        
+        elapsed += context.deltaTime;
+        if (elapsed < numberParam(params, 'seconds', 1)) return 'running';
+        
+        elapsed = 0;
+        return 'success';
+      }, () => {
+        elapsed = 0;
+      });
+    },
+    
+    // Go to where the target was last seen or heard; stays done until that point moves
+    investigate: params => {
+      const arrivedAt = new THREE.Vector3();
+      let arrived = false;
+      return new Action(context => {
+        const point = context.blackboard.get<THREE.Vector3>(EnemyKeys.lastKnownPosition);
+        if (!point) return 'failure';
+        if (arrived && arrivedAt.distanceTo(point) < 2) return 'success';
+        
+        arrived = false;
+        context.ai.state = 'search';
+        toPoint.set(point.x, context.transform.position.y, point.z);
+        context.ai.target.copy(toPoint);
+        if (Math.hypot(toPoint.x - context.transform.position.x, toPoint.z - context.transform.position.z) < 2) {
+          arrivedAt.copy(point);
+          arrived = true;
+          return 'success';
+        }
+        
+        moveTo(context, toPoint, context.ai.speed * numberParam(params, 'speedMultiplier', 1.2));
+        return 'running';
+      }, () => {
+        arrived = false;
+      });
+    },
+    
+    // Sweep around the last known position until perception forgets it
+    search: params => {
+      let angle = 0;
+      return new Action(context => {
+        const point = context.blackboard.get<THREE.Vector3>(EnemyKeys.lastKnownPosition);
+        if (!point) return 'success';
+        
+        context.ai.state = 'search';
+        angle += context.deltaTime * numberParam(params, 'turnRate', 0.8);
+        const radius = numberParam(params, 'radius', 6);
+        toPoint.set(point.x + Math.cos(angle) * radius, context.transform.position.y, point.z + Math.sin(angle) * radius);
+        context.ai.target.copy(toPoint);
+        moveTo(context, toPoint, context.ai.speed * 0.6);
+        return 'running';
+      }, () => {
+        angle = 0;
+      });
+    },
+    
+    // Close in until within attack range
+    chase: params => new Action(context => {
+      const target = getTargetPosition(context);
+      if (!target) return 'failure';
+      
+      context.ai.state = 'chase';
+      if (getTargetDistance(context) <= context.ai.attackRange) return 'success';
+      
+      moveTo(context, target, context.ai.speed * numberParam(params, 'speedMultiplier', 1.5));
+      return 'running';
+    }),
+    
+    // Back away until `distance` from the target
+    retreat: params => new Action(context => {
+      const target = getTargetPosition(context);
+      if (!target) return 'failure';
+      
+      const distance = numberParam(params, 'distance', context.ai.attackRange);
+      if (getTargetDistance(context) >= distance) return 'success';
+      
+      context.ai.state = 'retreat';
+      moveTo(context, pointAroundTarget(context, target, distance, 0), context.ai.speed * numberParam(params, 'speedMultiplier', 1));
+      return 'running';
+    }),
+    
+    // Swing around the target towards its side, keeping `radius` away
+    flank: params => {
+      let side = 0;
+      return new Action(context => {
+        const target = getTargetPosition(context);
+        if (!target) return 'failure';
+        
+        // Commit to whichever side is closer when the manoeuvre starts
+        if (side === 0) {
+          const forward = context.blackboard.get<THREE.Vector3>(EnemyKeys.targetForward);
+          offset.subVectors(context.transform.position, target);
+          side = forward && forward.x * offset.z - forward.z * offset.x > 0 ? -1 : 1;
+        }
+        
+        context.ai.state = 'flank';
+        const radius = numberParam(params, 'radius', 8);
+        moveTo(context, pointAroundTarget(context, target, radius, side * Math.PI / 3), context.ai.speed * numberParam(params, 'speedMultiplier', 1.5));
+        return 'running';
+      }, () => {
+        side = 0;
+      });
+    },
+    
+    // Circle the target at `radius`
+    orbit: params => new Action(context => {
+      const target = getTargetPosition(context);
+      if (!target) return 'failure';
+      
+      context.ai.state = 'orbit';
+      const radius = numberParam(params, 'radius', 6);
+      moveTo(context, pointAroundTarget(context, target, radius, Math.PI / 4), context.ai.speed * numberParam(params, 'speedMultiplier', 1));
+      return 'running';
+    }),
+    
+    // Hold position through one windup-strike-recover cycle
+    attack: () => {
+      let started = false;
+      return new Action((context): NodeStatus => {
+        const ai = context.ai;
+        ai.state = 'attack';
+        stop(context);
+        
+        if (!started) {
+          if (ai.attackPhase !== 'ready') return 'running';
+          ai.attackPhase = 'windup';
+          ai.attackTimer = ai.attackWindup;
+          started = true;
+          return 'running';
+        }
+        
+        if (ai.attackPhase !== 'ready') return 'running';
+        started = false;
+        return 'success';
+      }, () => {
+        started = false;
+      });
+    }
+  }
+};
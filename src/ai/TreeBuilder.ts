@@ -0,0 +1,84 @@
+import {
+  BehaviorContext,
+  BehaviorNode,
+  Cooldown,
+  Inverter,
+  Selector,
+  Sequence,
+  Succeeder,
+  TimeLimit
+} from './BehaviorTree';
+
+export type NodeParams = Record<string, number | string | boolean>;
+
+/**
+ * JSON shape of a behavior tree node
+ */
+export type TreeDefinition =
+  | { type: 'sequence' | 'selector'; children: TreeDefinition[] }
+  | { type: 'inverter' | 'succeeder'; child: TreeDefinition }
+  | { type: 'cooldown' | 'timeLimit'; seconds: number; child: TreeDefinition }
+  | { type: 'condition' | 'action'; name: string; params?: NodeParams };
+
+/**
+ * Named leaves a tree definition may refer to
+ * Each factory is called once per use, so returned nodes may hold state
+ */
+export interface NodeLibrary<C extends BehaviorContext> {
+  conditions: Record<string, (params: NodeParams) => BehaviorNode<C>>;
+  actions: Record<string, (params: NodeParams) => BehaviorNode<C>>;
+}
+
+/**
+ * Build a behavior tree from a definition, validating it on the way
+ * `path` names the node in error messages
+ */
+export function buildBehaviorTree<C extends BehaviorContext>(
+  definition: unknown,
+  library: NodeLibrary<C>,
+  path: string = 'root'
+): BehaviorNode<C> {
+  if (typeof definition !== 'object' || definition === null) {
+    throw new Error(`Behavior tree ${path}: expected a node object`);
+  }
+  
+  const node = definition as Record<string, unknown>;
+  switch (node.type) {
+    case 'sequence':
+    case 'selector': {
+      if (!Array.isArray(node.children) || node.children.length === 0) {
+        throw new Error(`Behavior tree ${path}: ${node.type} needs a non-empty children array`);
+      }
+      const children = node.children.map((child, index) =>
+        buildBehaviorTree(child, library, `${path}.children[${index}]`)
+      );
+      return node.type === 'sequence' ? new Sequence(children) : new Selector(children);
+    }
+    case 'inverter':
+    case 'succeeder': {
+      const child = buildBehaviorTree(node.child, library, `${path}.child`);
+      return node.type === 'inverter' ? new Inverter(child) : new Succeeder(child);
+    }
+    case 'cooldown':
+    case 'timeLimit': {
+      if (typeof node.seconds !== 'number' || node.seconds < 0) {
+        throw new Error(`Behavior tree ${path}: ${node.type} needs a non-negative seconds value`);
+      }
+      const child = buildBehaviorTree(node.child, library, `${path}.child`);
+      return node.type === 'cooldown' ? new Cooldown(child, node.seconds) : new TimeLimit(child, node.seconds);
+    }
+    case 'condition':
+    case 'action': {
+      const factories = node.type === 'condition' ? library.conditions : library.actions;
+      if (typeof node.name !== 'string' || !Object.prototype.hasOwnProperty.call(factories, node.name)) {
+        throw new Error(`Behavior tree ${path}: unknown ${node.type} '${String(node.name)}'`);
+      }
+      if (node.params !== undefined && (typeof node.params !== 'object' || node.params === null)) {
+        throw new Error(`Behavior tree ${path}: params must be an object`);
+      }
+      return factories[node.name]((node.params ?? {}) as NodeParams);
+    }
+    default:
+      throw new Error(`Behavior tree ${path}: unknown node type '${String(node.type)}'`);
+  }
+}
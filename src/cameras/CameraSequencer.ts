@@ -0,0 +1,166 @@
+import { EventBus } from '../utils/EventBus';
+import { Easing } from '../utils/Easing';
+import { blendPoses, CameraPose, CameraShot, createCameraPose, ShotDefinition } from './CameraShot';
+
+export interface SequenceCue {
+  // Seconds from the start of the sequence
+  time: number;
+  name: string;
+}
+
+/**
+ * Shots played back to back, plus named cues fired as the playhead passes them
+ */
+export interface CameraSequence {
+  name: string;
+  shots: ShotDefinition[];
+  cues?: SequenceCue[];
+}
+
+export interface CameraSequenceEvents {
+  cue: { sequence: string; name: string; time: number };
+  shot: { sequence: string; name: string; index: number };
+  complete: { sequence: string; skipped: boolean };
+}
+
+/**
+ * Plays camera sequences and samples the current pose
+ */
+export class CameraSequencer {
+  private events: EventBus<CameraSequenceEvents>;
+  private sequence: CameraSequence | null;
+  private shots: CameraShot[];
+  private shotStarts: number[];
+  private duration: number;
+  private time: number;
+  private shotIndex: number;
+  private nextCue: number;
+  private defaultFov: number;
+  private previousPose: CameraPose;
+
+  constructor(defaultFov: number = 75) {
+    this.events = new EventBus();
+    this.sequence = null;
+    this.shots = [];
+    this.shotStarts = [];
+    this.duration = 0;
+    this.time = 0;
+    this.shotIndex = -1;
+    this.nextCue = 0;
+    this.defaultFov = defaultFov;
+    this.previousPose = createCameraPose();
+  }
+
+  /**
+   * Start a sequence from the beginning, replacing any playing one
+   * Throws if a shot is malformed, before anything changes
+   */
+  public play(sequence: CameraSequence): void {
+    if (sequence.shots.length === 0) {
+      throw new Error(`Camera sequence "${sequence.name}": needs at least one shot`);
+    }
+    const shots = sequence.shots.map(shot => new CameraShot(shot, this.defaultFov));
+    
+    this.stop();
+    this.sequence = { ...sequence, cues: [...(sequence.cues ?? [])].sort((a, b) => a.time - b.time) };
+    this.shots = shots;
+    this.shotStarts = [];
+    this.duration = 0;
+    for (const shot of shots) {
+      this.shotStarts.push(this.duration);
+      this.duration += shot.getDuration();
+    }
+    this.time = 0;
+    this.shotIndex = -1;
+    this.nextCue = 0;
+    this.advance(0);
+  }
+
+  /**
+   * Move the playhead forward, firing shot changes, cues and completion
+   */
+  public update(deltaTime: number): void {
+    if (!this.sequence) return;
+    this.advance(deltaTime);
+  }
+
+  private advance(deltaTime: number): void {
+    const sequence = this.sequence!;
+    this.time = Math.min(this.time + deltaTime, this.duration);
+    
+    // Shots are entered in order even when a long frame skips past one
+    while (this.shotIndex < this.shots.length - 1 && this.time >= this.shotStarts[this.shotIndex + 1]) {
+      this.shotIndex++;
+      this.events.emit('shot', { sequence: sequence.name, name: this.shots[this.shotIndex].name, index: this.shotIndex });
+    }
+    
+    const cues = sequence.cues!;
+    while (this.nextCue < cues.length && cues[this.nextCue].time <= this.time) {
+      const cue = cues[this.nextCue++];
+      this.events.emit('cue', { sequence: sequence.name, name: cue.name, time: cue.time });
+    }
+    
+    if (this.time >= this.duration) {
+      this.finish(false);
+    }
+  }
+
+  /**
+   * Write the current pose; returns false when nothing is playing
+   */
+  public sample(out: CameraPose): boolean {
+    if (!this.sequence) return false;
+    
+    const shot = this.shots[this.shotIndex];
+    const local = this.time - this.shotStarts[this.shotIndex];
+    shot.sample(local, out);
+    
+    // Crossfade from where the previous shot came to rest
+    if (this.shotIndex > 0 && local < shot.blendDuration) {
+      const previous = this.shots[this.shotIndex - 1];
+      previous.sample(previous.getDuration(), this.previousPose);
+      blendPoses(this.previousPose, out, Easing.easeInOutSine(local / shot.blendDuration), out);
+    }
+    return true;
+  }
+
+  /**
+   * Jump to the end of the sequence, firing its completion
+   */
+  public skip(): void {
+    if (!this.sequence) return;
+    this.finish(true);
+  }
+
+  /**
+   * Abandon the sequence without firing completion
+   */
+  public stop(): void {
+    this.sequence = null;
+  }
+
+  private finish(skipped: boolean): void {
+    const name = this.sequence!.name;
+    this.sequence = null;
+    this.events.emit('complete', { sequence: name, skipped });
+  }
+
+  public isPlaying(): boolean {
+    return this.sequence !== null;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Shot, cue and completion notifications
+   */
+  public getEvents(): EventBus<CameraSequenceEvents> {
+    return this.events;
+  }
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { perlin1D } from '../utils/Noise';
+
+/**
+ * How one kind of impact shakes the camera
+ */
+export interface ShakeProfile {
+  /** Trauma added per shake, scaled by the caller */
+  trauma: number;
+  /** Trauma lost per second */
+  decay: number;
+  /** Offset at full trauma, in world units and degrees */
+  maxTranslation: number;
+  maxRotation: number;
+  /** Noise samples per second; higher is more jittery */
+  frequency: number;
+}
+
+export type ShakeProfileName = 'explosion' | 'hit' | 'footstep';
+
+export const SHAKE_PROFILES: Record<ShakeProfileName, ShakeProfile> = {
+  explosion: { trauma: 0.9, decay: 0.8, maxTranslation: 1.2, maxRotation: 4, frequency: 12 },
+  hit: { trauma: 0.6, decay: 2, maxTranslation: 0.5, maxRotation: 2.5, frequency: 22 },
+  footstep: { trauma: 0.25, decay: 4, maxTranslation: 0.08, maxRotation: 0.3, frequency: 9 }
+};
+
+/**
+ * Translation and rotation (radians) to add on top of the camera pose
+ */
+export interface ShakeOffset {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+}
+
+// Each source samples its own noise so simultaneous shakes don't move in lockstep
+const NOISE_SEEDS: Record<ShakeProfileName, number> = { explosion: 11, hit: 23, footstep: 37 };
+
+/**
+ * Trauma-based camera shake: impacts add trauma that decays over time
+ * Shake grows with trauma squared, so small knocks stay subtle while big ones hit hard
+ */
+export class CameraShake {
+  private trauma: Map<ShakeProfileName, number>;
+  private intensity: number;
+  private time: number;
+  private offset: ShakeOffset;
+  private profiles: Record<ShakeProfileName, ShakeProfile>;
+
+  constructor(profiles: Partial<Record<ShakeProfileName, ShakeProfile>> = {}) {
+    this.trauma = new Map();
+    this.intensity = 1;
+    this.time = 0;
+    this.offset = { position: new THREE.Vector3(), rotation: new THREE.Euler() };
+    this.profiles = { ...SHAKE_PROFILES, ...profiles };
+  }
+
+  /**
+   * Add trauma from a source; repeated shakes stack up to full trauma
+   */
+  public add(profile: ShakeProfileName, scale: number = 1): void {
+    const current = this.trauma.get(profile) ?? 0;
+    this.trauma.set(profile, Math.min(current + this.profiles[profile].trauma * scale, 1));
+  }
+
+  /**
+   * Decay trauma and recompute the offset
+   */
+  public update(deltaTime: number): void {
+    this.time += deltaTime;
+    const { position, rotation } = this.offset;
+    position.set(0, 0, 0);
+    rotation.set(0, 0, 0);
+    
+    for (const [name, trauma] of this.trauma) {
+      const profile = this.profiles[name];
+      const shake = trauma * trauma * this.intensity;
+      const t = this.time * profile.frequency;
+      // Three translation and three rotation channels, each offset along the noise
+      const noise = (channel: number) => perlin1D(t + channel * 31.7, NOISE_SEEDS[name] + channel);
+      
+      const translation = shake * profile.maxTranslation;
+      position.x += noise(0) * translation;
+      position.y += noise(1) * translation;
+      position.z += noise(2) * translation;
+      
+      const angle = shake * THREE.MathUtils.degToRad(profile.maxRotation);
+      rotation.x += noise(3) * angle;
+      rotation.y += noise(4) * angle;
+      rotation.z += noise(5) * angle;
+      
+      const remaining = trauma - profile.decay * deltaTime;
+      if (remaining > 0) {
+        this.trauma.set(name, remaining);
+      } else {
+        this.trauma.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Offset from the last update, to add on top of the camera pose
+   */
+  public getOffset(): Readonly<ShakeOffset> {
+    return this.offset;
+  }
+
+  /**
+   * Scale every shake, 0 = off for players sensitive to motion, 1 = full
+   */
+  public setIntensity(intensity: number): void {
+    this.intensity = THREE.MathUtils.clamp(intensity, 0, 1);
+  }
+
+  public getIntensity(): number {
+    return this.intensity;
+  }
+
+  /**
+   * Strongest trauma of any source, 0-1
+   */
+  public getTrauma(): number {
+    return Math.max(0, ...this.trauma.values());
+  }
+
+  /**
+   * Stop all shaking immediately
+   */
+  public clear(): void {
+    this.trauma.clear();
+    this.offset.position.set(0, 0, 0);
+    this.offset.rotation.set(0, 0, 0);
+  }
+}
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { Easing, EasingName } from '../utils/Easing';
+
+/**
+ * Where the camera is, what it looks at, its field of view and roll (degrees)
+ */
+export interface CameraPose {
+  position: THREE.Vector3;
+  lookAt: THREE.Vector3;
+  fov: number;
+  roll: number;
+}
+
+export interface CameraKeyframe {
+  // Seconds from the start of the shot
+  time: number;
+  position: [number, number, number];
+  lookAt: [number, number, number];
+  fov?: number;
+  roll?: number;
+  // Easing of the segment arriving at this keyframe
+  ease?: EasingName;
+}
+
+export interface ShotDefinition {
+  name: string;
+  keyframes: CameraKeyframe[];
+  // How the previous shot hands over: a hard cut or a crossfade of `blendDuration` seconds
+  transition?: 'cut' | 'blend';
+  blendDuration?: number;
+}
+
+export function createCameraPose(): CameraPose {
+  return { position: new THREE.Vector3(), lookAt: new THREE.Vector3(), fov: 75, roll: 0 };
+}
+
+/**
+ * Blend two poses; `out` may be either input
+ */
+export function blendPoses(from: CameraPose, to: CameraPose, t: number, out: CameraPose): CameraPose {
+  out.position.lerpVectors(from.position, to.position, t);
+  out.lookAt.lerpVectors(from.lookAt, to.lookAt, t);
+  out.fov = THREE.MathUtils.lerp(from.fov, to.fov, t);
+  out.roll = THREE.MathUtils.lerp(from.roll, to.roll, t);
+  return out;
+}
+
+/**
+ * One continuous camera move through keyframes on Catmull-Rom splines
+ */
+export class CameraShot {
+  public readonly name: string;
+  public readonly transition: 'cut' | 'blend';
+  public readonly blendDuration: number;
+  private keyframes: CameraKeyframe[];
+  private positionCurve: THREE.CatmullRomCurve3;
+  private lookAtCurve: THREE.CatmullRomCurve3;
+
+  constructor(definition: ShotDefinition, defaultFov: number = 75) {
+    const { name, keyframes } = definition;
+    if (keyframes.length === 0) {
+      throw new Error(`Camera shot "${name}": needs at least one keyframe`);
+    }
+    for (let i = 1; i < keyframes.length; i++) {
+      if (keyframes[i].time <= keyframes[i - 1].time) {
+        throw new Error(`Camera shot "${name}": keyframe ${i} time must be after keyframe ${i - 1}`);
+      }
+    }
+    
+    this.name = name;
+    this.transition = definition.transition ?? 'cut';
+    this.blendDuration = this.transition === 'blend' ? definition.blendDuration ?? 1 : 0;
+    
+    // Unset fov and roll carry over from the previous keyframe
+    let fov = defaultFov;
+    let roll = 0;
+    this.keyframes = keyframes.map(keyframe => {
+      fov = keyframe.fov ?? fov;
+      roll = keyframe.roll ?? roll;
+      return { ...keyframe, fov, roll };
+    });
+    
+    // Centripetal splines don't overshoot or loop between close keyframes
+    // A held shot repeats its only keyframe since curves need two points
+    const points = this.keyframes.length > 1 ? this.keyframes : [this.keyframes[0], this.keyframes[0]];
+    const toVector = (tuple: [number, number, number]) => new THREE.Vector3(...tuple);
+    this.positionCurve = new THREE.CatmullRomCurve3(points.map(k => toVector(k.position)), false, 'centripetal');
+    this.lookAtCurve = new THREE.CatmullRomCurve3(points.map(k => toVector(k.lookAt)), false, 'centripetal');
+  }
+
+  /**
+   * Time of the last keyframe
+   */
+  public getDuration(): number {
+    return this.keyframes[this.keyframes.length - 1].time;
+  }
+
+  /**
+   * Write the pose `time` seconds into the shot; times past either end hold the end pose
+   */
+  public sample(time: number, out: CameraPose): CameraPose {
+    const keyframes = this.keyframes;
+    if (keyframes.length === 1) {
+      return this.write(0, 0, out);
+    }
+    
+    // Find the segment containing `time`
+    let index = 0;
+    while (index < keyframes.length - 2 && time >= keyframes[index + 1].time) {
+      index++;
+    }
+    const from = keyframes[index];
+    const to = keyframes[index + 1];
+    const progress = THREE.MathUtils.clamp((time - from.time) / (to.time - from.time), 0, 1);
+    return this.write(index, Easing[to.ease ?? 'linear'](progress), out);
+  }
+
+  private write(index: number, local: number, out: CameraPose): CameraPose {
+    const last = Math.max(this.keyframes.length - 1, 1);
+    const u = (index + local) / last;
+    this.positionCurve.getPoint(u, out.position);
+    this.lookAtCurve.getPoint(u, out.lookAt);
+    
+    const from = this.keyframes[index];
+    const to = this.keyframes[Math.min(index + 1, this.keyframes.length - 1)];
+    out.fov = THREE.MathUtils.lerp(from.fov!, to.fov!, local);
+    out.roll = THREE.MathUtils.lerp(from.roll!, to.roll!, local);
+    return out;
+  }
+}
@@ -1,4 +1,24 @@
 import * as THREE from 'three';
+import { Easing } from '../utils/Easing';
+import { SpringVector3 } from '../utils/Spring';
+import { blendPoses, CameraPose, createCameraPose } from './CameraShot';
+import { CameraSequence, CameraSequencer } from './CameraSequencer';
+import { ThirdPersonRig } from './ThirdPersonRig';
+import { CameraShake, ShakeProfileName } from './CameraShake';
+
+/**
+ * Window aspect ratio, or 16:9 when there is no window (headless)
+ */
+function defaultAspect(): number {
+  return typeof window !== 'undefined' ? window.innerWidth / window.innerHeight : 16 / 9;
+}
+
+export interface SequencePlayback {
+  // Seconds to blend from the follow camera into the sequence, 0 to cut
+  blendIn?: number;
+  // Seconds to blend back to the follow camera once the sequence ends
+  blendOut?: number;
+}
 
 /**
  * Cinematic camera with smooth controls and effects
@@ -8,13 +28,37 @@ export class CinematicCamera {
   private camera: THREE.PerspectiveCamera;
   private targetPosition: THREE.Vector3;
   private targetLookAt: THREE.Vector3;
-  private smoothFactor: number;
+  private positionSpring: SpringVector3;
+  private lookAtSpring: SpringVector3;
+  private rig: ThirdPersonRig | null;
+  private baseFov: number;
+  private followPose: CameraPose;
+  private sequencer: CameraSequencer;
+  private sequencePose: CameraPose;
+  private outputPose: CameraPose;
+  // How much the sequence owns the camera, 0 = follow only, 1 = sequence only
+  private sequenceWeight: number;
+  private blendIn: number;
+  private blendOut: number;
+  private cameraShake: CameraShake;
 
-  constructor(fov: number = 75, aspect: number = window.innerWidth / window.innerHeight, near: number = 0.1, far: number = 1000) {
+  constructor(fov: number = 75, aspect: number = defaultAspect(), near: number = 0.1, far: number = 1000) {
     this.camera = new THREE.PerspectiveCamera(fov, aspect, near, far);
     this.targetPosition = new THREE.Vector3();
     this.targetLookAt = new THREE.Vector3();
-    this.smoothFactor = 0.05; // Smooth interpolation factor
+    // Seconds to settle on a new target
+    this.positionSpring = new SpringVector3(0.3);
+    this.lookAtSpring = new SpringVector3(0.3);
+    this.rig = null;
+    this.baseFov = fov;
+    this.followPose = createCameraPose();
+    this.sequencer = new CameraSequencer(fov);
+    this.sequencePose = createCameraPose();
+    this.outputPose = createCameraPose();
+    this.sequenceWeight = 0;
+    this.blendIn = 0;
+    this.blendOut = 1;
+    this.cameraShake = new CameraShake();
     
     this.setupCamera();
   }
@@ -27,6 +71,10 @@ export class CinematicCamera {
     // Copy initial position to target
     this.targetPosition.copy(this.camera.position);
     this.targetLookAt.set(0, 0, 0);
+    this.positionSpring.snap(this.camera.position);
+    this.lookAtSpring.snap(this.targetLookAt);
+    this.followPose.position.copy(this.camera.position);
+    this.followPose.fov = this.baseFov;
   }
 
   /**
@@ -45,25 +93,102 @@ export class CinematicCamera {
 
   /**
    * Update camera position with smooth interpolation
+   * A playing sequence takes over the camera, blending in and back out
    */
-  public update(_deltaTime: number = 0.016): void {
-    // Smooth interpolation towards target position
-    this.camera.position.lerp(this.targetPosition, this.smoothFactor);
+  public update(deltaTime: number = 0.016): void {
+    // The follow camera keeps tracking underneath so it is ready to blend back to
+    if (this.rig) {
+      this.rig.update(deltaTime, this.followPose);
+    } else {
+      this.followPose.position.copy(this.positionSpring.update(this.targetPosition, deltaTime));
+      this.followPose.lookAt.copy(this.lookAtSpring.update(this.targetLookAt, deltaTime));
+    }
+    
+    this.sequencer.update(deltaTime);
+    if (this.sequencer.sample(this.sequencePose)) {
+      this.sequenceWeight = this.blendIn > 0 ? Math.min(this.sequenceWeight + deltaTime / this.blendIn, 1) : 1;
+    } else if (this.sequenceWeight > 0) {
+      // Blend back out from the pose the sequence ended on
+      this.sequenceWeight = this.blendOut > 0 ? Math.max(this.sequenceWeight - deltaTime / this.blendOut, 0) : 0;
+    }
+    
+    this.cameraShake.update(deltaTime);
     
-    // Smooth look-at interpolation
-    const currentLookAt = new THREE.Vector3();
-    this.camera.getWorldDirection(currentLookAt);
-    currentLookAt.add(this.camera.position);
-    currentLookAt.lerp(this.targetLookAt, this.smoothFactor);
+    const pose = this.sequenceWeight > 0
+      ? blendPoses(this.followPose, this.sequencePose, Easing.easeInOutCubic(this.sequenceWeight), this.outputPose)
+      : this.followPose;
+    this.applyPose(pose);
+  }
+
+  private applyPose(pose: CameraPose): void {
+    this.camera.position.copy(pose.position);
+    this.camera.lookAt(pose.lookAt);
+    if (pose.roll !== 0) {
+      this.camera.rotateZ(THREE.MathUtils.degToRad(pose.roll));
+    }
     
-    this.camera.lookAt(currentLookAt);
+    // Shake rides on top of the pose without feeding back into it
+    const shake = this.cameraShake.getOffset();
+    this.camera.position.add(shake.position);
+    this.camera.rotateX(shake.rotation.x);
+    this.camera.rotateY(shake.rotation.y);
+    this.camera.rotateZ(shake.rotation.z);
+    if (this.camera.fov !== pose.fov) {
+      this.camera.fov = pose.fov;
+      this.camera.updateProjectionMatrix();
+    }
   }
 
   /**
-   * Set camera smooth factor (0-1, lower = smoother but slower)
+   * Play a keyframed sequence, taking over from the follow camera
    */
-  public setSmoothFactor(factor: number): void {
-    this.smoothFactor = THREE.MathUtils.clamp(factor, 0, 1);
+  public playSequence(sequence: CameraSequence, playback: SequencePlayback = {}): void {
+    this.blendIn = playback.blendIn ?? 0;
+    this.blendOut = playback.blendOut ?? 1;
+    this.sequencer.play(sequence);
+    if (this.blendIn === 0) {
+      this.sequenceWeight = 1;
+    }
+  }
+
+  /**
+   * End the playing sequence early and blend back to the follow camera
+   */
+  public skipSequence(): void {
+    this.sequencer.skip();
+  }
+
+  /**
+   * Whether a sequence has any control over the camera, including its blends
+   */
+  public isSequenceActive(): boolean {
+    return this.sequencer.isPlaying() || this.sequenceWeight > 0;
+  }
+
+  /**
+   * Playback state and shot, cue and completion events
+   */
+  public getSequencer(): CameraSequencer {
+    return this.sequencer;
+  }
+
+  /**
+   * Set how many seconds the camera takes to settle on its targets
+   */
+  public setSmoothTime(seconds: number): void {
+    this.positionSpring.smoothTime = Math.max(seconds, 0);
+    this.lookAtSpring.smoothTime = Math.max(seconds, 0);
+  }
+
+  /**
+   * Hand the follow camera to a rig, or null to go back to the position and look-at targets
+   */
+  public setRig(rig: ThirdPersonRig | null): void {
+    this.rig = rig;
+    if (!rig) {
+      this.positionSpring.snap(this.followPose.position);
+      this.lookAtSpring.snap(this.followPose.lookAt);
+    }
   }
 
   /**
@@ -79,26 +204,17 @@ export class CinematicCamera {
   }
 
   /**
-   * Apply camera shake effect for impact
+   * Shake the camera for an impact; `scale` weakens or strengthens the source's trauma
    */
-  public shake(intensity: number = 0.5, duration: number = 0.3): void {
-    const originalPosition = this.camera.position.clone();
-    const shakeStart = Date.now();
-    
-    const shakeInterval = setInterval(() => {
-      const elapsed = (Date.now() - shakeStart) / 1000;
-      
-      if (elapsed > duration) {
-        clearInterval(shakeInterval);
-        this.camera.position.copy(originalPosition);
-        return;
-      }
-      
-      const shakeAmount = intensity * (1 - elapsed / duration);
-      this.camera.position.x = originalPosition.x + (Math.random() - 0.5) * shakeAmount;
-      this.camera.position.y = originalPosition.y + (Math.random() - 0.5) * shakeAmount;
-      this.camera.position.z = originalPosition.z + (Math.random() - 0.5) * shakeAmount;
-    }, 16);
+  public shake(profile: ShakeProfileName = 'hit', scale: number = 1): void {
+    this.cameraShake.add(profile, scale);
+  }
+
+  /**
+   * Trauma, intensity and offset of the camera shake
+   */
+  public getShake(): CameraShake {
+    return this.cameraShake;
   }
 
   /**
@@ -115,4 +231,15 @@ export class CinematicCamera {
     this.camera.aspect = aspect;
     this.camera.updateProjectionMatrix();
   }
+
+  /**
+   * Stop any sequence, let go of the rig and drop every sequence listener
+   */
+  public dispose(): void {
+    this.sequencer.stop();
+    this.sequencer.getEvents().clear();
+    this.sequenceWeight = 0;
+    this.rig = null;
+    this.camera.removeFromParent();
+  }
 }
@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { sphereCast } from '../physics/Raycast';
+import { dampSpring, SpringVector3 } from '../utils/Spring';
+import { CameraPose } from './CameraShot';
+
+export interface CameraRigSettings {
+  /** Boom length from the focus point to the camera */
+  distance: number;
+  /** Starting pitch above the horizon (radians) and its limits */
+  pitch: number;
+  minPitch: number;
+  maxPitch: number;
+  /** Height of the focus point above the subject's origin */
+  focusHeight: number;
+  /** Seconds for the camera to settle on a moved subject */
+  followSmoothTime: number;
+  lookAtSmoothTime: number;
+  /** Subject movement inside these half-extents doesn't move the camera */
+  deadZoneRadius: number;
+  deadZoneHeight: number;
+  /** Seconds of subject velocity to lead by, capped at `maxLookAhead` */
+  lookAheadTime: number;
+  maxLookAhead: number;
+  lookAheadSmoothTime: number;
+  /** Sphere swept from the focus to keep the camera out of geometry */
+  collisionRadius: number;
+  minDistance: number;
+  /** The boom snaps in on contact and eases back out over this long */
+  boomOutSmoothTime: number;
+  /** How far towards the lock-on target the camera aims, 0 = subject, 1 = target */
+  lockOnBias: number;
+  /** Boom length per unit of subject-target separation so both stay in frame */
+  lockOnFraming: number;
+  lockOnMaxDistance: number;
+  lockOnYawSmoothTime: number;
+}
+
+export const DEFAULT_CAMERA_RIG_SETTINGS: CameraRigSettings = {
+  distance: Math.hypot(15, 30),
+  pitch: Math.atan2(15, 30),
+  minPitch: 0.1,
+  maxPitch: 1.3,
+  focusHeight: 1,
+  followSmoothTime: 0.3,
+  lookAtSmoothTime: 0.15,
+  deadZoneRadius: 1.5,
+  deadZoneHeight: 1,
+  lookAheadTime: 0.4,
+  maxLookAhead: 5,
+  lookAheadSmoothTime: 0.6,
+  collisionRadius: 0.6,
+  minDistance: 2,
+  boomOutSmoothTime: 0.5,
+  lockOnBias: 0.4,
+  lockOnFraming: 1.1,
+  lockOnMaxDistance: 60,
+  lockOnYawSmoothTime: 0.35
+};
+
+/**
+ * Third-person follow rig: orbits a subject on critically damped springs
+ * Keeps the camera out of world geometry, leads the subject's motion and can frame a lock-on target
+ */
+export class ThirdPersonRig {
+  private registry: Registry;
+  private settings: CameraRigSettings;
+  private yaw: number;
+  private pitch: number;
+  private yawSpring: { velocity: number };
+  private subjectPosition: THREE.Vector3;
+  private subjectVelocity: THREE.Vector3;
+  private lockTarget: THREE.Vector3 | null;
+  // Point the camera orbits, held still while the subject stays in the dead zone
+  private anchor: THREE.Vector3;
+  private focus: SpringVector3;
+  private lookAhead: SpringVector3;
+  private lookAt: SpringVector3;
+  private boom: number;
+  private boomSpring: { velocity: number };
+  private initialized: boolean;
+  private goal: THREE.Vector3;
+  private offset: THREE.Vector3;
+  private desired: THREE.Vector3;
+
+  constructor(registry: Registry, settings: Partial<CameraRigSettings> = {}) {
+    this.registry = registry;
+    this.settings = { ...DEFAULT_CAMERA_RIG_SETTINGS, ...settings };
+    this.yaw = 0;
+    this.pitch = this.settings.pitch;
+    this.yawSpring = { velocity: 0 };
+    this.subjectPosition = new THREE.Vector3();
+    this.subjectVelocity = new THREE.Vector3();
+    this.lockTarget = null;
+    this.anchor = new THREE.Vector3();
+    this.focus = new SpringVector3(this.settings.followSmoothTime);
+    this.lookAhead = new SpringVector3(this.settings.lookAheadSmoothTime);
+    this.lookAt = new SpringVector3(this.settings.lookAtSmoothTime);
+    this.boom = this.settings.distance;
+    this.boomSpring = { velocity: 0 };
+    this.initialized = false;
+    this.goal = new THREE.Vector3();
+    this.offset = new THREE.Vector3();
+    this.desired = new THREE.Vector3();
+  }
+
+  /**
+   * Where the followed subject is and how fast it moves this frame
+   */
+  public setSubject(position: THREE.Vector3, velocity: THREE.Vector3): void {
+    this.subjectPosition.copy(position);
+    this.subjectVelocity.copy(velocity);
+  }
+
+  /**
+   * Frame a second point alongside the subject, or null to release the lock
+   * While locked the rig controls the yaw
+   */
+  public setLockTarget(target: THREE.Vector3 | null): void {
+    if (target) {
+      this.lockTarget = (this.lockTarget ?? new THREE.Vector3()).copy(target);
+    } else {
+      this.lockTarget = null;
+    }
+  }
+
+  public isLockedOn(): boolean {
+    return this.lockTarget !== null;
+  }
+
+  /**
+   * Rotate the orbit by player input; yaw input is ignored while locked on
+   */
+  public orbit(deltaYaw: number, deltaPitch: number): void {
+    if (!this.lockTarget) {
+      this.yaw += deltaYaw;
+    }
+    this.pitch = THREE.MathUtils.clamp(this.pitch + deltaPitch, this.settings.minPitch, this.settings.maxPitch);
+  }
+
+  /**
+   * Current orbit yaw, which movement input is relative to
+   */
+  public getYaw(): number {
+    return this.yaw;
+  }
+
+  /**
+   * Place the camera at rest on its goal, skipping all smoothing
+   */
+  public snap(): void {
+    this.initialized = false;
+  }
+
+  /**
+   * Advance the springs and write the follow pose
+   */
+  public update(deltaTime: number, out: CameraPose): void {
+    const settings = this.settings;
+    const subject = this.goal.copy(this.subjectPosition);
+    subject.y += settings.focusHeight;
+    
+    if (!this.initialized) {
+      this.anchor.copy(subject);
+      this.focus.snap(subject);
+      this.lookAhead.snap(this.offset.set(0, 0, 0));
+      this.lookAt.snap(subject);
+      this.boom = settings.distance;
+      this.boomSpring.velocity = 0;
+      this.yawSpring.velocity = 0;
+      this.initialized = true;
+    }
+    
+    this.updateAnchor(subject);
+    
+    // Lead horizontal motion so the player sees where they are heading
+    const lead = this.offset.set(this.subjectVelocity.x, 0, this.subjectVelocity.z)
+      .multiplyScalar(settings.lookAheadTime)
+      .clampLength(0, settings.maxLookAhead);
+    this.lookAhead.update(lead, deltaTime);
+    
+    const focus = this.focus.update(this.anchor, deltaTime);
+    let distance = settings.distance;
+    const lookGoal = this.desired.copy(focus).add(this.lookAhead.value);
+    
+    if (this.lockTarget) {
+      // Stand behind the subject facing the target, far enough back to fit both
+      const dx = this.subjectPosition.x - this.lockTarget.x;
+      const dz = this.subjectPosition.z - this.lockTarget.z;
+      const separation = Math.hypot(dx, dz);
+      if (separation > 0.001) {
+        const goalYaw = this.yaw + wrapAngle(Math.atan2(dx, dz) - this.yaw);
+        this.yaw = dampSpring(this.yaw, goalYaw, this.yawSpring, settings.lockOnYawSmoothTime, deltaTime);
+      }
+      distance = THREE.MathUtils.clamp(separation * settings.lockOnFraming, settings.distance, settings.lockOnMaxDistance);
+      lookGoal.copy(focus).lerp(this.lockTarget, settings.lockOnBias);
+    } else {
+      this.yawSpring.velocity = 0;
+    }
+    this.yaw = wrapAngle(this.yaw);
+    
+    // Sweep from the focus out to the ideal camera spot and stop short of anything in the way
+    const horizontal = Math.cos(this.pitch);
+    const direction = this.offset.set(
+      Math.sin(this.yaw) * horizontal,
+      Math.sin(this.pitch),
+      Math.cos(this.yaw) * horizontal
+    );
+    const ideal = out.position.copy(focus).addScaledVector(direction, distance);
+    const clear = sphereCast(this.registry, focus, ideal, settings.collisionRadius);
+    const boomGoal = Math.max(clear, settings.minDistance);
+    if (boomGoal < this.boom) {
+      this.boom = boomGoal;
+      this.boomSpring.velocity = 0;
+    } else {
+      this.boom = dampSpring(this.boom, boomGoal, this.boomSpring, settings.boomOutSmoothTime, deltaTime);
+    }
+    
+    out.position.copy(focus).addScaledVector(direction, this.boom);
+    out.lookAt.copy(this.lookAt.update(lookGoal, deltaTime));
+    out.roll = 0;
+  }
+
+  /**
+   * Drag the anchor only by how far the subject has left the dead zone around it
+   */
+  private updateAnchor(subject: THREE.Vector3): void {
+    const { deadZoneRadius, deadZoneHeight } = this.settings;
+    const dx = subject.x - this.anchor.x;
+    const dz = subject.z - this.anchor.z;
+    const horizontal = Math.hypot(dx, dz);
+    if (horizontal > deadZoneRadius) {
+      const excess = (horizontal - deadZoneRadius) / horizontal;
+      this.anchor.x += dx * excess;
+      this.anchor.z += dz * excess;
+    }
+    
+    const dy = subject.y - this.anchor.y;
+    if (Math.abs(dy) > deadZoneHeight) {
+      this.anchor.y += dy - Math.sign(dy) * deadZoneHeight;
+    }
+  }
+}
+
+/**
+ * Wrap an angle into [-PI, PI]
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { ModelInstance } from '../core/AssetLoader';
+
+export type AnimationState = 'idle' | 'run' | 'jump' | 'attack' | 'death';
+
+export interface AnimatorSettings {
+  /** Clip name per state, matched case-insensitively and as part of longer names like `Armature|Run` */
+  clips: Record<AnimationState, string>;
+  /** Seconds to cross-fade from one state's clip to the next */
+  fadeDuration: number;
+}
+
+export const DEFAULT_ANIMATOR_SETTINGS: AnimatorSettings = {
+  clips: {
+    idle: 'idle',
+    run: 'run',
+    jump: 'jump',
+    attack: 'attack',
+    death: 'death'
+  },
+  fadeDuration: 0.2
+};
+
+// Played once and held on the last frame instead of looping
+const ONE_SHOT_STATES: AnimationState[] = ['attack', 'death', 'jump'];
+
+/**
+ * Plays a model's clips from a small set of character states, cross-fading on every change
+ * States the model has no clip for keep the current clip playing
+ */
+export class CharacterAnimator {
+  private root: THREE.Object3D;
+  private mixer: THREE.AnimationMixer;
+  private settings: AnimatorSettings;
+  private actions: Map<AnimationState, THREE.AnimationAction>;
+  private state: AnimationState | null;
+  private current: THREE.AnimationAction | null;
+
+  constructor(root: THREE.Object3D, clips: THREE.AnimationClip[], settings: Partial<AnimatorSettings> = {}) {
+    this.root = root;
+    this.mixer = new THREE.AnimationMixer(root);
+    this.settings = { ...DEFAULT_ANIMATOR_SETTINGS, ...settings };
+    this.actions = new Map();
+    this.state = null;
+    this.current = null;
+    
+    (Object.keys(this.settings.clips) as AnimationState[]).forEach(state => {
+      const wanted = this.settings.clips[state].toLowerCase();
+      const clip = clips.find(candidate => candidate.name.toLowerCase() === wanted) ??
+        clips.find(candidate => candidate.name.toLowerCase().includes(wanted));
+      if (!clip) return;
+      
+      const action = this.mixer.clipAction(clip);
+      if (ONE_SHOT_STATES.includes(state)) {
+        action.setLoop(THREE.LoopOnce, 1);
+        action.clampWhenFinished = true;
+      }
+      this.actions.set(state, action);
+    });
+    
+    this.setState('idle');
+  }
+
+  /**
+   * Blend to a state's clip; one-shot clips restart each time their state is entered
+   */
+  public setState(state: AnimationState): void {
+    if (state === this.state) return;
+    const next = this.actions.get(state);
+    if (!next) return;
+    
+    this.state = state;
+    next.reset().setEffectiveWeight(1).fadeIn(this.current ? this.settings.fadeDuration : 0).play();
+    this.current?.fadeOut(this.settings.fadeDuration);
+    this.current = next;
+  }
+
+  /**
+   * Advance the clips
+   */
+  public update(deltaTime: number): void {
+    this.mixer.update(deltaTime);
+  }
+
+  /**
+   * The state whose clip is playing, or null if the model has no clips for any state
+   */
+  public getState(): AnimationState | null {
+    return this.state;
+  }
+
+  /**
+   * Whether the model has a clip for a state
+   */
+  public hasState(state: AnimationState): boolean {
+    return this.actions.has(state);
+  }
+
+  /**
+   * Stop every clip and free the mixer's cached bindings
+   */
+  public dispose(): void {
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.root);
+  }
+}
+
+/**
+ * Scale a model to `height` and stand it with its feet at `bottom`, centered on the origin
+ */
+export function fitModel(root: THREE.Object3D, height: number, bottom: number): void {
+  const bounds = new THREE.Box3().setFromObject(root);
+  const size = bounds.getSize(new THREE.Vector3());
+  if (size.y <= 0) return;
+  
+  // Bounds include the root's own offset, which scales along with the model
+  const scale = height / size.y;
+  const center = bounds.getCenter(new THREE.Vector3());
+  const offset = root.position.clone();
+  root.scale.multiplyScalar(scale);
+  root.position.set(
+    (offset.x - center.x) * scale,
+    bottom + (offset.y - bounds.min.y) * scale,
+    (offset.z - center.z) * scale
+  );
+}
+
+/**
+ * Dress a character's stand-in mesh in a model
+ * The stand-in keeps moving and colliding for the character but is no longer drawn
+ */
+export function attachModel(mesh: THREE.Mesh, model: ModelInstance, height: number, bottom: number): CharacterAnimator {
+  fitModel(model.root, height, bottom);
+  mesh.add(model.root);
+  const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  materials.forEach(material => { material.visible = false; });
+  return new CharacterAnimator(model.root, model.animations);
+}
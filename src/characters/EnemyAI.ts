@@ -1,183 +1,252 @@
 import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import {
+  AIState,
+  AIStateName,
+  AlertLevel,
+  Animator,
+  Behavior,
+  Collider,
+  Faction,
+  Health,
+  MeshRef,
+  RigidBody,
+  Shield,
+  Tag,
+  Transform,
+  Velocity,
+  NavAgent,
+  Perception,
+  createHealth,
+  createNavAgent,
+  createPerception,
+  createRigidBody,
+  createTransform
+} from '../ecs/Components';
+import { createColliderPart } from '../physics/Colliders';
+import { dealDamage } from '../combat/Damage';
+import { despawn } from '../ecs/Lifecycle';
+import { sharedResources } from '../core/ResourceCache';
+import { createProp } from '../core/instancing/InstanceBatches';
+import { AssetLoader } from '../core/AssetLoader';
+import { attachModel } from './CharacterAnimator';
+import { ArchetypeDefinition, ArchetypeName, createArchetypeTree, getArchetype } from '../ai/Archetypes';
+import { Blackboard } from '../ai/Blackboard';
+
+/**
+ * Per-enemy spawn options
+ */
+export interface EnemyOptions {
+  /** Stats and behavior tree from ai/archetypes.json; defaults to 'grunt' */
+  archetype?: ArchetypeName;
+  /** Points visited in order while patrolling; defaults to a square around the spawn */
+  patrolRoute?: THREE.Vector3[];
+}
 
 /**
  * Enemy AI class
- * Manages enemy behavior, pathfinding, and combat
+ * Spawns an enemy entity; behavior runs in EnemyAISystem
+ * Wears the `enemy:<archetype>` or `enemy` model when one is loaded, otherwise a neon octahedron
  */
 export class EnemyAI {
+  private registry: Registry;
+  private entity: Entity;
   private mesh: THREE.Mesh;
-  private target: THREE.Vector3;
-  private speed: number;
-  private health: number;
-  private attackRange: number;
-  private detectionRange: number;
-  private state: 'idle' | 'patrol' | 'chase' | 'attack';
-  private patrolPoints: THREE.Vector3[];
-  private currentPatrolIndex: number;
+  private archetype: ArchetypeName;
 
-  constructor(scene: THREE.Scene, position: THREE.Vector3 = new THREE.Vector3(0, 5, 20)) {
-    this.target = new THREE.Vector3();
-    this.speed = 5;
-    this.health = 50;
-    this.attackRange = 3;
-    this.detectionRange = 30;
-    this.state = 'patrol';
-    this.currentPatrolIndex = 0;
-    
-    // Define patrol points
-    this.patrolPoints = [
-      new THREE.Vector3(10, 5, 10),
-      new THREE.Vector3(-10, 5, 10),
-      new THREE.Vector3(-10, 5, -10),
-      new THREE.Vector3(10, 5, -10)
-    ];
+  constructor(
+    registry: Registry,
+    scene: THREE.Scene,
+    position: THREE.Vector3 = new THREE.Vector3(0, 5, 20),
+    options: EnemyOptions = {},
+    assets: AssetLoader | null = null
+  ) {
+    this.registry = registry;
+    this.archetype = options.archetype ?? 'grunt';
+    const archetype = getArchetype(this.archetype);
     
-    this.mesh = this.createEnemyMesh();
+    this.mesh = this.createEnemyMesh(scene, archetype);
     this.mesh.position.copy(position);
     this.mesh.castShadow = true;
     this.mesh.receiveShadow = true;
     
     scene.add(this.mesh);
+    
+    this.entity = registry.createEntity();
+    registry.addComponent(this.entity, Tag, { name: 'enemy' });
+    registry.addComponent(this.entity, Transform, createTransform(position));
+    registry.addComponent(this.entity, Health, createHealth(archetype.health, 0.1));
+    registry.addComponent(this.entity, Faction, { team: 'enemy' });
+    // Only knockback moves enemies through velocity; it bleeds off quickly
+    registry.addComponent(this.entity, Velocity, { linear: new THREE.Vector3(), damping: 0.85 });
+    registry.addComponent(this.entity, MeshRef, { object: this.mesh });
+    registry.addComponent(this.entity, AIState, {
+      state: 'patrol',
+      speed: archetype.speed,
+      attackRange: archetype.attackRange,
+      patrolPoints: (options.patrolRoute ?? EnemyAI.defaultPatrolRoute(position)).map(point => point.clone()),
+      currentPatrolIndex: 0,
+      target: new THREE.Vector3(),
+      elapsedTime: 0,
+      spin: 0,
+      spinSpeed: archetype.spinSpeed,
+      attackKind: archetype.attackKind,
+      attackDamage: archetype.attackDamage,
+      attackWindup: archetype.attackWindup,
+      attackCooldown: archetype.attackCooldown,
+      attackTimer: 0,
+      attackPhase: 'ready',
+      projectileSpeed: archetype.projectileSpeed
+    });
+    registry.addComponent(this.entity, Perception, createPerception(
+      archetype.sightRange,
+      THREE.MathUtils.degToRad(archetype.fieldOfView),
+      archetype.hearing
+    ));
+    registry.addComponent(this.entity, Behavior, {
+      tree: createArchetypeTree(this.archetype),
+      blackboard: new Blackboard()
+    });
+    if (archetype.shield) {
+      registry.addComponent(this.entity, Shield, {
+        arc: THREE.MathUtils.degToRad(archetype.shield.arcDegrees),
+        reduction: archetype.shield.reduction
+      });
+    }
+    
+    // Hovering enemies collide but ignore gravity
+    registry.addComponent(this.entity, Collider, {
+      parts: [createColliderPart({ type: 'sphere', radius: 1.5 * archetype.scale })],
+      isStatic: false
+    });
+    registry.addComponent(this.entity, RigidBody, createRigidBody(archetype.mass, 0));
+    registry.addComponent(this.entity, NavAgent, createNavAgent(archetype.speed, 2.5 + 1.5 * archetype.scale));
+    
+    // The model fills the octahedron's height; the mesh's scale sizes it per archetype
+    const model = assets?.instantiateModel(`enemy:${this.archetype}`) ?? assets?.instantiateModel('enemy');
+    if (model) {
+      registry.addComponent(this.entity, Animator, { animator: attachModel(this.mesh, model, 3, -1.5) });
+    }
   }
 
-  private createEnemyMesh(): THREE.Mesh {
-    // Create a hostile-looking enemy with red neon accents
-    const geometry = new THREE.OctahedronGeometry(1.5, 0);
+  /**
+   * Square patrol loop centered on the spawn point
+   */
+  private static defaultPatrolRoute(center: THREE.Vector3, size: number = 10): THREE.Vector3[] {
+    return [
+      new THREE.Vector3(center.x + size, center.y, center.z + size),
+      new THREE.Vector3(center.x - size, center.y, center.z + size),
+      new THREE.Vector3(center.x - size, center.y, center.z - size),
+      new THREE.Vector3(center.x + size, center.y, center.z - size)
+    ];
+  }
+
+  private createEnemyMesh(scene: THREE.Scene, archetype: ArchetypeDefinition): THREE.Mesh {
+    // Create a hostile-looking enemy with neon accents in the archetype's colors
+    const geometry = sharedResources.geometry('enemy:body', () => new THREE.OctahedronGeometry(1.5, 0));
     
+    // Hit flashes and alert glows change the body per enemy, so it keeps its own material
     const material = new THREE.MeshStandardMaterial({
-      color: 0x2e1a1a,
+      color: archetype.color,
       metalness: 0.8,
       roughness: 0.3,
-      emissive: 0xff0000,
+      emissive: archetype.emissive,
       emissiveIntensity: 0.7
     });
     
     const mesh = new THREE.Mesh(geometry, material);
+    mesh.scale.setScalar(archetype.scale);
+    // Read by the ParticleSystem when the enemy dies, as the hit flash may have changed the emissive by then
+    mesh.userData.particleTint = archetype.emissive;
     
-    // Add pulsating core
-    const coreGeometry = new THREE.SphereGeometry(0.5, 16, 16);
-    const coreMaterial = new THREE.MeshStandardMaterial({
-      color: 0xff0000,
-      emissive: 0xff0000,
-      emissiveIntensity: 3.0,
-      transparent: true,
-      opacity: 0.9
+    // Add pulsating core, drawn together with every other enemy's
+    const core = createProp(scene, {
+      batch: 'enemyCore',
+      color: archetype.emissive,
+      emissive: archetype.emissive,
+      geometry: () => new THREE.SphereGeometry(0.5, 16, 16),
+      material: () => new THREE.MeshStandardMaterial({
+        emissiveIntensity: 3.0,
+        transparent: true,
+        opacity: 0.9
+      })
     });
-    const core = new THREE.Mesh(coreGeometry, coreMaterial);
     mesh.add(core);
     
+    if (archetype.shield) {
+      // Curved plate covering the shielded arc in front (-Z)
+      const arc = THREE.MathUtils.degToRad(archetype.shield.arcDegrees);
+      const shieldGeometry = sharedResources.geometry(`enemy:shield:${archetype.shield.arcDegrees}`, () =>
+        new THREE.CylinderGeometry(2, 2, 2.5, 16, 1, true, Math.PI - arc / 2, arc)
+      );
+      const shieldMaterial = sharedResources.material(`enemy:shield:${new THREE.Color(archetype.emissive).getHexString()}`, () => new THREE.MeshStandardMaterial({
+        color: 0x1a1a2e,
+        emissive: archetype.emissive,
+        emissiveIntensity: 0.5,
+        transparent: true,
+        opacity: 0.6,
+        side: THREE.DoubleSide
+      }));
+      mesh.add(new THREE.Mesh(shieldGeometry, shieldMaterial));
+    }
+    
     return mesh;
   }
 
   /**
-   * Update enemy AI logic
+   * Take damage; the DamageSystem removes the enemy when health runs out
    */
-  public update(deltaTime: number, playerPosition?: THREE.Vector3): void {
-    // Rotate enemy for visual effect
-    this.mesh.rotation.y += deltaTime * 0.5;
-    this.mesh.rotation.x = Math.sin(Date.now() * 0.001) * 0.2;
-    
-    if (playerPosition) {
-      const distanceToPlayer = this.mesh.position.distanceTo(playerPosition);
-      
-      // State machine
-      if (distanceToPlayer < this.attackRange) {
-        this.state = 'attack';
-      } else if (distanceToPlayer < this.detectionRange) {
-        this.state = 'chase';
-        this.target.copy(playerPosition);
-      } else {
-        this.state = 'patrol';
-      }
-      
-      // Execute behavior based on state
-      switch (this.state) {
-        case 'patrol':
-          this.patrol(deltaTime);
-          break;
-        case 'chase':
-          this.chase(deltaTime);
-          break;
-        case 'attack':
-          this.attack(deltaTime);
-          break;
-      }
-    }
-    
-    // Pulsate core for visual effect
-    const core = this.mesh.children[0];
-    if (core) {
-      const scale = 1 + Math.sin(Date.now() * 0.005) * 0.2;
-      core.scale.set(scale, scale, scale);
-    }
+  public takeDamage(amount: number, source: Entity | null = null): void {
+    dealDamage(this.registry, this.entity, amount, { source });
   }
 
-  private patrol(deltaTime: number): void {
-    const targetPoint = this.patrolPoints[this.currentPatrolIndex];
-    const direction = targetPoint.clone().sub(this.mesh.position);
-    
-    if (direction.length() < 2) {
-      // Reached patrol point, move to next
-      this.currentPatrolIndex = (this.currentPatrolIndex + 1) % this.patrolPoints.length;
-    } else {
-      // Move towards patrol point
-      direction.normalize();
-      this.mesh.position.add(direction.multiplyScalar(this.speed * deltaTime));
-    }
-  }
-
-  private chase(deltaTime: number): void {
-    const direction = this.target.clone().sub(this.mesh.position);
-    direction.normalize();
-    this.mesh.position.add(direction.multiplyScalar(this.speed * deltaTime * 1.5));
-  }
-
-  private attack(_deltaTime: number): void {
-    // Attack animation - bob up and down aggressively
-    const material = this.mesh.material as THREE.MeshStandardMaterial;
-    material.emissiveIntensity = 1.5 + Math.sin(Date.now() * 0.01) * 0.5;
+  /**
+   * Get enemy position
+   */
+  public getPosition(): THREE.Vector3 {
+    const transform = this.registry.getComponent(this.entity, Transform);
+    return transform ? transform.position.clone() : this.mesh.position.clone();
   }
 
   /**
-   * Take damage
+   * Check if enemy is alive
    */
-  public takeDamage(amount: number): void {
-    this.health = Math.max(0, this.health - amount);
-    
-    if (this.health <= 0) {
-      this.destroy();
-    }
+  public isAlive(): boolean {
+    const health = this.registry.getComponent(this.entity, Health);
+    return health !== undefined && health.current > 0;
   }
 
   /**
-   * Get enemy position
+   * Get enemy state: what it is doing and how alert it is
    */
-  public getPosition(): THREE.Vector3 {
-    return this.mesh.position.clone();
+  public getState(): { behavior: AIStateName | 'dead'; alert: AlertLevel } {
+    return {
+      behavior: this.registry.getComponent(this.entity, AIState)?.state ?? 'dead',
+      alert: this.registry.getComponent(this.entity, Perception)?.alert ?? 'unaware'
+    };
   }
 
   /**
-   * Check if enemy is alive
+   * Get the archetype the enemy was spawned as
    */
-  public isAlive(): boolean {
-    return this.health > 0;
+  public getArchetype(): ArchetypeName {
+    return this.archetype;
   }
 
   /**
-   * Get enemy state
+   * Remove the enemy from the scene and the simulation immediately and free its GPU resources
+   * Safe to call for an enemy that already died
    */
-  public getState(): string {
-    return this.state;
+  public dispose(): void {
+    this.registry.getComponent(this.entity, Animator)?.animator.dispose();
+    despawn(this.registry, this.entity);
   }
 
   /**
-   * Destroy enemy
+   * Get the enemy entity
    */
-  private destroy(): void {
-    // Remove from scene
-    if (this.mesh.parent) {
-      this.mesh.parent.remove(this.mesh);
-    }
+  public getEntity(): Entity {
+    return this.entity;
   }
 
   /**
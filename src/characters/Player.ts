@@ -1,19 +1,46 @@
 import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import {
+  Animator,
+  Collider,
+  Faction,
+  Tag,
+  Health,
+  MeshRef,
+  PlayerCombat,
+  PlayerControl,
+  Respawn,
+  Transform,
+  RigidBody,
+  Velocity,
+  createHealth,
+  createPlayerControl,
+  createRigidBody,
+  createTransform
+} from '../ecs/Components';
+import { createColliderPart } from '../physics/Colliders';
+import { dealDamage } from '../combat/Damage';
+import { despawn } from '../ecs/Lifecycle';
+import { AssetLoader } from '../core/AssetLoader';
+import { attachModel } from './CharacterAnimator';
 
 /**
  * Player character class
- * Manages player entity, movement, and interactions
+ * Spawns the player entity and exposes a convenience API over its components
+ * Wears the `player` model when one is loaded, otherwise a neon capsule
  */
 export class Player {
+  private registry: Registry;
+  private entity: Entity;
   private mesh: THREE.Mesh;
-  private velocity: THREE.Vector3;
-  private speed: number;
-  private health: number;
-
-  constructor(scene: THREE.Scene, position: THREE.Vector3 = new THREE.Vector3(0, 5, 0)) {
-    this.velocity = new THREE.Vector3();
-    this.speed = 10;
-    this.health = 100;
+
+  constructor(
+    registry: Registry,
+    scene: THREE.Scene,
+    position: THREE.Vector3 = new THREE.Vector3(0, 5, 0),
+    assets: AssetLoader | null = null
+  ) {
+    this.registry = registry;
     
     this.mesh = this.createPlayerMesh();
     this.mesh.position.copy(position);
@@ -21,6 +48,31 @@ export class Player {
     this.mesh.receiveShadow = true;
     
     scene.add(this.mesh);
+    
+    this.entity = registry.createEntity();
+    registry.addComponent(this.entity, Tag, { name: 'player' });
+    registry.addComponent(this.entity, Transform, createTransform(position));
+    // PlayerController ramps velocity itself, so no damping here
+    registry.addComponent(this.entity, Velocity, { linear: new THREE.Vector3(), damping: 1 });
+    registry.addComponent(this.entity, Health, createHealth(100, 1.0));
+    registry.addComponent(this.entity, Faction, { team: 'player' });
+    registry.addComponent(this.entity, PlayerCombat, { meleeCooldown: 0, rangedCooldown: 0 });
+    registry.addComponent(this.entity, Respawn, { spawnPoint: position.clone(), lives: 3, delay: 2, timer: 0 });
+    registry.addComponent(this.entity, MeshRef, { object: this.mesh });
+    registry.addComponent(this.entity, PlayerControl, createPlayerControl());
+    
+    // Capsule collider matching the CapsuleGeometry (radius 1, segment length 2)
+    registry.addComponent(this.entity, Collider, {
+      parts: [createColliderPart({ type: 'capsule', radius: 1, halfHeight: 1 })],
+      isStatic: false
+    });
+    registry.addComponent(this.entity, RigidBody, createRigidBody(1, 1));
+    
+    // The model stands as tall as the capsule, feet at its bottom
+    const model = assets?.instantiateModel('player');
+    if (model) {
+      registry.addComponent(this.entity, Animator, { animator: attachModel(this.mesh, model, 4, -2) });
+    }
   }
 
   private createPlayerMesh(): THREE.Mesh {
@@ -56,71 +108,99 @@ export class Player {
   }
 
   /**
-   * Update player state
+   * Apply a velocity impulse to the player
    */
-  public update(deltaTime: number): void {
-    // Apply velocity
-    this.mesh.position.add(this.velocity.clone().multiplyScalar(deltaTime));
-    
-    // Apply damping to velocity
-    this.velocity.multiplyScalar(0.9);
-    
-    // Prevent falling through ground
-    if (this.mesh.position.y < 1) {
-      this.mesh.position.y = 1;
-      this.velocity.y = 0;
-    }
+  public move(direction: THREE.Vector3): void {
+    this.registry.getComponent(this.entity, Velocity)!.linear.add(direction);
   }
 
   /**
-   * Move player in a direction
+   * Get player position
    */
-  public move(direction: THREE.Vector3): void {
-    this.velocity.add(direction.multiplyScalar(this.speed));
+  public getPosition(): THREE.Vector3 {
+    return this.registry.getComponent(this.entity, Transform)!.position.clone();
   }
 
   /**
-   * Get player position
+   * Get player velocity
    */
-  public getPosition(): THREE.Vector3 {
-    return this.mesh.position.clone();
+  public getVelocity(): THREE.Vector3 {
+    return this.registry.getComponent(this.entity, Velocity)!.linear.clone();
   }
 
   /**
    * Set player position
    */
   public setPosition(position: THREE.Vector3): void {
-    this.mesh.position.copy(position);
+    const transform = this.registry.getComponent(this.entity, Transform)!;
+    transform.position.copy(position);
+    transform.previousPosition.copy(position);
   }
 
   /**
-   * Take damage
+   * Move the player to a new spawn point at rest; later respawns happen there too
    */
-  public takeDamage(amount: number): void {
-    this.health = Math.max(0, this.health - amount);
-    
-    // Visual feedback - flash red
-    const material = this.mesh.material as THREE.MeshStandardMaterial;
-    const originalEmissive = material.emissive.clone();
-    material.emissive.set(0xff0000);
-    
-    setTimeout(() => {
-      material.emissive.copy(originalEmissive);
-    }, 200);
+  public spawnAt(position: THREE.Vector3): void {
+    this.setPosition(position);
+    this.registry.getComponent(this.entity, Velocity)!.linear.set(0, 0, 0);
+    this.registry.getComponent(this.entity, Respawn)!.spawnPoint.copy(position);
+  }
+
+  /**
+   * Take damage (resolved with invulnerability and hit flash by the DamageSystem)
+   */
+  public takeDamage(amount: number, source: Entity | null = null): void {
+    dealDamage(this.registry, this.entity, amount, { source });
   }
 
   /**
    * Get player health
    */
   public getHealth(): number {
-    return this.health;
+    return this.registry.getComponent(this.entity, Health)!.current;
+  }
+
+  /**
+   * Get player maximum health
+   */
+  public getMaxHealth(): number {
+    return this.registry.getComponent(this.entity, Health)!.max;
+  }
+
+  /**
+   * Get remaining lives
+   */
+  public getLives(): number {
+    return this.registry.getComponent(this.entity, Respawn)!.lives;
+  }
+
+  /**
+   * Get player stamina as a 0-1 fraction
+   */
+  public getStamina(): number {
+    const control = this.registry.getComponent(this.entity, PlayerControl)!;
+    return control.stamina / control.maxStamina;
+  }
+
+  /**
+   * Check if player is standing on something
+   */
+  public isGrounded(): boolean {
+    return this.registry.getComponent(this.entity, RigidBody)?.grounded ?? false;
   }
 
   /**
    * Check if player is alive
    */
   public isAlive(): boolean {
-    return this.health > 0;
+    return this.getHealth() > 0;
+  }
+
+  /**
+   * Get the player entity
+   */
+  public getEntity(): Entity {
+    return this.entity;
   }
 
   /**
@@ -129,4 +209,12 @@ export class Player {
   public getMesh(): THREE.Mesh {
     return this.mesh;
   }
+
+  /**
+   * Remove the player from the scene and the simulation and free its GPU resources
+   */
+  public dispose(): void {
+    this.registry.getComponent(this.entity, Animator)?.animator.dispose();
+    despawn(this.registry, this.entity);
+  }
 }
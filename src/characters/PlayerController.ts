@@ -0,0 +1,348 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  PlayerControl,
+  PlayerControlComponent,
+  RigidBody,
+  RigidBodyComponent,
+  Transform,
+  TransformComponent,
+  Velocity,
+  VelocityComponent
+} from '../ecs/Components';
+import { GameEvents } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+import { InputSource } from '../utils/InputSource';
+
+/**
+ * Player movement tuning
+ */
+export interface PlayerControllerSettings {
+  walkSpeed: number;
+  sprintSpeed: number;
+  /** Ground acceleration towards the input velocity (units/s²) */
+  acceleration: number;
+  /** Ground deceleration when there is no input (units/s²) */
+  deceleration: number;
+  /** Extra acceleration multiplier when reversing direction */
+  turnBoost: number;
+  /** Fraction of acceleration available while airborne */
+  airControl: number;
+  jumpSpeed: number;
+  /** Vertical speed multiplier applied when jump is released early */
+  jumpCut: number;
+  /** Seconds after leaving ground during which a jump is still allowed */
+  coyoteTime: number;
+  /** Seconds a jump press is remembered before landing */
+  jumpBufferTime: number;
+  dashSpeed: number;
+  dashDuration: number;
+  dashCooldown: number;
+  dashStaminaCost: number;
+  staminaDrain: number;
+  staminaRegen: number;
+  staminaRegenDelay: number;
+  /** Stamina fraction needed to sprint again after running dry */
+  exhaustionRecovery: number;
+  turnSpeed: number;
+  /** How far sprinting footsteps carry */
+  sprintNoiseRadius: number;
+  sprintNoiseInterval: number;
+}
+
+export const DEFAULT_PLAYER_CONTROLLER_SETTINGS: PlayerControllerSettings = {
+  walkSpeed: 15,
+  sprintSpeed: 26,
+  acceleration: 90,
+  deceleration: 70,
+  turnBoost: 1.8,
+  airControl: 0.35,
+  jumpSpeed: 15,
+  jumpCut: 0.5,
+  coyoteTime: 0.12,
+  jumpBufferTime: 0.15,
+  dashSpeed: 55,
+  dashDuration: 0.18,
+  dashCooldown: 0.8,
+  dashStaminaCost: 20,
+  staminaDrain: 25,
+  staminaRegen: 35,
+  staminaRegenDelay: 0.6,
+  exhaustionRecovery: 0.25,
+  turnSpeed: 12,
+  sprintNoiseRadius: 18,
+  sprintNoiseInterval: 0.35
+};
+
+/**
+ * Key bindings used by the controller
+ */
+export const PLAYER_BINDINGS = {
+  forward: ['KeyW'],
+  back: ['KeyS'],
+  left: ['KeyA'],
+  right: ['KeyD'],
+  jump: ['Space'],
+  sprint: ['ShiftLeft', 'ShiftRight'],
+  dash: ['KeyQ']
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Player controller
+ * Camera-relative movement with acceleration ramps, jump with coyote time and
+ * buffering, stamina-limited sprint and a short dash, built on the player entity
+ */
+export class PlayerController implements System {
+  public readonly order = SystemOrder.Input;
+  private input: InputSource;
+  private events: EventBus<GameEvents> | null;
+  private settings: PlayerControllerSettings;
+  private wish: THREE.Vector3;
+  private target: THREE.Vector3;
+  private horizontal: THREE.Vector3;
+  private facing: THREE.Quaternion;
+
+  constructor(
+    input: InputSource,
+    settings: Partial<PlayerControllerSettings> = {},
+    events: EventBus<GameEvents> | null = null
+  ) {
+    this.input = input;
+    this.events = events;
+    this.settings = { ...DEFAULT_PLAYER_CONTROLLER_SETTINGS, ...settings };
+    this.wish = new THREE.Vector3();
+    this.target = new THREE.Vector3();
+    this.horizontal = new THREE.Vector3();
+    this.facing = new THREE.Quaternion();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    for (const entity of registry.query(PlayerControl, Velocity, Transform)) {
+      const control = registry.getComponent(entity, PlayerControl)!;
+      const velocity = registry.getComponent(entity, Velocity)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      const body = registry.getComponent(entity, RigidBody);
+      
+      this.readWishDirection(control);
+      this.updateSprint(control, deltaTime);
+      
+      if (!this.updateDash(control, velocity, deltaTime)) {
+        this.updateHorizontal(control, velocity, body, deltaTime);
+      }
+      
+      this.updateJump(control, velocity, body, deltaTime);
+      this.updateFacing(transform, deltaTime);
+      this.updateNoise(entity, control, transform, body, deltaTime);
+    }
+  }
+
+  /**
+   * Set the camera yaw movement is relative to
+   */
+  public setViewYaw(registry: Registry, yaw: number): void {
+    for (const entity of registry.query(PlayerControl)) {
+      registry.getComponent(entity, PlayerControl)!.viewYaw = yaw;
+    }
+  }
+
+  /**
+   * Get the active tuning
+   */
+  public getSettings(): PlayerControllerSettings {
+    return this.settings;
+  }
+
+  /**
+   * Update tuning at runtime
+   */
+  public configure(settings: Partial<PlayerControllerSettings>): void {
+    Object.assign(this.settings, settings);
+  }
+
+  private isDown(keys: string[]): boolean {
+    return keys.some(key => this.input.isKeyPressed(key));
+  }
+
+  /**
+   * Read WASD into a unit direction rotated by the camera yaw
+   */
+  private readWishDirection(control: PlayerControlComponent): void {
+    const wish = this.wish.set(0, 0, 0);
+    if (this.isDown(PLAYER_BINDINGS.forward)) wish.z -= 1;
+    if (this.isDown(PLAYER_BINDINGS.back)) wish.z += 1;
+    if (this.isDown(PLAYER_BINDINGS.left)) wish.x -= 1;
+    if (this.isDown(PLAYER_BINDINGS.right)) wish.x += 1;
+    
+    if (wish.lengthSq() > 0) {
+      wish.normalize().applyAxisAngle(UP, control.viewYaw);
+    }
+  }
+
+  private updateSprint(control: PlayerControlComponent, deltaTime: number): void {
+    const settings = this.settings;
+    const wantsSprint = this.isDown(PLAYER_BINDINGS.sprint) && this.wish.lengthSq() > 0;
+    
+    if (control.exhausted && control.stamina >= control.maxStamina * settings.exhaustionRecovery) {
+      control.exhausted = false;
+    }
+    
+    control.sprinting = wantsSprint && !control.exhausted && control.stamina > 0;
+    
+    if (control.sprinting) {
+      control.stamina = Math.max(0, control.stamina - settings.staminaDrain * deltaTime);
+      control.staminaRegenDelay = settings.staminaRegenDelay;
+      if (control.stamina === 0) {
+        control.exhausted = true;
+      }
+    } else if (control.staminaRegenDelay > 0) {
+      control.staminaRegenDelay -= deltaTime;
+    } else {
+      control.stamina = Math.min(control.maxStamina, control.stamina + settings.staminaRegen * deltaTime);
+    }
+  }
+
+  /**
+   * Run the dash; returns true while a dash owns horizontal velocity
+   */
+  private updateDash(control: PlayerControlComponent, velocity: VelocityComponent, deltaTime: number): boolean {
+    const settings = this.settings;
+    const pressed = this.isDown(PLAYER_BINDINGS.dash);
+    const justPressed = pressed && !control.dashHeld;
+    control.dashHeld = pressed;
+    
+    control.dashCooldown = Math.max(0, control.dashCooldown - deltaTime);
+    
+    if (justPressed && control.dashCooldown === 0 && control.stamina >= settings.dashStaminaCost) {
+      // Dash along input, or along current motion when standing still
+      if (this.wish.lengthSq() > 0) {
+        control.dashDirection.copy(this.wish);
+      } else if (this.horizontal.set(velocity.linear.x, 0, velocity.linear.z).lengthSq() > 0.01) {
+        control.dashDirection.copy(this.horizontal).normalize();
+      } else {
+        control.dashDirection.set(0, 0, -1).applyAxisAngle(UP, control.viewYaw);
+      }
+      
+      control.dashTimer = settings.dashDuration;
+      control.dashCooldown = settings.dashCooldown;
+      control.stamina -= settings.dashStaminaCost;
+      control.staminaRegenDelay = settings.staminaRegenDelay;
+    }
+    
+    if (control.dashTimer <= 0) return false;
+    
+    control.dashTimer -= deltaTime;
+    velocity.linear.x = control.dashDirection.x * settings.dashSpeed;
+    velocity.linear.z = control.dashDirection.z * settings.dashSpeed;
+    
+    // Carry a little momentum out of the dash instead of stopping dead
+    if (control.dashTimer <= 0) {
+      velocity.linear.x = control.dashDirection.x * settings.sprintSpeed;
+      velocity.linear.z = control.dashDirection.z * settings.sprintSpeed;
+    }
+    return true;
+  }
+
+  /**
+   * Ramp horizontal velocity towards the input velocity
+   */
+  private updateHorizontal(
+    control: PlayerControlComponent,
+    velocity: VelocityComponent,
+    body: RigidBodyComponent | undefined,
+    deltaTime: number
+  ): void {
+    const settings = this.settings;
+    const speed = control.sprinting ? settings.sprintSpeed : settings.walkSpeed;
+    const target = this.target.copy(this.wish).multiplyScalar(speed);
+    const current = this.horizontal.set(velocity.linear.x, 0, velocity.linear.z);
+    const hasInput = this.wish.lengthSq() > 0;
+    
+    let rate = hasInput ? settings.acceleration : settings.deceleration;
+    if (hasInput && current.dot(target) < 0) {
+      rate *= settings.turnBoost;
+    }
+    if (body && !body.grounded) {
+      rate *= settings.airControl;
+    }
+    
+    // Move towards the target by at most rate * dt
+    const difference = target.sub(current);
+    const maxDelta = rate * deltaTime;
+    if (difference.length() > maxDelta) {
+      difference.setLength(maxDelta);
+    }
+    
+    velocity.linear.x += difference.x;
+    velocity.linear.z += difference.z;
+  }
+
+  private updateJump(
+    control: PlayerControlComponent,
+    velocity: VelocityComponent,
+    body: RigidBodyComponent | undefined,
+    deltaTime: number
+  ): void {
+    const settings = this.settings;
+    const pressed = this.isDown(PLAYER_BINDINGS.jump);
+    const justPressed = pressed && !control.jumpHeld;
+    const released = !pressed && control.jumpHeld;
+    control.jumpHeld = pressed;
+    
+    // Bodies without physics count as always grounded
+    const grounded = body ? body.grounded : true;
+    control.coyoteTimer = grounded ? settings.coyoteTime : Math.max(0, control.coyoteTimer - deltaTime);
+    control.jumpBufferTimer = justPressed ? settings.jumpBufferTime : Math.max(0, control.jumpBufferTimer - deltaTime);
+    
+    if (control.jumpBufferTimer > 0 && control.coyoteTimer > 0) {
+      velocity.linear.y = settings.jumpSpeed;
+      control.jumpBufferTimer = 0;
+      control.coyoteTimer = 0;
+      if (body) {
+        body.grounded = false;
+      }
+    } else if (released && velocity.linear.y > 0) {
+      // Short hop when jump is let go early
+      velocity.linear.y *= settings.jumpCut;
+    }
+  }
+
+  /**
+   * Sprinting on the ground makes footsteps enemies can hear
+   */
+  private updateNoise(
+    entity: Entity,
+    control: PlayerControlComponent,
+    transform: TransformComponent,
+    body: RigidBodyComponent | undefined,
+    deltaTime: number
+  ): void {
+    if (!control.sprinting || (body && !body.grounded)) {
+      control.noiseTimer = 0;
+      return;
+    }
+    
+    control.noiseTimer -= deltaTime;
+    if (control.noiseTimer > 0) return;
+    
+    control.noiseTimer = this.settings.sprintNoiseInterval;
+    this.events?.emit('noise', {
+      source: entity,
+      position: transform.position.clone(),
+      radius: this.settings.sprintNoiseRadius,
+      kind: 'footstep'
+    });
+  }
+
+  /**
+   * Turn the player to face the input direction
+   */
+  private updateFacing(transform: TransformComponent, deltaTime: number): void {
+    if (this.wish.lengthSq() === 0) return;
+    
+    this.facing.setFromAxisAngle(UP, Math.atan2(-this.wish.x, -this.wish.z));
+    transform.quaternion.slerp(this.facing, Math.min(1, this.settings.turnSpeed * deltaTime));
+  }
+}
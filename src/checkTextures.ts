@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import {
+  generateGradient,
+  generateNoise,
+  generatePanelNormals,
+  generateSign,
+  NoiseType,
+  PixelData
+} from './core/procedural/TextureGenerators';
+import { GLYPH_HEIGHT, measureText } from './core/procedural/BitmapFont';
+
+/**
+ * Checks the procedural texture generators on their pixel data, under Node without a GPU:
+ * the same options give the same bytes, and sign glyphs land where the font puts them
+ *
+ * Usage: npm run check:textures
+ */
+
+// Node globals; the project is typed for the browser only
+declare const process: {
+  exitCode?: number;
+};
+
+const failures: string[] = [];
+
+function check(name: string, passed: boolean): void {
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}`);
+  if (!passed) failures.push(name);
+}
+
+function sameBytes(a: PixelData, b: PixelData): boolean {
+  return a.width === b.width && a.height === b.height && a.data.every((value, index) => value === b.data[index]);
+}
+
+// RGB of the pixel `x` from the left and `y` from the top
+function pixelAt(pixels: PixelData, x: number, y: number): [number, number, number] {
+  const index = ((pixels.height - 1 - y) * pixels.width + x) * 4;
+  return [pixels.data[index], pixels.data[index + 1], pixels.data[index + 2]];
+}
+
+function sameColor(actual: number[], expected: number[]): boolean {
+  return actual.every((value, index) => value === expected[index]);
+}
+
+for (const type of ['perlin', 'simplex', 'worley'] as NoiseType[]) {
+  const options = { type, size: 32, seed: 7 };
+  check(`${type} noise repeats for a seed`, sameBytes(generateNoise(options), generateNoise(options)));
+  check(`${type} noise changes with the seed`, !sameBytes(generateNoise(options), generateNoise({ ...options, seed: 8 })));
+}
+
+const panels = { size: 64, seed: 3 };
+check('panel normals repeat for a seed', sameBytes(generatePanelNormals(panels), generatePanelNormals(panels)));
+check('panel normals change with the seed', !sameBytes(generatePanelNormals(panels), generatePanelNormals({ ...panels, seed: 4 })));
+
+const gradient = generateGradient(new THREE.Color(1, 0, 0), new THREE.Color(0, 0, 1), 4, 8);
+check('gradient starts from the first color on the bottom row', sameColor(pixelAt(gradient, 0, 7), [255, 0, 0]));
+check('every pixel is opaque', gradient.data.every((value, index) => index % 4 !== 3 || value === 255));
+
+// 'I' is three lit pixels across its top row: .###.
+const pixelSize = 8;
+const padding = 2;
+const sign = generateSign({ text: 'I', color: '#ff00ff', background: '#05050a', pixelSize, padding, glow: 0, border: false });
+check('sign is sized to the text and padding', sign.width === (measureText('I') + padding * 2) * pixelSize &&
+  sign.height === (GLYPH_HEIGHT + padding * 2) * pixelSize);
+// Middle of a font pixel, counted from the top-left of the text
+const fontPixel = (x: number, y: number) => pixelAt(sign, (x + padding) * pixelSize + pixelSize / 2, (y + padding) * pixelSize + pixelSize / 2);
+const tube = [255, 153, 255];
+check('sign glyph pixels are lit', [1, 2, 3].every(x => sameColor(fontPixel(x, 0), tube)));
+check('sign gaps in the glyph stay dark', sameColor(fontPixel(0, 0), [5, 5, 10]) && sameColor(fontPixel(4, 0), [5, 5, 10]));
+check('sign stem runs down the middle', sameColor(fontPixel(2, 3), tube) && sameColor(fontPixel(1, 3), [5, 5, 10]));
+
+if (failures.length > 0) {
+  console.error(`${failures.length} texture check${failures.length === 1 ? '' : 's'} failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { Health, MeshRef, Transform } from '../ecs/Components';
+
+/**
+ * Options for a damage request
+ */
+export interface DamageOptions {
+  source?: Entity | null;
+  /** Velocity impulse applied to the target if the hit lands */
+  knockback?: THREE.Vector3 | null;
+}
+
+/**
+ * Queue damage against an entity
+ * Resolution (invulnerability, knockback, death) happens in the DamageSystem
+ * on the same tick, so every damage source goes through one path
+ */
+export function dealDamage(registry: Registry, target: Entity, amount: number, options: DamageOptions = {}): void {
+  const health = registry.getComponent(target, Health);
+  if (!health || health.current <= 0) return;
+  
+  health.pending.push({
+    amount,
+    source: options.source ?? null,
+    knockback: options.knockback ? options.knockback.clone() : null
+  });
+}
+
+const sphere = new THREE.Sphere();
+
+/**
+ * Radius of an entity's mesh for hit detection, from its geometry bounds
+ */
+export function getHitRadius(registry: Registry, entity: Entity): number {
+  const object = registry.getComponent(entity, MeshRef)?.object;
+  if (!(object instanceof THREE.Mesh)) return 0.5;
+  
+  const geometry = object.geometry as THREE.BufferGeometry;
+  if (!geometry.boundingSphere) {
+    geometry.computeBoundingSphere();
+  }
+  sphere.copy(geometry.boundingSphere!);
+  return sphere.radius * Math.max(object.scale.x, object.scale.y, object.scale.z);
+}
+
+/**
+ * Get the simulated position of an entity's hit volume
+ */
+export function getHitCenter(registry: Registry, entity: Entity): THREE.Vector3 | undefined {
+  return registry.getComponent(entity, Transform)?.position;
+}
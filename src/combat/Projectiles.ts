@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { FactionName, MeshRef, Projectile, Tag, Transform, Velocity, createTransform } from '../ecs/Components';
+import { sharedResources } from '../core/ResourceCache';
+
+/**
+ * Projectile tuning shared by every shooter
+ */
+export interface ProjectileSpec {
+  damage: number;
+  speed: number;
+  radius: number;
+  lifetime: number;
+  knockback: number;
+  color: THREE.ColorRepresentation;
+}
+
+/**
+ * Spawn a projectile entity travelling along `direction`
+ */
+export function spawnProjectile(
+  registry: Registry,
+  scene: THREE.Scene,
+  owner: Entity,
+  team: FactionName,
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  spec: ProjectileSpec
+): Entity {
+  // Shared by every projectile with the same look
+  const geometry = sharedResources.geometry(`projectile:${spec.radius}`, () => new THREE.SphereGeometry(spec.radius, 8, 8));
+  const colorKey = new THREE.Color(spec.color).getHexString();
+  const material = sharedResources.material(`projectile:${colorKey}`, () => new THREE.MeshBasicMaterial({ color: spec.color }));
+  
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.copy(origin);
+  scene.add(mesh);
+  
+  const projectile = registry.createEntity();
+  registry.addComponent(projectile, Tag, { name: 'projectile' });
+  registry.addComponent(projectile, Transform, createTransform(origin));
+  registry.addComponent(projectile, Velocity, {
+    linear: direction.clone().normalize().multiplyScalar(spec.speed),
+    damping: 1
+  });
+  registry.addComponent(projectile, MeshRef, { object: mesh });
+  registry.addComponent(projectile, Projectile, {
+    owner,
+    team,
+    damage: spec.damage,
+    knockback: spec.knockback,
+    radius: spec.radius,
+    lifetime: spec.lifetime
+  });
+  
+  return projectile;
+}
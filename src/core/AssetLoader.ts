@@ -1,25 +1,95 @@
 import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { AssetBundle, AssetEntry, DEFAULT_ASSET_WEIGHTS, ModelAssetEntry, TextureAssetEntry } from './assets/AssetManifest';
+import { ResourceCache } from './ResourceCache';
+import { generateGradient } from './procedural/TextureGenerators';
+
+/**
+ * A loaded glTF scene and its animation clips
+ */
+export interface ModelData {
+  scene: THREE.Group;
+  animations: THREE.AnimationClip[];
+}
+
+/**
+ * A copy of a model with its own skeleton, ready to add to the scene
+ */
+export interface ModelInstance {
+  root: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+}
+
+type LoadedAsset =
+  | { type: 'texture'; texture: THREE.Texture; fallback: boolean }
+  | { type: 'model'; model: ModelData };
+
+/**
+ * How far a preload has got
+ */
+export interface PreloadProgress {
+  /** Weighted share of the bundle loaded, 0 to 1 */
+  fraction: number;
+  /** File that last finished or failed, including files a model pulls in */
+  url: string;
+}
+
+/**
+ * An asset that failed to preload
+ */
+export interface AssetFailure {
+  name: string;
+  entry: AssetEntry;
+  error: string;
+}
+
+export interface PreloadResult {
+  failed: AssetFailure[];
+}
 
 /**
  * Asset loader utility for managing game resources
  * Provides centralized loading for textures, models, and other assets
+ * Assets are looked up by their manifest name or URL; each load takes a reference that `release` hands back
  */
 export class AssetLoader {
   private textureLoader: THREE.TextureLoader;
+  private gltfLoader: GLTFLoader;
+  private dracoLoader: DRACOLoader | null;
+  private ktx2Loader: KTX2Loader | null;
   private loadingManager: THREE.LoadingManager;
-  private loadedAssets: Map<string, any>;
+  private loadedAssets: Map<string, LoadedAsset>;
+  private names: Map<string, string>;
+  private references: Map<string, number>;
+  // Failed assets the game carries on without
+  private missing: Set<string>;
+  // Geometry and materials shared by every instance of a model
+  private modelResources: ResourceCache;
+  // One per preload in flight, told about every file the loading manager finishes or fails
+  private fileListeners: Set<(url: string) => void>;
 
   constructor() {
     this.loadedAssets = new Map();
-    
+    this.names = new Map();
+    this.references = new Map();
+    this.missing = new Set();
+    this.modelResources = new ResourceCache();
+    this.fileListeners = new Set();
+    this.dracoLoader = null;
+    this.ktx2Loader = null;
+
     // Create loading manager with callbacks
     this.loadingManager = new THREE.LoadingManager(
       this.onLoadComplete.bind(this),
       this.onProgress.bind(this),
       this.onError.bind(this)
     );
-    
+
     this.textureLoader = new THREE.TextureLoader(this.loadingManager);
+    this.gltfLoader = new GLTFLoader(this.loadingManager);
   }
 
   private onLoadComplete(): void {
@@ -29,26 +99,162 @@ export class AssetLoader {
   private onProgress(url: string, loaded: number, total: number): void {
     const progress = (loaded / total) * 100;
     console.log(`Loading: ${progress.toFixed(2)}% - ${url}`);
+    this.fileListeners.forEach(listener => listener(url));
   }
 
   private onError(url: string): void {
     console.error(`Error loading asset: ${url}`);
+    this.fileListeners.forEach(listener => listener(url));
+  }
+
+  /**
+   * Decode Draco-compressed meshes, with the decoder files served from `decoderPath`
+   */
+  public useDraco(decoderPath: string): void {
+    this.dracoLoader?.dispose();
+    this.dracoLoader = new DRACOLoader(this.loadingManager).setDecoderPath(decoderPath);
+    this.gltfLoader.setDRACOLoader(this.dracoLoader);
+  }
+
+  /**
+   * Load KTX2 textures, standalone and inside models, with the Basis transcoder served from `transcoderPath`
+   * The renderer decides which GPU formats to transcode to
+   */
+  public useKTX2(transcoderPath: string, renderer: THREE.WebGLRenderer): void {
+    this.ktx2Loader?.dispose();
+    this.ktx2Loader = new KTX2Loader(this.loadingManager).setTranscoderPath(transcoderPath).detectSupport(renderer);
+    this.gltfLoader.setKTX2Loader(this.ktx2Loader);
+  }
+
+  /**
+   * Load every asset of a bundle that isn't loaded yet, reporting weighted progress
+   * Failures don't reject; they are returned so the caller can retry them or fall back
+   */
+  public async preload(bundle: AssetBundle, onProgress?: (progress: PreloadProgress) => void): Promise<PreloadResult> {
+    const pending = Object.entries(bundle).filter(([name, entry]) => {
+      this.names.set(name, entry.url);
+      return !this.loadedAssets.has(entry.url) && !this.missing.has(entry.url);
+    });
+
+    const weightOf = (entry: AssetEntry) => entry.weight ?? DEFAULT_ASSET_WEIGHTS[entry.type];
+    const totalWeight = pending.reduce((sum, [, entry]) => sum + weightOf(entry), 0);
+    const loaded = new Map<AssetEntry, number>();
+    let lastUrl = '';
+    const report = () => {
+      let weight = 0;
+      loaded.forEach((fraction, entry) => { weight += weightOf(entry) * fraction; });
+      onProgress?.({ fraction: totalWeight > 0 ? weight / totalWeight : 1, url: lastUrl });
+    };
+
+    // The loading manager sees every file, including the buffers and textures a model pulls in
+    // Preloads running side by side each keep reporting until their own bundle is done
+    const onFileDone = (url: string) => {
+      lastUrl = url;
+      report();
+    };
+    this.fileListeners.add(onFileDone);
+
+    const failed: AssetFailure[] = [];
+    await Promise.all(pending.map(async ([name, entry]) => {
+      try {
+        const asset = await this.loadEntry(entry, (fraction) => {
+          loaded.set(entry, fraction);
+          report();
+        });
+        this.loadedAssets.set(entry.url, asset);
+        this.references.set(entry.url, (this.references.get(entry.url) ?? 0) + 1);
+      } catch (error) {
+        failed.push({ name, entry, error: error instanceof Error ? error.message : String(error) });
+      }
+      loaded.set(entry, 1);
+      report();
+    }));
+
+    this.fileListeners.delete(onFileDone);
+    report();
+    return { failed };
+  }
+
+  /**
+   * Stand in for failed assets: textures become a checkerboard, models stay missing
+   * so whatever uses them keeps its built-in look
+   */
+  public useFallbacks(failures: AssetFailure[]): void {
+    failures.forEach(({ name, entry }) => {
+      this.names.set(name, entry.url);
+      if (entry.type === 'texture' && !this.loadedAssets.has(entry.url)) {
+        this.loadedAssets.set(entry.url, { type: 'texture', texture: createFallbackTexture(entry), fallback: true });
+        this.references.set(entry.url, 1);
+      } else if (entry.type === 'model') {
+        this.missing.add(entry.url);
+      }
+    });
+  }
+
+  /**
+   * Whether every asset of a bundle is loaded or was given up on
+   */
+  public hasBundle(bundle: AssetBundle): boolean {
+    return Object.values(bundle).every(entry => this.loadedAssets.has(entry.url) || this.missing.has(entry.url));
+  }
+
+  private async loadEntry(entry: AssetEntry, onProgress: (fraction: number) => void): Promise<LoadedAsset> {
+    switch (entry.type) {
+      case 'texture':
+        return { type: 'texture', texture: await this.loadTextureEntry(entry), fallback: false };
+      case 'model':
+        return { type: 'model', model: await this.loadModelEntry(entry, onProgress) };
+    }
+  }
+
+  private async loadTextureEntry(entry: TextureAssetEntry): Promise<THREE.Texture> {
+    let texture: THREE.Texture;
+    if (entry.url.endsWith('.ktx2')) {
+      if (!this.ktx2Loader) {
+        throw new Error(`${entry.url}: KTX2 textures need useKTX2() first`);
+      }
+      texture = await this.ktx2Loader.loadAsync(entry.url);
+    } else {
+      texture = await this.textureLoader.loadAsync(entry.url);
+    }
+
+    texture.colorSpace = (entry.srgb ?? true) ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+    if (entry.repeat) {
+      texture.wrapS = THREE.RepeatWrapping;
+      texture.wrapT = THREE.RepeatWrapping;
+      texture.repeat.fromArray(entry.repeat);
+    }
+    return texture;
+  }
+
+  private async loadModelEntry(entry: ModelAssetEntry, onProgress: (fraction: number) => void): Promise<ModelData> {
+    const gltf = await this.gltfLoader.loadAsync(entry.url, (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        // Parsing still follows the download, so stop just short of done
+        onProgress(Math.min(event.loaded / event.total, 0.95));
+      }
+    });
+    return { scene: gltf.scene, animations: gltf.animations };
   }
 
   /**
    * Load a texture from URL
+   * Every call takes a reference; hand it back with `release` once done with the texture
    */
   public async loadTexture(url: string): Promise<THREE.Texture> {
     // Check if already loaded
-    if (this.loadedAssets.has(url)) {
-      return this.loadedAssets.get(url);
+    const loaded = this.loadedAssets.get(url);
+    if (loaded?.type === 'texture') {
+      this.references.set(url, (this.references.get(url) ?? 0) + 1);
+      return loaded.texture;
     }
 
     return new Promise((resolve, reject) => {
       this.textureLoader.load(
         url,
         (texture) => {
-          this.loadedAssets.set(url, texture);
+          this.loadedAssets.set(url, { type: 'texture', texture, fallback: false });
+          this.references.set(url, (this.references.get(url) ?? 0) + 1);
           resolve(texture);
         },
         undefined,
@@ -68,40 +274,134 @@ export class AssetLoader {
     width: number = 256,
     height: number = 256
   ): THREE.DataTexture {
-    const size = width * height;
-    const data = new Uint8Array(4 * size);
-
-    for (let i = 0; i < height; i++) {
-      const t = i / height;
-      const r = Math.floor(color1.r * 255 * (1 - t) + color2.r * 255 * t);
-      const g = Math.floor(color1.g * 255 * (1 - t) + color2.g * 255 * t);
-      const b = Math.floor(color1.b * 255 * (1 - t) + color2.b * 255 * t);
-
-      for (let j = 0; j < width; j++) {
-        const stride = (i * width + j) * 4;
-        data[stride] = r;
-        data[stride + 1] = g;
-        data[stride + 2] = b;
-        data[stride + 3] = 255;
-      }
-    }
-
+    const { data } = generateGradient(color1, color2, width, height);
     const texture = new THREE.DataTexture(data, width, height);
     texture.needsUpdate = true;
     return texture;
   }
 
+
+  /**
+   * Get a loaded texture, or its fallback, by manifest name or URL
+   */
+  public getTexture(key: string): THREE.Texture | undefined {
+    const asset = this.loadedAssets.get(this.names.get(key) ?? key);
+    return asset?.type === 'texture' ? asset.texture : undefined;
+  }
+
   /**
-   * Get a loaded asset by URL
+   * Get a loaded model by manifest name or URL
    */
-  public getAsset(url: string): any {
-    return this.loadedAssets.get(url);
+  public getModel(key: string): ModelData | undefined {
+    const asset = this.loadedAssets.get(this.names.get(key) ?? key);
+    return asset?.type === 'model' ? asset.model : undefined;
   }
 
   /**
-   * Clear all loaded assets
+   * Copy a loaded model for one character, or null if it isn't loaded
+   * Copies get their own skeleton but share geometry and materials, which are freed
+   * once the last copy is disposed
+   */
+  public instantiateModel(key: string): ModelInstance | null {
+    const url = this.names.get(key) ?? key;
+    const model = this.getModel(url);
+    if (!model) return null;
+
+    const root = cloneSkinned(model.scene);
+    root.traverse(object => {
+      if (!(object instanceof THREE.Mesh)) return;
+      const geometry = object.geometry as THREE.BufferGeometry;
+      object.geometry = this.modelResources.geometry(`${url}#${geometry.uuid}`, () => geometry);
+      object.material = Array.isArray(object.material)
+        ? object.material.map(material => this.shareMaterial(url, material))
+        : this.shareMaterial(url, object.material);
+      object.castShadow = true;
+    });
+    return { root, animations: model.animations };
+  }
+
+  private shareMaterial(url: string, material: THREE.Material): THREE.Material {
+    return this.modelResources.material(`${url}#${material.uuid}`, () => material);
+  }
+
+  /**
+   * Drop a reference to a loaded asset, disposing it when it was the last one
+   */
+  public release(url: string): void {
+    const count = this.references.get(url);
+    if (count === undefined) return;
+    if (count > 1) {
+      this.references.set(url, count - 1);
+      return;
+    }
+
+    disposeAsset(this.loadedAssets.get(url)!);
+    this.loadedAssets.delete(url);
+    this.references.delete(url);
+  }
+
+  /**
+   * Dispose and forget all loaded assets, whoever still references them
    */
   public clear(): void {
+    this.loadedAssets.forEach(asset => disposeAsset(asset));
     this.loadedAssets.clear();
+    this.references.clear();
+    this.missing.clear();
+    this.modelResources.clear();
+  }
+
+  /**
+   * Free every asset and the decoders
+   */
+  public dispose(): void {
+    this.clear();
+    this.dracoLoader?.dispose();
+    this.ktx2Loader?.dispose();
   }
 }
+
+/**
+ * Free an asset's GPU resources
+ */
+function disposeAsset(asset: LoadedAsset): void {
+  if (asset.type === 'texture') {
+    asset.texture.dispose();
+    return;
+  }
+
+  asset.model.scene.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    object.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    materials.forEach(material => {
+      Object.values(material).forEach(value => {
+        if (value instanceof THREE.Texture) value.dispose();
+      });
+      material.dispose();
+    });
+  });
+}
+
+/**
+ * Checkerboard in the entry's fallback color, loud enough to spot a missing texture
+ */
+function createFallbackTexture(entry: TextureAssetEntry): THREE.DataTexture {
+  const size = 8;
+  const color = new THREE.Color(entry.fallback ?? '#ff00ff');
+  const data = new Uint8Array(4 * size * size);
+  for (let i = 0; i < size * size; i++) {
+    const lit = (Math.floor(i / size) + i) % 2 === 0;
+    data[i * 4] = lit ? Math.round(color.r * 255) : 0;
+    data[i * 4 + 1] = lit ? Math.round(color.g * 255) : 0;
+    data[i * 4 + 2] = lit ? Math.round(color.b * 255) : 0;
+    data[i * 4 + 3] = 255;
+  }
+
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.magFilter = THREE.NearestFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.needsUpdate = true;
+  return texture;
+}
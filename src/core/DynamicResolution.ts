@@ -0,0 +1,93 @@
+export interface DynamicResolutionSettings {
+  targetFps: number;
+  /** Lowest fraction of the full resolution rendered at */
+  minScale: number;
+  /** Resolution change per adjustment */
+  step: number;
+  /** Seconds of frames averaged before each adjustment */
+  interval: number;
+  /** Frame rate as a fraction of the target below which resolution drops */
+  lowerThreshold: number;
+  /** Frame rate as a fraction of the target at or above which resolution may recover */
+  raiseThreshold: number;
+  /** Good intervals in a row before raising resolution, so it doesn't see-saw around the limit */
+  raiseAfter: number;
+}
+
+export const DEFAULT_DYNAMIC_RESOLUTION_SETTINGS: DynamicResolutionSettings = {
+  targetFps: 60,
+  minScale: 0.5,
+  step: 0.1,
+  interval: 0.5,
+  lowerThreshold: 0.9,
+  raiseThreshold: 0.97,
+  raiseAfter: 3
+};
+
+/**
+ * Picks a render resolution scale that holds a target frame rate
+ * Fed frame times, it drops resolution quickly when frames run long and raises it slowly once they
+ * keep up; the frame rate can't exceed the display's refresh, so recovering is judged against the target
+ */
+export class DynamicResolution {
+  private settings: DynamicResolutionSettings;
+  private scale: number;
+  private elapsed: number;
+  private frames: number;
+  private goodIntervals: number;
+
+  constructor(settings: Partial<DynamicResolutionSettings> = {}) {
+    this.settings = { ...DEFAULT_DYNAMIC_RESOLUTION_SETTINGS, ...settings };
+    this.scale = 1;
+    this.elapsed = 0;
+    this.frames = 0;
+    this.goodIntervals = 0;
+  }
+
+  /**
+   * Count a frame; returns true when the scale changed
+   */
+  public update(frameDelta: number): boolean {
+    this.elapsed += frameDelta;
+    this.frames++;
+    if (this.elapsed < this.settings.interval) return false;
+    
+    const { targetFps, minScale, step, lowerThreshold, raiseThreshold, raiseAfter } = this.settings;
+    const fps = this.frames / this.elapsed;
+    this.elapsed = 0;
+    this.frames = 0;
+    
+    const previous = this.scale;
+    if (fps < targetFps * lowerThreshold) {
+      this.goodIntervals = 0;
+      this.scale = Math.max(minScale, this.scale - step);
+    } else if (fps >= targetFps * raiseThreshold && ++this.goodIntervals >= raiseAfter) {
+      this.goodIntervals = 0;
+      this.scale = Math.min(1, this.scale + step);
+    }
+    // Keep steps exact so repeated adjustments land on the same scales
+    this.scale = Math.round(this.scale * 100) / 100;
+    return this.scale !== previous;
+  }
+
+  /**
+   * Fraction of the full resolution to render at
+   */
+  public getScale(): number {
+    return this.scale;
+  }
+
+  public setTargetFps(fps: number): void {
+    this.settings.targetFps = fps;
+  }
+
+  /**
+   * Go back to full resolution and forget the frames measured so far
+   */
+  public reset(): void {
+    this.scale = 1;
+    this.elapsed = 0;
+    this.frames = 0;
+    this.goodIntervals = 0;
+  }
+}
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { Entity } from '../ecs/Registry';
+import { ChunkEvent } from '../levels/ChunkStreamer';
+
+/**
+ * Damage was applied to an entity
+ */
+export interface DamageEvent {
+  target: Entity;
+  source: Entity | null;
+  amount: number;
+  remaining: number;
+  position: THREE.Vector3;
+}
+
+/**
+ * An entity's health reached zero
+ */
+export interface DeathEvent {
+  entity: Entity;
+  tag?: string;
+  position: THREE.Vector3;
+}
+
+/**
+ * Someone attacked, whether or not it hit
+ */
+export interface AttackEvent {
+  attacker: Entity;
+  kind: 'melee' | 'ranged' | 'enemy';
+  position: THREE.Vector3;
+}
+
+/**
+ * A sound enemies can hear within `radius`
+ */
+export interface NoiseEvent {
+  source: Entity;
+  position: THREE.Vector3;
+  radius: number;
+  kind: 'footstep' | 'melee' | 'gunfire';
+}
+
+/**
+ * The player crossed into or out of a level trigger volume
+ */
+export interface TriggerEvent {
+  name: string;
+  entity: Entity;
+  entered: boolean;
+  message?: string;
+  loadLevel?: string;
+}
+
+/**
+ * Gameplay events published by simulation systems
+ */
+export interface GameEvents {
+  damage: DamageEvent;
+  death: DeathEvent;
+  attack: AttackEvent;
+  noise: NoiseEvent;
+  playerRespawn: { entity: Entity; livesLeft: number };
+  gameOver: { entity: Entity };
+  trigger: TriggerEvent;
+  levelLoaded: { name: string };
+  /** A trigger asked for a level that could not be loaded */
+  levelFailed: { name: string; error: string };
+  chunkLoaded: ChunkEvent;
+  chunkUnloaded: ChunkEvent;
+}
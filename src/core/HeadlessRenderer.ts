@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+import { GameRenderer } from './Renderer';
+
+/**
+ * No-op renderer for running the simulation without WebGL
+ * Still updates world matrices so raycasts and bounds stay correct
+ */
+export class HeadlessRenderer implements GameRenderer {
+  private scene: THREE.Scene;
+  private frameCount: number;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.frameCount = 0;
+  }
+
+  /**
+   * "Render" the scene - only refreshes matrices
+   */
+  public render(): void {
+    this.scene.updateMatrixWorld();
+    this.frameCount++;
+  }
+
+  public resize(): void {
+    // Nothing to resize without a canvas
+  }
+
+  public dispose(): void {
+    this.frameCount = 0;
+  }
+
+  /**
+   * Get number of frames rendered
+   */
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+}
@@ -0,0 +1,94 @@
+import { World } from '../scenes/World';
+import { DynamicResolution } from './DynamicResolution';
+import { Renderer } from './Renderer';
+import {
+  QUALITY_LEVELS,
+  QUALITY_PRESETS,
+  QualityLevel,
+  QualitySettings,
+  loadQualitySettings,
+  saveQualitySettings
+} from './QualitySettings';
+
+/**
+ * Applies the player's quality settings to the renderer and world and keeps them between sessions
+ * In auto mode it also scales render resolution each frame to hold the target frame rate
+ */
+export class QualityManager {
+  private renderer: Renderer;
+  private world: World;
+  private settings: QualitySettings;
+  private resolution: DynamicResolution;
+
+  constructor(renderer: Renderer, world: World, settings: QualitySettings = loadQualitySettings()) {
+    this.renderer = renderer;
+    this.world = world;
+    this.settings = { ...settings };
+    this.resolution = new DynamicResolution({ targetFps: settings.targetFps });
+    this.apply();
+  }
+
+  /**
+   * Switch to a preset and remember it
+   */
+  public setLevel(level: QualityLevel): void {
+    this.settings.level = level;
+    this.apply();
+    saveQualitySettings(this.settings);
+  }
+
+  /**
+   * Move to the next preset, wrapping from ultra back to low
+   */
+  public cycleLevel(): QualityLevel {
+    const index = QUALITY_LEVELS.indexOf(this.settings.level);
+    this.setLevel(QUALITY_LEVELS[(index + 1) % QUALITY_LEVELS.length]);
+    return this.settings.level;
+  }
+
+  /**
+   * Turn dynamic resolution on or off and remember it; off renders at the preset's full resolution
+   */
+  public setAuto(auto: boolean): void {
+    this.settings.auto = auto;
+    this.resolution.reset();
+    this.renderer.setResolutionScale(1);
+    saveQualitySettings(this.settings);
+  }
+
+  public setTargetFps(fps: number): void {
+    this.settings.targetFps = fps;
+    this.resolution.setTargetFps(fps);
+    saveQualitySettings(this.settings);
+  }
+
+  /**
+   * Feed the last frame's time to dynamic resolution; call once per frame
+   */
+  public update(frameDelta: number): void {
+    if (!this.settings.auto) return;
+    if (this.resolution.update(frameDelta)) {
+      this.renderer.setResolutionScale(this.resolution.getScale());
+    }
+  }
+
+  public getSettings(): Readonly<QualitySettings> {
+    return this.settings;
+  }
+
+  /**
+   * Fraction of the preset's resolution currently rendered at
+   */
+  public getResolutionScale(): number {
+    return this.renderer.getResolutionScale();
+  }
+
+  private apply(): void {
+    const preset = QUALITY_PRESETS[this.settings.level];
+    this.renderer.setQuality(preset);
+    this.world.setQuality(preset);
+    // A new preset changes what each frame costs, so measure again from full resolution
+    this.resolution.reset();
+    this.renderer.setResolutionScale(1);
+  }
+}
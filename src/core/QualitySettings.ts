@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { EffectName } from './postprocessing/Effects';
+
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+/**
+ * What a quality level spends the GPU on
+ */
+export interface QualityPreset {
+  /** Highest device pixel ratio rendered at; dynamic resolution scales down from it */
+  pixelRatio: number;
+  /** MSAA samples of the scene render; 0 turns antialiasing off */
+  samples: number;
+  shadows: boolean;
+  shadowType: THREE.ShadowMapType;
+  /** Multiplies the shadow map sizes levels ask for */
+  shadowMapScale: number;
+  /** Point lights casting shadows at once; the nearest of those a level asks for win */
+  maxShadowLights: number;
+  /** Point lights lit at once; the nearest win */
+  maxLights: number;
+  /** Ground reflection resolution as a fraction of the screen's; 0 turns reflections off */
+  reflections: number;
+  /** Environment map captured from the scene on metallic materials */
+  environmentMap: boolean;
+  /** Light probe baked from emissive neon and the sky */
+  lightProbes: boolean;
+  /** Effects forced on or off; the rest are left as the player set them */
+  effects: Partial<Record<EffectName, boolean>>;
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: {
+    pixelRatio: 1,
+    samples: 0,
+    shadows: false,
+    shadowType: THREE.BasicShadowMap,
+    shadowMapScale: 0.5,
+    maxShadowLights: 0,
+    maxLights: 3,
+    reflections: 0,
+    environmentMap: false,
+    lightProbes: false,
+    effects: { atmosphere: false, bloom: false, depthOfField: false, chromaticAberration: false, grain: false }
+  },
+  medium: {
+    pixelRatio: 1.25,
+    samples: 2,
+    shadows: true,
+    shadowType: THREE.PCFShadowMap,
+    shadowMapScale: 0.5,
+    maxShadowLights: 1,
+    maxLights: 4,
+    reflections: 0,
+    environmentMap: true,
+    lightProbes: true,
+    effects: { atmosphere: true, bloom: true, depthOfField: false, chromaticAberration: false, grain: false }
+  },
+  high: {
+    pixelRatio: 2,
+    samples: 4,
+    shadows: true,
+    shadowType: THREE.PCFSoftShadowMap,
+    shadowMapScale: 1,
+    maxShadowLights: 4,
+    maxLights: 6,
+    reflections: 0.5,
+    environmentMap: true,
+    lightProbes: true,
+    effects: { atmosphere: true, bloom: true, chromaticAberration: true, grain: true }
+  },
+  ultra: {
+    pixelRatio: 3,
+    samples: 8,
+    shadows: true,
+    shadowType: THREE.PCFSoftShadowMap,
+    shadowMapScale: 2,
+    maxShadowLights: 8,
+    maxLights: 10,
+    reflections: 1,
+    environmentMap: true,
+    lightProbes: true,
+    effects: { atmosphere: true, bloom: true, chromaticAberration: true, grain: true }
+  }
+};
+
+/**
+ * The player's choice of quality, as kept between sessions
+ */
+export interface QualitySettings {
+  level: QualityLevel;
+  /** Scale render resolution to hold `targetFps` */
+  auto: boolean;
+  targetFps: number;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  level: 'high',
+  auto: true,
+  targetFps: 60
+};
+
+const STORAGE_KEY = 'neon-megastructure.quality';
+
+/**
+ * Read the saved settings, falling back to the defaults for anything missing or invalid
+ * Storage can be unavailable, e.g. with cookies blocked, in which case nothing is remembered
+ */
+export function loadQualitySettings(storage: Storage | null = getStorage()): QualitySettings {
+  let saved: Partial<QualitySettings> = {};
+  try {
+    saved = JSON.parse(storage?.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    // Unreadable settings are as good as none
+  }
+  
+  return {
+    level: QUALITY_LEVELS.includes(saved.level as QualityLevel) ? saved.level as QualityLevel : DEFAULT_QUALITY_SETTINGS.level,
+    auto: typeof saved.auto === 'boolean' ? saved.auto : DEFAULT_QUALITY_SETTINGS.auto,
+    targetFps: typeof saved.targetFps === 'number' && saved.targetFps > 0 ? saved.targetFps : DEFAULT_QUALITY_SETTINGS.targetFps
+  };
+}
+
+export function saveQualitySettings(settings: QualitySettings, storage: Storage | null = getStorage()): void {
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Full or blocked storage only costs remembering the choice
+  }
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
@@ -1,32 +1,76 @@
 import * as THREE from 'three';
+import { PostProcessingSettings, PostProcessingStack } from './postprocessing/PostProcessingStack';
+import { EffectName } from './postprocessing/Effects';
+import { EnvironmentProbe } from './lighting/EnvironmentProbe';
+import { QUALITY_PRESETS, QualityPreset } from './QualitySettings';
+
+/**
+ * Minimal rendering contract the game loop depends on
+ * Lets the simulation run against a no-op backend without WebGL
+ */
+export interface GameRenderer {
+  render(): void;
+  resize(): void;
+  dispose(): void;
+}
+
+/**
+ * What the last frame cost the GPU
+ */
+export interface RenderStats {
+  /** Draw calls across every pass, post-processing included */
+  drawCalls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+}
 
 /**
  * Core renderer class for the cinematic game engine
  * Handles WebGL rendering setup and configuration
  */
-export class Renderer {
+export class Renderer implements GameRenderer {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.Camera;
+  private postProcessing: PostProcessingStack;
+  private environment: EnvironmentProbe;
+  private quality: QualityPreset;
+  // Fraction of the quality's pixel ratio rendered at, lowered by dynamic resolution
+  private resolutionScale: number;
 
-  constructor(scene: THREE.Scene, camera: THREE.Camera) {
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    postProcessing: Partial<PostProcessingSettings> = {},
+    quality: QualityPreset = QUALITY_PRESETS.high
+  ) {
     this.scene = scene;
     this.camera = camera;
+    this.quality = quality;
+    this.resolutionScale = 1;
     
     // Initialize WebGL renderer with enhanced settings for cinematic quality
+    // Canvas antialiasing is fixed for the context's life, so later quality changes only reach the post-processing target
     this.renderer = new THREE.WebGLRenderer({
-      antialias: true,
+      antialias: quality.samples > 0,
       powerPreference: 'high-performance',
       alpha: true
     });
     
     this.setupRenderer();
+    
+    // Bloom, tone mapping and film effects on top of the scene render
+    this.postProcessing = new PostProcessingStack(this.renderer, scene, camera, { samples: quality.samples, ...postProcessing });
+    // Reflections and neon bounce light captured from the scene
+    this.environment = new EnvironmentProbe(this.renderer, scene);
+    this.setQuality(quality);
   }
 
   private setupRenderer(): void {
-    // Enable shadows for cinematic lighting
-    this.renderer.shadowMap.enabled = true;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    // Shadows follow the quality preset
+    this.renderer.shadowMap.enabled = this.quality.shadows;
+    this.renderer.shadowMap.type = this.quality.shadowType;
     
     // Set output encoding for better color representation
     this.renderer.outputColorSpace = THREE.SRGBColorSpace;
@@ -35,8 +79,11 @@ export class Renderer {
     this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
     this.renderer.toneMappingExposure = 1.0;
     
+    // Count the whole frame, not just the last pass post-processing ran
+    this.renderer.info.autoReset = false;
+    
     // Set pixel ratio for crisp rendering
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    this.renderer.setPixelRatio(this.getPixelRatio());
     
     // Set initial size
     this.resize();
@@ -52,7 +99,9 @@ export class Renderer {
     const width = window.innerWidth;
     const height = window.innerHeight;
     
+    this.renderer.setPixelRatio(this.getPixelRatio());
     this.renderer.setSize(width, height);
+    this.postProcessing?.setSize(width, height);
     
     // Update camera aspect if it's a perspective camera
     if (this.camera instanceof THREE.PerspectiveCamera) {
@@ -62,10 +111,81 @@ export class Renderer {
   }
 
   /**
-   * Render the scene
+   * Switch quality without recreating the renderer: shadows, pixel ratio, antialiasing, costly effects
+   * and image-based lighting
+   */
+  public setQuality(quality: QualityPreset): void {
+    const shadowsChanged = this.renderer.shadowMap.enabled !== quality.shadows || this.renderer.shadowMap.type !== quality.shadowType;
+    this.quality = quality;
+    this.renderer.shadowMap.enabled = quality.shadows;
+    this.renderer.shadowMap.type = quality.shadowType;
+    if (shadowsChanged) {
+      // Lit materials compile their shadow sampling in, so they must be rebuilt
+      this.scene.traverse(object => {
+        const material = (object as THREE.Mesh).material;
+        if (!material) return;
+        (Array.isArray(material) ? material : [material]).forEach(each => { each.needsUpdate = true; });
+      });
+    }
+    
+    this.postProcessing.setSamples(quality.samples);
+    for (const [name, enabled] of Object.entries(quality.effects) as [EffectName, boolean][]) {
+      this.postProcessing.setEnabled(name, enabled);
+    }
+    this.environment.configure({ environment: quality.environmentMap, irradiance: quality.lightProbes });
+    this.resize();
+  }
+
+  public getQuality(): QualityPreset {
+    return this.quality;
+  }
+
+  /**
+   * Render at a fraction of the quality's resolution, e.g. from dynamic resolution
+   */
+  public setResolutionScale(scale: number): void {
+    if (scale === this.resolutionScale) return;
+    this.resolutionScale = scale;
+    this.resize();
+  }
+
+  public getResolutionScale(): number {
+    return this.resolutionScale;
+  }
+
+  /**
+   * Render the scene through the post-processing chain
    */
   public render(): void {
-    this.renderer.render(this.scene, this.camera);
+    this.renderer.info.reset();
+    this.postProcessing.render();
+  }
+
+  /**
+   * Draw calls and triangles of the last frame, and the GPU resources alive
+   */
+  public getStats(): RenderStats {
+    const { render, memory } = this.renderer.info;
+    return {
+      drawCalls: render.calls,
+      triangles: render.triangles,
+      geometries: memory.geometries,
+      textures: memory.textures
+    };
+  }
+
+  /**
+   * Get the post-processing chain to toggle and tune effects
+   */
+  public getPostProcessing(): PostProcessingStack {
+    return this.postProcessing;
+  }
+
+  /**
+   * Get the environment map and light probe captured around the player
+   */
+  public getEnvironment(): EnvironmentProbe {
+    return this.environment;
   }
 
   /**
@@ -75,10 +195,16 @@ export class Renderer {
     return this.renderer;
   }
 
+  private getPixelRatio(): number {
+    return Math.min(window.devicePixelRatio, this.quality.pixelRatio) * this.resolutionScale;
+  }
+
   /**
    * Clean up resources
    */
   public dispose(): void {
+    this.environment.dispose();
+    this.postProcessing.dispose();
     this.renderer.dispose();
     this.renderer.domElement.remove();
   }
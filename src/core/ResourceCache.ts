@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+
+type Resource = THREE.BufferGeometry | THREE.Material | THREE.Texture;
+
+// Which cache each shared resource came from, so disposal can hand it back
+const OWNERS = new WeakMap<Resource, ResourceCache>();
+
+/**
+ * Shares geometries, materials and textures between meshes that would otherwise each build identical copies
+ * Resources are keyed by what they look like, e.g. `box:6,10,6`, and reference counted:
+ * every request takes a reference, and a resource is disposed once the last one is released
+ * A material created with cached textures holds one reference to each until it is disposed
+ */
+export class ResourceCache {
+  private geometries: Map<string, THREE.BufferGeometry>;
+  private materials: Map<string, THREE.Material>;
+  private textures: Map<string, THREE.Texture>;
+  private keys: Map<Resource, string>;
+  private references: Map<Resource, number>;
+  private requests: number;
+  private hits: number;
+
+  constructor() {
+    this.geometries = new Map();
+    this.materials = new Map();
+    this.textures = new Map();
+    this.keys = new Map();
+    this.references = new Map();
+    this.requests = 0;
+    this.hits = 0;
+  }
+
+  /**
+   * Take a reference to the geometry for a key, creating it on first use
+   */
+  public geometry<T extends THREE.BufferGeometry>(key: string, create: () => T): T {
+    return this.acquire(this.geometries, key, create);
+  }
+
+  /**
+   * Take a reference to the material for a key, creating it on first use
+   * Shared materials must not be changed per mesh; clone them first
+   */
+  public material<T extends THREE.Material>(key: string, create: () => T): T {
+    return this.acquire(this.materials, key, create);
+  }
+
+  /**
+   * Take a reference to the texture for a key, creating it on first use
+   */
+  public texture<T extends THREE.Texture>(key: string, create: () => T): T {
+    return this.acquire(this.textures, key, create);
+  }
+
+  /**
+   * Drop a reference, disposing the resource when it was the last one
+   */
+  public release(resource: Resource): void {
+    const count = this.references.get(resource);
+    if (count === undefined) return;
+    if (count > 1) {
+      this.references.set(resource, count - 1);
+      return;
+    }
+    
+    const key = this.keys.get(resource)!;
+    if (resource instanceof THREE.BufferGeometry) {
+      this.geometries.delete(key);
+    } else if (resource instanceof THREE.Material) {
+      this.materials.delete(key);
+    } else {
+      this.textures.delete(key);
+    }
+    this.keys.delete(resource);
+    this.references.delete(resource);
+    OWNERS.delete(resource);
+    resource.dispose();
+    
+    if (resource instanceof THREE.Material) {
+      releaseTextures(resource);
+    }
+  }
+
+  /**
+   * Whether a geometry, material or texture is shared through the cache
+   */
+  public owns(resource: Resource): boolean {
+    return this.references.has(resource);
+  }
+
+  /**
+   * Number of live resources and references, and how often a request was served from the cache
+   */
+  public getStats(): { geometries: number; materials: number; textures: number; references: number; requests: number; hits: number } {
+    let references = 0;
+    this.references.forEach(count => { references += count; });
+    return {
+      geometries: this.geometries.size,
+      materials: this.materials.size,
+      textures: this.textures.size,
+      references,
+      requests: this.requests,
+      hits: this.hits
+    };
+  }
+
+  /**
+   * Dispose every resource, referenced or not
+   */
+  public clear(): void {
+    this.keys.forEach((_, resource) => {
+      OWNERS.delete(resource);
+      resource.dispose();
+    });
+    this.geometries.clear();
+    this.materials.clear();
+    this.textures.clear();
+    this.keys.clear();
+    this.references.clear();
+    this.requests = 0;
+    this.hits = 0;
+  }
+
+  private acquire<R extends Resource, T extends R>(store: Map<string, R>, key: string, create: () => T): T {
+    this.requests++;
+    const cached = store.get(key);
+    if (cached) {
+      this.hits++;
+      this.references.set(cached, this.references.get(cached)! + 1);
+      return cached as T;
+    }
+    
+    const resource = create();
+    store.set(key, resource);
+    this.keys.set(resource, key);
+    this.references.set(resource, 1);
+    OWNERS.set(resource, this);
+    return resource;
+  }
+}
+
+/**
+ * Cache for resources that outlive any one level, like enemy and projectile meshes
+ */
+export const sharedResources = new ResourceCache();
+
+/**
+ * Release a geometry, material or texture: shared ones go back to their cache, anything else is disposed
+ * Disposing a material also releases the cached textures it used; other textures are left to their owner
+ */
+export function releaseResource(resource: Resource): void {
+  const owner = OWNERS.get(resource);
+  if (owner) {
+    owner.release(resource);
+    return;
+  }
+  
+  resource.dispose();
+  if (resource instanceof THREE.Material) {
+    releaseTextures(resource);
+  }
+}
+
+/**
+ * Hand back the cached textures a disposed material sampled, including through shader uniforms
+ */
+function releaseTextures(material: THREE.Material): void {
+  const values: unknown[] = Object.values(material);
+  if (material instanceof THREE.ShaderMaterial) {
+    Object.values(material.uniforms).forEach(uniform => values.push(uniform.value));
+  }
+  values.forEach(value => {
+    if (value instanceof THREE.Texture && OWNERS.has(value)) {
+      OWNERS.get(value)!.release(value);
+    }
+  });
+}
+
+/**
+ * Free the GPU resources of everything under an object
+ * Shared geometries and materials are released rather than disposed outright
+ */
+export function disposeObject(root: THREE.Object3D): void {
+  root.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments || object instanceof THREE.Points) {
+      releaseResource(object.geometry);
+      const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+      materials.forEach(material => releaseResource(material));
+    }
+    if (object instanceof THREE.Light) {
+      object.shadow?.map?.dispose();
+    }
+  });
+}
@@ -0,0 +1,339 @@
+import * as THREE from 'three';
+import { World } from '../scenes/World';
+import { Player } from '../characters/Player';
+import { EnemyAI } from '../characters/EnemyAI';
+import { PlayerController } from '../characters/PlayerController';
+import { Registry } from '../ecs/Registry';
+import { SystemManager } from '../ecs/SystemManager';
+import { AIState, Health, Perception, Projectile, RigidBody, Tag, Transform, Velocity } from '../ecs/Components';
+import { despawn } from '../ecs/Lifecycle';
+import { TransformSyncSystem } from '../systems/TransformSyncSystem';
+import { MovementSystem } from '../systems/MovementSystem';
+import { EnemyAISystem } from '../systems/EnemyAISystem';
+import { PerceptionSystem } from '../systems/PerceptionSystem';
+import { NavigationSystem } from '../systems/NavigationSystem';
+import { WorldAnimationSystem } from '../systems/WorldAnimationSystem';
+import { WorldStreamingSystem } from '../systems/WorldStreamingSystem';
+import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { PlayerCombatSystem } from '../systems/PlayerCombatSystem';
+import { ProjectileSystem } from '../systems/ProjectileSystem';
+import { DamageSystem } from '../systems/DamageSystem';
+import { TriggerSystem } from '../systems/TriggerSystem';
+import { InstancingSystem } from '../systems/InstancingSystem';
+import { CharacterAnimationSystem } from '../systems/CharacterAnimationSystem';
+import { ParticleSystem } from '../systems/ParticleSystem';
+import { AtmosphereSystem } from '../systems/AtmosphereSystem';
+import { LevelDefinition } from '../levels/LevelFormat';
+import { DEFAULT_LEVEL, getLevel } from '../levels/Levels';
+import { GameEvents } from './GameEvents';
+import { EventBus } from '../utils/EventBus';
+import { InputSource } from '../utils/InputSource';
+import { AssetLoader } from './AssetLoader';
+
+/**
+ * Serializable state of a single entity
+ */
+export interface EntitySnapshot {
+  id: number;
+  tag?: string;
+  position: [number, number, number];
+  velocity?: [number, number, number];
+  health?: number;
+  grounded?: boolean;
+  aiState?: string;
+  alert?: string;
+}
+
+/**
+ * Serializable state of the whole simulation at a tick
+ */
+export interface SimulationSnapshot {
+  tick: number;
+  time: number;
+  entities: EntitySnapshot[];
+}
+
+/**
+ * Gameplay simulation without any presentation
+ * Owns the world, entities and systems; the browser Game and the headless
+ * runner both drive it one fixed step at a time
+ */
+export class Simulation {
+  private registry: Registry;
+  private systems: SystemManager;
+  private events: EventBus<GameEvents>;
+  private input: InputSource;
+  private world: World;
+  private player: Player;
+  private enemies: EnemyAI[];
+  // Killed this step; freed once the step is over and no system still holds their entities
+  private deadEnemies: EnemyAI[];
+  private playerController: PlayerController;
+  private navigation: NavigationSystem;
+  private pendingLevel: LevelDefinition | null;
+  private levelGate: ((level: LevelDefinition) => boolean) | null;
+  private tick: number;
+  private time: number;
+
+  constructor(input: InputSource, level: LevelDefinition = getLevel(DEFAULT_LEVEL), assets: AssetLoader = new AssetLoader()) {
+    this.registry = new Registry();
+    this.systems = new SystemManager(this.registry);
+    this.events = new EventBus();
+    this.input = input;
+    this.tick = 0;
+    this.time = 0;
+    this.enemies = [];
+    this.deadEnemies = [];
+    this.playerController = new PlayerController(this.input, {}, this.events);
+    this.navigation = new NavigationSystem();
+    this.pendingLevel = null;
+    this.levelGate = null;
+    
+    // Create world scene; its chunk events go out to every system
+    this.world = new World(this.registry, assets);
+    const chunkEvents = this.world.getStreamer().getEvents();
+    chunkEvents.on('chunkLoaded', (event) => this.events.emit('chunkLoaded', event));
+    chunkEvents.on('chunkUnloaded', (event) => this.events.emit('chunkUnloaded', event));
+    
+    // Paths planned around the old set of chunks may now be blocked or needlessly long
+    this.events.on('chunkLoaded', () => this.navigation.invalidate());
+    this.events.on('chunkUnloaded', () => this.navigation.invalidate());
+    
+    // Register gameplay systems - new entity kinds only need a system here
+    this.registerSystems();
+    
+    // Create player, then build the level around it
+    this.player = new Player(
+      this.registry,
+      this.world.getScene(),
+      new THREE.Vector3().fromArray(level.playerSpawn.position),
+      this.world.getAssetLoader()
+    );
+    this.loadLevel(level);
+    
+    // Dead enemies leave the level's enemies at once
+    this.events.on('death', (event) => {
+      const index = this.enemies.findIndex(enemy => enemy.getEntity() === event.entity);
+      if (index >= 0) {
+        this.deadEnemies.push(...this.enemies.splice(index, 1));
+      }
+    });
+    
+    // Level triggers may switch levels; that waits until the step is over
+    this.events.on('trigger', (event) => {
+      if (!event.entered || !event.loadLevel) return;
+      // Thrown from here it would cut the rest of the step short; the current level carries on instead
+      try {
+        this.pendingLevel = getLevel(event.loadLevel);
+      } catch (error) {
+        console.error(error);
+        this.events.emit('levelFailed', { name: event.loadLevel, error: (error as Error).message });
+      }
+    });
+  }
+
+  private registerSystems(): void {
+    this.systems.add(new TransformSyncSystem());
+    this.systems.add(this.playerController);
+    this.systems.add(new PlayerCombatSystem(this.input, this.events, this.world.getScene()));
+    this.systems.add(new WorldStreamingSystem(this.world.getStreamer()));
+    this.systems.add(new AtmosphereSystem(this.world.getAtmosphere()));
+    this.systems.add(new WorldAnimationSystem());
+    this.systems.add(new MovementSystem());
+    this.systems.add(new PerceptionSystem(this.events));
+    this.systems.add(new EnemyAISystem(this.events, this.world.getScene()));
+    this.systems.add(this.navigation);
+    this.systems.add(new ProjectileSystem());
+    this.systems.add(new DamageSystem(this.events));
+    this.systems.add(new PhysicsSystem());
+    this.systems.add(new TriggerSystem(this.events));
+    this.systems.add(new CharacterAnimationSystem());
+    this.systems.add(new InstancingSystem(this.world.getInstances()));
+    this.systems.add(new ParticleSystem(this.registry, this.events, this.world.getParticles()));
+  }
+
+  /**
+   * Replace the current level: rebuild the world, move the player to its spawn and spawn its enemies
+   */
+  public loadLevel(level: LevelDefinition): void {
+    this.unloadLevel();
+    this.world.loadLevel(level);
+    this.player.spawnAt(new THREE.Vector3().fromArray(level.playerSpawn.position));
+    this.world.getParticles().setAmbient(level.ambient ?? [], this.player.getMesh());
+    
+    level.enemies.forEach(({ archetype, position, patrolRoute }) => {
+      this.enemies.push(new EnemyAI(this.registry, this.world.getScene(), new THREE.Vector3().fromArray(position), {
+        archetype,
+        patrolRoute: patrolRoute?.map(point => new THREE.Vector3().fromArray(point))
+      }, this.world.getAssetLoader()));
+    });
+    
+    // Paths planned against the old level are useless
+    this.navigation.invalidate();
+    this.events.emit('levelLoaded', { name: level.name });
+  }
+
+  /**
+   * Remove the current level's enemies, projectiles and scenery; the player stays
+   */
+  private unloadLevel(): void {
+    this.enemies.forEach(enemy => enemy.dispose());
+    this.enemies = [];
+    this.disposeDeadEnemies();
+    this.registry.query(Projectile).forEach(entity => despawn(this.registry, entity));
+    this.world.unloadLevel();
+  }
+
+  /**
+   * Advance gameplay by one fixed simulation step
+   */
+  public step(deltaTime: number): void {
+    this.systems.fixedUpdate(deltaTime);
+    this.disposeDeadEnemies();
+    this.tick++;
+    this.time += deltaTime;
+    
+    // A gated level stays pending and is asked about again next step
+    if (this.pendingLevel && (!this.levelGate || this.levelGate(this.pendingLevel))) {
+      const level = this.pendingLevel;
+      this.pendingLevel = null;
+      this.loadLevel(level);
+    }
+  }
+
+  private disposeDeadEnemies(): void {
+    this.deadEnemies.forEach(enemy => enemy.dispose());
+    this.deadEnemies = [];
+  }
+
+  /**
+   * Hold level switches from triggers until `gate` returns true, e.g. while the level's assets load
+   */
+  public setLevelGate(gate: ((level: LevelDefinition) => boolean) | null): void {
+    this.levelGate = gate;
+  }
+
+  /**
+   * Drop a level switch still waiting at the gate, e.g. when its assets failed to load
+   */
+  public cancelPendingLevel(): void {
+    this.pendingLevel = null;
+  }
+
+  /**
+   * Present the current state, blending between the last two ticks
+   */
+  public render(alpha: number, frameDelta: number): void {
+    this.systems.render(alpha, frameDelta);
+  }
+
+  /**
+   * Remove the level, enemies and player and free the world's GPU resources
+   * The simulation can't be stepped afterwards
+   */
+  public dispose(): void {
+    this.unloadLevel();
+    this.player.dispose();
+    this.world.dispose();
+    this.events.clear();
+  }
+
+  /**
+   * Capture entity state as plain data
+   */
+  public snapshot(): SimulationSnapshot {
+    const entities = this.registry.query(Transform).map(entity => {
+      const transform = this.registry.getComponent(entity, Transform)!;
+      const velocity = this.registry.getComponent(entity, Velocity);
+      const health = this.registry.getComponent(entity, Health);
+      const ai = this.registry.getComponent(entity, AIState);
+      const perception = this.registry.getComponent(entity, Perception);
+      const body = this.registry.getComponent(entity, RigidBody);
+      
+      const snapshot: EntitySnapshot = {
+        id: entity,
+        tag: this.registry.getComponent(entity, Tag)?.name,
+        position: toTuple(transform.position)
+      };
+      if (velocity) snapshot.velocity = toTuple(velocity.linear);
+      if (health) snapshot.health = health.current;
+      if (body) snapshot.grounded = body.grounded;
+      if (ai) snapshot.aiState = ai.state;
+      if (perception) snapshot.alert = perception.alert;
+      return snapshot;
+    });
+    
+    return { tick: this.tick, time: round(this.time), entities };
+  }
+
+  /**
+   * Get the entity registry
+   */
+  public getRegistry(): Registry {
+    return this.registry;
+  }
+
+  /**
+   * Get the system manager
+   */
+  public getSystems(): SystemManager {
+    return this.systems;
+  }
+
+  /**
+   * Get the gameplay event bus
+   */
+  public getEvents(): EventBus<GameEvents> {
+    return this.events;
+  }
+
+  /**
+   * Get the world scene
+   */
+  public getWorld(): World {
+    return this.world;
+  }
+
+  /**
+   * Get the definition of the loaded level
+   */
+  public getLevel(): LevelDefinition {
+    return this.world.getLevel()!;
+  }
+
+  /**
+   * Get the player
+   */
+  public getPlayer(): Player {
+    return this.player;
+  }
+
+  /**
+   * Get the level's living enemies
+   */
+  public getEnemies(): EnemyAI[] {
+    return this.enemies;
+  }
+
+  /**
+   * Get the player controller
+   */
+  public getPlayerController(): PlayerController {
+    return this.playerController;
+  }
+
+  /**
+   * Get number of ticks simulated
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toTuple(vector: THREE.Vector3): [number, number, number] {
+  return [round(vector.x), round(vector.y), round(vector.z)];
+}
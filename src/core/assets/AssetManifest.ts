@@ -0,0 +1,73 @@
+import { LevelDefinition } from '../../levels/LevelFormat';
+
+/**
+ * Image texture, or a KTX2 texture once the loader has a transcoder
+ */
+export interface TextureAssetEntry {
+  type: 'texture';
+  url: string;
+  /** Share of the bundle's progress bar; defaults by type */
+  weight?: number;
+  /** Color textures are sRGB; turn off for normal, roughness and other data maps. Defaults to true */
+  srgb?: boolean;
+  /** Tile the texture this many times across a surface */
+  repeat?: [number, number];
+  /** Color of the checkerboard that stands in if the texture fails to load */
+  fallback?: string;
+  /** Optional assets fall back silently instead of stopping the game to ask */
+  optional?: boolean;
+}
+
+/**
+ * glTF or GLB model with its animation clips
+ */
+export interface ModelAssetEntry {
+  type: 'model';
+  url: string;
+  weight?: number;
+  optional?: boolean;
+}
+
+export type AssetEntry = TextureAssetEntry | ModelAssetEntry;
+
+/**
+ * Assets loaded together, by the name the game looks them up with
+ */
+export type AssetBundle = Record<string, AssetEntry>;
+
+/**
+ * Every asset the game loads, grouped by when it is needed
+ */
+export interface AssetManifest {
+  /** Loaded before the game starts */
+  core: AssetBundle;
+  /** Loaded before a level using the bundle is first played */
+  levels: Record<string, AssetBundle>;
+}
+
+/**
+ * Share of the progress bar per asset type, for entries without a weight
+ * Models are usually much bigger than textures
+ */
+export const DEFAULT_ASSET_WEIGHTS: Record<AssetEntry['type'], number> = {
+  texture: 1,
+  model: 5
+};
+
+/**
+ * The game's assets
+ * Characters look for `player`, `enemy:<archetype>` and `enemy` models and keep their built-in
+ * meshes when none loaded. No models ship yet; once one is in `public/assets/models/`, list it in `core`, e.g.
+ * `player: { type: 'model', url: 'assets/models/player.glb' }`
+ */
+export const GAME_MANIFEST: AssetManifest = {
+  core: {},
+  levels: {}
+};
+
+/**
+ * Assets a level needs beyond the core bundle
+ */
+export function getLevelBundle(manifest: AssetManifest, level: LevelDefinition): AssetBundle {
+  return manifest.levels[level.assets ?? level.name] ?? {};
+}
@@ -0,0 +1,180 @@
+import * as THREE from 'three';
+import { EffectParams } from '../postprocessing/Effects';
+import { neonIntensity } from '../procedural/NeonMaterials';
+import {
+  ATMOSPHERE_PRESETS,
+  AtmospherePresetName,
+  AtmosphereState,
+  createAtmosphereState,
+  sampleAtmosphere
+} from './AtmospherePresets';
+import { SkyDome } from './SkyDome';
+
+/**
+ * A level's choice of atmosphere
+ */
+export interface AtmosphereDefinition {
+  preset: AtmospherePresetName;
+  /** Hour the level starts at, 0 to 24; defaults to midnight */
+  hour?: number;
+  /** Real seconds for a whole day to pass; 0 or left out stops the clock */
+  dayLength?: number;
+}
+
+// Lights that shed shafts through the fog at once, nearest first
+const MAX_RAY_LIGHTS = 4;
+// Lights further away than this are lost in the fog anyway
+const RAY_LIGHT_DISTANCE = 120;
+
+/**
+ * Sky, time of day and the lighting and fog that go with it
+ * The clock drives the level's ambient and directional lights, the scene fog's color, the sky dome and
+ * the shared neon intensity; `getEffectParams` feeds the height fog and light shaft effect
+ */
+export class Atmosphere {
+  private scene: THREE.Scene;
+  private sky: SkyDome;
+  private definition: AtmosphereDefinition | null;
+  private hour: number;
+  private state: AtmosphereState;
+  // Sun color at its current brightness, handed to the fog effect
+  private sunColor: THREE.Color;
+  private ambientLights: THREE.AmbientLight[];
+  // Directional lights keep the distance from their target the level placed them at
+  private sunLights: { light: THREE.DirectionalLight; distance: number }[];
+  private pointLights: THREE.PointLight[];
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.sky = new SkyDome();
+    this.definition = null;
+    this.hour = 0;
+    this.state = createAtmosphereState();
+    this.sunColor = new THREE.Color();
+    this.ambientLights = [];
+    this.sunLights = [];
+    this.pointLights = [];
+  }
+
+  /**
+   * Take over the lights of a freshly loaded level; without a definition the level is left as authored
+   */
+  public load(definition: AtmosphereDefinition | undefined): void {
+    this.unload();
+    if (!definition) return;
+    
+    this.definition = definition;
+    this.hour = definition.hour ?? 0;
+    this.scene.traverse(object => {
+      if (object instanceof THREE.AmbientLight) {
+        this.ambientLights.push(object);
+      } else if (object instanceof THREE.DirectionalLight) {
+        this.sunLights.push({ light: object, distance: object.position.distanceTo(object.target.position) });
+      } else if (object instanceof THREE.PointLight) {
+        this.pointLights.push(object);
+      }
+    });
+    this.scene.add(this.sky.getObject());
+    this.apply();
+  }
+
+  /**
+   * Let go of the level's lights and take the sky down
+   */
+  public unload(): void {
+    this.definition = null;
+    this.ambientLights = [];
+    this.sunLights = [];
+    this.pointLights = [];
+    this.sky.getObject().removeFromParent();
+    neonIntensity.value = 1;
+  }
+
+  /**
+   * Advance the clock by one simulation step
+   */
+  public update(deltaTime: number): void {
+    if (!this.definition) return;
+    const dayLength = this.definition.dayLength ?? 0;
+    if (dayLength > 0) {
+      this.hour = (this.hour + deltaTime / dayLength * 24) % 24;
+    }
+    this.apply();
+  }
+
+  /**
+   * Jump to an hour of the day, 0 to 24
+   */
+  public setHour(hour: number): void {
+    this.hour = ((hour % 24) + 24) % 24;
+    if (this.definition) this.apply();
+  }
+
+  public getHour(): number {
+    return this.hour;
+  }
+
+  /**
+   * Whether the loaded level has an atmosphere
+   */
+  public isActive(): boolean {
+    return this.definition !== null;
+  }
+
+  public getState(): Readonly<AtmosphereState> {
+    return this.state;
+  }
+
+  /**
+   * Height fog and light shaft parameters for the current hour, with the neon lights nearest `viewer`
+   */
+  public getEffectParams(viewer: THREE.Vector3): Partial<EffectParams['atmosphere']> {
+    if (!this.definition) return { fogDensity: 0, sunRays: 0, lights: [] };
+    const preset = ATMOSPHERE_PRESETS[this.definition.preset];
+    const lights = this.pointLights
+      .filter(light => light.visible && light.intensity > 0 && light.position.distanceTo(viewer) < RAY_LIGHT_DISTANCE)
+      .sort((a, b) => a.position.distanceToSquared(viewer) - b.position.distanceToSquared(viewer))
+      .slice(0, MAX_RAY_LIGHTS)
+      .map(light => ({ position: light.position.clone(), color: light.color, intensity: light.intensity }));
+    
+    return {
+      fogColor: this.state.fogColor,
+      fogDensity: this.state.fogDensity,
+      fogHeight: preset.fogHeight,
+      fogFalloff: preset.fogFalloff,
+      noiseScale: preset.noise.scale,
+      noiseStrength: preset.noise.strength,
+      wind: preset.noise.wind,
+      sunDirection: this.state.sunDirection,
+      sunColor: this.sunColor.copy(this.state.sunColor).multiplyScalar(this.state.sunIntensity),
+      sunRays: preset.rays.sun,
+      neonRays: preset.rays.neon * this.state.neon,
+      lights
+    };
+  }
+
+  public dispose(): void {
+    this.unload();
+    this.sky.dispose();
+  }
+
+  private apply(): void {
+    const state = sampleAtmosphere(ATMOSPHERE_PRESETS[this.definition!.preset], this.hour, this.state);
+    
+    for (const light of this.ambientLights) {
+      light.color.copy(state.ambientColor);
+      light.intensity = state.ambientIntensity;
+    }
+    for (const { light, distance } of this.sunLights) {
+      light.color.copy(state.sunColor);
+      light.intensity = state.sunIntensity;
+      light.position.copy(light.target.position).addScaledVector(state.sunDirection, distance);
+    }
+    this.scene.fog?.color.copy(state.fogColor);
+    if (this.scene.background instanceof THREE.Color) {
+      this.scene.background.copy(state.horizon);
+    }
+    this.sky.update(state);
+    neonIntensity.value = state.neon;
+  }
+}
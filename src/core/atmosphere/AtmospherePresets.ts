@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+
+/**
+ * How the atmosphere looks at one hour of the day; colors are '#rrggbb'
+ */
+export interface AtmosphereKey {
+  /** 0 to 24 */
+  hour: number;
+  zenith: string;
+  horizon: string;
+  /** City light thrown up onto the underside of the sky at the horizon */
+  cityGlow: string;
+  /** 0 for none, 1 for a clear night */
+  stars: number;
+  /** Sun by day, moon by night */
+  sun: { color: string; intensity: number };
+  ambient: { color: string; intensity: number };
+  /** Height fog color and its density at the fog's base height */
+  fog: { color: string; density: number };
+  /** Multiplies emissive neon, neon shaders and pulsing neon lights */
+  neon: number;
+}
+
+export interface AtmospherePreset {
+  /** Keys in hour order; the day wraps from the last back to the first */
+  keys: AtmosphereKey[];
+  /** Height where the fog is as dense as the keys say; it thins out above */
+  fogHeight: number;
+  /** How quickly fog thins with height, per unit */
+  fogFalloff: number;
+  /** Size and strength of the drifting fog banks, and their drift in units per second */
+  noise: { scale: number; strength: number; wind: [number, number] };
+  /** Brightness of the light shafts from the sun or moon and from nearby neon lights */
+  rays: { sun: number; neon: number };
+}
+
+/**
+ * Everything the atmosphere sets at a moment in the day, interpolated between keys
+ */
+export interface AtmosphereState {
+  zenith: THREE.Color;
+  horizon: THREE.Color;
+  cityGlow: THREE.Color;
+  stars: number;
+  sunColor: THREE.Color;
+  sunIntensity: number;
+  /** Towards the sun by day and the moon by night */
+  sunDirection: THREE.Vector3;
+  ambientColor: THREE.Color;
+  ambientIntensity: number;
+  fogColor: THREE.Color;
+  fogDensity: number;
+  neon: number;
+}
+
+const NEON_NIGHT_KEYS: AtmosphereKey[] = [
+  {
+    hour: 0,
+    zenith: '#05030f',
+    horizon: '#1a0a2e',
+    cityGlow: '#ff2a9d',
+    stars: 1,
+    sun: { color: '#8090ff', intensity: 0.35 },
+    ambient: { color: '#404060', intensity: 0.3 },
+    fog: { color: '#1a1030', density: 0.012 },
+    neon: 1
+  },
+  {
+    hour: 6,
+    zenith: '#1b2450',
+    horizon: '#ff7a59',
+    cityGlow: '#ff5080',
+    stars: 0.2,
+    sun: { color: '#ffaa70', intensity: 0.4 },
+    ambient: { color: '#605070', intensity: 0.4 },
+    fog: { color: '#804860', density: 0.01 },
+    neon: 0.7
+  },
+  {
+    hour: 12,
+    zenith: '#2a5caa',
+    horizon: '#9fc4e8',
+    cityGlow: '#c0d0ff',
+    stars: 0,
+    sun: { color: '#fff4e0', intensity: 1.6 },
+    ambient: { color: '#8090b0', intensity: 0.8 },
+    fog: { color: '#8aa0c0', density: 0.006 },
+    neon: 0.35
+  },
+  {
+    hour: 18,
+    zenith: '#2a1850',
+    horizon: '#ff4f6e',
+    cityGlow: '#ff3ca0',
+    stars: 0.3,
+    sun: { color: '#ff8050', intensity: 0.5 },
+    ambient: { color: '#604060', intensity: 0.4 },
+    fog: { color: '#602850', density: 0.01 },
+    neon: 0.85
+  }
+];
+
+const SMOG_KEYS: AtmosphereKey[] = [
+  {
+    hour: 0,
+    zenith: '#0a0806',
+    horizon: '#3a2414',
+    cityGlow: '#ff7a1a',
+    stars: 0,
+    sun: { color: '#a08060', intensity: 0.2 },
+    ambient: { color: '#504030', intensity: 0.35 },
+    fog: { color: '#3a2818', density: 0.03 },
+    neon: 1
+  },
+  {
+    hour: 7,
+    zenith: '#3a3020',
+    horizon: '#b06030',
+    cityGlow: '#ff8a30',
+    stars: 0,
+    sun: { color: '#ff9040', intensity: 0.45 },
+    ambient: { color: '#705030', intensity: 0.45 },
+    fog: { color: '#7a4a28', density: 0.028 },
+    neon: 0.8
+  },
+  {
+    hour: 13,
+    zenith: '#6a6050',
+    horizon: '#c0a070',
+    cityGlow: '#e0b080',
+    stars: 0,
+    sun: { color: '#ffd8a0', intensity: 0.9 },
+    ambient: { color: '#907860', intensity: 0.7 },
+    fog: { color: '#a08866', density: 0.024 },
+    neon: 0.55
+  },
+  {
+    hour: 19,
+    zenith: '#2a1a10',
+    horizon: '#a03818',
+    cityGlow: '#ff6020',
+    stars: 0,
+    sun: { color: '#ff5a20', intensity: 0.4 },
+    ambient: { color: '#604030', intensity: 0.4 },
+    fog: { color: '#602a14', density: 0.03 },
+    neon: 0.9
+  }
+];
+
+const VOID_KEYS: AtmosphereKey[] = [
+  {
+    hour: 0,
+    zenith: '#000000',
+    horizon: '#0a0a1a',
+    cityGlow: '#00e5ff',
+    stars: 1,
+    sun: { color: '#6080ff', intensity: 0.3 },
+    ambient: { color: '#404060', intensity: 0.3 },
+    fog: { color: '#0a0a1a', density: 0.008 },
+    neon: 1.1
+  },
+  {
+    hour: 12,
+    zenith: '#05051a',
+    horizon: '#1a1a3a',
+    cityGlow: '#40a0ff',
+    stars: 0.6,
+    sun: { color: '#a0b0ff', intensity: 0.6 },
+    ambient: { color: '#505070', intensity: 0.4 },
+    fog: { color: '#14142a', density: 0.006 },
+    neon: 0.9
+  }
+];
+
+/**
+ * Built-in atmospheres levels pick by name
+ */
+export const ATMOSPHERE_PRESETS = {
+  /** Clear purple night with stars over a magenta city glow; blue noon */
+  neonNight: {
+    keys: NEON_NIGHT_KEYS,
+    fogHeight: 0,
+    fogFalloff: 0.08,
+    noise: { scale: 0.02, strength: 0.6, wind: [1.5, 0.5] },
+    rays: { sun: 0.6, neon: 0.5 }
+  },
+  /** Thick amber smog that hides the stars and hangs low between the towers */
+  smog: {
+    keys: SMOG_KEYS,
+    fogHeight: 5,
+    fogFalloff: 0.05,
+    noise: { scale: 0.03, strength: 0.8, wind: [2.5, 1] },
+    rays: { sun: 0.9, neon: 0.8 }
+  },
+  /** Near-black sky that barely changes through the day, for levels floating in empty space */
+  void: {
+    keys: VOID_KEYS,
+    fogHeight: -5,
+    fogFalloff: 0.1,
+    noise: { scale: 0.015, strength: 0.5, wind: [0.5, 0.5] },
+    rays: { sun: 0.3, neon: 0.7 }
+  }
+} satisfies Record<string, AtmospherePreset>;
+
+export type AtmospherePresetName = keyof typeof ATMOSPHERE_PRESETS;
+
+export const ATMOSPHERE_PRESET_NAMES = Object.keys(ATMOSPHERE_PRESETS) as AtmospherePresetName[];
+
+export function createAtmosphereState(): AtmosphereState {
+  return {
+    zenith: new THREE.Color(),
+    horizon: new THREE.Color(),
+    cityGlow: new THREE.Color(),
+    stars: 0,
+    sunColor: new THREE.Color(),
+    sunIntensity: 0,
+    sunDirection: new THREE.Vector3(0, 1, 0),
+    ambientColor: new THREE.Color(),
+    ambientIntensity: 0,
+    fogColor: new THREE.Color(),
+    fogDensity: 0,
+    neon: 1
+  };
+}
+
+/**
+ * Direction towards the sun at an hour: rising in the east (+X) at 6, overhead at 12 and setting at 18
+ * The moon takes the opposite path, so by night this points at the moon
+ */
+export function getSunDirection(hour: number, target: THREE.Vector3): THREE.Vector3 {
+  const angle = (hour / 24 - 0.25) * Math.PI * 2;
+  // Tilted south so the sun never stands exactly overhead
+  target.set(Math.cos(angle), Math.sin(angle), 0.35).normalize();
+  if (target.y < 0) target.negate();
+  return target;
+}
+
+/**
+ * Blend a preset's keys at an hour into `target`
+ */
+export function sampleAtmosphere(preset: AtmospherePreset, hour: number, target: AtmosphereState): AtmosphereState {
+  const keys = preset.keys;
+  const time = ((hour % 24) + 24) % 24;
+  // The key at or before the hour, wrapping to the last key before the first
+  let index = keys.length - 1;
+  for (let i = 0; i < keys.length; i++) {
+    if (keys[i].hour <= time) index = i;
+  }
+  const from = keys[index];
+  const to = keys[(index + 1) % keys.length];
+  const span = ((to.hour - from.hour) + 24) % 24 || 24;
+  const t = (((time - from.hour) + 24) % 24) / span;
+  
+  const lerpColor = (color: THREE.Color, a: string, b: string) => color.set(a).lerp(scratch.set(b), t);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  lerpColor(target.zenith, from.zenith, to.zenith);
+  lerpColor(target.horizon, from.horizon, to.horizon);
+  lerpColor(target.cityGlow, from.cityGlow, to.cityGlow);
+  target.stars = lerp(from.stars, to.stars);
+  lerpColor(target.sunColor, from.sun.color, to.sun.color);
+  target.sunIntensity = lerp(from.sun.intensity, to.sun.intensity);
+  lerpColor(target.ambientColor, from.ambient.color, to.ambient.color);
+  target.ambientIntensity = lerp(from.ambient.intensity, to.ambient.intensity);
+  lerpColor(target.fogColor, from.fog.color, to.fog.color);
+  target.fogDensity = lerp(from.fog.density, to.fog.density);
+  target.neon = lerp(from.neon, to.neon);
+
+  getSunDirection(time, target.sunDirection);
+  // Fade out as the sun or moon touches the horizon, where one hands over to the other
+  target.sunIntensity *= THREE.MathUtils.smoothstep(target.sunDirection.y, 0, 0.1);
+  return target;
+}
+
+const scratch = new THREE.Color();
@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { shaderTime } from '../procedural/NeonMaterials';
+import { AtmosphereState } from './AtmospherePresets';
+
+const SKY_VERTEX = /* glsl */ `
+varying vec3 vDirection;
+
+void main() {
+  vDirection = position;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+const SKY_FRAGMENT = /* glsl */ `
+uniform vec3 zenithColor;
+uniform vec3 horizonColor;
+uniform vec3 glowColor;
+uniform float glowHeight;
+uniform float stars;
+uniform vec3 sunDirection;
+uniform vec3 sunColor;
+uniform float time;
+varying vec3 vDirection;
+#include <common>
+
+void main() {
+  vec3 direction = normalize(vDirection);
+  float height = direction.y;
+  vec3 color = mix(horizonColor, zenithColor, pow(clamp(height, 0.0, 1.0), 0.45));
+  
+  // City light thrown onto the haze, uneven around the horizon like a skyline and slowly shimmering
+  float azimuth = atan(direction.z, direction.x);
+  float skyline = 0.7 + 0.3 * sin(azimuth * 23.0 + sin(azimuth * 7.0) * 3.0) * sin(azimuth * 11.0 + time * 0.3);
+  color += glowColor * exp(-max(height, 0.0) / glowHeight) * skyline;
+  
+  if (stars > 0.0) {
+    vec3 cell = floor(direction * 180.0);
+    float star = step(0.9975, rand(cell.xy + cell.z * 17.0));
+    float disc = smoothstep(0.5, 0.1, length(fract(direction * 180.0) - 0.5));
+    float twinkle = 0.6 + 0.4 * sin(time * 3.0 + rand(cell.zy) * 40.0);
+    color += star * disc * twinkle * stars * smoothstep(0.05, 0.3, height);
+  }
+  
+  // Sun or moon disc with a wide halo
+  float facing = max(dot(direction, sunDirection), 0.0);
+  color += sunColor * (pow(facing, 900.0) * 8.0 + pow(facing, 12.0) * 0.25);
+  
+  gl_FragColor = vec4(color, 1.0);
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+}
+`;
+
+/**
+ * Sky drawn on the inside of a sphere that stays centred on the camera
+ * Gradient from horizon to zenith, a glow band where the city lights the haze, stars and the sun or moon;
+ * it writes no depth, so screen effects still see the sky as infinitely far away
+ */
+export class SkyDome {
+  private mesh: THREE.Mesh;
+  private material: THREE.ShaderMaterial;
+
+  constructor(radius: number = 500) {
+    this.material = new THREE.ShaderMaterial({
+      name: 'SkyDome',
+      uniforms: {
+        zenithColor: { value: new THREE.Color() },
+        horizonColor: { value: new THREE.Color() },
+        glowColor: { value: new THREE.Color() },
+        glowHeight: { value: 0.12 },
+        stars: { value: 0 },
+        sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+        sunColor: { value: new THREE.Color() },
+        time: shaderTime
+      },
+      vertexShader: SKY_VERTEX,
+      fragmentShader: SKY_FRAGMENT,
+      side: THREE.BackSide,
+      depthWrite: false,
+      fog: false
+    });
+    
+    this.mesh = new THREE.Mesh(new THREE.SphereGeometry(radius, 32, 16), this.material);
+    this.mesh.name = 'skyDome';
+    this.mesh.renderOrder = -1;
+    this.mesh.frustumCulled = false;
+    // Follow the camera right before drawing, whichever camera that is
+    this.mesh.onBeforeRender = (_renderer, _scene, camera) => {
+      this.mesh.position.setFromMatrixPosition(camera.matrixWorld);
+      this.mesh.updateMatrixWorld();
+    };
+  }
+
+  /**
+   * Take the sky's colors, stars and sun from an atmosphere state
+   */
+  public update(state: AtmosphereState): void {
+    const uniforms = this.material.uniforms;
+    uniforms.zenithColor.value.copy(state.zenith);
+    uniforms.horizonColor.value.copy(state.horizon);
+    uniforms.glowColor.value.copy(state.cityGlow);
+    uniforms.stars.value = state.stars;
+    uniforms.sunDirection.value.copy(state.sunDirection);
+    uniforms.sunColor.value.copy(state.sunColor).multiplyScalar(state.sunIntensity);
+  }
+
+  public getObject(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  public dispose(): void {
+    this.mesh.removeFromParent();
+    this.mesh.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { InstancedBatch } from './InstancedBatch';
+
+/**
+ * A repeated prop: the batch that draws it and how to build that batch's mesh
+ */
+export interface PropSpec {
+  /** Props with the same batch name share geometry and material */
+  batch: string;
+  color: THREE.ColorRepresentation;
+  /** Only used by standard materials */
+  emissive?: THREE.ColorRepresentation;
+  geometry: () => THREE.BufferGeometry;
+  material: () => THREE.Material;
+}
+
+// Batches by the scene they draw into, so anything holding the scene can reach them
+const BATCHES = new WeakMap<THREE.Scene, InstanceBatches>();
+
+/**
+ * Named instanced batches drawing into one scene
+ * Batches are created on first use and dropped again once their last instance goes
+ */
+export class InstanceBatches {
+  private scene: THREE.Scene;
+  private batches: Map<string, InstancedBatch>;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.batches = new Map();
+    BATCHES.set(scene, this);
+  }
+
+  /**
+   * Batches drawing into a scene, if it has any
+   */
+  public static of(scene: THREE.Scene): InstanceBatches | undefined {
+    return BATCHES.get(scene);
+  }
+
+  /**
+   * Get the batch for a name, creating it on first use
+   */
+  public get(name: string, create: () => InstancedBatch): InstancedBatch {
+    let batch = this.batches.get(name);
+    if (!batch) {
+      batch = create();
+      this.batches.set(name, batch);
+      this.scene.add(batch.getMesh());
+    }
+    return batch;
+  }
+
+  /**
+   * Move every instance to its proxy and drop batches that are empty
+   */
+  public sync(): void {
+    this.scene.updateMatrixWorld();
+    for (const [name, batch] of this.batches) {
+      batch.sync(this.scene);
+      if (batch.getCount() === 0) {
+        batch.dispose();
+        this.batches.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Number of batches and the instances they draw
+   */
+  public getStats(): { batches: number; instances: number } {
+    let instances = 0;
+    this.batches.forEach(batch => { instances += batch.getCount(); });
+    return { batches: this.batches.size, instances };
+  }
+
+  /**
+   * Dispose every batch
+   */
+  public dispose(): void {
+    this.batches.forEach(batch => batch.dispose());
+    this.batches.clear();
+    BATCHES.delete(this.scene);
+  }
+}
+
+/**
+ * Create a prop to place in the scene graph like any child mesh
+ * In a scene with instanced batches it is an empty proxy drawn by the batch; otherwise it is a plain mesh
+ */
+export function createProp(scene: THREE.Scene, spec: PropSpec): THREE.Object3D {
+  const batches = InstanceBatches.of(scene);
+  if (batches) {
+    const proxy = new THREE.Object3D();
+    proxy.name = spec.batch;
+    batches
+      .get(spec.batch, () => new InstancedBatch(spec.batch, spec.geometry(), spec.material()))
+      .add(proxy, spec.color, spec.emissive);
+    return proxy;
+  }
+  
+  const material = spec.material();
+  if (material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshBasicMaterial) {
+    material.color.set(spec.color);
+  }
+  if (material instanceof THREE.MeshStandardMaterial) {
+    material.emissive.set(spec.emissive ?? 0x000000);
+  }
+  return new THREE.Mesh(spec.geometry(), material);
+}
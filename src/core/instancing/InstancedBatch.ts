@@ -0,0 +1,203 @@
+import * as THREE from 'three';
+import { neonIntensity } from '../procedural/NeonMaterials';
+
+export interface InstancedBatchOptions {
+  /** Instances allocated up front; the batch doubles when it runs out */
+  capacity: number;
+  castShadow: boolean;
+  receiveShadow: boolean;
+}
+
+export const DEFAULT_INSTANCED_BATCH_OPTIONS: InstancedBatchOptions = {
+  capacity: 32,
+  castShadow: false,
+  receiveShadow: false
+};
+
+// Collapses unused and hidden slots to nothing
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+
+/**
+ * Give a standard material a per-instance emissive color
+ * The material's own emissive is set to white so the instance color comes through as-is, scaled by the neon intensity
+ */
+function addInstanceEmissive(material: THREE.MeshStandardMaterial): void {
+  material.emissive.set(0xffffff);
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.neonIntensity = neonIntensity;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute vec3 instanceEmissive;\nvarying vec3 vInstanceEmissive;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vInstanceEmissive;\nuniform float neonIntensity;')
+      .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vInstanceEmissive * neonIntensity;');
+  };
+  material.customProgramCacheKey = () => 'instance-emissive';
+}
+
+/**
+ * Draws many copies of one geometry and material in a single draw call
+ * The batch owns its geometry and material and disposes them with itself
+ * Each instance follows a proxy object placed in the scene graph like a normal child mesh would be,
+ * so it moves, hides and goes away with whatever the proxy is attached to
+ */
+export class InstancedBatch {
+  private name: string;
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.Material;
+  private options: InstancedBatchOptions;
+  private mesh: THREE.InstancedMesh;
+  private emissive: THREE.InstancedBufferAttribute | null;
+  private proxies: (THREE.Object3D | null)[];
+  private free: number[];
+
+  constructor(
+    name: string,
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material,
+    options: Partial<InstancedBatchOptions> = {}
+  ) {
+    this.name = name;
+    this.geometry = geometry;
+    this.material = material;
+    this.options = { ...DEFAULT_INSTANCED_BATCH_OPTIONS, ...options };
+    this.emissive = null;
+    this.proxies = [];
+    this.free = [];
+    
+    if (material instanceof THREE.MeshStandardMaterial) {
+      addInstanceEmissive(material);
+    }
+    this.mesh = this.createMesh(this.options.capacity);
+  }
+
+  /**
+   * Add an instance that follows `proxy`
+   * `emissive` only applies to standard materials
+   */
+  public add(proxy: THREE.Object3D, color: THREE.ColorRepresentation, emissive: THREE.ColorRepresentation = 0x000000): void {
+    let index = this.free.pop();
+    if (index === undefined) {
+      index = this.proxies.length;
+      if (index >= this.mesh.instanceMatrix.count) {
+        this.grow();
+      }
+      this.proxies.push(null);
+    }
+    
+    this.proxies[index] = proxy;
+    this.mesh.setColorAt(index, new THREE.Color(color));
+    this.mesh.instanceColor!.needsUpdate = true;
+    if (this.emissive) {
+      const value = new THREE.Color(emissive);
+      this.emissive.setXYZ(index, value.r, value.g, value.b);
+      this.emissive.needsUpdate = true;
+    }
+    this.mesh.count = this.proxies.length;
+  }
+
+  /**
+   * Stop drawing the instance that follows `proxy`
+   */
+  public remove(proxy: THREE.Object3D): void {
+    const index = this.proxies.indexOf(proxy);
+    if (index < 0) return;
+    this.proxies[index] = null;
+    this.mesh.setMatrixAt(index, HIDDEN);
+    this.free.push(index);
+  }
+
+  /**
+   * Copy every proxy's world transform into its instance
+   * Proxies that left `scene` are dropped; hidden ones collapse until shown again
+   * World matrices must be current
+   */
+  public sync(scene: THREE.Scene): void {
+    this.proxies.forEach((proxy, index) => {
+      if (!proxy) return;
+      
+      let shown = true;
+      let root: THREE.Object3D = proxy;
+      for (let current: THREE.Object3D | null = proxy; current; current = current.parent) {
+        shown &&= current.visible;
+        root = current;
+      }
+      if (root !== scene) {
+        this.remove(proxy);
+        return;
+      }
+      this.mesh.setMatrixAt(index, shown ? proxy.matrixWorld : HIDDEN);
+    });
+    this.mesh.instanceMatrix.needsUpdate = true;
+    // Frustum culling tests the instances' combined bounds
+    this.mesh.computeBoundingSphere();
+  }
+
+  /**
+   * Number of live instances
+   */
+  public getCount(): number {
+    return this.proxies.length - this.free.length;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  /**
+   * The mesh that draws every instance
+   */
+  public getMesh(): THREE.InstancedMesh {
+    return this.mesh;
+  }
+
+  /**
+   * Remove the batch from the scene and free its resources
+   */
+  public dispose(): void {
+    this.mesh.removeFromParent();
+    this.mesh.dispose();
+    this.geometry.dispose();
+    this.material.dispose();
+    this.proxies = [];
+    this.free = [];
+  }
+
+  private createMesh(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(this.geometry, this.material, capacity);
+    mesh.name = `instances:${this.name}`;
+    mesh.castShadow = this.options.castShadow;
+    mesh.receiveShadow = this.options.receiveShadow;
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.count = 0;
+    // Allocate the color buffer up front
+    mesh.setColorAt(0, new THREE.Color());
+    
+    if (this.material instanceof THREE.MeshStandardMaterial) {
+      this.emissive = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+      this.geometry.setAttribute('instanceEmissive', this.emissive);
+    }
+    return mesh;
+  }
+
+  /**
+   * Swap in a mesh with twice the room, carrying the existing instances over
+   */
+  private grow(): void {
+    const old = this.mesh;
+    const oldEmissive = this.emissive;
+    const capacity = old.instanceMatrix.count * 2;
+    this.mesh = this.createMesh(capacity);
+    
+    this.mesh.instanceMatrix.array.set(old.instanceMatrix.array);
+    this.mesh.instanceColor!.array.set(old.instanceColor!.array);
+    if (oldEmissive && this.emissive) {
+      this.emissive.array.set(oldEmissive.array);
+    }
+    this.mesh.count = old.count;
+    
+    old.parent?.add(this.mesh);
+    old.removeFromParent();
+    old.dispose();
+  }
+}
@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { LightProbeGenerator } from 'three/examples/jsm/lights/LightProbeGenerator.js';
+import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
+
+export interface EnvironmentProbeSettings {
+  /** Prefiltered environment map on metallic materials */
+  environment: boolean;
+  /** Light probe baked from emissive surfaces and the sky */
+  irradiance: boolean;
+  /** Cube face size of the environment capture */
+  environmentSize: number;
+  /** Cube face size of the irradiance capture, read back on the CPU */
+  irradianceSize: number;
+  /** Brightness of the baked light probe */
+  irradianceIntensity: number;
+  /** Materials at least this metallic get the environment map */
+  minMetalness: number;
+  /** Seconds between captures, so the probe follows the time of day */
+  refreshInterval: number;
+  /** Distance the focus can move before the probe is captured again */
+  refreshDistance: number;
+  /** Fewest seconds between captures asked for by `invalidate` */
+  minInterval: number;
+  /** Height above the focus the probe captures from */
+  height: number;
+}
+
+export const DEFAULT_ENVIRONMENT_PROBE_SETTINGS: EnvironmentProbeSettings = {
+  environment: true,
+  irradiance: true,
+  environmentSize: 128,
+  irradianceSize: 32,
+  irradianceIntensity: 1,
+  minMetalness: 0.5,
+  refreshInterval: 10,
+  refreshDistance: 40,
+  minInterval: 1,
+  height: 3
+};
+
+/**
+ * Image-based lighting captured from the scene itself around a moving focus, usually the player
+ * The environment capture sees the scene fully lit and is prefiltered into a PMREM for reflections on
+ * metallic materials. The irradiance capture sees it with every light turned off, so only emissive neon
+ * and the sky show, and is projected onto a light probe: neon lights its surroundings without a light per strip
+ */
+export class EnvironmentProbe {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private settings: EnvironmentProbeSettings;
+  private cubeCamera: THREE.CubeCamera;
+  private environmentTarget: THREE.WebGLCubeRenderTarget;
+  private irradianceCamera: THREE.CubeCamera;
+  private irradianceTarget: THREE.WebGLCubeRenderTarget;
+  private pmrem: THREE.PMREMGenerator;
+  // Created by the first capture; later captures draw into it again
+  private environmentMap: THREE.WebGLRenderTarget | null;
+  private probe: THREE.LightProbe;
+  // Materials given the environment map, to take it back from
+  private materials: Set<THREE.MeshStandardMaterial>;
+  private lastPosition: THREE.Vector3;
+  private sinceCapture: number;
+  private dirty: boolean;
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, settings: Partial<EnvironmentProbeSettings> = {}) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.settings = { ...DEFAULT_ENVIRONMENT_PROBE_SETTINGS, ...settings };
+    
+    this.environmentTarget = new THREE.WebGLCubeRenderTarget(this.settings.environmentSize, { type: THREE.HalfFloatType });
+    this.cubeCamera = new THREE.CubeCamera(0.1, 1000, this.environmentTarget);
+    this.irradianceTarget = new THREE.WebGLCubeRenderTarget(this.settings.irradianceSize, { type: THREE.HalfFloatType });
+    this.irradianceCamera = new THREE.CubeCamera(0.1, 1000, this.irradianceTarget);
+    this.pmrem = new THREE.PMREMGenerator(renderer);
+    this.environmentMap = null;
+    
+    this.probe = new THREE.LightProbe();
+    this.probe.name = 'environmentProbe';
+    this.probe.intensity = 0;
+    this.scene.add(this.probe);
+    
+    this.materials = new Set();
+    this.lastPosition = new THREE.Vector3();
+    this.sinceCapture = 0;
+    this.dirty = true;
+  }
+
+  /**
+   * Turn the environment map and light probe on or off, e.g. from a quality preset
+   */
+  public configure(settings: Partial<Pick<EnvironmentProbeSettings, 'environment' | 'irradiance'>>): void {
+    Object.assign(this.settings, settings);
+    if (!this.settings.environment) this.releaseMaterials();
+    if (!this.settings.irradiance) this.probe.intensity = 0;
+    this.dirty = true;
+  }
+
+  /**
+   * Capture again soon, e.g. after a level loads or new structures stream in
+   */
+  public invalidate(): void {
+    this.dirty = true;
+  }
+
+  /**
+   * Capture again soon if scenery inside `bounds` changed close to the last capture
+   * Changes further away are picked up by the distance refresh once the focus gets near them,
+   * so streaming chunks in around a moving player doesn't capture every `minInterval`
+   */
+  public invalidateNear(bounds: THREE.Box3): void {
+    if (bounds.distanceToPoint(this.lastPosition) <= this.settings.refreshDistance) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Capture around `focus` when the probe is stale, has been marked dirty or the focus moved away
+   */
+  public update(frameDelta: number, focus: THREE.Vector3): void {
+    if (!this.settings.environment && !this.settings.irradiance) return;
+    this.sinceCapture += frameDelta;
+    const due = this.sinceCapture >= this.settings.refreshInterval
+      || (this.dirty && this.sinceCapture >= this.settings.minInterval)
+      || focus.distanceTo(this.lastPosition) > this.settings.refreshDistance;
+    if (due) this.capture(focus);
+  }
+
+  /**
+   * Capture both maps around `focus` now
+   */
+  public capture(focus: THREE.Vector3): void {
+    this.lastPosition.copy(focus);
+    this.sinceCapture = 0;
+    this.dirty = false;
+    
+    const position = focus.clone();
+    position.y += this.settings.height;
+    // Reflections would each render the scene again for every cube face
+    const hidden: THREE.Object3D[] = [];
+    this.scene.traverse(object => {
+      if (object instanceof Reflector && object.visible) hidden.push(object);
+    });
+    hidden.forEach(object => { object.visible = false; });
+    const shadowAutoUpdate = this.renderer.shadowMap.autoUpdate;
+    this.renderer.shadowMap.autoUpdate = false;
+    
+    if (this.settings.irradiance) this.captureIrradiance(position);
+    if (this.settings.environment) this.captureEnvironment(position);
+    
+    this.renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+    hidden.forEach(object => { object.visible = true; });
+  }
+
+  public getLightProbe(): THREE.LightProbe {
+    return this.probe;
+  }
+
+  /**
+   * The prefiltered environment map, once captured
+   */
+  public getEnvironmentMap(): THREE.Texture | null {
+    return this.environmentMap?.texture ?? null;
+  }
+
+  public dispose(): void {
+    this.releaseMaterials();
+    this.probe.removeFromParent();
+    this.probe.dispose();
+    this.environmentTarget.dispose();
+    this.irradianceTarget.dispose();
+    this.environmentMap?.dispose();
+    this.pmrem.dispose();
+  }
+
+  private captureIrradiance(position: THREE.Vector3): void {
+    // Zeroed rather than hidden, which would recompile every lit material for the new light count
+    const intensities = new Map<THREE.Light, number>();
+    this.scene.traverse(object => {
+      if (object instanceof THREE.Light) {
+        intensities.set(object, object.intensity);
+        object.intensity = 0;
+      }
+    });
+    
+    this.irradianceCamera.position.copy(position);
+    this.irradianceCamera.update(this.renderer, this.scene);
+    intensities.forEach((intensity, light) => { light.intensity = intensity; });
+    
+    const baked = LightProbeGenerator.fromCubeRenderTarget(this.renderer, this.irradianceTarget);
+    this.probe.sh.copy(baked.sh);
+    this.probe.intensity = this.settings.irradianceIntensity;
+  }
+
+  private captureEnvironment(position: THREE.Vector3): void {
+    this.cubeCamera.position.copy(position);
+    this.cubeCamera.update(this.renderer, this.scene);
+    this.environmentMap = this.pmrem.fromCubemap(this.environmentTarget.texture, this.environmentMap);
+    
+    // Only materials still in the scene are kept, so those of unloaded levels can be collected
+    const { minMetalness } = this.settings;
+    const texture = this.environmentMap.texture;
+    const materials = new Set<THREE.MeshStandardMaterial>();
+    this.scene.traverse(object => {
+      const material = (object as THREE.Mesh).material;
+      if (!material) return;
+      for (const each of Array.isArray(material) ? material : [material]) {
+        if (!(each instanceof THREE.MeshStandardMaterial) || each.metalness < minMetalness) continue;
+        if (each.envMap !== texture) {
+          // A material that brings its own map keeps it
+          if (each.envMap && !this.materials.has(each)) continue;
+          each.envMap = texture;
+          each.needsUpdate = true;
+        }
+        materials.add(each);
+      }
+    });
+    this.materials = materials;
+  }
+
+  /**
+   * Take the environment map back from every material it was given to
+   */
+  private releaseMaterials(): void {
+    this.materials.forEach(material => {
+      material.envMap = null;
+      material.needsUpdate = true;
+    });
+    this.materials.clear();
+  }
+}
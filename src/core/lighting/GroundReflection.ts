@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
+
+/**
+ * Mirror image of the scene added on top of a floor, stronger at grazing angles and blurred a little
+ * so the floor reads as polished metal rather than glass; fog fades it out like the floor under it
+ */
+const GroundReflectionShader = {
+  name: 'GroundReflectionShader',
+
+  uniforms: THREE.UniformsUtils.merge([THREE.UniformsLib.fog, {
+    color: { value: null },
+    tDiffuse: { value: null },
+    textureMatrix: { value: null },
+    strength: { value: 0.5 },
+    blur: { value: 0.002 }
+  }]),
+
+  vertexShader: /* glsl */`
+    uniform mat4 textureMatrix;
+    varying vec4 vUv;
+    varying vec3 vWorldPosition;
+    #include <common>
+    #include <fog_pars_vertex>
+    
+    void main() {
+      vUv = textureMatrix * vec4(position, 1.0);
+      vWorldPosition = (modelMatrix * vec4(position, 1.0)).xyz;
+      vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+      gl_Position = projectionMatrix * mvPosition;
+      #include <fog_vertex>
+    }
+  `,
+
+  fragmentShader: /* glsl */`
+    uniform vec3 color;
+    uniform sampler2D tDiffuse;
+    uniform float strength;
+    uniform float blur;
+    varying vec4 vUv;
+    varying vec3 vWorldPosition;
+    #include <common>
+    #include <fog_pars_fragment>
+    
+    void main() {
+      vec2 uv = vUv.xy / vUv.w;
+      vec3 reflection = texture2D(tDiffuse, uv).rgb * 0.4;
+      reflection += texture2D(tDiffuse, uv + vec2(blur, 0.0)).rgb * 0.15;
+      reflection += texture2D(tDiffuse, uv - vec2(blur, 0.0)).rgb * 0.15;
+      reflection += texture2D(tDiffuse, uv + vec2(0.0, blur)).rgb * 0.15;
+      reflection += texture2D(tDiffuse, uv - vec2(0.0, blur)).rgb * 0.15;
+      
+      // Schlick-style falloff: a floor mirrors most when seen edge-on
+      vec3 view = normalize(cameraPosition - vWorldPosition);
+      float fresnel = mix(0.3, 1.0, pow(1.0 - clamp(view.y, 0.0, 1.0), 3.0));
+      reflection *= color * strength * fresnel;
+      
+      // Added on top of the floor, so fog takes the reflection away rather than tinting it
+      #ifdef USE_FOG
+        #ifdef FOG_EXP2
+          float fogFactor = 1.0 - exp(-fogDensity * fogDensity * vFogDepth * vFogDepth);
+        #else
+          float fogFactor = smoothstep(fogNear, fogFar, vFogDepth);
+        #endif
+        reflection *= 1.0 - fogFactor;
+      #endif
+      
+      gl_FragColor = vec4(reflection, 1.0);
+      #include <tonemapping_fragment>
+      #include <colorspace_fragment>
+    }
+  `
+};
+
+export interface GroundReflectionOptions {
+  /** Width and depth of the floor */
+  size: number;
+  /** How much of the mirror image shows, 0 to 1 */
+  strength: number;
+  /** Reflection resolution as a fraction of the screen's */
+  resolution: number;
+}
+
+export const DEFAULT_GROUND_REFLECTION_OPTIONS: GroundReflectionOptions = {
+  size: 200,
+  strength: 0.5,
+  resolution: 0.5
+};
+
+/**
+ * Planar reflection of the scene for a flat floor, drawn just above it
+ * The scene is rendered a second time from below the floor each frame the floor is visible,
+ * into a target that follows the screen size times `resolution`
+ */
+export class GroundReflection {
+  private reflector: Reflector;
+  private resolution: number;
+  private size: THREE.Vector2;
+
+  constructor(options: Partial<GroundReflectionOptions> = {}) {
+    const settings = { ...DEFAULT_GROUND_REFLECTION_OPTIONS, ...options };
+    this.resolution = settings.resolution;
+    this.size = new THREE.Vector2();
+    
+    this.reflector = new Reflector(new THREE.PlaneGeometry(settings.size, settings.size), {
+      shader: GroundReflectionShader,
+      color: 0xffffff,
+      textureWidth: 1,
+      textureHeight: 1,
+      multisample: 0
+    });
+    this.reflector.name = 'groundReflection';
+    this.reflector.rotation.x = -Math.PI / 2;
+    // Between the floor and the neon grid
+    this.reflector.position.y = 0.02;
+    
+    const material = this.reflector.material as THREE.ShaderMaterial;
+    material.uniforms.strength.value = settings.strength;
+    material.transparent = true;
+    material.blending = THREE.AdditiveBlending;
+    material.depthWrite = false;
+    material.fog = true;
+    
+    // Match the target to the screen before the reflector draws into it
+    const renderReflection = this.reflector.onBeforeRender;
+    this.reflector.onBeforeRender = (renderer, scene, camera, geometry, material, group) => {
+      renderer.getDrawingBufferSize(this.size).multiplyScalar(this.resolution).round().max(ONE);
+      const target = this.reflector.getRenderTarget();
+      if (target.width !== this.size.x || target.height !== this.size.y) {
+        target.setSize(this.size.x, this.size.y);
+      }
+      renderReflection.call(this.reflector, renderer, scene, camera, geometry, material, group);
+    };
+  }
+
+  /**
+   * Change the reflection's resolution as a fraction of the screen's
+   */
+  public setResolution(resolution: number): void {
+    this.resolution = resolution;
+  }
+
+  public getObject(): THREE.Object3D {
+    return this.reflector;
+  }
+
+  public dispose(): void {
+    this.reflector.removeFromParent();
+    this.reflector.geometry.dispose();
+    this.reflector.dispose();
+  }
+}
+
+const ONE = new THREE.Vector2(1, 1);
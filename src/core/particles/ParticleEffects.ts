@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import { ParticlePool } from './ParticlePool';
+import { EmitterOptions, ParticleEmitter } from './ParticleEmitter';
+import { PARTICLE_PRESETS, ParticlePresetName } from './ParticlePresets';
+
+// Effects by the scene they draw into, so anything holding the scene can reach them
+const EFFECTS = new WeakMap<THREE.Scene, ParticleEffects>();
+
+/**
+ * Particle pools and emitters drawing into one scene
+ * Each preset gets one pool on first use; emitters are dropped once detached or once their target leaves the scene
+ */
+export class ParticleEffects {
+  private scene: THREE.Scene;
+  private pools: Map<ParticlePresetName, ParticlePool>;
+  private emitters: ParticleEmitter[];
+  private ambient: ParticleEmitter[];
+  // Seconds since the effects were created; particles are timed against it
+  private time: number;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.pools = new Map();
+    this.emitters = [];
+    this.ambient = [];
+    this.time = 0;
+    EFFECTS.set(scene, this);
+  }
+
+  /**
+   * Effects drawing into a scene, if it has any
+   */
+  public static of(scene: THREE.Scene): ParticleEffects | undefined {
+    return EFFECTS.get(scene);
+  }
+
+  /**
+   * Spawn a preset's burst once, at a point or from an object's current transform
+   */
+  public burst(preset: ParticlePresetName, at: THREE.Vector3 | THREE.Object3D, options: Partial<EmitterOptions> = {}): void {
+    const emitter = at instanceof THREE.Object3D
+      ? new ParticleEmitter(this.getPool(preset), this.getOptions(preset, options), at)
+      : new ParticleEmitter(this.getPool(preset), this.getOptions(preset, options), null, new THREE.Matrix4().makeTranslation(at));
+    emitter.burst(this.time);
+  }
+
+  /**
+   * Emit a preset continuously from an object until the emitter is detached or the object leaves the scene
+   */
+  public attach(preset: ParticlePresetName, target: THREE.Object3D, options: Partial<EmitterOptions> = {}): ParticleEmitter {
+    const emitter = new ParticleEmitter(this.getPool(preset), this.getOptions(preset, options), target);
+    this.emitters.push(emitter);
+    return emitter;
+  }
+
+  /**
+   * Replace the ambient effects, e.g. rain, following `target`
+   */
+  public setAmbient(presets: readonly ParticlePresetName[], target: THREE.Object3D): void {
+    this.ambient.forEach(emitter => emitter.detach());
+    this.ambient = presets.map(preset => this.attach(preset, target));
+  }
+
+  /**
+   * Advance the particle clock, emit for every attached emitter and upload new particles
+   */
+  public update(deltaTime: number): void {
+    this.time += deltaTime;
+    this.emitters = this.emitters.filter(emitter => {
+      if (!emitter.isAttached(this.scene)) return false;
+      emitter.update(this.time, deltaTime);
+      return true;
+    });
+    this.pools.forEach(pool => pool.update(this.time));
+  }
+
+  /**
+   * Number of pools, live emitters and particles still alive
+   */
+  public getStats(): { pools: number; emitters: number; particles: number } {
+    let particles = 0;
+    this.pools.forEach(pool => { particles += pool.getLiveCount(this.time); });
+    return { pools: this.pools.size, emitters: this.emitters.length, particles };
+  }
+
+  /**
+   * Dispose every pool and forget every emitter
+   */
+  public dispose(): void {
+    this.emitters.forEach(emitter => emitter.detach());
+    this.emitters = [];
+    this.ambient = [];
+    this.pools.forEach(pool => pool.dispose());
+    this.pools.clear();
+    EFFECTS.delete(this.scene);
+  }
+
+  private getPool(preset: ParticlePresetName): ParticlePool {
+    let pool = this.pools.get(preset);
+    if (!pool) {
+      pool = new ParticlePool(preset, PARTICLE_PRESETS[preset].look);
+      this.pools.set(preset, pool);
+      this.scene.add(pool.getObject());
+    }
+    return pool;
+  }
+
+  private getOptions(preset: ParticlePresetName, options: Partial<EmitterOptions>): Partial<EmitterOptions> {
+    return { ...PARTICLE_PRESETS[preset].emitter, ...options };
+  }
+}
+
+/**
+ * Emit a preset from an object for as long as it stays in the scene
+ * Returns null in a scene without particle effects, such as one built by a tool
+ */
+export function attachParticles(
+  scene: THREE.Scene,
+  preset: ParticlePresetName,
+  target: THREE.Object3D,
+  options: Partial<EmitterOptions> = {}
+): ParticleEmitter | null {
+  return ParticleEffects.of(scene)?.attach(preset, target, options) ?? null;
+}
@@ -0,0 +1,271 @@
+import * as THREE from 'three';
+import { SeededRandom } from '../../utils/Random';
+import { ParticlePool } from './ParticlePool';
+
+/**
+ * Where particles start, in the emitter's local space
+ */
+export type EmitterShape =
+  | { type: 'point' }
+  /** Launched within `angle` degrees of the emitter's direction */
+  | { type: 'cone'; angle: number }
+  /** Anywhere inside a box, launched along the emitter's direction */
+  | { type: 'box'; size: [number, number, number] }
+  /** Anywhere on a mesh's surface, launched along the surface normal */
+  | { type: 'surface'; geometry: THREE.BufferGeometry };
+
+export interface EmitterOptions {
+  shape: EmitterShape;
+  /** Shape center relative to the emitter */
+  offset: [number, number, number];
+  /** Particles per second while emitting; 0 for bursts only */
+  rate: number;
+  /** Particles per burst */
+  burst: number;
+  /** Seconds, picked between the two */
+  lifetime: [number, number];
+  /** Units per second, picked between the two */
+  speed: [number, number];
+  /** Launch direction in the emitter's space; points scatter in every direction regardless */
+  direction: [number, number, number];
+  /** 0 launches exactly along the shape's direction, 1 anywhere */
+  spread: number;
+  /** Multiplies the pool's color curve */
+  tint: THREE.ColorRepresentation;
+}
+
+export const DEFAULT_EMITTER_OPTIONS: EmitterOptions = {
+  shape: { type: 'point' },
+  offset: [0, 0, 0],
+  rate: 0,
+  burst: 32,
+  lifetime: [0.5, 1],
+  speed: [1, 3],
+  direction: [0, 1, 0],
+  spread: 0,
+  tint: 0xffffff
+};
+
+/**
+ * Triangles of a geometry with their running area, for picking surface points evenly
+ */
+interface SurfaceTable {
+  positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute;
+  triangles: number[][];
+  cumulativeArea: number[];
+}
+
+// Built once per geometry; geometries are shared, so are their tables
+const SURFACES = new WeakMap<THREE.BufferGeometry, SurfaceTable>();
+
+let nextSeed = 1;
+
+/**
+ * Spawns particles into a pool from a shape placed on an object, or at a fixed spot
+ * Particles start in world space, so they trail behind a moving object rather than moving with it
+ */
+export class ParticleEmitter {
+  private pool: ParticlePool;
+  private options: EmitterOptions;
+  private target: THREE.Object3D | null;
+  private matrix: THREE.Matrix4;
+  private random: SeededRandom;
+  private tint: THREE.Color;
+  private active: boolean;
+  private attached: boolean;
+  // Fraction of a particle owed from previous updates at the emission rate
+  private owed: number;
+  private position: THREE.Vector3;
+  private direction: THREE.Vector3;
+  private velocity: THREE.Vector3;
+
+  /**
+   * Emit from `target` as it moves, or from a fixed world transform `matrix` when there is none
+   */
+  constructor(
+    pool: ParticlePool,
+    options: Partial<EmitterOptions> = {},
+    target: THREE.Object3D | null = null,
+    matrix: THREE.Matrix4 = new THREE.Matrix4()
+  ) {
+    this.pool = pool;
+    this.options = { ...DEFAULT_EMITTER_OPTIONS, ...options };
+    this.target = target;
+    this.matrix = matrix;
+    this.random = new SeededRandom(nextSeed++);
+    this.tint = new THREE.Color(this.options.tint);
+    this.active = this.options.rate > 0;
+    this.attached = true;
+    this.owed = 0;
+    this.position = new THREE.Vector3();
+    this.direction = new THREE.Vector3();
+    this.velocity = new THREE.Vector3();
+  }
+
+  /**
+   * Spawn `count` particles at once, defaulting to the emitter's burst size
+   */
+  public burst(time: number, count: number = this.options.burst): void {
+    const matrix = this.getMatrix();
+    for (let i = 0; i < count; i++) {
+      this.spawn(time, matrix);
+    }
+  }
+
+  /**
+   * Spawn whatever the emission rate owes for `deltaTime`
+   */
+  public update(time: number, deltaTime: number): void {
+    if (!this.active || this.options.rate <= 0) return;
+    this.owed += this.options.rate * deltaTime;
+    const count = Math.floor(this.owed);
+    this.owed -= count;
+    if (count > 0) {
+      this.burst(time, count);
+    }
+  }
+
+  /**
+   * Resume or pause continuous emission; live particles play out either way
+   */
+  public setActive(active: boolean): void {
+    this.active = active;
+    this.owed = 0;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Stop for good; the effects manager lets go of detached emitters
+   */
+  public detach(): void {
+    this.active = false;
+    this.attached = false;
+  }
+
+  /**
+   * Whether the emitter is still in use: not detached, and its target, if any, is still under `scene`
+   */
+  public isAttached(scene: THREE.Scene): boolean {
+    if (!this.attached) return false;
+    if (!this.target) return true;
+    let root: THREE.Object3D = this.target;
+    while (root.parent) root = root.parent;
+    return root === scene;
+  }
+
+  public getTarget(): THREE.Object3D | null {
+    return this.target;
+  }
+
+  private getMatrix(): THREE.Matrix4 {
+    if (!this.target) return this.matrix;
+    this.target.updateWorldMatrix(true, false);
+    return this.target.matrixWorld;
+  }
+
+  private spawn(time: number, matrix: THREE.Matrix4): void {
+    const { offset, lifetime, speed, spread } = this.options;
+    this.sampleShape(this.position, this.direction);
+    
+    if (spread > 0) {
+      this.direction.lerp(this.randomUnit(this.velocity), spread).normalize();
+    }
+    this.position.add(this.velocity.fromArray(offset)).applyMatrix4(matrix);
+    this.velocity.copy(this.direction).transformDirection(matrix).multiplyScalar(this.random.range(speed[0], speed[1]));
+    this.pool.spawn(time, this.position, this.velocity, this.random.range(lifetime[0], lifetime[1]), this.tint, this.random.next());
+  }
+
+  /**
+   * Pick a start position and launch direction from the shape, in local space
+   */
+  private sampleShape(position: THREE.Vector3, direction: THREE.Vector3): void {
+    const shape = this.options.shape;
+    position.set(0, 0, 0);
+    direction.fromArray(this.options.direction).normalize();
+    
+    switch (shape.type) {
+      case 'point':
+        this.randomUnit(direction);
+        return;
+      case 'cone': {
+        // Uniform over the spherical cap around the direction
+        const cosAngle = Math.cos(THREE.MathUtils.degToRad(shape.angle));
+        const z = this.random.range(cosAngle, 1);
+        const around = this.random.range(0, Math.PI * 2);
+        const radius = Math.sqrt(1 - z * z);
+        const local = new THREE.Vector3(radius * Math.cos(around), radius * Math.sin(around), z);
+        direction.copy(local.applyQuaternion(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), direction)));
+        return;
+      }
+      case 'box':
+        position.set(
+          this.random.range(-0.5, 0.5) * shape.size[0],
+          this.random.range(-0.5, 0.5) * shape.size[1],
+          this.random.range(-0.5, 0.5) * shape.size[2]
+        );
+        return;
+      case 'surface':
+        this.sampleSurface(shape.geometry, position, direction);
+        return;
+    }
+  }
+
+  private sampleSurface(geometry: THREE.BufferGeometry, position: THREE.Vector3, direction: THREE.Vector3): void {
+    const table = getSurfaceTable(geometry);
+    const total = table.cumulativeArea[table.cumulativeArea.length - 1] ?? 0;
+    if (total <= 0) return;
+    
+    // Binary search for the triangle holding a random share of the total area
+    const pick = this.random.next() * total;
+    let low = 0;
+    let high = table.cumulativeArea.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (table.cumulativeArea[middle] < pick) low = middle + 1; else high = middle;
+    }
+    
+    const [a, b, c] = table.triangles[low].map(index => new THREE.Vector3().fromBufferAttribute(table.positions, index));
+    let u = this.random.next();
+    let v = this.random.next();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    position.copy(a).addScaledVector(b.clone().sub(a), u).addScaledVector(c.clone().sub(a), v);
+    new THREE.Triangle(a, b, c).getNormal(direction);
+  }
+
+  private randomUnit(target: THREE.Vector3): THREE.Vector3 {
+    const z = this.random.range(-1, 1);
+    const around = this.random.range(0, Math.PI * 2);
+    const radius = Math.sqrt(1 - z * z);
+    return target.set(radius * Math.cos(around), radius * Math.sin(around), z);
+  }
+}
+
+function getSurfaceTable(geometry: THREE.BufferGeometry): SurfaceTable {
+  const cached = SURFACES.get(geometry);
+  if (cached) return cached;
+  
+  const positions = geometry.attributes.position;
+  const index = geometry.index;
+  const count = index ? index.count : positions.count;
+  const triangles: number[][] = [];
+  const cumulativeArea: number[] = [];
+  const triangle = new THREE.Triangle();
+  let total = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    const corners = [i, i + 1, i + 2].map(corner => index ? index.getX(corner) : corner);
+    triangle.setFromAttributeAndIndices(positions, corners[0], corners[1], corners[2]);
+    total += triangle.getArea();
+    triangles.push(corners);
+    cumulativeArea.push(total);
+  }
+  
+  const table = { positions, triangles, cumulativeArea };
+  SURFACES.set(geometry, table);
+  return table;
+}
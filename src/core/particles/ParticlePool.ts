@@ -0,0 +1,263 @@
+import * as THREE from 'three';
+
+/**
+ * Value over a particle's life as [age, value] keys, age running from 0 at birth to 1 at death
+ */
+export type Curve = [number, number][];
+
+export type ColorCurve = [number, THREE.ColorRepresentation][];
+
+/**
+ * How a pool's particles move and look over their lives
+ */
+export interface ParticleLook {
+  /** Particles alive at once; when full, the oldest are reused first */
+  capacity: number;
+  /** Diameter in world units */
+  size: Curve;
+  color: ColorCurve;
+  alpha: Curve;
+  /** Acceleration in units per second squared */
+  gravity: [number, number, number];
+  /** How quickly particles lose their launch speed, per second */
+  drag: number;
+  /** How many times taller than wide each particle is drawn, e.g. for rain; 1 for round */
+  streak: number;
+  /** Additive blending makes overlapping particles glow like neon */
+  blending: 'additive' | 'normal';
+}
+
+export const DEFAULT_PARTICLE_LOOK: ParticleLook = {
+  capacity: 256,
+  size: [[0, 0.3], [1, 0]],
+  color: [[0, '#ffffff'], [1, '#ffffff']],
+  alpha: [[0, 1], [1, 0]],
+  gravity: [0, 0, 0],
+  drag: 0,
+  streak: 1,
+  blending: 'additive'
+};
+
+// Curves are baked into this many evenly spaced samples for the shader
+const CURVE_SAMPLES = 16;
+
+const drawingBuffer = new THREE.Vector2();
+
+const VERTEX_SHADER = /* glsl */ `
+#define CURVE_SAMPLES ${CURVE_SAMPLES}
+uniform float time;
+uniform vec3 gravity;
+uniform float drag;
+uniform float pixelScale;
+uniform float sizeCurve[CURVE_SAMPLES];
+uniform vec4 colorCurve[CURVE_SAMPLES];
+attribute vec3 velocity;
+attribute float birth;
+attribute float lifetime;
+attribute vec3 tint;
+attribute float seed;
+varying vec4 vColor;
+
+float sampleSize(float t) {
+  float x = t * float(CURVE_SAMPLES - 1);
+  int i = int(floor(x));
+  return mix(sizeCurve[i], sizeCurve[min(i + 1, CURVE_SAMPLES - 1)], fract(x));
+}
+
+vec4 sampleColor(float t) {
+  float x = t * float(CURVE_SAMPLES - 1);
+  int i = int(floor(x));
+  return mix(colorCurve[i], colorCurve[min(i + 1, CURVE_SAMPLES - 1)], fract(x));
+}
+
+void main() {
+  float age = time - birth;
+  float t = age / lifetime;
+  // Unborn, dead and never used slots are dropped before rasterizing
+  if (lifetime <= 0.0 || t < 0.0 || t >= 1.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    gl_PointSize = 0.0;
+    vColor = vec4(0.0);
+    return;
+  }
+  
+  // Launch speed decays with drag while gravity keeps pulling
+  float travel = drag > 0.0 ? (1.0 - exp(-drag * age)) / drag : age;
+  vec3 current = position + velocity * travel + 0.5 * gravity * age * age;
+  vec4 mvPosition = modelViewMatrix * vec4(current, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  gl_PointSize = sampleSize(t) * (0.7 + 0.6 * seed) * pixelScale / -mvPosition.z;
+  
+  vec4 color = sampleColor(t);
+  vColor = vec4(color.rgb * tint, color.a);
+}
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+uniform float streak;
+varying vec4 vColor;
+
+void main() {
+  vec2 offset = (gl_PointCoord - 0.5) * 2.0;
+  offset.x *= streak;
+  float falloff = 1.0 - smoothstep(0.0, 1.0, length(offset));
+  if (falloff <= 0.0) discard;
+  gl_FragColor = vec4(vColor.rgb, vColor.a * falloff);
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+}
+`;
+
+/**
+ * Value of a curve at `t`, interpolating between keys and holding the end values outside them
+ */
+export function sampleCurve(curve: Curve, t: number): number {
+  if (curve.length === 0) return 0;
+  if (t <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [time, value] = curve[i];
+    if (t <= time) {
+      const [previousTime, previousValue] = curve[i - 1];
+      return previousValue + (value - previousValue) * (t - previousTime) / (time - previousTime);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * A fixed buffer of particles drawn as one set of points
+ * Particles are simulated on the GPU from their birth state, so spawning is the only CPU work:
+ * each spawn overwrites the oldest slot, and slots are never freed
+ */
+export class ParticlePool {
+  private name: string;
+  private look: ParticleLook;
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.ShaderMaterial;
+  private points: THREE.Points;
+  private next: number;
+  private dirty: boolean;
+
+  constructor(name: string, look: Partial<ParticleLook> = {}) {
+    this.name = name;
+    this.look = { ...DEFAULT_PARTICLE_LOOK, ...look };
+    this.next = 0;
+    this.dirty = false;
+    
+    const { capacity } = this.look;
+    this.geometry = new THREE.BufferGeometry();
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+    this.geometry.setAttribute('velocity', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+    this.geometry.setAttribute('birth', new THREE.BufferAttribute(new Float32Array(capacity), 1));
+    this.geometry.setAttribute('lifetime', new THREE.BufferAttribute(new Float32Array(capacity), 1));
+    this.geometry.setAttribute('tint', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+    this.geometry.setAttribute('seed', new THREE.BufferAttribute(new Float32Array(capacity), 1));
+    Object.values(this.geometry.attributes).forEach(attribute => {
+      (attribute as THREE.BufferAttribute).setUsage(THREE.DynamicDrawUsage);
+    });
+    
+    this.material = this.createMaterial();
+    this.points = new THREE.Points(this.geometry, this.material);
+    this.points.name = `particles:${name}`;
+    // Particles fly anywhere from where they spawned, so there are no bounds to cull by
+    this.points.frustumCulled = false;
+    this.points.onBeforeRender = (renderer, _scene, camera) => {
+      // Pixels per world unit at distance 1, as PointsMaterial computes it
+      const height = renderer.getDrawingBufferSize(drawingBuffer).y;
+      this.material.uniforms.pixelScale.value = height * 0.5 * camera.projectionMatrix.elements[5];
+    };
+  }
+
+  /**
+   * Start a particle at a world position, overwriting the oldest one
+   */
+  public spawn(time: number, position: THREE.Vector3, velocity: THREE.Vector3, lifetime: number, tint: THREE.Color, seed: number): void {
+    const index = this.next;
+    this.next = (this.next + 1) % this.look.capacity;
+    
+    const attributes = this.geometry.attributes;
+    (attributes.position as THREE.BufferAttribute).setXYZ(index, position.x, position.y, position.z);
+    (attributes.velocity as THREE.BufferAttribute).setXYZ(index, velocity.x, velocity.y, velocity.z);
+    (attributes.birth as THREE.BufferAttribute).setX(index, time);
+    (attributes.lifetime as THREE.BufferAttribute).setX(index, lifetime);
+    (attributes.tint as THREE.BufferAttribute).setXYZ(index, tint.r, tint.g, tint.b);
+    (attributes.seed as THREE.BufferAttribute).setX(index, seed);
+    this.dirty = true;
+  }
+
+  /**
+   * Advance the pool's clock and upload whatever spawned since the last update
+   */
+  public update(time: number): void {
+    this.material.uniforms.time.value = time;
+    if (!this.dirty) return;
+    Object.values(this.geometry.attributes).forEach(attribute => { attribute.needsUpdate = true; });
+    this.dirty = false;
+  }
+
+  /**
+   * Number of particles still alive at `time`
+   */
+  public getLiveCount(time: number): number {
+    const birth = this.geometry.attributes.birth.array;
+    const lifetime = this.geometry.attributes.lifetime.array;
+    let count = 0;
+    for (let i = 0; i < this.look.capacity; i++) {
+      if (lifetime[i] > 0 && time - birth[i] < lifetime[i]) count++;
+    }
+    return count;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  /**
+   * The points that draw every particle in the pool
+   */
+  public getObject(): THREE.Points {
+    return this.points;
+  }
+
+  /**
+   * Remove the pool from the scene and free its buffers
+   */
+  public dispose(): void {
+    this.points.removeFromParent();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private createMaterial(): THREE.ShaderMaterial {
+    const { size, color, alpha, gravity, drag, streak, blending } = this.look;
+    const sizeCurve: number[] = [];
+    const colorCurve: THREE.Vector4[] = [];
+    const colors = color.map(([time, value]) => [time, new THREE.Color(value)] as const);
+    for (let i = 0; i < CURVE_SAMPLES; i++) {
+      const t = i / (CURVE_SAMPLES - 1);
+      sizeCurve.push(sampleCurve(size, t));
+      const r = sampleCurve(colors.map(([time, value]) => [time, value.r]), t);
+      const g = sampleCurve(colors.map(([time, value]) => [time, value.g]), t);
+      const b = sampleCurve(colors.map(([time, value]) => [time, value.b]), t);
+      colorCurve.push(new THREE.Vector4(r, g, b, sampleCurve(alpha, t)));
+    }
+    
+    return new THREE.ShaderMaterial({
+      name: `Particles:${this.name}`,
+      uniforms: {
+        time: { value: 0 },
+        gravity: { value: new THREE.Vector3(...gravity) },
+        drag: { value: drag },
+        pixelScale: { value: 1 },
+        sizeCurve: { value: sizeCurve },
+        colorCurve: { value: colorCurve },
+        streak: { value: streak }
+      },
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      transparent: true,
+      depthWrite: false,
+      blending: blending === 'additive' ? THREE.AdditiveBlending : THREE.NormalBlending
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { ParticleLook } from './ParticlePool';
+import { EmitterOptions } from './ParticleEmitter';
+
+/**
+ * A pool's look with how its emitters spawn by default
+ */
+export interface ParticlePreset {
+  look: Partial<ParticleLook>;
+  emitter: Partial<EmitterOptions>;
+}
+
+/**
+ * Built-in effects; each gets one pool per scene, shared by all of its emitters
+ */
+export const PARTICLE_PRESETS = {
+  /** Neon shards flung out when an enemy dies, tinted to the enemy */
+  enemyDeath: {
+    look: {
+      capacity: 1024,
+      size: [[0, 0.5], [0.2, 0.4], [1, 0]],
+      color: [[0, '#ffffff'], [0.15, '#ffffff'], [1, '#808080']],
+      alpha: [[0, 1], [0.7, 0.8], [1, 0]],
+      gravity: [0, -12, 0],
+      drag: 2.5
+    },
+    emitter: {
+      burst: 120,
+      lifetime: [0.6, 1.4],
+      speed: [6, 16]
+    }
+  },
+  /** Short hot sparks off the player's body when hit */
+  playerHit: {
+    look: {
+      capacity: 512,
+      size: [[0, 0.25], [1, 0.05]],
+      color: [[0, '#ffffff'], [0.3, '#ffcc44'], [1, '#ff2200']],
+      alpha: [[0, 1], [1, 0]],
+      gravity: [0, -20, 0],
+      drag: 4
+    },
+    emitter: {
+      burst: 40,
+      lifetime: [0.2, 0.5],
+      speed: [6, 12],
+      spread: 0.3
+    }
+  },
+  /** Rain falling around whatever it is attached to, usually the player */
+  rain: {
+    look: {
+      capacity: 2048,
+      size: [[0, 0.35]],
+      color: [[0, '#88ccff']],
+      alpha: [[0, 0], [0.1, 0.35], [0.9, 0.35], [1, 0]],
+      streak: 6
+    },
+    emitter: {
+      shape: { type: 'box', size: [60, 1, 60] },
+      offset: [0, 25, 0],
+      rate: 2000,
+      lifetime: [0.9, 1.1],
+      speed: [26, 30],
+      direction: [0.05, -1, 0]
+    }
+  },
+  /** Slow glowing motes drifting in the air */
+  dust: {
+    look: {
+      capacity: 512,
+      size: [[0, 0.15]],
+      color: [[0, '#ff66ff'], [0.5, '#66ffff'], [1, '#ff66ff']],
+      alpha: [[0, 0], [0.5, 0.6], [1, 0]]
+    },
+    emitter: {
+      shape: { type: 'box', size: [50, 16, 50] },
+      offset: [0, 6, 0],
+      rate: 60,
+      lifetime: [5, 8],
+      speed: [0.1, 0.5],
+      spread: 1
+    }
+  },
+  /** Crackle running over the surface of a neon ring */
+  ringSparks: {
+    look: {
+      capacity: 512,
+      size: [[0, 0.3], [1, 0]],
+      color: [[0, '#ffffff'], [1, '#00ffff']],
+      alpha: [[0, 1], [1, 0]],
+      gravity: [0, -4, 0],
+      drag: 1
+    },
+    emitter: {
+      rate: 40,
+      lifetime: [0.4, 0.9],
+      speed: [0.5, 2],
+      spread: 0.4
+    }
+  }
+} satisfies Record<string, ParticlePreset>;
+
+export type ParticlePresetName = keyof typeof PARTICLE_PRESETS;
+
+/**
+ * Presets a level can turn on as ambient weather around the player
+ */
+export const AMBIENT_PARTICLE_PRESETS = ['rain', 'dust'] as const;
+
+export type AmbientParticlePreset = typeof AMBIENT_PARTICLE_PRESETS[number];
@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+
+// Most neon lights shedding shafts at once
+export const MAX_ATMOSPHERE_LIGHTS = 4;
+
+/**
+ * Height fog with drifting banks and light shafts, reconstructed from the scene's depth
+ * Fog is integrated analytically along each view ray, thinning exponentially with height; shafts are
+ * radial blurs towards the sun or moon, masked to the sky, and towards neon lights, masked to bright pixels
+ */
+export const AtmosphereShader = {
+  name: 'AtmosphereShader',
+
+  defines: {
+    MAX_LIGHTS: MAX_ATMOSPHERE_LIGHTS,
+    SUN_SAMPLES: 24,
+    LIGHT_SAMPLES: 12
+  },
+
+  uniforms: {
+    tDiffuse: { value: null },
+    tDepth: { value: null },
+    projectionMatrixInverse: { value: new THREE.Matrix4() },
+    cameraMatrixWorld: { value: new THREE.Matrix4() },
+    viewPosition: { value: new THREE.Vector3() },
+    // Distance given to the sky, so fog still thickens towards the horizon
+    farDistance: { value: 1000 },
+    time: { value: 0 },
+    fogColor: { value: new THREE.Color() },
+    fogDensity: { value: 0.01 },
+    fogHeight: { value: 0 },
+    fogFalloff: { value: 0.08 },
+    noiseScale: { value: 0.02 },
+    noiseStrength: { value: 0.5 },
+    wind: { value: new THREE.Vector2() },
+    sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+    sunColor: { value: new THREE.Color() },
+    // Screen position of the sun in xy, how visible it is in z
+    sunScreen: { value: new THREE.Vector3() },
+    sunRays: { value: 0 },
+    lightScreen: { value: Array.from({ length: MAX_ATMOSPHERE_LIGHTS }, () => new THREE.Vector3()) },
+    lightColor: { value: Array.from({ length: MAX_ATMOSPHERE_LIGHTS }, () => new THREE.Color()) },
+    lightCount: { value: 0 },
+    neonRays: { value: 0 }
+  },
+
+  vertexShader: /* glsl */`
+    varying vec2 vUv;
+    
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+
+  fragmentShader: /* glsl */`
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tDepth;
+    uniform mat4 projectionMatrixInverse;
+    uniform mat4 cameraMatrixWorld;
+    uniform vec3 viewPosition;
+    uniform float farDistance;
+    uniform float time;
+    uniform vec3 fogColor;
+    uniform float fogDensity;
+    uniform float fogHeight;
+    uniform float fogFalloff;
+    uniform float noiseScale;
+    uniform float noiseStrength;
+    uniform vec2 wind;
+    uniform vec3 sunDirection;
+    uniform vec3 sunColor;
+    uniform vec3 sunScreen;
+    uniform float sunRays;
+    uniform vec3 lightScreen[MAX_LIGHTS];
+    uniform vec3 lightColor[MAX_LIGHTS];
+    uniform int lightCount;
+    uniform float neonRays;
+    varying vec2 vUv;
+    
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+    
+    float noise(vec2 p) {
+      vec2 cell = floor(p);
+      vec2 f = fract(p);
+      vec2 u = f * f * (3.0 - 2.0 * f);
+      return mix(
+        mix(hash(cell), hash(cell + vec2(1.0, 0.0)), u.x),
+        mix(hash(cell + vec2(0.0, 1.0)), hash(cell + vec2(1.0, 1.0)), u.x),
+        u.y
+      );
+    }
+    
+    // Three octaves of drifting value noise, 0 to 1
+    float fogBanks(vec3 position) {
+      vec2 p = position.xz * noiseScale + wind * noiseScale * time + position.y * noiseScale * 0.5;
+      return noise(p) * 0.5 + noise(p * 2.03 + 7.1) * 0.3 + noise(p * 4.01 + 3.7) * 0.2;
+    }
+    
+    vec3 worldPosition(vec2 uv, float depth) {
+      vec4 view = projectionMatrixInverse * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+      return (cameraMatrixWorld * vec4(view.xyz / view.w, 1.0)).xyz;
+    }
+    
+    // Fog along a ray whose density falls off exponentially with height, integrated exactly
+    float heightFog(vec3 direction, float rayLength) {
+      float start = fogDensity * exp(-fogFalloff * (viewPosition.y - fogHeight));
+      float rise = fogFalloff * direction.y * rayLength;
+      float amount = abs(rise) > 0.0001 ? (1.0 - exp(-rise)) / rise : 1.0;
+      return start * rayLength * amount;
+    }
+    
+    // Radial blur from a pixel towards a light, adding up a mask along the way
+    float shaft(vec2 uv, vec2 light, int samples, bool sky) {
+      vec2 delta = (light - uv) / float(samples);
+      vec2 coord = uv;
+      float decay = 1.0;
+      float sum = 0.0;
+      for (int i = 0; i < SUN_SAMPLES; i++) {
+        if (i >= samples) break;
+        coord += delta;
+        float mask;
+        if (sky) {
+          mask = step(0.9999, texture2D(tDepth, coord).x);
+        } else {
+          vec3 color = texture2D(tDiffuse, coord).rgb;
+          mask = max(dot(color, vec3(0.2126, 0.7152, 0.0722)) - 1.0, 0.0);
+        }
+        sum += mask * decay;
+        decay *= 0.94;
+      }
+      // Fades with distance from the light so shafts don't cross the whole screen
+      return sum / float(samples) * exp(-length(light - uv) * 3.0);
+    }
+    
+    void main() {
+      vec4 scene = texture2D(tDiffuse, vUv);
+      float depth = texture2D(tDepth, vUv).x;
+      vec3 color = scene.rgb;
+      
+      vec3 ray;
+      float rayLength;
+      if (depth >= 1.0) {
+        ray = normalize(worldPosition(vUv, 0.5) - viewPosition);
+        rayLength = farDistance;
+      } else {
+        ray = worldPosition(vUv, depth) - viewPosition;
+        rayLength = length(ray);
+        ray /= rayLength;
+      }
+      
+      if (fogDensity > 0.0) {
+        // Banks sampled halfway along the ray, where they are most likely to be seen
+        vec3 middle = viewPosition + ray * min(rayLength, 200.0) * 0.5;
+        float banks = 1.0 + noiseStrength * (fogBanks(middle) * 2.0 - 1.0);
+        float fog = 1.0 - exp(-heightFog(ray, rayLength) * max(banks, 0.0));
+        // Light scattered towards the viewer looking into the sun
+        float forward = pow(max(dot(ray, sunDirection), 0.0), 8.0);
+        color = mix(color, fogColor + sunColor * forward * 0.5, fog);
+      }
+      
+      if (sunRays > 0.0 && sunScreen.z > 0.0) {
+        color += sunColor * shaft(vUv, sunScreen.xy, SUN_SAMPLES, true) * sunRays * sunScreen.z;
+      }
+      if (neonRays > 0.0) {
+        for (int i = 0; i < MAX_LIGHTS; i++) {
+          if (i >= lightCount) break;
+          if (lightScreen[i].z <= 0.0) continue;
+          color += lightColor[i] * shaft(vUv, lightScreen[i].xy, LIGHT_SAMPLES, false) * neonRays * lightScreen[i].z;
+        }
+      }
+      
+      gl_FragColor = vec4(color, scene.a);
+    }
+  `
+};
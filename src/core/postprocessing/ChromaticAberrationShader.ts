@@ -0,0 +1,35 @@
+/**
+ * Radial chromatic aberration - red and blue split outwards from the center
+ */
+export const ChromaticAberrationShader = {
+  name: 'ChromaticAberrationShader',
+  
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0.003 }
+  },
+  
+  vertexShader: /* glsl */`
+    varying vec2 vUv;
+    
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  
+  fragmentShader: /* glsl */`
+    uniform sampler2D tDiffuse;
+    uniform float amount;
+    varying vec2 vUv;
+    
+    void main() {
+      // Stronger towards the edges, like a real lens
+      vec2 offset = (vUv - 0.5) * amount;
+      vec4 center = texture2D(tDiffuse, vUv);
+      float red = texture2D(tDiffuse, vUv + offset).r;
+      float blue = texture2D(tDiffuse, vUv - offset).b;
+      gl_FragColor = vec4(red, center.g, blue, center.a);
+    }
+  `
+};
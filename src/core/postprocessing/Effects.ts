@@ -0,0 +1,325 @@
+import * as THREE from 'three';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { ChromaticAberrationShader } from './ChromaticAberrationShader';
+import { AtmosphereShader, MAX_ATMOSPHERE_LIGHTS } from './AtmosphereShader';
+import { shaderTime } from '../procedural/NeonMaterials';
+
+export type ToneMappingMode = 'aces' | 'agx' | 'reinhard' | 'cineon' | 'linear' | 'none';
+
+/**
+ * A light shedding shafts through the fog
+ */
+export interface AtmosphereLight {
+  position: THREE.Vector3;
+  color: THREE.ColorRepresentation;
+  intensity: number;
+}
+
+/**
+ * Tunable parameters of every effect, by effect name
+ */
+export interface EffectParams {
+  atmosphere: {
+    fogColor: THREE.ColorRepresentation;
+    /** Fog density at `fogHeight`; 0 turns the fog off */
+    fogDensity: number;
+    fogHeight: number;
+    /** How quickly fog thins with height, per unit */
+    fogFalloff: number;
+    noiseScale: number;
+    noiseStrength: number;
+    /** Drift of the fog banks in units per second along x and z */
+    wind: [number, number];
+    /** Towards the sun or moon */
+    sunDirection: THREE.Vector3;
+    sunColor: THREE.ColorRepresentation;
+    sunRays: number;
+    neonRays: number;
+    /** The first few are used */
+    lights: AtmosphereLight[];
+  };
+  bloom: { strength: number; radius: number; threshold: number };
+  depthOfField: { focus: number; aperture: number; maxBlur: number };
+  toneMapping: { mode: ToneMappingMode; exposure: number };
+  chromaticAberration: { amount: number };
+  vignette: { offset: number; darkness: number };
+  grain: { intensity: number; grayscale: boolean };
+}
+
+export type EffectName = keyof EffectParams;
+
+export const DEFAULT_EFFECT_PARAMS: EffectParams = {
+  atmosphere: {
+    fogColor: 0x0a0a1a,
+    fogDensity: 0,
+    fogHeight: 0,
+    fogFalloff: 0.08,
+    noiseScale: 0.02,
+    noiseStrength: 0.5,
+    wind: [1, 0],
+    sunDirection: new THREE.Vector3(0, 1, 0),
+    sunColor: 0x000000,
+    sunRays: 0,
+    neonRays: 0,
+    lights: []
+  },
+  bloom: { strength: 1.1, radius: 0.5, threshold: 0.75 },
+  depthOfField: { focus: 35, aperture: 0.00015, maxBlur: 0.008 },
+  toneMapping: { mode: 'aces', exposure: 1.0 },
+  chromaticAberration: { amount: 0.004 },
+  vignette: { offset: 1.0, darkness: 1.15 },
+  grain: { intensity: 0.25, grayscale: false }
+};
+
+/**
+ * One post-processing effect: its pass and how parameters reach it
+ */
+export interface PostEffect<N extends EffectName = EffectName> {
+  readonly name: N;
+  readonly pass: Pass;
+  /** Reads the scene's depth, so it has to come before anything that draws over the scene render */
+  readonly readsDepth?: boolean;
+  params: EffectParams[N];
+  /** Push `params` into the pass */
+  apply(): void;
+  dispose(): void;
+}
+
+/**
+ * Everything effects may need to build their passes
+ */
+export interface EffectContext {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  size: THREE.Vector2;
+}
+
+const TONE_MAPPING: Record<ToneMappingMode, THREE.ToneMapping> = {
+  aces: THREE.ACESFilmicToneMapping,
+  agx: THREE.AgXToneMapping,
+  reinhard: THREE.ReinhardToneMapping,
+  cineon: THREE.CineonToneMapping,
+  linear: THREE.LinearToneMapping,
+  none: THREE.NoToneMapping
+};
+
+type Uniforms = Record<string, THREE.IUniform>;
+
+/**
+ * Shader pass fed the scene's depth and the camera's current matrices every frame
+ * Sun and light positions are projected to the screen here, as the camera moves between parameter changes
+ */
+class AtmospherePass extends ShaderPass {
+  public sunDirection: THREE.Vector3;
+  public lights: AtmosphereLight[];
+  private camera: THREE.Camera;
+  private projected: THREE.Vector3;
+  private viewSpace: THREE.Vector3;
+
+  constructor(camera: THREE.Camera) {
+    super(AtmosphereShader);
+    this.camera = camera;
+    this.sunDirection = new THREE.Vector3(0, 1, 0);
+    this.lights = [];
+    this.projected = new THREE.Vector3();
+    this.viewSpace = new THREE.Vector3();
+    // The world clock, so fog banks drift with game time
+    this.uniforms.time = shaderTime;
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number,
+    maskActive: boolean
+  ): void {
+    const camera = this.camera;
+    const uniforms = this.uniforms;
+    uniforms.tDepth.value = readBuffer.depthTexture;
+    uniforms.projectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+    uniforms.cameraMatrixWorld.value.copy(camera.matrixWorld);
+    uniforms.viewPosition.value.setFromMatrixPosition(camera.matrixWorld);
+    if (camera instanceof THREE.PerspectiveCamera) {
+      uniforms.farDistance.value = camera.far;
+    }
+    
+    // The sun is infinitely far away: project a point along its direction from the camera
+    this.project(this.projected.copy(this.sunDirection).add(uniforms.viewPosition.value), uniforms.sunScreen.value);
+    const count = Math.min(this.lights.length, MAX_ATMOSPHERE_LIGHTS);
+    for (let i = 0; i < count; i++) {
+      const light = this.lights[i];
+      this.project(this.projected.copy(light.position), uniforms.lightScreen.value[i]);
+      uniforms.lightColor.value[i].set(light.color).multiplyScalar(light.intensity);
+    }
+    uniforms.lightCount.value = count;
+    
+    super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+  }
+
+  /**
+   * Screen position of a world point in xy and, in z, how much it should shed shafts:
+   * none behind the camera, fading out as it leaves the screen
+   */
+  private project(point: THREE.Vector3, target: THREE.Vector3): void {
+    const view = this.viewSpace.copy(point).applyMatrix4(this.camera.matrixWorldInverse);
+    point.project(this.camera);
+    const edge = Math.max(Math.abs(point.x), Math.abs(point.y));
+    const visibility = view.z < 0 ? 1 - THREE.MathUtils.smoothstep(edge, 1, 1.5) : 0;
+    target.set(point.x * 0.5 + 0.5, point.y * 0.5 + 0.5, visibility);
+  }
+}
+
+/**
+ * Height fog with drifting banks and light shafts from the sun and nearby neon
+ * Works from the scene's depth, so it belongs right after the scene render
+ */
+function createAtmosphere(context: EffectContext, params: EffectParams['atmosphere']): PostEffect<'atmosphere'> {
+  const pass = new AtmospherePass(context.camera);
+  const uniforms = pass.uniforms;
+  return {
+    name: 'atmosphere',
+    pass,
+    readsDepth: true,
+    params,
+    apply() {
+      uniforms.fogColor.value.set(this.params.fogColor);
+      uniforms.fogDensity.value = this.params.fogDensity;
+      uniforms.fogHeight.value = this.params.fogHeight;
+      uniforms.fogFalloff.value = this.params.fogFalloff;
+      uniforms.noiseScale.value = this.params.noiseScale;
+      uniforms.noiseStrength.value = this.params.noiseStrength;
+      uniforms.wind.value.fromArray(this.params.wind);
+      uniforms.sunDirection.value.copy(this.params.sunDirection);
+      uniforms.sunColor.value.set(this.params.sunColor);
+      uniforms.sunRays.value = this.params.sunRays;
+      uniforms.neonRays.value = this.params.neonRays;
+      pass.sunDirection.copy(this.params.sunDirection);
+      pass.lights = this.params.lights;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+/**
+ * Luminance-thresholded bloom, so only emissive neon and bright lights glow
+ */
+function createBloom(context: EffectContext, params: EffectParams['bloom']): PostEffect<'bloom'> {
+  const pass = new UnrealBloomPass(context.size.clone(), params.strength, params.radius, params.threshold);
+  return {
+    name: 'bloom',
+    pass,
+    params,
+    apply() {
+      pass.strength = this.params.strength;
+      pass.radius = this.params.radius;
+      pass.threshold = this.params.threshold;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+function createDepthOfField(context: EffectContext, params: EffectParams['depthOfField']): PostEffect<'depthOfField'> {
+  const pass = new BokehPass(context.scene, context.camera, {
+    focus: params.focus,
+    aperture: params.aperture,
+    maxblur: params.maxBlur
+  });
+  const uniforms = pass.uniforms as Uniforms;
+  return {
+    name: 'depthOfField',
+    pass,
+    params,
+    apply() {
+      uniforms.focus.value = this.params.focus;
+      uniforms.aperture.value = this.params.aperture;
+      uniforms.maxblur.value = this.params.maxBlur;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+/**
+ * Maps HDR to display range and converts to the output color space
+ * The operator comes from the renderer, which OutputPass reads every frame
+ */
+function createToneMapping(context: EffectContext, params: EffectParams['toneMapping']): PostEffect<'toneMapping'> {
+  const pass = new OutputPass();
+  return {
+    name: 'toneMapping',
+    pass,
+    params,
+    apply() {
+      context.renderer.toneMapping = TONE_MAPPING[this.params.mode];
+      context.renderer.toneMappingExposure = this.params.exposure;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+function createChromaticAberration(params: EffectParams['chromaticAberration']): PostEffect<'chromaticAberration'> {
+  const pass = new ShaderPass(ChromaticAberrationShader);
+  return {
+    name: 'chromaticAberration',
+    pass,
+    params,
+    apply() {
+      pass.uniforms.amount.value = this.params.amount;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+function createVignette(params: EffectParams['vignette']): PostEffect<'vignette'> {
+  const pass = new ShaderPass(VignetteShader);
+  return {
+    name: 'vignette',
+    pass,
+    params,
+    apply() {
+      pass.uniforms.offset.value = this.params.offset;
+      pass.uniforms.darkness.value = this.params.darkness;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+function createGrain(params: EffectParams['grain']): PostEffect<'grain'> {
+  const pass = new FilmPass(params.intensity, params.grayscale);
+  const uniforms = pass.uniforms as Uniforms;
+  return {
+    name: 'grain',
+    pass,
+    params,
+    apply() {
+      uniforms.intensity.value = this.params.intensity;
+      uniforms.grayscale.value = this.params.grayscale;
+    },
+    dispose: () => pass.dispose()
+  };
+}
+
+/**
+ * Build every available effect with its starting parameters
+ */
+export function createEffects(
+  context: EffectContext,
+  params: EffectParams
+): { [N in EffectName]: PostEffect<N> } {
+  return {
+    atmosphere: createAtmosphere(context, params.atmosphere),
+    bloom: createBloom(context, params.bloom),
+    depthOfField: createDepthOfField(context, params.depthOfField),
+    toneMapping: createToneMapping(context, params.toneMapping),
+    chromaticAberration: createChromaticAberration(params.chromaticAberration),
+    vignette: createVignette(params.vignette),
+    grain: createGrain(params.grain)
+  };
+}
@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import {
+  createEffects,
+  DEFAULT_EFFECT_PARAMS,
+  EffectName,
+  EffectParams,
+  PostEffect
+} from './Effects';
+
+export interface PostProcessingSettings {
+  // Effects in chain order; effects left out are never applied
+  order: EffectName[];
+  enabled: Record<EffectName, boolean>;
+  params: EffectParams;
+  // MSAA samples for the scene target, since the canvas antialiasing is bypassed
+  samples: number;
+}
+
+export const DEFAULT_POST_PROCESSING_SETTINGS: PostProcessingSettings = {
+  order: ['atmosphere', 'bloom', 'depthOfField', 'toneMapping', 'chromaticAberration', 'vignette', 'grain'],
+  enabled: {
+    atmosphere: true,
+    bloom: true,
+    depthOfField: false,
+    toneMapping: true,
+    chromaticAberration: true,
+    vignette: true,
+    grain: true
+  },
+  params: DEFAULT_EFFECT_PARAMS,
+  samples: 4
+};
+
+/**
+ * Ordered chain of screen-space effects on top of the scene render
+ * Effects are built once; toggling and reordering only relinks the pass list
+ */
+export class PostProcessingStack {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private composer: EffectComposer;
+  private renderPass: RenderPass;
+  private effects: { [N in EffectName]: PostEffect<N> };
+  private order: EffectName[];
+  private enabled: Record<EffectName, boolean>;
+  private active: boolean;
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    settings: Partial<PostProcessingSettings> = {}
+  ) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    this.order = [...(settings.order ?? DEFAULT_POST_PROCESSING_SETTINGS.order)];
+    this.enabled = { ...DEFAULT_POST_PROCESSING_SETTINGS.enabled, ...settings.enabled };
+    this.active = true;
+    
+    const size = renderer.getSize(new THREE.Vector2());
+    const pixelRatio = renderer.getPixelRatio();
+    const target = new THREE.WebGLRenderTarget(size.x * pixelRatio, size.y * pixelRatio, {
+      type: THREE.HalfFloatType,
+      samples: settings.samples ?? DEFAULT_POST_PROCESSING_SETTINGS.samples,
+      // Kept for effects that read the scene's depth
+      depthTexture: new THREE.DepthTexture(size.x * pixelRatio, size.y * pixelRatio)
+    });
+    this.composer = new EffectComposer(renderer, target);
+    this.renderPass = new RenderPass(scene, camera);
+    
+    // Copy the defaults so configure() never mutates the shared table
+    const defaults = DEFAULT_POST_PROCESSING_SETTINGS.params;
+    const params = {} as Record<EffectName, object>;
+    for (const name of Object.keys(defaults) as EffectName[]) {
+      params[name] = { ...defaults[name], ...settings.params?.[name] };
+    }
+    this.effects = createEffects({ renderer, scene, camera, size }, params as EffectParams);
+    for (const effect of Object.values(this.effects)) {
+      effect.apply();
+    }
+    
+    this.rebuild();
+  }
+
+  /**
+   * Relink the composer passes from the current order and toggles
+   */
+  private rebuild(): void {
+    while (this.composer.passes.length > 0) {
+      this.composer.removePass(this.composer.passes[0]);
+    }
+    this.composer.addPass(this.renderPass);
+    
+    // Only the scene render fills the depth, so effects reading it go first whatever the order
+    const order = [
+      ...this.order.filter(name => this.effects[name].readsDepth),
+      ...this.order.filter(name => !this.effects[name].readsDepth)
+    ];
+    for (const name of order) {
+      const effect = this.effects[name];
+      // Tone mapping also does the sRGB conversion, so it stays in the chain untonemapped
+      if (name === 'toneMapping' && !this.enabled.toneMapping) {
+        this.renderer.toneMapping = THREE.NoToneMapping;
+      } else if (!this.enabled[name]) {
+        continue;
+      } else if (name === 'toneMapping') {
+        effect.apply();
+      }
+      this.composer.addPass(effect.pass);
+    }
+    
+    // Without an output pass the chain would end in linear space
+    if (!this.order.includes('toneMapping')) {
+      this.composer.addPass(this.effects.toneMapping.pass);
+    }
+  }
+
+  /**
+   * Render a frame through the chain, or straight to screen when bypassed
+   */
+  public render(): void {
+    if (this.active) {
+      this.composer.render();
+    } else {
+      this.renderer.render(this.scene, this.camera);
+    }
+  }
+
+  /**
+   * Match the render targets to a new canvas size
+   */
+  public setSize(width: number, height: number): void {
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(width, height);
+  }
+
+  /**
+   * Change the scene target's MSAA samples; 0 turns antialiasing off
+   */
+  public setSamples(samples: number): void {
+    const { renderTarget1, renderTarget2 } = this.composer;
+    if (renderTarget1.samples === samples) return;
+    // Targets are reallocated with the new sample count the next time they are drawn to
+    [renderTarget1, renderTarget2].forEach(target => {
+      target.samples = samples;
+      target.dispose();
+    });
+  }
+
+  /**
+   * Switch an effect on or off
+   */
+  public setEnabled(name: EffectName, enabled: boolean): void {
+    if (this.enabled[name] === enabled) return;
+    this.enabled[name] = enabled;
+    this.rebuild();
+  }
+
+  /**
+   * Flip an effect and return its new state
+   */
+  public toggle(name: EffectName): boolean {
+    this.setEnabled(name, !this.enabled[name]);
+    return this.enabled[name];
+  }
+
+  public isEnabled(name: EffectName): boolean {
+    return this.enabled[name];
+  }
+
+  /**
+   * Change some parameters of an effect; takes effect on the next frame
+   */
+  public configure<N extends EffectName>(name: N, params: Partial<EffectParams[N]>): void {
+    const effect = this.effects[name] as PostEffect<N>;
+    Object.assign(effect.params, params);
+    if (name !== 'toneMapping' || this.enabled.toneMapping) {
+      effect.apply();
+    }
+  }
+
+  public getParams<N extends EffectName>(name: N): Readonly<EffectParams[N]> {
+    return (this.effects[name] as PostEffect<N>).params;
+  }
+
+  /**
+   * Set the chain order; effects left out are dropped from the chain
+   */
+  public setOrder(order: EffectName[]): void {
+    this.order = [...new Set(order)];
+    this.rebuild();
+  }
+
+  public getOrder(): readonly EffectName[] {
+    return this.order;
+  }
+
+  /**
+   * Keep the depth of field focused on what the camera is looking at
+   */
+  public setFocusDistance(distance: number): void {
+    this.configure('depthOfField', { focus: distance });
+  }
+
+  /**
+   * Bypass the whole chain without losing its configuration
+   */
+  public setActive(active: boolean): void {
+    this.active = active;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Free every pass and render target
+   */
+  public dispose(): void {
+    for (const effect of Object.values(this.effects)) {
+      effect.dispose();
+    }
+    this.renderPass.dispose();
+    this.composer.dispose();
+  }
+}
@@ -0,0 +1,213 @@
+import * as THREE from 'three';
+
+/**
+ * Seconds of world animation, shared by every animated neon material
+ * WorldAnimationSystem advances it on each tick, so all of them move in step with gameplay
+ */
+export const shaderTime: THREE.IUniform<number> = { value: 0 };
+
+export function advanceShaderTime(deltaTime: number): void {
+  shaderTime.value += deltaTime;
+}
+
+/**
+ * Brightness of all neon, shared like `shaderTime`; the atmosphere dims it by day
+ */
+export const neonIntensity: THREE.IUniform<number> = { value: 1 };
+
+/**
+ * Scale a standard material's emissive by the shared neon intensity
+ */
+export function addNeonIntensity(material: THREE.MeshStandardMaterial): void {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.neonIntensity = neonIntensity;
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform float neonIntensity;')
+      .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= neonIntensity;');
+  };
+  material.customProgramCacheKey = () => 'neon-intensity';
+}
+
+export interface NeonGridOptions {
+  /** Width and depth of the plane the grid is drawn on */
+  size: number;
+  divisions: number;
+  lineColor: THREE.ColorRepresentation;
+  /** Color of the two lines through the middle */
+  centerColor: THREE.ColorRepresentation;
+  opacity: number;
+  /** Speed in units per second of the bright rings sweeping out from the middle; 0 for none */
+  pulseSpeed: number;
+  /** Distance between pulse rings */
+  pulseSpacing: number;
+}
+
+export const DEFAULT_NEON_GRID_OPTIONS: NeonGridOptions = {
+  size: 200,
+  divisions: 40,
+  lineColor: 0x00ffff,
+  centerColor: 0xff00ff,
+  opacity: 0.5,
+  pulseSpeed: 12,
+  pulseSpacing: 60
+};
+
+export interface ScanlineOptions {
+  /** Emissive image, e.g. a sign texture */
+  map: THREE.Texture;
+  /** Brightness multiplier; above 1 feeds bloom */
+  intensity: number;
+  /** Scanlines from the bottom of the image to the top */
+  lines: number;
+  /** How far the image dims when it flickers, 0 to 1 */
+  flicker: number;
+  /** Offsets the flicker so neighbouring signs don't blink together */
+  seed: number;
+}
+
+export const DEFAULT_SCANLINE_OPTIONS: Omit<ScanlineOptions, 'map'> = {
+  intensity: 2,
+  lines: 48,
+  flicker: 0.4,
+  seed: 0
+};
+
+const NEON_GRID_VERTEX = /* glsl */ `
+varying vec2 vPlane;
+#include <common>
+#include <fog_pars_vertex>
+
+void main() {
+  vPlane = position.xy;
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  #include <fog_vertex>
+}
+`;
+
+const NEON_GRID_FRAGMENT = /* glsl */ `
+uniform float time;
+uniform float neonIntensity;
+uniform float cellSize;
+uniform vec3 lineColor;
+uniform vec3 centerColor;
+uniform float opacity;
+uniform float pulseSpeed;
+uniform float pulseSpacing;
+varying vec2 vPlane;
+#include <common>
+#include <fog_pars_fragment>
+
+void main() {
+  // Distance to the nearest line in screen pixels keeps lines one pixel wide and antialiased
+  vec2 cell = vPlane / cellSize;
+  vec2 toLine = abs(fract(cell - 0.5) - 0.5) / fwidth(cell);
+  float line = 1.0 - min(min(toLine.x, toLine.y), 1.0);
+  vec2 toCenter = abs(vPlane) / fwidth(vPlane) / 1.5;
+  float center = 1.0 - min(min(toCenter.x, toCenter.y), 1.0);
+  
+  float pulse = 0.0;
+  if (pulseSpeed > 0.0) {
+    float wave = fract((length(vPlane) - time * pulseSpeed) / pulseSpacing);
+    pulse = smoothstep(0.85, 1.0, wave) * 2.0;
+  }
+  
+  vec3 color = mix(lineColor, centerColor, center) * (1.0 + pulse) * neonIntensity;
+  gl_FragColor = vec4(color, max(line, center) * opacity);
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+  #include <fog_fragment>
+}
+`;
+
+const SCANLINE_VERTEX = /* glsl */ `
+varying vec2 vUv;
+#include <common>
+#include <fog_pars_vertex>
+
+void main() {
+  vUv = uv;
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  #include <fog_vertex>
+}
+`;
+
+const SCANLINE_FRAGMENT = /* glsl */ `
+uniform sampler2D map;
+uniform float time;
+uniform float neonIntensity;
+uniform float intensity;
+uniform float lines;
+uniform float flicker;
+uniform float seed;
+varying vec2 vUv;
+#include <common>
+#include <fog_pars_fragment>
+
+void main() {
+  vec3 image = texture2D(map, vUv).rgb;
+  // Bands rolling slowly upwards
+  float scan = 0.8 + 0.2 * sin((vUv.y * lines - time * 2.0) * PI2);
+  // Every twelfth of a second, a few percent chance of dimming
+  float blink = step(0.96, rand(vec2(floor(time * 12.0), seed)));
+  gl_FragColor = vec4(image * intensity * neonIntensity * scan * (1.0 - flicker * blink), 1.0);
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+  #include <fog_fragment>
+}
+`;
+
+/**
+ * Transparent grid of glowing lines for a ground plane, with rings pulsing out from the middle
+ * Draw it on a PlaneGeometry of `size` laid flat just above the ground
+ */
+export function createNeonGridMaterial(options: Partial<NeonGridOptions> = {}): THREE.ShaderMaterial {
+  const settings = { ...DEFAULT_NEON_GRID_OPTIONS, ...options };
+  const uniforms = THREE.UniformsUtils.merge([THREE.UniformsLib.fog, {
+    cellSize: { value: settings.size / settings.divisions },
+    lineColor: { value: new THREE.Color(settings.lineColor) },
+    centerColor: { value: new THREE.Color(settings.centerColor) },
+    opacity: { value: settings.opacity },
+    pulseSpeed: { value: settings.pulseSpeed },
+    pulseSpacing: { value: settings.pulseSpacing }
+  }]);
+  // Merging copies uniforms, so the shared clock and intensity go in afterwards
+  uniforms.time = shaderTime;
+  uniforms.neonIntensity = neonIntensity;
+  
+  return new THREE.ShaderMaterial({
+    name: 'NeonGrid',
+    uniforms,
+    vertexShader: NEON_GRID_VERTEX,
+    fragmentShader: NEON_GRID_FRAGMENT,
+    transparent: true,
+    depthWrite: false,
+    fog: true
+  });
+}
+
+/**
+ * Unlit emissive image crossed by rolling scanlines, with the occasional flicker
+ */
+export function createScanlineMaterial(options: Partial<ScanlineOptions> & { map: THREE.Texture }): THREE.ShaderMaterial {
+  const settings = { ...DEFAULT_SCANLINE_OPTIONS, ...options };
+  const uniforms = THREE.UniformsUtils.merge([THREE.UniformsLib.fog, {
+    intensity: { value: settings.intensity },
+    lines: { value: settings.lines },
+    flicker: { value: settings.flicker },
+    seed: { value: settings.seed }
+  }]);
+  // Textures and the shared clock and intensity must not be copied
+  uniforms.map = { value: settings.map };
+  uniforms.time = shaderTime;
+  uniforms.neonIntensity = neonIntensity;
+  
+  return new THREE.ShaderMaterial({
+    name: 'Scanline',
+    uniforms,
+    vertexShader: SCANLINE_VERTEX,
+    fragmentShader: SCANLINE_FRAGMENT,
+    fog: true
+  });
+}
@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { ResourceCache } from '../ResourceCache';
+import {
+  DEFAULT_NOISE_TEXTURE_OPTIONS,
+  DEFAULT_PANEL_NORMAL_OPTIONS,
+  DEFAULT_SIGN_TEXTURE_OPTIONS,
+  NoiseTextureOptions,
+  PanelNormalOptions,
+  PixelData,
+  SignTextureOptions,
+  generateNoise,
+  generatePanelNormals,
+  generateSign
+} from './TextureGenerators';
+
+/**
+ * Generated textures, cached by the options they were made with
+ * Every call takes a reference in the cache, so each texture is generated once and
+ * disposed when the last material using it is; tiling textures repeat `repeat` times across a face
+ */
+export class ProceduralTextures {
+  private cache: ResourceCache;
+
+  constructor(cache: ResourceCache) {
+    this.cache = cache;
+  }
+
+  /**
+   * Fractal noise between two colors, e.g. for grime or roughness variation
+   */
+  public noise(options: Partial<NoiseTextureOptions> = {}, repeat: number = 1): THREE.DataTexture {
+    const settings = { ...DEFAULT_NOISE_TEXTURE_OPTIONS, ...options };
+    return this.cache.texture(`noise:${JSON.stringify(settings)}:${repeat}`, () => {
+      return toDataTexture(generateNoise(settings), { srgb: true, repeat });
+    });
+  }
+
+  /**
+   * Beveled panel and greeble normal map for hull surfaces
+   */
+  public panelNormals(options: Partial<PanelNormalOptions> = {}, repeat: number = 1): THREE.DataTexture {
+    const settings = { ...DEFAULT_PANEL_NORMAL_OPTIONS, ...options };
+    return this.cache.texture(`panels:${JSON.stringify(settings)}:${repeat}`, () => {
+      return toDataTexture(generatePanelNormals(settings), { srgb: false, repeat });
+    });
+  }
+
+  /**
+   * Glowing pixel-font sign, stretched once across a face
+   */
+  public sign(options: Partial<SignTextureOptions> = {}): THREE.DataTexture {
+    const settings = { ...DEFAULT_SIGN_TEXTURE_OPTIONS, ...options };
+    return this.cache.texture(`sign:${JSON.stringify(settings)}`, () => {
+      return toDataTexture(generateSign(settings), { srgb: true, repeat: 0 });
+    });
+  }
+}
+
+/**
+ * Upload generated pixels as a mipmapped texture
+ * A `repeat` of 0 clamps at the edges instead of tiling
+ */
+export function toDataTexture(pixels: PixelData, options: { srgb: boolean; repeat: number }): THREE.DataTexture {
+  const texture = new THREE.DataTexture(pixels.data, pixels.width, pixels.height);
+  texture.colorSpace = options.srgb ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.generateMipmaps = true;
+  if (options.repeat > 0) {
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.repeat.set(options.repeat, options.repeat);
+  }
+  texture.needsUpdate = true;
+  return texture;
+}
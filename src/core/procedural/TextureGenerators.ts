@@ -0,0 +1,307 @@
+import * as THREE from 'three';
+import { fbm2D, perlin2D, simplex2D, worley2D } from '../../utils/Noise';
+import { SeededRandom } from '../../utils/Random';
+import { GLYPH_HEIGHT, measureText, rasterizeText } from './BitmapFont';
+
+/**
+ * RGBA pixels, four bytes each, in rows from the bottom up as WebGL uploads them
+ * Generators only compute pixels, so their output can be checked without a GPU
+ */
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+export type NoiseType = 'perlin' | 'simplex' | 'worley';
+
+export interface NoiseTextureOptions {
+  type: NoiseType;
+  /** Width and height in pixels */
+  size: number;
+  /** Noise cells across the texture; Perlin and Worley tile at whole numbers */
+  cells: number;
+  octaves: number;
+  seed: number;
+  /** Colors the noise runs between, as '#rrggbb' */
+  low: string;
+  high: string;
+}
+
+export const DEFAULT_NOISE_TEXTURE_OPTIONS: NoiseTextureOptions = {
+  type: 'perlin',
+  size: 256,
+  cells: 8,
+  octaves: 4,
+  seed: 0,
+  low: '#000000',
+  high: '#ffffff'
+};
+
+export interface PanelNormalOptions {
+  /** Width and height in pixels */
+  size: number;
+  /** Panels along each side before some are split in two */
+  panels: number;
+  seed: number;
+  /** Width of the slope at a panel's edge, in pixels */
+  bevel: number;
+  /** Chance a panel carries a raised greeble box */
+  greebleChance: number;
+  /** How steep the surface looks */
+  strength: number;
+}
+
+export const DEFAULT_PANEL_NORMAL_OPTIONS: PanelNormalOptions = {
+  size: 256,
+  panels: 4,
+  seed: 0,
+  bevel: 3,
+  greebleChance: 0.4,
+  strength: 2
+};
+
+export interface SignTextureOptions {
+  text: string;
+  /** Tube color as '#rrggbb' */
+  color: string;
+  /** Texture pixels per font pixel */
+  pixelSize: number;
+  /** Font pixels between the text and the edge */
+  padding: number;
+  /** Radius of the halo around the tubes, in texture pixels */
+  glow: number;
+  /** Draw a tube around the sign's edge */
+  border: boolean;
+  background: string;
+}
+
+export const DEFAULT_SIGN_TEXTURE_OPTIONS: SignTextureOptions = {
+  text: '',
+  color: '#ff00ff',
+  pixelSize: 8,
+  padding: 2,
+  glow: 6,
+  border: true,
+  background: '#05050a'
+};
+
+const NOISES = {
+  perlin: perlin2D,
+  simplex: simplex2D,
+  worley: worley2D
+};
+
+/**
+ * Blank opaque black pixels
+ */
+export function createPixelData(width: number, height: number): PixelData {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255;
+  }
+  return { width, height, data };
+}
+
+/**
+ * Vertical blend from `color1` on the bottom row to `color2` at the top
+ */
+export function generateGradient(color1: THREE.Color, color2: THREE.Color, width: number, height: number): PixelData {
+  const pixels = createPixelData(width, height);
+  for (let i = 0; i < height; i++) {
+    const t = i / height;
+    const r = Math.floor(color1.r * 255 * (1 - t) + color2.r * 255 * t);
+    const g = Math.floor(color1.g * 255 * (1 - t) + color2.g * 255 * t);
+    const b = Math.floor(color1.b * 255 * (1 - t) + color2.b * 255 * t);
+    
+    for (let j = 0; j < width; j++) {
+      setPixel(pixels, j, i, r, g, b);
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Fractal Perlin, simplex or Worley noise mapped between two colors
+ */
+export function generateNoise(options: Partial<NoiseTextureOptions> = {}): PixelData {
+  const { type, size, cells, octaves, seed, low, high } = { ...DEFAULT_NOISE_TEXTURE_OPTIONS, ...options };
+  const noise = NOISES[type];
+  const from = toBytes(low);
+  const to = toBytes(high);
+  const pixels = createPixelData(size, size);
+  
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = fbm2D(noise, x / size * cells, y / size * cells, octaves, seed, cells);
+      // Gradient noise is centered on 0, Worley distances start at it
+      const t = clamp01(type === 'worley' ? value : value * 0.5 + 0.5);
+      setPixel(pixels, x, y, lerp(from[0], to[0], t), lerp(from[1], to[1], t), lerp(from[2], to[2], t));
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Tangent-space normal map of beveled hull panels with the odd raised greeble, tiling on every side
+ */
+export function generatePanelNormals(options: Partial<PanelNormalOptions> = {}): PixelData {
+  const { size, panels, seed, bevel, greebleChance, strength } = { ...DEFAULT_PANEL_NORMAL_OPTIONS, ...options };
+  const random = new SeededRandom(seed);
+  const heights = new Float32Array(size * size);
+  
+  // Raise a rectangle, sloping up from its edges over `slope` pixels
+  const raise = (left: number, bottom: number, width: number, height: number, amount: number, slope: number) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const edge = Math.min(x + 0.5, y + 0.5, width - x - 0.5, height - y - 0.5);
+        heights[(bottom + y) * size + left + x] += amount * Math.min(1, edge / slope);
+      }
+    }
+  };
+  
+  const cell = Math.floor(size / panels);
+  for (let row = 0; row < panels; row++) {
+    for (let column = 0; column < panels; column++) {
+      const rects: [number, number, number, number][] = [[column * cell, row * cell, cell, cell]];
+      // Split some panels in two, along either axis
+      if (random.chance(0.5)) {
+        const [left, bottom] = rects.pop()!;
+        const split = Math.round(cell * random.range(0.3, 0.7));
+        if (random.chance(0.5)) {
+          rects.push([left, bottom, split, cell], [left + split, bottom, cell - split, cell]);
+        } else {
+          rects.push([left, bottom, cell, split], [left, bottom + split, cell, cell - split]);
+        }
+      }
+      
+      rects.forEach(([left, bottom, width, height]) => {
+        raise(left, bottom, width, height, random.range(0.8, 1), bevel);
+        if (width < bevel * 8 || height < bevel * 8 || !random.chance(greebleChance)) return;
+        
+        const greebleWidth = Math.floor(width * random.range(0.2, 0.5));
+        const greebleHeight = Math.floor(height * random.range(0.2, 0.5));
+        raise(
+          left + random.int(bevel * 2, width - greebleWidth - bevel * 2),
+          bottom + random.int(bevel * 2, height - greebleHeight - bevel * 2),
+          greebleWidth,
+          greebleHeight,
+          0.5,
+          bevel / 2
+        );
+      });
+    }
+  }
+  
+  // Slopes across the tile's edges wrap around so neighbouring tiles meet seamlessly
+  const at = (x: number, y: number) => heights[((y + size) % size) * size + (x + size) % size];
+  const pixels = createPixelData(size, size);
+  const normal = new THREE.Vector3();
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      normal.set(
+        (at(x - 1, y) - at(x + 1, y)) * strength,
+        (at(x, y - 1) - at(x, y + 1)) * strength,
+        1
+      ).normalize();
+      setPixel(pixels, x, y, (normal.x * 0.5 + 0.5) * 255, (normal.y * 0.5 + 0.5) * 255, (normal.z * 0.5 + 0.5) * 255);
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Neon sign of a line of pixel-font text: glowing tubes with a soft halo on a dark backing
+ * Characters the font lacks come out blank
+ */
+export function generateSign(options: Partial<SignTextureOptions> = {}): PixelData {
+  const { text, color, pixelSize, padding, glow, border, background } = { ...DEFAULT_SIGN_TEXTURE_OPTIONS, ...options };
+  const columns = measureText(text) + padding * 2;
+  const rows = GLYPH_HEIGHT + padding * 2;
+  const width = columns * pixelSize;
+  const height = rows * pixelSize;
+  
+  // Tubes as a mask over font pixels, each drawn a little inside its square
+  const tubes = new Float32Array(width * height);
+  const light = (column: number, row: number) => {
+    const inset = Math.floor(pixelSize / 8);
+    for (let y = inset; y < pixelSize - inset; y++) {
+      for (let x = inset; x < pixelSize - inset; x++) {
+        // Text rows count down from the top; pixel rows count up
+        tubes[(height - 1 - (row * pixelSize + y)) * width + column * pixelSize + x] = 1;
+      }
+    }
+  };
+  rasterizeText(text, (x, y) => light(x + padding, y + padding));
+  if (border) {
+    for (let column = 0; column < columns; column++) {
+      light(column, 0);
+      light(column, rows - 1);
+    }
+    for (let row = 1; row < rows - 1; row++) {
+      light(0, row);
+      light(columns - 1, row);
+    }
+  }
+  
+  const halo = boxBlur(boxBlur(tubes, width, height, glow), width, height, glow);
+  const tube = toBytes(color);
+  const backing = toBytes(background);
+  const pixels = createPixelData(width, height);
+  for (let i = 0; i < tubes.length; i++) {
+    // Tubes burn white-hot in the middle, the halo keeps the tube color
+    const glowAmount = clamp01(halo[i] * 1.5);
+    const core = tubes[i];
+    const channel = (index: number) => {
+      const lit = lerp(backing[index], tube[index], glowAmount);
+      return lerp(lit, lerp(tube[index], 255, 0.6), core);
+    };
+    setPixel(pixels, i % width, Math.floor(i / width), channel(0), channel(1), channel(2));
+  }
+  return pixels;
+}
+
+/**
+ * Average of every value within `radius` along rows, then columns
+ */
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  if (radius < 1) return values;
+  const pass = (source: Float32Array, along: number, across: number, step: number, stride: number) => {
+    const result = new Float32Array(source.length);
+    for (let line = 0; line < across; line++) {
+      let sum = 0;
+      // Running window sum; samples beyond the edge count as 0
+      for (let i = 0; i < Math.min(radius, along); i++) {
+        sum += source[line * stride + i * step];
+      }
+      for (let i = 0; i < along; i++) {
+        if (i + radius < along) sum += source[line * stride + (i + radius) * step];
+        if (i - radius - 1 >= 0) sum -= source[line * stride + (i - radius - 1) * step];
+        result[line * stride + i * step] = sum / (radius * 2 + 1);
+      }
+    }
+    return result;
+  };
+  return pass(pass(values, width, height, 1, width), height, width, width, 1);
+}
+
+function setPixel(pixels: PixelData, x: number, y: number, r: number, g: number, b: number): void {
+  const index = (y * pixels.width + x) * 4;
+  pixels.data[index] = r;
+  pixels.data[index + 1] = g;
+  pixels.data[index + 2] = b;
+}
+
+// sRGB bytes of a '#rrggbb' color
+function toBytes(color: string): [number, number, number] {
+  const hex = new THREE.Color(color).getHex();
+  return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
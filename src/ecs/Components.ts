@@ -0,0 +1,418 @@
+import * as THREE from 'three';
+import { Entity, defineComponent } from './Registry';
+import { ColliderPart } from '../physics/Colliders';
+import type { BehaviorNode } from '../ai/BehaviorTree';
+import type { Blackboard } from '../ai/Blackboard';
+import type { EnemyContext } from '../ai/EnemyBehaviors';
+import type { CharacterAnimator } from '../characters/CharacterAnimator';
+
+/**
+ * Simulated transform; `previous*` holds the state at the start of the tick
+ * so the render phase can interpolate between the two
+ */
+export interface TransformComponent {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  previousPosition: THREE.Vector3;
+  previousQuaternion: THREE.Quaternion;
+}
+
+export const Transform = defineComponent<TransformComponent>('Transform');
+
+/**
+ * Create a transform component at a position
+ */
+export function createTransform(
+  position: THREE.Vector3,
+  quaternion: THREE.Quaternion = new THREE.Quaternion()
+): TransformComponent {
+  return {
+    position: position.clone(),
+    quaternion: quaternion.clone(),
+    previousPosition: position.clone(),
+    previousQuaternion: quaternion.clone()
+  };
+}
+
+/**
+ * Human-readable kind used for debugging and state dumps
+ */
+export interface TagComponent {
+  name: string;
+}
+
+export const Tag = defineComponent<TagComponent>('Tag');
+
+/**
+ * Linear velocity with per-tick horizontal damping (1 = no damping)
+ * Vertical velocity is left to gravity
+ */
+export interface VelocityComponent {
+  linear: THREE.Vector3;
+  damping: number;
+}
+
+export const Velocity = defineComponent<VelocityComponent>('Velocity');
+
+/**
+ * Damage queued against an entity, applied by the DamageSystem
+ */
+export interface DamageRequest {
+  amount: number;
+  source: Entity | null;
+  knockback: THREE.Vector3 | null;
+}
+
+/**
+ * Hit points with post-hit invulnerability
+ */
+export interface HealthComponent {
+  current: number;
+  max: number;
+  /** Seconds of invulnerability granted by each hit */
+  invulnerability: number;
+  invulnerableTimer: number;
+  /** Seconds left on the hit flash */
+  flashTimer: number;
+  pending: DamageRequest[];
+}
+
+export const Health = defineComponent<HealthComponent>('Health');
+
+/**
+ * Create full health
+ */
+export function createHealth(max: number, invulnerability: number = 0): HealthComponent {
+  return {
+    current: max,
+    max,
+    invulnerability,
+    invulnerableTimer: 0,
+    flashTimer: 0,
+    pending: []
+  };
+}
+
+export type FactionName = 'player' | 'enemy';
+
+/**
+ * Side an entity fights for; attacks only hurt the other side
+ */
+export interface FactionComponent {
+  team: FactionName;
+}
+
+export const Faction = defineComponent<FactionComponent>('Faction');
+
+/**
+ * Scene object that mirrors the entity transform
+ */
+export interface MeshRefComponent {
+  object: THREE.Object3D;
+}
+
+export const MeshRef = defineComponent<MeshRefComponent>('MeshRef');
+
+export type AIStateName = 'idle' | 'patrol' | 'chase' | 'attack' | 'retreat' | 'flank' | 'orbit' | 'search';
+
+/**
+ * Enemy state machine data
+ */
+export interface AIStateComponent {
+  state: AIStateName;
+  speed: number;
+  attackRange: number;
+  patrolPoints: THREE.Vector3[];
+  currentPatrolIndex: number;
+  /** Point the enemy is heading for or watching */
+  target: THREE.Vector3;
+  elapsedTime: number;
+  spin: number;
+  /** Idle spin rate; enemies that don't spin turn to face their target instead */
+  spinSpeed: number;
+  attackKind: 'melee' | 'ranged';
+  attackDamage: number;
+  /** Telegraph time before a strike lands */
+  attackWindup: number;
+  attackCooldown: number;
+  attackTimer: number;
+  attackPhase: 'ready' | 'windup' | 'recover';
+  projectileSpeed: number;
+}
+
+export const AIState = defineComponent<AIStateComponent>('AIState');
+
+export type AlertLevel = 'unaware' | 'suspicious' | 'alert' | 'searching';
+
+/**
+ * What an enemy has noticed, maintained by the PerceptionSystem
+ */
+export interface PerceptionComponent {
+  sightRange: number;
+  /** Full width of the vision cone in radians */
+  fieldOfView: number;
+  /** Targets this close are noticed regardless of the cone */
+  proximityRange: number;
+  /** Multiplier on the radius noises carry to this enemy */
+  hearing: number;
+  /** Seconds spent searching before giving up */
+  memory: number;
+  alert: AlertLevel;
+  /** Builds towards 1 while the target is seen; reaching 1 means alert */
+  awareness: number;
+  canSeeTarget: boolean;
+  lastKnownPosition: THREE.Vector3 | null;
+  memoryTimer: number;
+}
+
+export const Perception = defineComponent<PerceptionComponent>('Perception');
+
+/**
+ * Create an unaware perception state
+ */
+export function createPerception(
+  sightRange: number,
+  fieldOfView: number,
+  hearing: number = 1,
+  memory: number = 8
+): PerceptionComponent {
+  return {
+    sightRange,
+    fieldOfView,
+    proximityRange: 4,
+    hearing,
+    memory,
+    alert: 'unaware',
+    awareness: 0,
+    canSeeTarget: false,
+    lastKnownPosition: null,
+    memoryTimer: 0
+  };
+}
+
+/**
+ * Behavior tree driving an enemy, with its memory
+ */
+export interface BehaviorComponent {
+  tree: BehaviorNode<EnemyContext>;
+  blackboard: Blackboard;
+}
+
+export const Behavior = defineComponent<BehaviorComponent>('Behavior');
+
+/**
+ * Frontal shield that soaks part of the damage from sources in front
+ */
+export interface ShieldComponent {
+  /** Full width of the covered arc in radians */
+  arc: number;
+  /** Fraction of damage blocked, 0-1 */
+  reduction: number;
+}
+
+export const Shield = defineComponent<ShieldComponent>('Shield');
+
+/**
+ * Path following state; AI sets the destination, NavigationSystem steers
+ */
+export interface NavAgentComponent {
+  /** Where to go, or null to hold position */
+  destination: THREE.Vector3 | null;
+  speed: number;
+  path: THREE.Vector3[];
+  pathIndex: number;
+  /** Destination the current path was planned for */
+  pathGoal: THREE.Vector3;
+  repathTimer: number;
+  /** Keep at least this far from other agents */
+  separationRadius: number;
+}
+
+export const NavAgent = defineComponent<NavAgentComponent>('NavAgent');
+
+/**
+ * Create an idle navigation agent
+ */
+export function createNavAgent(speed: number, separationRadius: number = 4): NavAgentComponent {
+  return {
+    destination: null,
+    speed,
+    path: [],
+    pathIndex: 0,
+    pathGoal: new THREE.Vector3(),
+    repathTimer: 0,
+    separationRadius
+  };
+}
+
+/**
+ * Runtime state of the player controller (tuning lives in PlayerController)
+ */
+export interface PlayerControlComponent {
+  /** Camera yaw in radians; movement input is rotated by it */
+  viewYaw: number;
+  stamina: number;
+  maxStamina: number;
+  sprinting: boolean;
+  /** Set when stamina runs out; sprint is locked until it recovers */
+  exhausted: boolean;
+  staminaRegenDelay: number;
+  coyoteTimer: number;
+  jumpBufferTimer: number;
+  jumpHeld: boolean;
+  dashTimer: number;
+  dashCooldown: number;
+  dashHeld: boolean;
+  dashDirection: THREE.Vector3;
+  /** Time until the next sprint footstep is loud enough to hear */
+  noiseTimer: number;
+}
+
+export const PlayerControl = defineComponent<PlayerControlComponent>('PlayerControl');
+
+/**
+ * Create player control state with full stamina
+ */
+export function createPlayerControl(maxStamina: number = 100): PlayerControlComponent {
+  return {
+    viewYaw: 0,
+    stamina: maxStamina,
+    maxStamina,
+    sprinting: false,
+    exhausted: false,
+    staminaRegenDelay: 0,
+    coyoteTimer: 0,
+    jumpBufferTimer: 0,
+    jumpHeld: false,
+    dashTimer: 0,
+    dashCooldown: 0,
+    dashHeld: false,
+    dashDirection: new THREE.Vector3(0, 0, -1),
+    noiseTimer: 0
+  };
+}
+
+/**
+ * Player attack cooldowns
+ */
+export interface PlayerCombatComponent {
+  meleeCooldown: number;
+  rangedCooldown: number;
+}
+
+export const PlayerCombat = defineComponent<PlayerCombatComponent>('PlayerCombat');
+
+/**
+ * Damaging projectile
+ */
+export interface ProjectileComponent {
+  owner: Entity;
+  team: FactionName;
+  damage: number;
+  knockback: number;
+  radius: number;
+  lifetime: number;
+}
+
+export const Projectile = defineComponent<ProjectileComponent>('Projectile');
+
+/**
+ * Lives and respawn timing for the player
+ */
+export interface RespawnComponent {
+  spawnPoint: THREE.Vector3;
+  lives: number;
+  delay: number;
+  timer: number;
+}
+
+export const Respawn = defineComponent<RespawnComponent>('Respawn');
+
+/**
+ * Collision shapes attached to an entity's transform
+ * Static colliders are never pushed by contacts, though they may be animated
+ */
+export interface ColliderComponent {
+  parts: ColliderPart[];
+  isStatic: boolean;
+}
+
+export const Collider = defineComponent<ColliderComponent>('Collider');
+
+/**
+ * Dynamic body resolved against colliders with sweep-and-slide
+ */
+export interface RigidBodyComponent {
+  mass: number;
+  gravityScale: number;
+  grounded: boolean;
+  groundNormal: THREE.Vector3;
+  /** Collider stood on last tick, carried along when it moves */
+  groundEntity: Entity | null;
+}
+
+export const RigidBody = defineComponent<RigidBodyComponent>('RigidBody');
+
+/**
+ * Create a rigid body at rest
+ */
+export function createRigidBody(mass: number = 1, gravityScale: number = 1): RigidBodyComponent {
+  return {
+    mass,
+    gravityScale,
+    grounded: false,
+    groundNormal: new THREE.Vector3(0, 1, 0),
+    groundEntity: null
+  };
+}
+
+/**
+ * Slow floating bob and spin used by the megastructures
+ */
+export interface FloatMotionComponent {
+  baseY: number;
+  amplitude: number;
+  frequency: number;
+  spinSpeed: number;
+  angle: number;
+  elapsedTime: number;
+}
+
+export const FloatMotion = defineComponent<FloatMotionComponent>('FloatMotion');
+
+/**
+ * Pulsating light intensity
+ */
+export interface LightPulseComponent {
+  light: THREE.Light;
+  baseIntensity: number;
+  amplitude: number;
+  speed: number;
+  elapsedTime: number;
+}
+
+export const LightPulse = defineComponent<LightPulseComponent>('LightPulse');
+
+/**
+ * Box volume that reports the player entering and leaving it
+ */
+export interface TriggerComponent {
+  name: string;
+  bounds: THREE.Box3;
+  once: boolean;
+  fired: boolean;
+  occupants: Set<Entity>;
+  message?: string;
+  loadLevel?: string;
+}
+
+export const Trigger = defineComponent<TriggerComponent>('Trigger');
+
+/**
+ * Skeletal animation of a character model, driven by what the entity is doing
+ */
+export interface AnimatorComponent {
+  animator: CharacterAnimator;
+}
+
+export const Animator = defineComponent<AnimatorComponent>('Animator');
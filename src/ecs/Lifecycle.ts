@@ -0,0 +1,16 @@
+import { Entity, Registry } from './Registry';
+import { MeshRef } from './Components';
+import { disposeObject } from '../core/ResourceCache';
+
+/**
+ * Remove an entity together with its scene object, freeing the object's GPU resources
+ */
+export function despawn(registry: Registry, entity: Entity): void {
+  const object = registry.getComponent(entity, MeshRef)?.object;
+  if (object) {
+    object.removeFromParent();
+    disposeObject(object);
+  }
+  
+  registry.destroyEntity(entity);
+}
@@ -0,0 +1,142 @@
+/**
+ * Entity identifier - a plain number handed out by the registry
+ */
+export type Entity = number;
+
+/**
+ * Typed key for a component store
+ */
+export interface ComponentType<T> {
+  readonly name: string;
+  /** Phantom field carrying the component data type */
+  readonly __data?: T;
+}
+
+/**
+ * Define a new component type
+ */
+export function defineComponent<T>(name: string): ComponentType<T> {
+  return { name };
+}
+
+/**
+ * Entity registry
+ * Owns entity lifetimes and per-type component stores, and answers queries
+ */
+export class Registry {
+  private nextEntity: Entity;
+  private entities: Set<Entity>;
+  private stores: Map<ComponentType<unknown>, Map<Entity, unknown>>;
+
+  constructor() {
+    this.nextEntity = 1;
+    this.entities = new Set();
+    this.stores = new Map();
+  }
+
+  /**
+   * Create a new empty entity
+   */
+  public createEntity(): Entity {
+    const entity = this.nextEntity++;
+    this.entities.add(entity);
+    return entity;
+  }
+
+  /**
+   * Destroy an entity and all of its components
+   */
+  public destroyEntity(entity: Entity): void {
+    if (!this.entities.delete(entity)) return;
+
+    this.stores.forEach(store => store.delete(entity));
+  }
+
+  /**
+   * Check if an entity still exists
+   */
+  public isAlive(entity: Entity): boolean {
+    return this.entities.has(entity);
+  }
+
+  /**
+   * Attach a component to an entity, replacing any existing one of that type
+   */
+  public addComponent<T>(entity: Entity, type: ComponentType<T>, data: T): T {
+    if (!this.entities.has(entity)) {
+      throw new Error(`Cannot add ${type.name} to unknown entity ${entity}`);
+    }
+
+    this.getStore(type).set(entity, data);
+    return data;
+  }
+
+  /**
+   * Detach a component from an entity
+   */
+  public removeComponent<T>(entity: Entity, type: ComponentType<T>): void {
+    this.stores.get(type)?.delete(entity);
+  }
+
+  /**
+   * Get a component of an entity
+   */
+  public getComponent<T>(entity: Entity, type: ComponentType<T>): T | undefined {
+    return this.stores.get(type)?.get(entity) as T | undefined;
+  }
+
+  /**
+   * Check if an entity has a component
+   */
+  public hasComponent<T>(entity: Entity, type: ComponentType<T>): boolean {
+    return this.stores.get(type)?.has(entity) ?? false;
+  }
+
+  /**
+   * Get all entities that have every one of the given components
+   * Returns a snapshot, so entities may be destroyed while iterating it
+   */
+  public query(...types: ComponentType<unknown>[]): Entity[] {
+    if (types.length === 0) {
+      return Array.from(this.entities);
+    }
+
+    // Iterate the smallest store and test membership in the others
+    const stores = types.map(type => this.stores.get(type));
+    if (stores.some(store => !store)) return [];
+
+    const sorted = (stores as Map<Entity, unknown>[]).sort((a, b) => a.size - b.size);
+    const result: Entity[] = [];
+    sorted[0].forEach((_data, entity) => {
+      if (sorted.every(store => store.has(entity))) {
+        result.push(entity);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the number of live entities
+   */
+  public getEntityCount(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Destroy every entity
+   */
+  public clear(): void {
+    this.entities.clear();
+    this.stores.clear();
+  }
+
+  private getStore<T>(type: ComponentType<T>): Map<Entity, T> {
+    let store = this.stores.get(type);
+    if (!store) {
+      store = new Map();
+      this.stores.set(type, store);
+    }
+    return store as Map<Entity, T>;
+  }
+}
@@ -0,0 +1,35 @@
+import { Registry } from './Registry';
+
+/**
+ * A system operates on entities matching a component query
+ * Systems run in ascending `order`; both phases are optional
+ */
+export interface System {
+  /** Execution order - lower runs first */
+  readonly order: number;
+
+  /**
+   * Advance the system by one fixed simulation step
+   */
+  fixedUpdate?(registry: Registry, deltaTime: number): void;
+
+  /**
+   * Present the simulation state for a frame
+   * `alpha` blends between the previous and current tick
+   */
+  render?(registry: Registry, alpha: number, frameDelta: number): void;
+}
+
+/**
+ * Standard execution slots - new systems should pick a value between these
+ */
+export const SystemOrder = {
+  Snapshot: 0,
+  Input: 100,
+  Animation: 200,
+  Movement: 300,
+  AI: 400,
+  Combat: 450,
+  Physics: 500,
+  Presentation: 900
+} as const;
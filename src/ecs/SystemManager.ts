@@ -0,0 +1,61 @@
+import { Registry } from './Registry';
+import { System } from './System';
+
+/**
+ * System manager
+ * Keeps systems sorted by order and runs the fixed and render phases
+ */
+export class SystemManager {
+  private registry: Registry;
+  private systems: System[];
+
+  constructor(registry: Registry) {
+    this.registry = registry;
+    this.systems = [];
+  }
+
+  /**
+   * Register a system; systems with equal order run in insertion order
+   */
+  public add<T extends System>(system: T): T {
+    this.systems.push(system);
+    // Array.prototype.sort is stable, so ties keep insertion order
+    this.systems.sort((a, b) => a.order - b.order);
+    return system;
+  }
+
+  /**
+   * Unregister a system
+   */
+  public remove(system: System): void {
+    const index = this.systems.indexOf(system);
+    if (index !== -1) {
+      this.systems.splice(index, 1);
+    }
+  }
+
+  /**
+   * Run every system's fixed step
+   */
+  public fixedUpdate(deltaTime: number): void {
+    for (const system of this.systems) {
+      system.fixedUpdate?.(this.registry, deltaTime);
+    }
+  }
+
+  /**
+   * Run every system's render phase
+   */
+  public render(alpha: number, frameDelta: number): void {
+    for (const system of this.systems) {
+      system.render?.(this.registry, alpha, frameDelta);
+    }
+  }
+
+  /**
+   * Get the registry systems run against
+   */
+  public getRegistry(): Registry {
+    return this.registry;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Snapshot-based undo/redo
+ * Callers record the state before each change; undo and redo swap whole snapshots
+ */
+export class EditorHistory<T> {
+  private undoStack: T[];
+  private redoStack: T[];
+  private limit: number;
+
+  constructor(limit: number = 100) {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.limit = limit;
+  }
+
+  /**
+   * Remember the state as it was before a change; clears the redo stack
+   */
+  public record(snapshot: T): void {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack.length = 0;
+  }
+
+  /**
+   * Step back; `current` becomes redoable. Returns null when there is nothing to undo
+   */
+  public undo(current: T): T | null {
+    const previous = this.undoStack.pop();
+    if (previous === undefined) return null;
+    this.redoStack.push(current);
+    return previous;
+  }
+
+  /**
+   * Step forward again after an undo
+   */
+  public redo(current: T): T | null {
+    const next = this.redoStack.pop();
+    if (next === undefined) return null;
+    this.undoStack.push(current);
+    return next;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+  }
+}
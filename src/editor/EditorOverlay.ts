@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { LevelDefinition } from '../levels/LevelFormat';
+import { LevelRef, sameRef } from './LevelDocument';
+
+const LIGHT_COLOR = 0xffee00;
+const SPAWN_COLOR = 0x00ff88;
+const ENEMY_COLOR = 0xff0033;
+const PATROL_COLOR = 0xff8800;
+const TRIGGER_COLOR = 0x00ffff;
+
+/**
+ * Pickable stand-ins for level content that has no mesh of its own:
+ * lights, spawn points, patrol routes and trigger volumes
+ * Each handle carries the LevelRef it edits in userData.levelRef
+ */
+export class EditorOverlay {
+  private scene: THREE.Scene;
+  private root: THREE.Group;
+  private handles: THREE.Object3D[];
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.root = new THREE.Group();
+    this.root.name = 'editor-overlay';
+    this.handles = [];
+    this.scene.add(this.root);
+  }
+
+  /**
+   * Replace every handle with ones matching the level
+   */
+  public rebuild(level: LevelDefinition): void {
+    this.clear();
+    
+    level.lights.forEach((light, index) => {
+      if (light.type === 'ambient') return;
+      const handle = this.createHandle(new THREE.OctahedronGeometry(1), LIGHT_COLOR, { kind: 'light', index });
+      handle.position.fromArray(light.position);
+      if (light.type === 'directional') {
+        // Show where the light shines from; directional lights aim at the origin
+        this.addLine([handle.position.clone(), new THREE.Vector3()], LIGHT_COLOR, 0.3);
+      }
+    });
+    
+    const spawn = this.createHandle(new THREE.ConeGeometry(0.8, 2, 4), SPAWN_COLOR, { kind: 'playerSpawn' });
+    spawn.position.fromArray(level.playerSpawn.position);
+    
+    level.enemies.forEach((enemy, index) => {
+      const handle = this.createHandle(new THREE.ConeGeometry(0.8, 2, 4), ENEMY_COLOR, { kind: 'enemy', index });
+      handle.position.fromArray(enemy.position);
+      handle.rotation.x = Math.PI;
+      
+      if (!enemy.patrolRoute) return;
+      enemy.patrolRoute.forEach((point, pointIndex) => {
+        const marker = this.createHandle(new THREE.SphereGeometry(0.5, 12, 8), PATROL_COLOR, {
+          kind: 'patrolPoint',
+          enemy: index,
+          index: pointIndex
+        });
+        marker.position.fromArray(point);
+      });
+      // Routes loop back to their first point
+      const points = enemy.patrolRoute.map(point => new THREE.Vector3().fromArray(point));
+      this.addLine([handle.position.clone(), ...points, points[0]], PATROL_COLOR, 0.6);
+    });
+    
+    level.triggers.forEach((trigger, index) => {
+      const box = new THREE.BoxGeometry(...trigger.size);
+      const handle = this.createHandle(box, TRIGGER_COLOR, { kind: 'trigger', index });
+      const material = handle.material as THREE.MeshBasicMaterial;
+      material.opacity = 0.15;
+      handle.position.fromArray(trigger.position);
+      const edges = new THREE.LineSegments(
+        new THREE.EdgesGeometry(box),
+        new THREE.LineBasicMaterial({ color: TRIGGER_COLOR })
+      );
+      handle.add(edges);
+    });
+  }
+
+  /**
+   * Handle for a ref, if the ref is one the overlay draws
+   */
+  public find(ref: LevelRef): THREE.Object3D | null {
+    return this.handles.find(handle => sameRef(handle.userData.levelRef, ref)) ?? null;
+  }
+
+  public setVisible(visible: boolean): void {
+    this.root.visible = visible;
+  }
+
+  /**
+   * Remove the overlay from the scene and free its resources
+   */
+  public dispose(): void {
+    this.clear();
+    this.scene.remove(this.root);
+  }
+
+  private createHandle(geometry: THREE.BufferGeometry, color: number, ref: LevelRef): THREE.Mesh {
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.8,
+      depthWrite: false
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.userData.levelRef = ref;
+    this.root.add(mesh);
+    this.handles.push(mesh);
+    return mesh;
+  }
+
+  private addLine(points: THREE.Vector3[], color: number, opacity: number): void {
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity })
+    );
+    this.root.add(line);
+  }
+
+  private clear(): void {
+    this.root.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    this.root.clear();
+    this.handles = [];
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Colors the bundled levels are built from, offered as one-click swatches
+ */
+export const NEON_PALETTE = ['#ff00ff', '#00ffff', '#ff0066', '#00ff88', '#ffee00', '#1a1a2e', '#2e2e3e', '#0a0a1a', '#ffffff'];
+
+export type PanelField =
+  | { type: 'color'; label: string; value: string; onChange: (value: string) => void }
+  | { type: 'number'; label: string; value: number; step?: number; min?: number; max?: number; onChange: (value: number) => void }
+  | { type: 'checkbox'; label: string; value: boolean; onChange: (value: boolean) => void }
+  | { type: 'select'; label: string; value: string; options: readonly string[]; onChange: (value: string) => void }
+  | { type: 'text'; label: string; value: string; onChange: (value: string) => void };
+
+export interface PanelAction {
+  label: string;
+  /** Shortcut shown in the button's tooltip */
+  hint?: string;
+  run: () => void;
+}
+
+const ACCENT = '#00ffff';
+
+function style(element: HTMLElement, styles: Partial<CSSStyleDeclaration>): void {
+  Object.assign(element.style, styles);
+}
+
+/**
+ * DOM toolbar, property panel and status line for the level editor
+ * Fields report edits on `change`, so one drag of a slider is one undo step
+ */
+export class EditorPanel {
+  private root: HTMLDivElement;
+  private toolbar: HTMLDivElement;
+  private properties: HTMLDivElement;
+  private status: HTMLDivElement;
+
+  constructor(actions: PanelAction[]) {
+    this.root = document.createElement('div');
+    this.root.id = 'level-editor';
+    style(this.root, {
+      position: 'fixed',
+      top: '10px',
+      left: '10px',
+      bottom: '10px',
+      width: '260px',
+      display: 'none',
+      flexDirection: 'column',
+      gap: '8px',
+      padding: '10px',
+      background: 'rgba(10, 10, 26, 0.85)',
+      border: `1px solid ${ACCENT}`,
+      boxShadow: `0 0 10px ${ACCENT}`,
+      color: ACCENT,
+      fontFamily: 'monospace',
+      fontSize: '12px',
+      overflowY: 'auto',
+      zIndex: '3000'
+    });
+    
+    const title = document.createElement('div');
+    title.textContent = 'LEVEL EDITOR';
+    style(title, { fontSize: '16px', letterSpacing: '4px', textShadow: `0 0 10px ${ACCENT}` });
+    this.root.appendChild(title);
+    
+    this.toolbar = document.createElement('div');
+    style(this.toolbar, { display: 'flex', flexWrap: 'wrap', gap: '4px' });
+    actions.forEach(action => this.toolbar.appendChild(this.createButton(action)));
+    this.root.appendChild(this.toolbar);
+    
+    this.properties = document.createElement('div');
+    style(this.properties, { display: 'flex', flexDirection: 'column', gap: '6px' });
+    this.root.appendChild(this.properties);
+    
+    this.status = document.createElement('div');
+    style(this.status, { marginTop: 'auto', color: '#ff00ff', whiteSpace: 'pre-wrap' });
+    this.root.appendChild(this.status);
+    
+    // Keep editor clicks and keys away from the viewport and the game
+    this.root.addEventListener('pointerdown', (e) => e.stopPropagation());
+    this.root.addEventListener('keydown', (e) => e.stopPropagation());
+    
+    document.body.appendChild(this.root);
+  }
+
+  public setVisible(visible: boolean): void {
+    this.root.style.display = visible ? 'flex' : 'none';
+  }
+
+  /**
+   * Replace the property panel with fields for the current selection
+   */
+  public showProperties(heading: string, fields: PanelField[]): void {
+    this.properties.replaceChildren();
+    
+    const label = document.createElement('div');
+    label.textContent = heading;
+    style(label, { color: '#ff00ff', borderBottom: '1px solid #ff00ff', paddingBottom: '2px' });
+    this.properties.appendChild(label);
+    
+    fields.forEach(field => this.properties.appendChild(this.createField(field)));
+  }
+
+  public setStatus(text: string): void {
+    this.status.textContent = text;
+  }
+
+  public dispose(): void {
+    this.root.remove();
+  }
+
+  private createButton(action: PanelAction): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = action.label;
+    button.title = action.hint ?? '';
+    style(button, {
+      background: 'transparent',
+      color: ACCENT,
+      border: `1px solid ${ACCENT}`,
+      fontFamily: 'monospace',
+      fontSize: '11px',
+      padding: '3px 6px',
+      cursor: 'pointer'
+    });
+    button.addEventListener('click', () => action.run());
+    return button;
+  }
+
+  private createField(field: PanelField): HTMLElement {
+    const row = document.createElement('label');
+    style(row, { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px', flexWrap: 'wrap' });
+    const name = document.createElement('span');
+    name.textContent = field.label;
+    row.appendChild(name);
+    
+    const inputStyle: Partial<CSSStyleDeclaration> = {
+      background: '#0a0a1a',
+      color: ACCENT,
+      border: '1px solid #2e2e3e',
+      fontFamily: 'monospace',
+      width: '120px'
+    };
+    
+    switch (field.type) {
+      case 'color': {
+        const input = document.createElement('input');
+        input.type = 'color';
+        input.value = field.value;
+        input.addEventListener('change', () => field.onChange(input.value));
+        row.appendChild(input);
+        
+        const swatches = document.createElement('div');
+        style(swatches, { display: 'flex', gap: '2px', width: '100%' });
+        NEON_PALETTE.forEach(color => {
+          const swatch = document.createElement('div');
+          swatch.title = color;
+          style(swatch, { width: '14px', height: '14px', background: color, border: '1px solid #404060', cursor: 'pointer' });
+          swatch.addEventListener('click', (e) => {
+            e.preventDefault();
+            field.onChange(color);
+          });
+          swatches.appendChild(swatch);
+        });
+        row.appendChild(swatches);
+        break;
+      }
+      case 'number': {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.value = String(field.value);
+        input.step = String(field.step ?? 0.1);
+        if (field.min !== undefined) input.min = String(field.min);
+        if (field.max !== undefined) input.max = String(field.max);
+        style(input, inputStyle);
+        input.addEventListener('change', () => {
+          const value = input.valueAsNumber;
+          if (Number.isFinite(value)) field.onChange(value);
+        });
+        row.appendChild(input);
+        break;
+      }
+      case 'checkbox': {
+        const input = document.createElement('input');
+        input.type = 'checkbox';
+        input.checked = field.value;
+        input.addEventListener('change', () => field.onChange(input.checked));
+        row.appendChild(input);
+        break;
+      }
+      case 'select': {
+        const select = document.createElement('select');
+        field.options.forEach(option => select.add(new Option(option, option, false, option === field.value)));
+        style(select, inputStyle);
+        select.addEventListener('change', () => field.onChange(select.value));
+        row.appendChild(select);
+        break;
+      }
+      case 'text': {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.value = field.value;
+        style(input, inputStyle);
+        input.addEventListener('change', () => field.onChange(input.value));
+        row.appendChild(input);
+        break;
+      }
+    }
+    return row;
+  }
+}
@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { InputSource } from '../utils/InputSource';
+
+export interface FreeFlySettings {
+  /** Units per second */
+  speed: number;
+  /** Speed multiplier while Shift is held */
+  boost: number;
+  /** Radians per pixel of mouse movement */
+  lookSensitivity: number;
+}
+
+export const DEFAULT_FREE_FLY_SETTINGS: FreeFlySettings = {
+  speed: 20,
+  boost: 3,
+  lookSensitivity: 0.004
+};
+
+const MAX_PITCH = Math.PI / 2 - 0.01;
+
+/**
+ * Detached fly camera for the editor
+ * WASD moves along the view, E/Q rise and sink, holding the right mouse button looks around
+ */
+export class FreeFlyCamera {
+  private camera: THREE.PerspectiveCamera;
+  private input: InputSource;
+  private element: HTMLElement;
+  private settings: FreeFlySettings;
+  private yaw: number;
+  private pitch: number;
+  private looking: boolean;
+  private enabled: boolean;
+
+  constructor(camera: THREE.PerspectiveCamera, input: InputSource, element: HTMLElement, settings: Partial<FreeFlySettings> = {}) {
+    this.camera = camera;
+    this.input = input;
+    this.element = element;
+    this.settings = { ...DEFAULT_FREE_FLY_SETTINGS, ...settings };
+    this.yaw = 0;
+    this.pitch = 0;
+    this.looking = false;
+    this.enabled = false;
+    
+    this.element.addEventListener('pointerdown', this.onPointerDown);
+    window.addEventListener('pointermove', this.onPointerMove);
+    window.addEventListener('pointerup', this.onPointerUp);
+  }
+
+  /**
+   * Take over the camera from wherever it currently points
+   */
+  public enable(): void {
+    const euler = new THREE.Euler().setFromQuaternion(this.camera.quaternion, 'YXZ');
+    this.yaw = euler.y;
+    this.pitch = euler.x;
+    // Undo any roll left over from shake or a camera sequence
+    this.applyRotation();
+    this.enabled = true;
+  }
+
+  public disable(): void {
+    this.enabled = false;
+    this.looking = false;
+  }
+
+  /**
+   * Move the camera from the held keys
+   */
+  public update(deltaTime: number): void {
+    // Ctrl is for editor shortcuts like Ctrl+D
+    if (!this.enabled || this.input.isKeyPressed('ControlLeft') || this.input.isKeyPressed('ControlRight')) return;
+    
+    const move = new THREE.Vector3();
+    if (this.input.isKeyPressed('KeyW')) move.z -= 1;
+    if (this.input.isKeyPressed('KeyS')) move.z += 1;
+    if (this.input.isKeyPressed('KeyA')) move.x -= 1;
+    if (this.input.isKeyPressed('KeyD')) move.x += 1;
+    if (this.input.isKeyPressed('KeyE')) move.y += 1;
+    if (this.input.isKeyPressed('KeyQ')) move.y -= 1;
+    if (move.lengthSq() === 0) return;
+    
+    const boosted = this.input.isKeyPressed('ShiftLeft') || this.input.isKeyPressed('ShiftRight');
+    const speed = this.settings.speed * (boosted ? this.settings.boost : 1);
+    move.normalize().multiplyScalar(speed * deltaTime).applyQuaternion(this.camera.quaternion);
+    this.camera.position.add(move);
+  }
+
+  /**
+   * Put the camera a short way back from a point, looking at it
+   */
+  public focus(target: THREE.Vector3, distance: number = 15): void {
+    const direction = new THREE.Vector3();
+    this.camera.getWorldDirection(direction);
+    this.camera.position.copy(target).addScaledVector(direction, -distance);
+  }
+
+  public dispose(): void {
+    this.element.removeEventListener('pointerdown', this.onPointerDown);
+    window.removeEventListener('pointermove', this.onPointerMove);
+    window.removeEventListener('pointerup', this.onPointerUp);
+  }
+
+  private applyRotation(): void {
+    this.camera.quaternion.setFromEuler(new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ'));
+  }
+
+  private onPointerDown = (e: PointerEvent): void => {
+    if (this.enabled && e.button === 2) {
+      this.looking = true;
+    }
+  };
+
+  private onPointerMove = (e: PointerEvent): void => {
+    if (!this.looking) return;
+    this.yaw -= e.movementX * this.settings.lookSensitivity;
+    this.pitch = THREE.MathUtils.clamp(this.pitch - e.movementY * this.settings.lookSensitivity, -MAX_PITCH, MAX_PITCH);
+    this.applyRotation();
+  };
+
+  private onPointerUp = (e: PointerEvent): void => {
+    if (e.button === 2) {
+      this.looking = false;
+    }
+  };
+}
@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import { LevelDefinition } from '../levels/LevelFormat';
+import { Vec3 } from '../levels/Schema';
+
+/**
+ * Points at one editable thing inside a level definition
+ */
+export type LevelRef =
+  | { kind: 'structure'; group: number; index: number }
+  | { kind: 'light'; index: number }
+  | { kind: 'enemy'; index: number }
+  | { kind: 'patrolPoint'; enemy: number; index: number }
+  | { kind: 'trigger'; index: number }
+  | { kind: 'playerSpawn' };
+
+export function sameRef(a: LevelRef | null, b: LevelRef | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Deep copy a level so edits never leak into a loaded one
+ */
+export function cloneLevel(level: LevelDefinition): LevelDefinition {
+  return JSON.parse(JSON.stringify(level)) as LevelDefinition;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toVec3(vector: THREE.Vector3 | THREE.Euler): Vec3 {
+  return [round(vector.x), round(vector.y), round(vector.z)];
+}
+
+/**
+ * Check that a ref still points at something, e.g. after undo removed it
+ */
+export function refExists(level: LevelDefinition, ref: LevelRef): boolean {
+  switch (ref.kind) {
+    case 'structure':
+      return level.structureGroups[ref.group]?.structures[ref.index] !== undefined;
+    case 'light':
+      return level.lights[ref.index] !== undefined;
+    case 'enemy':
+      return level.enemies[ref.index] !== undefined;
+    case 'patrolPoint':
+      return level.enemies[ref.enemy]?.patrolRoute?.[ref.index] !== undefined;
+    case 'trigger':
+      return level.triggers[ref.index] !== undefined;
+    case 'playerSpawn':
+      return true;
+  }
+}
+
+/**
+ * Write a gizmo-edited object's transform back into the definition
+ * Structure scale is baked into the geometry's dimensions
+ */
+export function applyTransform(level: LevelDefinition, ref: LevelRef, object: THREE.Object3D): void {
+  const position = toVec3(object.position);
+  switch (ref.kind) {
+    case 'structure': {
+      const structure = level.structureGroups[ref.group].structures[ref.index];
+      structure.position = position;
+      const rotation = new THREE.Euler().setFromQuaternion(object.quaternion);
+      structure.rotation = toVec3(new THREE.Vector3(rotation.x, rotation.y, rotation.z).multiplyScalar(THREE.MathUtils.RAD2DEG));
+      const { x, y, z } = object.scale;
+      const geometry = structure.geometry;
+      if (geometry.shape === 'box') {
+        geometry.size = [round(geometry.size[0] * x), round(geometry.size[1] * y), round(geometry.size[2] * z)];
+      } else {
+        const radial = Math.max(x, z);
+        geometry.radiusTop = round(geometry.radiusTop * radial);
+        geometry.radiusBottom = round(geometry.radiusBottom * radial);
+        geometry.height = round(geometry.height * y);
+      }
+      return;
+    }
+    case 'light': {
+      const light = level.lights[ref.index];
+      if (light.type !== 'ambient') light.position = position;
+      return;
+    }
+    case 'enemy':
+      level.enemies[ref.index].position = position;
+      return;
+    case 'patrolPoint':
+      level.enemies[ref.enemy].patrolRoute![ref.index] = position;
+      return;
+    case 'trigger': {
+      const trigger = level.triggers[ref.index];
+      trigger.position = position;
+      trigger.size = [
+        round(trigger.size[0] * object.scale.x),
+        round(trigger.size[1] * object.scale.y),
+        round(trigger.size[2] * object.scale.z)
+      ];
+      return;
+    }
+    case 'playerSpawn':
+      level.playerSpawn.position = position;
+      return;
+  }
+}
+
+/**
+ * Delete what a ref points at; returns what to select next
+ * The player spawn can't be deleted
+ */
+export function removeRef(level: LevelDefinition, ref: LevelRef): LevelRef | null {
+  switch (ref.kind) {
+    case 'structure': {
+      const group = level.structureGroups[ref.group];
+      group.structures.splice(ref.index, 1);
+      // Groups need at least one structure
+      if (group.structures.length === 0) level.structureGroups.splice(ref.group, 1);
+      return null;
+    }
+    case 'light':
+      level.lights.splice(ref.index, 1);
+      return null;
+    case 'enemy':
+      level.enemies.splice(ref.index, 1);
+      return null;
+    case 'patrolPoint': {
+      const enemy = level.enemies[ref.enemy];
+      enemy.patrolRoute!.splice(ref.index, 1);
+      if (enemy.patrolRoute!.length === 0) delete enemy.patrolRoute;
+      return { kind: 'enemy', index: ref.enemy };
+    }
+    case 'trigger':
+      level.triggers.splice(ref.index, 1);
+      return null;
+    case 'playerSpawn':
+      return ref;
+  }
+}
+
+/**
+ * Copy what a ref points at, nudged aside; returns the copy
+ */
+export function duplicateRef(level: LevelDefinition, ref: LevelRef): LevelRef | null {
+  const nudge = (position: Vec3): Vec3 => [position[0] + 5, position[1], position[2] + 5];
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+  
+  switch (ref.kind) {
+    case 'structure': {
+      const structures = level.structureGroups[ref.group].structures;
+      const structure = copy(structures[ref.index]);
+      structure.position = nudge(structure.position);
+      structures.push(structure);
+      return { kind: 'structure', group: ref.group, index: structures.length - 1 };
+    }
+    case 'light': {
+      const light = copy(level.lights[ref.index]);
+      if (light.type === 'ambient') return null;
+      light.position = nudge(light.position);
+      level.lights.push(light);
+      return { kind: 'light', index: level.lights.length - 1 };
+    }
+    case 'enemy': {
+      const enemy = copy(level.enemies[ref.index]);
+      enemy.position = nudge(enemy.position);
+      level.enemies.push(enemy);
+      return { kind: 'enemy', index: level.enemies.length - 1 };
+    }
+    case 'patrolPoint': {
+      const route = level.enemies[ref.enemy].patrolRoute!;
+      route.splice(ref.index + 1, 0, nudge(route[ref.index]));
+      return { kind: 'patrolPoint', enemy: ref.enemy, index: ref.index + 1 };
+    }
+    case 'trigger': {
+      const trigger = copy(level.triggers[ref.index]);
+      trigger.position = nudge(trigger.position);
+      trigger.name = `${trigger.name}-copy`;
+      level.triggers.push(trigger);
+      return { kind: 'trigger', index: level.triggers.length - 1 };
+    }
+    case 'playerSpawn':
+      return null;
+  }
+}
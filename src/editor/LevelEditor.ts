@@ -0,0 +1,689 @@
+import * as THREE from 'three';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { ARCHETYPE_NAMES } from '../ai/Archetypes';
+import { Renderer } from '../core/Renderer';
+import { Simulation } from '../core/Simulation';
+import { AMBIENT_PARTICLE_PRESETS } from '../core/particles/ParticlePresets';
+import { ATMOSPHERE_PRESET_NAMES, AtmospherePresetName } from '../core/atmosphere/AtmospherePresets';
+import { LevelDefinition, StructureDefinition, validateLevel } from '../levels/LevelFormat';
+import { getLevelNames, validateLevelLinks } from '../levels/Levels';
+import { Vec3 } from '../levels/Schema';
+import { InputSource } from '../utils/InputSource';
+import { EditorHistory } from './EditorHistory';
+import { EditorOverlay } from './EditorOverlay';
+import { EditorPanel, PanelField } from './EditorPanel';
+import { FreeFlyCamera } from './FreeFlyCamera';
+import { applyTransform, cloneLevel, duplicateRef, LevelRef, refExists, removeRef, sameRef } from './LevelDocument';
+
+export interface LevelEditorOptions {
+  renderer: Renderer;
+  camera: THREE.PerspectiveCamera;
+  simulation: Simulation;
+  input: InputSource;
+}
+
+type GizmoMode = 'translate' | 'rotate' | 'scale';
+
+// Group new structures go into when nothing is selected
+const EDITOR_GROUP = 'editor';
+
+// How far in front of the camera things are placed when the view hits nothing
+const PLACEMENT_DISTANCE = 20;
+
+// Pointer travel, in pixels, that turns a click into a drag
+const CLICK_TOLERANCE = 4;
+
+const REF_LABELS: Record<LevelRef['kind'], string> = {
+  structure: 'STRUCTURE',
+  light: 'LIGHT',
+  enemy: 'ENEMY SPAWN',
+  patrolPoint: 'PATROL POINT',
+  trigger: 'TRIGGER',
+  playerSpawn: 'PLAYER SPAWN'
+};
+
+/**
+ * In-game level editor
+ * Edits a copy of the running level and reloads it into the simulation after every change,
+ * so what you see is exactly what the level file will produce
+ */
+export class LevelEditor {
+  private renderer: Renderer;
+  private camera: THREE.PerspectiveCamera;
+  private simulation: Simulation;
+  private scene: THREE.Scene;
+  private level: LevelDefinition;
+  private history: EditorHistory<LevelDefinition>;
+  private overlay: EditorOverlay;
+  private panel: EditorPanel;
+  private flyCamera: FreeFlyCamera;
+  private gizmo: TransformControls;
+  private selection: LevelRef | null;
+  private raycaster: THREE.Raycaster;
+  private pointerStart: { x: number; y: number } | null;
+  private active: boolean;
+
+  constructor(options: LevelEditorOptions) {
+    this.renderer = options.renderer;
+    this.camera = options.camera;
+    this.simulation = options.simulation;
+    this.scene = this.simulation.getWorld().getScene();
+    this.level = cloneLevel(this.simulation.getLevel());
+    this.history = new EditorHistory();
+    this.overlay = new EditorOverlay(this.scene);
+    this.overlay.setVisible(false);
+    this.selection = null;
+    this.raycaster = new THREE.Raycaster();
+    this.pointerStart = null;
+    this.active = false;
+    
+    const element = this.renderer.getRenderer().domElement;
+    this.flyCamera = new FreeFlyCamera(this.camera, options.input, element);
+    
+    this.gizmo = new TransformControls(this.camera, element);
+    this.gizmo.enabled = false;
+    this.gizmo.addEventListener('mouseUp', () => this.onGizmoRelease());
+    this.scene.add(this.gizmo);
+    
+    this.panel = new EditorPanel([
+      { label: '+ Box', run: () => this.addStructure('box') },
+      { label: '+ Cylinder', run: () => this.addStructure('cylinder') },
+      { label: '+ Light', run: () => this.addLight() },
+      { label: '+ Enemy', run: () => this.addEnemy() },
+      { label: '+ Patrol', hint: 'Adds a point to the selected enemy\'s route', run: () => this.addPatrolPoint() },
+      { label: '+ Trigger', run: () => this.addTrigger() },
+      { label: 'Move', hint: 'T', run: () => this.setMode('translate') },
+      { label: 'Rotate', hint: 'R', run: () => this.setMode('rotate') },
+      { label: 'Scale', hint: 'Y', run: () => this.setMode('scale') },
+      { label: 'Duplicate', hint: 'Ctrl+D', run: () => this.duplicateSelection() },
+      { label: 'Delete', hint: 'Delete', run: () => this.deleteSelection() },
+      { label: 'Undo', hint: 'Ctrl+Z', run: () => this.undo() },
+      { label: 'Redo', hint: 'Ctrl+Y', run: () => this.redo() },
+      { label: 'Export', run: () => this.exportLevel() },
+      { label: 'Import', run: () => this.importLevel() },
+      { label: 'Exit', hint: '`', run: () => this.disable() }
+    ]);
+    
+    element.addEventListener('pointerdown', this.onPointerDown);
+    element.addEventListener('pointerup', this.onPointerUp);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  /**
+   * Start editing whatever level is currently loaded
+   */
+  public enable(): void {
+    if (this.active) return;
+    this.active = true;
+    
+    this.level = cloneLevel(this.simulation.getLevel());
+    this.history.clear();
+    // The whole level has to be there to be edited
+    this.simulation.getWorld().getStreamer().setEnabled(false);
+    // Put everything back where the level file says it starts
+    this.apply();
+    
+    this.overlay.setVisible(true);
+    this.gizmo.enabled = true;
+    this.panel.setVisible(true);
+    this.flyCamera.enable();
+    this.select(null);
+  }
+
+  /**
+   * Leave the editor; the edited level keeps running
+   */
+  public disable(): void {
+    if (!this.active) return;
+    this.active = false;
+    
+    this.gizmo.detach();
+    this.gizmo.enabled = false;
+    this.overlay.setVisible(false);
+    this.panel.setVisible(false);
+    this.flyCamera.disable();
+    this.selection = null;
+    this.simulation.getWorld().getStreamer().setEnabled(true);
+  }
+
+  public toggle(): void {
+    if (this.active) {
+      this.disable();
+    } else {
+      this.enable();
+    }
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Per-frame update while editing
+   */
+  public update(deltaTime: number): void {
+    if (!this.active) return;
+    this.flyCamera.update(deltaTime);
+  }
+
+  /**
+   * The level being edited
+   */
+  public getLevel(): LevelDefinition {
+    return this.level;
+  }
+
+  public dispose(): void {
+    this.disable();
+    const element = this.renderer.getRenderer().domElement;
+    element.removeEventListener('pointerdown', this.onPointerDown);
+    element.removeEventListener('pointerup', this.onPointerUp);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.scene.remove(this.gizmo);
+    this.gizmo.dispose();
+    this.flyCamera.dispose();
+    this.overlay.dispose();
+    this.panel.dispose();
+  }
+
+  /**
+   * Record an undo step, change the level and reload it
+   * `mutate` edits the level in place or returns a replacement
+   */
+  private commit(mutate: (level: LevelDefinition) => LevelDefinition | void, select?: LevelRef | null): void {
+    const before = cloneLevel(this.level);
+    const replacement = mutate(this.level);
+    if (replacement) {
+      this.level = replacement;
+    }
+    this.history.record(before);
+    this.apply(select === undefined ? this.selection : select);
+  }
+
+  /**
+   * Rebuild the running level and the overlay from the edited definition
+   */
+  private apply(select: LevelRef | null = this.selection): void {
+    this.gizmo.detach();
+    this.simulation.loadLevel(cloneLevel(this.level));
+    this.overlay.rebuild(this.level);
+    this.select(select && refExists(this.level, select) ? select : null);
+  }
+
+  private undo(): void {
+    const previous = this.history.undo(cloneLevel(this.level));
+    if (!previous) return;
+    this.level = previous;
+    this.apply();
+  }
+
+  private redo(): void {
+    const next = this.history.redo(cloneLevel(this.level));
+    if (!next) return;
+    this.level = next;
+    this.apply();
+  }
+
+  private select(ref: LevelRef | null): void {
+    this.selection = ref;
+    this.gizmo.detach();
+    
+    const object = ref ? this.findObject(ref) : null;
+    if (ref && object) {
+      if (!this.getModes(ref).includes(this.gizmo.getMode() as GizmoMode)) {
+        this.gizmo.setMode('translate');
+      }
+      this.gizmo.attach(object);
+    }
+    this.refreshPanel();
+  }
+
+  /**
+   * Scene object standing for a ref: an overlay handle or a structure mesh
+   */
+  private findObject(ref: LevelRef): THREE.Object3D | null {
+    const handle = this.overlay.find(ref);
+    if (handle) return handle;
+    
+    let found: THREE.Object3D | null = null;
+    this.scene.traverse(object => {
+      if (!found && sameRef(object.userData.levelRef ?? null, ref)) {
+        found = object;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Gizmo modes that make sense for a ref; only structures rotate, only structures and triggers scale
+   */
+  private getModes(ref: LevelRef): GizmoMode[] {
+    if (ref.kind === 'structure') return ['translate', 'rotate', 'scale'];
+    if (ref.kind === 'trigger') return ['translate', 'scale'];
+    return ['translate'];
+  }
+
+  private setMode(mode: GizmoMode): void {
+    if (this.selection && !this.getModes(this.selection).includes(mode)) {
+      this.panel.setStatus(`${REF_LABELS[this.selection.kind]} can't ${mode}`);
+      return;
+    }
+    this.gizmo.setMode(mode);
+  }
+
+  private onGizmoRelease(): void {
+    const object = this.gizmo.object;
+    const ref = this.selection;
+    if (!object || !ref) return;
+    this.commit(level => applyTransform(level, ref, object));
+  }
+
+  private onPointerDown = (e: PointerEvent): void => {
+    this.pointerStart = this.active && e.button === 0 ? { x: e.clientX, y: e.clientY } : null;
+  };
+
+  private onPointerUp = (e: PointerEvent): void => {
+    const start = this.pointerStart;
+    this.pointerStart = null;
+    // Clicks that grabbed the gizmo or dragged the view aren't picks
+    if (!start || e.button !== 0 || this.gizmo.dragging || this.gizmo.axis !== null) return;
+    if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > CLICK_TOLERANCE) return;
+    
+    const rect = this.renderer.getRenderer().domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.select(this.pick(pointer));
+  };
+
+  /**
+   * Nearest editable thing under a screen point
+   * Trigger volumes only win when nothing else is hit, so they don't swallow what's inside them
+   */
+  private pick(pointer: THREE.Vector2): LevelRef | null {
+    this.raycaster.setFromCamera(pointer, this.camera);
+    const targets = this.scene.children.filter(child => child !== this.gizmo);
+    
+    let fallback: LevelRef | null = null;
+    for (const hit of this.raycaster.intersectObjects(targets, true)) {
+      const ref = this.getRef(hit.object);
+      if (!ref) continue;
+      if (ref.kind !== 'trigger') return ref;
+      fallback ??= ref;
+    }
+    return fallback;
+  }
+
+  private getRef(object: THREE.Object3D): LevelRef | null {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (current.userData.levelRef) return current.userData.levelRef as LevelRef;
+    }
+    return null;
+  }
+
+  /**
+   * Where new things go: the surface under the middle of the view, or a little way in front of the camera
+   */
+  private getPlacementPoint(): THREE.Vector3 {
+    this.raycaster.setFromCamera(new THREE.Vector2(), this.camera);
+    const targets = this.scene.children.filter(child => child !== this.gizmo);
+    const hit = this.raycaster.intersectObjects(targets, true).find(intersection => intersection.object instanceof THREE.Mesh);
+    if (hit) return hit.point;
+    
+    const direction = new THREE.Vector3();
+    this.camera.getWorldDirection(direction);
+    return this.camera.position.clone().addScaledVector(direction, PLACEMENT_DISTANCE);
+  }
+
+  private toVec3(point: THREE.Vector3, lift: number = 0): Vec3 {
+    return [Math.round(point.x), Math.round(point.y + lift), Math.round(point.z)];
+  }
+
+  private addStructure(shape: 'box' | 'cylinder'): void {
+    const height = 10;
+    const structure: StructureDefinition = {
+      geometry: shape === 'box'
+        ? { shape: 'box', size: [6, height, 6] }
+        : { shape: 'cylinder', radiusTop: 3, radiusBottom: 3, height, radialSegments: 16 },
+      position: this.toVec3(this.getPlacementPoint(), height / 2),
+      material: { color: '#1a1a2e', metalness: 0.8, roughness: 0.2, emissive: '#ff00ff', emissiveIntensity: 0.2 },
+      neonEdges: '#00ffff',
+      shadows: true
+    };
+    
+    let ref: LevelRef | null = null;
+    this.commit(level => {
+      // New structures join the selected structure's group
+      let group = this.selection?.kind === 'structure' ? this.selection.group : -1;
+      if (group < 0) {
+        group = level.structureGroups.findIndex(candidate => candidate.name === EDITOR_GROUP);
+      }
+      if (group < 0) {
+        level.structureGroups.push({ name: EDITOR_GROUP, structures: [] });
+        group = level.structureGroups.length - 1;
+      }
+      const structures = level.structureGroups[group].structures;
+      structures.push(structure);
+      ref = { kind: 'structure', group, index: structures.length - 1 };
+    }, null);
+    this.select(ref);
+  }
+
+  private addLight(): void {
+    this.commit(level => {
+      level.lights.push({
+        type: 'point',
+        color: '#00ffff',
+        intensity: 2,
+        distance: 40,
+        position: this.toVec3(this.getPlacementPoint(), 5),
+        marker: true
+      });
+    }, { kind: 'light', index: this.level.lights.length });
+  }
+
+  private addEnemy(): void {
+    this.commit(level => {
+      level.enemies.push({ archetype: ARCHETYPE_NAMES[0], position: this.toVec3(this.getPlacementPoint(), 1) });
+    }, { kind: 'enemy', index: this.level.enemies.length });
+  }
+
+  /**
+   * Append a point to the selected enemy's patrol route
+   */
+  private addPatrolPoint(): void {
+    const selection = this.selection;
+    const enemy = selection?.kind === 'enemy' ? selection.index : selection?.kind === 'patrolPoint' ? selection.enemy : -1;
+    if (enemy < 0) {
+      this.panel.setStatus('Select an enemy spawn to add patrol points');
+      return;
+    }
+    
+    const route = this.level.enemies[enemy].patrolRoute ?? [];
+    this.commit(level => {
+      level.enemies[enemy].patrolRoute = [...route, this.toVec3(this.getPlacementPoint(), 1)];
+    }, { kind: 'patrolPoint', enemy, index: route.length });
+  }
+
+  private addTrigger(): void {
+    this.commit(level => {
+      level.triggers.push({
+        name: `trigger-${level.triggers.length + 1}`,
+        position: this.toVec3(this.getPlacementPoint(), 3),
+        size: [10, 6, 10],
+        once: true
+      });
+    }, { kind: 'trigger', index: this.level.triggers.length });
+  }
+
+  private duplicateSelection(): void {
+    const ref = this.selection;
+    if (!ref) return;
+    let copy: LevelRef | null = null;
+    this.commit(level => {
+      copy = duplicateRef(level, ref);
+    }, null);
+    this.select(copy);
+  }
+
+  private deleteSelection(): void {
+    const ref = this.selection;
+    if (!ref) return;
+    if (ref.kind === 'playerSpawn') {
+      this.panel.setStatus('The player spawn can\'t be deleted');
+      return;
+    }
+    let next: LevelRef | null = null;
+    this.commit(level => {
+      next = removeRef(level, ref);
+    }, null);
+    this.select(next);
+  }
+
+  /**
+   * Validate the level and download it as JSON
+   */
+  private exportLevel(): void {
+    try {
+      validateLevelLinks(validateLevel(cloneLevel(this.level), this.level.name));
+    } catch (error) {
+      this.panel.setStatus((error as Error).message);
+      return;
+    }
+    
+    const blob = new Blob([JSON.stringify(this.level, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${this.level.name}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+    this.panel.setStatus(`Exported ${link.download}`);
+  }
+
+  /**
+   * Replace the edited level with a level JSON file; undoable
+   */
+  private importLevel(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        const level = validateLevelLinks(validateLevel(JSON.parse(await file.text()), file.name), file.name);
+        this.commit(() => level, null);
+        this.panel.setStatus(`Imported ${file.name}`);
+      } catch (error) {
+        this.panel.setStatus((error as Error).message);
+      }
+    });
+    input.click();
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (!this.active || e.repeat) return;
+    const ctrl = e.ctrlKey || e.metaKey;
+    
+    if (ctrl) {
+      if (e.code === 'KeyZ' && e.shiftKey) this.redo();
+      else if (e.code === 'KeyZ') this.undo();
+      else if (e.code === 'KeyY') this.redo();
+      else if (e.code === 'KeyD') this.duplicateSelection();
+      else return;
+      e.preventDefault();
+      return;
+    }
+    
+    switch (e.code) {
+      case 'KeyT': this.setMode('translate'); break;
+      case 'KeyR': this.setMode('rotate'); break;
+      case 'KeyY': this.setMode('scale'); break;
+      case 'Delete':
+      case 'Backspace':
+        this.deleteSelection();
+        break;
+      case 'Escape': this.select(null); break;
+      case 'KeyF': {
+        const object = this.selection ? this.findObject(this.selection) : null;
+        if (object) this.flyCamera.focus(object.getWorldPosition(new THREE.Vector3()));
+        break;
+      }
+    }
+  };
+
+  /**
+   * Fill the property panel for the selection, or with level settings when nothing is selected
+   */
+  private refreshPanel(): void {
+    const ref = this.selection;
+    const edit = <T>(apply: (level: LevelDefinition, value: T) => void) =>
+      (value: T) => this.commit(level => apply(level, value));
+    
+    this.panel.setStatus(ref
+      ? `${REF_LABELS[ref.kind]} selected - T/R/Y gizmo, F focus, Ctrl+D duplicate, Delete remove`
+      : 'Click to select - WASD/QE fly, hold right mouse to look, Shift for speed');
+    
+    if (!ref) {
+      this.panel.showProperties('LEVEL', [
+        { type: 'text', label: 'Name', value: this.level.name, onChange: edit((level, value: string) => { level.name = value; }) },
+        { type: 'text', label: 'Title', value: this.level.title ?? '', onChange: edit((level, value: string) => { level.title = value || undefined; }) },
+        { type: 'color', label: 'Background', value: this.level.background, onChange: edit((level, value: string) => { level.background = value; }) },
+        ...(this.level.fog ? [
+          { type: 'color', label: 'Fog', value: this.level.fog.color, onChange: edit((level, value: string) => { level.fog!.color = value; }) } as PanelField
+        ] : []),
+        ...(this.level.ground ? [
+          {
+            type: 'number', label: 'Reflection', value: this.level.ground.reflection ?? 0, min: 0, max: 1, step: 0.1,
+            onChange: edit((level, value: number) => { level.ground!.reflection = value || undefined; })
+          } as PanelField
+        ] : []),
+        ...AMBIENT_PARTICLE_PRESETS.map((preset): PanelField => ({
+          type: 'checkbox',
+          label: preset[0].toUpperCase() + preset.slice(1),
+          value: this.level.ambient?.includes(preset) ?? false,
+          onChange: edit((level, value: boolean) => {
+            const ambient = (level.ambient ?? []).filter(other => other !== preset);
+            level.ambient = value ? [...ambient, preset] : ambient;
+          })
+        })),
+        {
+          type: 'select', label: 'Atmosphere', value: this.level.atmosphere?.preset ?? 'none', options: ['none', ...ATMOSPHERE_PRESET_NAMES],
+          onChange: edit((level, value: string) => {
+            level.atmosphere = value === 'none' ? undefined : { ...level.atmosphere, preset: value as AtmospherePresetName };
+          })
+        },
+        ...(this.level.atmosphere ? [
+          {
+            type: 'number', label: 'Hour', value: this.level.atmosphere.hour ?? 0, min: 0, max: 24, step: 1,
+            onChange: edit((level, value: number) => { level.atmosphere!.hour = value; })
+          },
+          {
+            type: 'number', label: 'Day Length (s)', value: this.level.atmosphere.dayLength ?? 0, min: 0, step: 60,
+            onChange: edit((level, value: number) => { level.atmosphere!.dayLength = value || undefined; })
+          }
+        ] as PanelField[] : [])
+      ]);
+      return;
+    }
+    
+    this.panel.showProperties(REF_LABELS[ref.kind], this.getFields(ref, edit));
+  }
+
+  private getFields(
+    ref: LevelRef,
+    edit: <T>(apply: (level: LevelDefinition, value: T) => void) => (value: T) => void
+  ): PanelField[] {
+    switch (ref.kind) {
+      case 'structure': {
+        const structure = (level: LevelDefinition) => level.structureGroups[ref.group].structures[ref.index];
+        const current = structure(this.level);
+        const { material, geometry } = current;
+        const fields: PanelField[] = [
+          { type: 'text', label: 'Group', value: this.level.structureGroups[ref.group].name, onChange: edit((level, value: string) => { level.structureGroups[ref.group].name = value; }) }
+        ];
+        
+        if (geometry.shape === 'box') {
+          (['Width', 'Height', 'Depth'] as const).forEach((label, axis) => fields.push({
+            type: 'number', label, value: geometry.size[axis], min: 0.1, step: 0.5,
+            onChange: edit((level, value: number) => {
+              const target = structure(level).geometry;
+              if (target.shape === 'box') target.size[axis] = value;
+            })
+          }));
+        } else {
+          (['radiusTop', 'radiusBottom', 'height'] as const).forEach(key => fields.push({
+            type: 'number', label: key, value: geometry[key], min: 0, step: 0.5,
+            onChange: edit((level, value: number) => {
+              const target = structure(level).geometry;
+              if (target.shape === 'cylinder') target[key] = value;
+            })
+          }));
+        }
+        
+        fields.push(
+          { type: 'color', label: 'Color', value: material.color, onChange: edit((level, value: string) => { structure(level).material.color = value; }) },
+          { type: 'color', label: 'Emissive', value: material.emissive ?? '#000000', onChange: edit((level, value: string) => { structure(level).material.emissive = value; }) },
+          { type: 'number', label: 'Emissive intensity', value: material.emissiveIntensity ?? 1, min: 0, step: 0.1, onChange: edit((level, value: number) => { structure(level).material.emissiveIntensity = value; }) },
+          { type: 'number', label: 'Metalness', value: material.metalness ?? 0, min: 0, max: 1, step: 0.1, onChange: edit((level, value: number) => { structure(level).material.metalness = value; }) },
+          { type: 'number', label: 'Roughness', value: material.roughness ?? 1, min: 0, max: 1, step: 0.1, onChange: edit((level, value: number) => { structure(level).material.roughness = value; }) },
+          { type: 'number', label: 'Opacity', value: material.opacity ?? 1, min: 0, max: 1, step: 0.1, onChange: edit((level, value: number) => { structure(level).material.opacity = value; }) },
+          { type: 'checkbox', label: 'Panels', value: material.panels !== undefined, onChange: edit((level, value: boolean) => { structure(level).material.panels = value ? { repeat: 2 } : undefined; }) }
+        );
+        if (material.panels) {
+          fields.push({ type: 'number', label: 'Panel repeat', value: material.panels.repeat, min: 1, step: 1, onChange: edit((level, value: number) => { structure(level).material.panels!.repeat = value; }) });
+        }
+        fields.push(
+          { type: 'checkbox', label: 'Neon edges', value: current.neonEdges !== undefined, onChange: edit((level, value: boolean) => { structure(level).neonEdges = value ? '#00ffff' : undefined; }) }
+        );
+        if (current.neonEdges) {
+          fields.push({ type: 'color', label: 'Edge color', value: current.neonEdges, onChange: edit((level, value: string) => { structure(level).neonEdges = value; }) });
+        }
+        if (geometry.shape === 'box') {
+          fields.push({ type: 'checkbox', label: 'Sign', value: current.sign !== undefined, onChange: edit((level, value: boolean) => { structure(level).sign = value ? { text: 'NEON', color: '#ff00ff' } : undefined; }) });
+        }
+        if (current.sign && geometry.shape === 'box') {
+          fields.push(
+            { type: 'text', label: 'Sign text', value: current.sign.text, onChange: edit((level, value: string) => { structure(level).sign!.text = value; }) },
+            { type: 'color', label: 'Sign color', value: current.sign.color, onChange: edit((level, value: string) => { structure(level).sign!.color = value; }) }
+          );
+        }
+        fields.push(
+          { type: 'checkbox', label: 'Shadows', value: current.shadows ?? false, onChange: edit((level, value: boolean) => { structure(level).shadows = value; }) },
+          { type: 'checkbox', label: 'Collide', value: current.collide ?? true, onChange: edit((level, value: boolean) => { structure(level).collide = value; }) }
+        );
+        return fields;
+      }
+      case 'light': {
+        const light = this.level.lights[ref.index];
+        const fields: PanelField[] = [
+          { type: 'color', label: 'Color', value: light.color, onChange: edit((level, value: string) => { level.lights[ref.index].color = value; }) },
+          { type: 'number', label: 'Intensity', value: light.intensity, min: 0, step: 0.1, onChange: edit((level, value: number) => { level.lights[ref.index].intensity = value; }) }
+        ];
+        if (light.type === 'point') {
+          fields.push({
+            type: 'number', label: 'Distance', value: light.distance, min: 0, step: 1,
+            onChange: edit((level, value: number) => {
+              const target = level.lights[ref.index];
+              if (target.type === 'point') target.distance = value;
+            })
+          });
+        }
+        if (light.type !== 'ambient') {
+          fields.push({
+            type: 'checkbox', label: 'Cast shadow', value: light.castShadow ?? false,
+            onChange: edit((level, value: boolean) => {
+              const target = level.lights[ref.index];
+              if (target.type !== 'ambient') target.castShadow = value;
+            })
+          });
+        }
+        return fields;
+      }
+      case 'enemy':
+        return [{
+          type: 'select', label: 'Archetype', value: this.level.enemies[ref.index].archetype, options: ARCHETYPE_NAMES,
+          onChange: edit((level, value: string) => { level.enemies[ref.index].archetype = value as typeof ARCHETYPE_NAMES[number]; })
+        }];
+      case 'trigger': {
+        const trigger = this.level.triggers[ref.index];
+        // Only levels that exist, plus a seeded city the trigger already names
+        const levels = ['none', ...getLevelNames()];
+        if (trigger.loadLevel && !levels.includes(trigger.loadLevel)) levels.push(trigger.loadLevel);
+        return [
+          { type: 'text', label: 'Name', value: trigger.name, onChange: edit((level, value: string) => { level.triggers[ref.index].name = value; }) },
+          { type: 'text', label: 'Message', value: trigger.message ?? '', onChange: edit((level, value: string) => { level.triggers[ref.index].message = value || undefined; }) },
+          {
+            type: 'select', label: 'Load level', value: trigger.loadLevel ?? 'none', options: levels,
+            onChange: edit((level, value: string) => { level.triggers[ref.index].loadLevel = value === 'none' ? undefined : value; })
+          },
+          { type: 'checkbox', label: 'Once', value: trigger.once ?? false, onChange: edit((level, value: boolean) => { level.triggers[ref.index].once = value; }) }
+        ];
+      }
+      case 'patrolPoint':
+      case 'playerSpawn':
+        return [];
+    }
+  }
+}
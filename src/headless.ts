@@ -0,0 +1,130 @@
+import { Simulation, SimulationSnapshot } from './core/Simulation';
+import { HeadlessRenderer } from './core/HeadlessRenderer';
+import { ScriptedInput } from './utils/ScriptedInput';
+import { TimeManager } from './utils/TimeManager';
+import { DEFAULT_LEVEL, getLevel } from './levels/Levels';
+
+/**
+ * Headless entry point - steps the simulation under Node without WebGL
+ * and prints entity state as JSON
+ */
+
+// Node globals; the project is typed for the browser only
+declare const process: {
+  argv: string[];
+  stdout: { write(chunk: string): void };
+  exitCode?: number;
+};
+
+const USAGE = 'Usage: npm run headless -- [--ticks 600] [--tick-rate 60] [--hold KeyW,KeyD] [--trace 60] [--level megastructure]';
+
+interface HeadlessOptions {
+  ticks: number;
+  tickRate: number;
+  hold: string[];
+  trace: number;
+  level: string;
+}
+
+function parseArgs(argv: string[]): HeadlessOptions {
+  const options: HeadlessOptions = { ticks: 600, tickRate: 60, hold: [], trace: 0, level: DEFAULT_LEVEL };
+  
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--ticks':
+        options.ticks = parseCount(argv[i], value, 1);
+        i++;
+        break;
+      case '--tick-rate':
+        options.tickRate = parseCount(argv[i], value, 1);
+        i++;
+        break;
+      case '--hold':
+        options.hold = requireValue(argv[i], value).split(',').filter(Boolean);
+        i++;
+        break;
+      case '--trace':
+        options.trace = parseCount(argv[i], value, 0);
+        i++;
+        break;
+      case '--level':
+        options.level = requireValue(argv[i], value);
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  
+  return options;
+}
+
+/**
+ * Value given to a flag, which must not be the last argument
+ */
+function requireValue(flag: string, value: string | undefined): string {
+  if (value === undefined) {
+    throw new Error(`${flag} expects a value\n${USAGE}`);
+  }
+  return value;
+}
+
+/**
+ * Whole number given to a flag, at least `min`; anything else would step the simulation by NaN or forever
+ */
+function parseCount(flag: string, value: string | undefined, min: number): number {
+  const count = Number(value);
+  if (value === undefined || !Number.isInteger(count) || count < min) {
+    throw new Error(`${flag} expects a whole number of at least ${min}, got '${value ?? ''}'\n${USAGE}`);
+  }
+  return count;
+}
+
+/**
+ * Run a simulation for a number of ticks and collect snapshots
+ */
+export function runHeadless(options: HeadlessOptions): SimulationSnapshot[] {
+  const input = new ScriptedInput();
+  options.hold.forEach(key => input.press(key));
+  
+  // Drive the same accumulator the browser uses from a manual clock
+  let clock = 0;
+  const timeManager = new TimeManager({ tickRate: options.tickRate, now: () => clock });
+  const frameTime = timeManager.getFixedDeltaTime() * 1000;
+  
+  const simulation = new Simulation(input, getLevel(options.level));
+  const renderer = new HeadlessRenderer(simulation.getWorld().getScene());
+  const snapshots: SimulationSnapshot[] = [];
+  
+  while (simulation.getTick() < options.ticks) {
+    clock += frameTime;
+    timeManager.update();
+    
+    while (timeManager.consumeFixedStep()) {
+      simulation.step(timeManager.getFixedDeltaTime());
+      
+      if (options.trace > 0 && simulation.getTick() % options.trace === 0) {
+        snapshots.push(simulation.snapshot());
+      }
+    }
+    
+    simulation.render(timeManager.getAlpha(), timeManager.getDeltaTime());
+    renderer.render();
+  }
+  
+  if (options.trace <= 0) {
+    snapshots.push(simulation.snapshot());
+  }
+  
+  return snapshots;
+}
+
+try {
+  const snapshots = runHeadless(parseArgs(process.argv.slice(2)));
+  const output = snapshots.length === 1 ? snapshots[0] : snapshots;
+  process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
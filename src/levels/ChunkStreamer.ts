@@ -0,0 +1,373 @@
+import * as THREE from 'three';
+import { Entity } from '../ecs/Registry';
+import { EventBus } from '../utils/EventBus';
+import { GeometryDefinition, LevelDefinition, StructureDefinition } from './LevelFormat';
+
+export interface StreamingSettings {
+  /** Width and depth of a chunk in world units */
+  chunkSize: number;
+  /** Chunks nearer the focus than this are loaded */
+  loadRadius: number;
+  /** Loaded chunks further than this are unloaded; above loadRadius so edges don't flicker */
+  unloadRadius: number;
+  /** Structures built per tick, spreading big chunks over several frames */
+  buildBudget: number;
+  /** Beyond the first distance neon edges and rings are hidden, beyond the second shadows too */
+  lodDistances: [number, number];
+  /** Point lights further than this from the view are switched off */
+  lightCullDistance: number;
+  /** Most point lights lit at once; the nearest win */
+  maxLights: number;
+  /** Most point lights casting shadows at once, out of those the level asks shadows of; the nearest win */
+  maxShadowLights: number;
+}
+
+export const DEFAULT_STREAMING_SETTINGS: StreamingSettings = {
+  chunkSize: 50,
+  loadRadius: 150,
+  unloadRadius: 190,
+  buildBudget: 8,
+  lodDistances: [100, 160],
+  lightCullDistance: 140,
+  maxLights: 6,
+  maxShadowLights: 4
+};
+
+/**
+ * One structure of a chunk and where it sits in the level definition
+ */
+export interface ChunkItem {
+  group: number;
+  index: number;
+  structure: StructureDefinition;
+}
+
+export type ChunkState = 'unloaded' | 'queued' | 'building' | 'loaded';
+
+/**
+ * A square of the level's structures that loads and unloads as a unit
+ */
+export interface Chunk {
+  key: string;
+  column: number;
+  row: number;
+  /** Covers every structure in the chunk, including parts that poke into neighbours */
+  bounds: THREE.Box3;
+  items: ChunkItem[];
+  state: ChunkState;
+  /** Items built so far while building */
+  built: number;
+  /** Scene content, one child group per structure group */
+  root: THREE.Group;
+  groups: Map<number, THREE.Group>;
+  entities: Entity[];
+  /** Neon edges and rings, hidden past the first LOD distance */
+  details: THREE.Object3D[];
+  /** Shadow casters, demoted past the second LOD distance */
+  casters: THREE.Mesh[];
+  lod: number;
+}
+
+/**
+ * Builds and tears down chunk content for the streamer
+ */
+export interface ChunkBuilder {
+  /** Build one structure into the chunk */
+  buildItem(chunk: Chunk, item: ChunkItem): void;
+  /** Register the finished chunk's colliders and motion, and add it to the scene */
+  finishChunk(chunk: Chunk): void;
+  /** Remove the chunk's content and free its resources */
+  disposeChunk(chunk: Chunk): void;
+}
+
+export interface ChunkEvent {
+  key: string;
+  column: number;
+  row: number;
+  bounds: THREE.Box3;
+  structures: number;
+}
+
+export interface ChunkEvents {
+  chunkLoaded: ChunkEvent;
+  chunkUnloaded: ChunkEvent;
+}
+
+/**
+ * Rough half-size of a structure, used to grow chunk bounds
+ */
+function structureRadius(geometry: GeometryDefinition): THREE.Vector3 {
+  if (geometry.shape === 'box') {
+    // Any rotation stays inside the box's bounding sphere
+    const radius = Math.hypot(...geometry.size) / 2;
+    return new THREE.Vector3(radius, radius, radius);
+  }
+  const radius = Math.max(geometry.radiusTop, geometry.radiusBottom);
+  const reach = Math.hypot(radius, geometry.height / 2);
+  return new THREE.Vector3(reach, reach, reach);
+}
+
+/**
+ * Streams a level's structures in chunks around a focus point
+ * Chunks are queued nearest first, preferring ones in view, and built a few structures per tick;
+ * past the unload radius they are torn down again. Also applies distance LOD and light culling
+ */
+export class ChunkStreamer {
+  private builder: ChunkBuilder;
+  private events: EventBus<ChunkEvents>;
+  private settings: StreamingSettings;
+  private chunks: Map<string, Chunk>;
+  private queue: Chunk[];
+  // Point lights with whether the level wants them to cast shadows
+  private lights: { light: THREE.PointLight; castShadow: boolean }[];
+  private view: THREE.Camera | null;
+  private frustum: THREE.Frustum;
+  private enabled: boolean;
+  private clock: number;
+
+  constructor(builder: ChunkBuilder, settings: Partial<StreamingSettings> = {}) {
+    this.builder = builder;
+    this.events = new EventBus();
+    this.settings = { ...DEFAULT_STREAMING_SETTINGS, ...settings };
+    this.chunks = new Map();
+    this.queue = [];
+    this.lights = [];
+    this.view = null;
+    this.frustum = new THREE.Frustum();
+    this.enabled = true;
+    this.clock = 0;
+  }
+
+  /**
+   * Partition a level's structures into chunks and load the ones around `focus` straight away
+   */
+  public start(level: LevelDefinition, focus: THREE.Vector3): void {
+    const { chunkSize } = this.settings;
+    
+    level.structureGroups.forEach((group, groupIndex) => {
+      group.structures.forEach((structure, index) => {
+        const [x, y, z] = structure.position;
+        const column = Math.floor(x / chunkSize);
+        const row = Math.floor(z / chunkSize);
+        const key = `${column},${row}`;
+        
+        let chunk = this.chunks.get(key);
+        if (!chunk) {
+          chunk = {
+            key,
+            column,
+            row,
+            bounds: new THREE.Box3(),
+            items: [],
+            state: 'unloaded',
+            built: 0,
+            root: new THREE.Group(),
+            groups: new Map(),
+            entities: [],
+            details: [],
+            casters: [],
+            lod: 0
+          };
+          chunk.root.name = `chunk:${key}`;
+          this.chunks.set(key, chunk);
+        }
+        chunk.items.push({ group: groupIndex, index, structure });
+        const center = new THREE.Vector3(x, y, z);
+        chunk.bounds.union(new THREE.Box3().setFromCenterAndSize(center, structureRadius(structure.geometry).multiplyScalar(2)));
+      });
+    });
+    
+    // Nothing should pop in around the spawn, so build it all before the first frame
+    this.update(focus, 0, Infinity);
+  }
+
+  /**
+   * Unload every chunk and forget the level and its lights
+   */
+  public stop(): void {
+    for (const chunk of this.chunks.values()) {
+      this.unloadChunk(chunk);
+    }
+    this.chunks.clear();
+    this.queue = [];
+    this.lights = [];
+    this.clock = 0;
+  }
+
+  /**
+   * Queue chunks that came into range, unload ones that left it and spend the build budget
+   */
+  public update(focus: THREE.Vector3, deltaTime: number, budget: number = this.settings.buildBudget): void {
+    this.clock += deltaTime;
+    const { loadRadius, unloadRadius } = this.settings;
+    
+    for (const chunk of this.chunks.values()) {
+      const distance = this.getDistance(chunk, focus);
+      const wanted = !this.enabled || distance <= loadRadius;
+      if (wanted && chunk.state === 'unloaded') {
+        chunk.state = 'queued';
+        this.queue.push(chunk);
+      } else if (this.enabled && distance > unloadRadius && chunk.state !== 'unloaded') {
+        this.unloadChunk(chunk);
+      }
+    }
+    if (this.queue.length === 0) return;
+    
+    // Chunks the camera can see come first, then the nearest
+    const visible = this.getVisibility();
+    this.queue.sort((a, b) => {
+      const inViewA = visible(a) ? 0 : 1;
+      const inViewB = visible(b) ? 0 : 1;
+      return inViewA - inViewB || this.getDistance(a, focus) - this.getDistance(b, focus);
+    });
+    
+    while (budget > 0 && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      chunk.state = 'building';
+      while (budget > 0 && chunk.built < chunk.items.length) {
+        this.builder.buildItem(chunk, chunk.items[chunk.built++]);
+        budget--;
+      }
+      if (chunk.built < chunk.items.length) break;
+      
+      this.queue.shift();
+      this.builder.finishChunk(chunk);
+      chunk.state = 'loaded';
+      chunk.lod = 0;
+      this.events.emit('chunkLoaded', this.toEvent(chunk));
+    }
+  }
+
+  /**
+   * Apply distance LOD to loaded chunks and switch point lights on and off
+   * Distances are measured from the view camera, or from `focus` without one
+   */
+  public updateDetail(focus: THREE.Vector3): void {
+    const [detailDistance, shadowDistance] = this.settings.lodDistances;
+    const viewPosition = this.view ? this.view.getWorldPosition(new THREE.Vector3()) : focus;
+    
+    for (const chunk of this.chunks.values()) {
+      if (chunk.state !== 'loaded') continue;
+      const distance = this.getDistance(chunk, viewPosition);
+      const lod = !this.enabled ? 0 : distance > shadowDistance ? 2 : distance > detailDistance ? 1 : 0;
+      if (lod === chunk.lod) continue;
+      chunk.lod = lod;
+      chunk.details.forEach(object => { object.visible = lod === 0; });
+      chunk.casters.forEach(mesh => { mesh.castShadow = lod < 2; });
+    }
+    
+    // Keep the nearest few lights, and none that are too far to matter
+    const ranked = this.lights
+      .map(entry => ({ ...entry, distance: entry.light.position.distanceTo(viewPosition) }))
+      .sort((a, b) => a.distance - b.distance);
+    let shadows = 0;
+    ranked.forEach(({ light, castShadow, distance }, rank) => {
+      light.visible = !this.enabled || (rank < this.settings.maxLights && distance <= this.settings.lightCullDistance);
+      light.castShadow = castShadow && light.visible && shadows < this.settings.maxShadowLights;
+      if (light.castShadow) shadows++;
+    });
+  }
+
+  /**
+   * Include a point light in distance culling, taking over its `castShadow`
+   */
+  public addLight(light: THREE.PointLight): void {
+    this.lights.push({ light, castShadow: light.castShadow });
+  }
+
+  /**
+   * Change some settings; light and LOD limits apply from the next detail update
+   */
+  public configure(settings: Partial<StreamingSettings>): void {
+    Object.assign(this.settings, settings);
+  }
+
+  /**
+   * Camera used to load visible chunks first
+   */
+  public setView(camera: THREE.Camera | null): void {
+    this.view = camera;
+  }
+
+  /**
+   * With streaming off every chunk loads and stays at full detail, e.g. while editing a level
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Seconds since the level started, for keeping streamed-in motion in phase
+   */
+  public getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Chunk load and unload notifications
+   */
+  public getEvents(): EventBus<ChunkEvents> {
+    return this.events;
+  }
+
+  public getChunks(): Chunk[] {
+    return [...this.chunks.values()];
+  }
+
+  public getSettings(): StreamingSettings {
+    return this.settings;
+  }
+
+  private unloadChunk(chunk: Chunk): void {
+    if (chunk.state === 'unloaded') return;
+    const wasLoaded = chunk.state === 'loaded';
+    if (chunk.state === 'queued' || chunk.state === 'building') {
+      this.queue.splice(this.queue.indexOf(chunk), 1);
+    }
+    
+    this.builder.disposeChunk(chunk);
+    chunk.state = 'unloaded';
+    chunk.built = 0;
+    chunk.root = new THREE.Group();
+    chunk.root.name = `chunk:${chunk.key}`;
+    chunk.groups.clear();
+    chunk.entities = [];
+    chunk.details = [];
+    chunk.casters = [];
+    if (wasLoaded) {
+      this.events.emit('chunkUnloaded', this.toEvent(chunk));
+    }
+  }
+
+  /**
+   * Horizontal distance from a point to a chunk's bounds
+   */
+  private getDistance(chunk: Chunk, point: THREE.Vector3): number {
+    const dx = Math.max(chunk.bounds.min.x - point.x, 0, point.x - chunk.bounds.max.x);
+    const dz = Math.max(chunk.bounds.min.z - point.z, 0, point.z - chunk.bounds.max.z);
+    return Math.hypot(dx, dz);
+  }
+
+  private getVisibility(): (chunk: Chunk) => boolean {
+    if (!this.view) return () => false;
+    this.view.updateMatrixWorld();
+    this.frustum.setFromProjectionMatrix(
+      new THREE.Matrix4().multiplyMatrices(this.view.projectionMatrix, this.view.matrixWorldInverse)
+    );
+    return chunk => this.frustum.intersectsBox(chunk.bounds);
+  }
+
+  private toEvent(chunk: Chunk): ChunkEvent {
+    return {
+      key: chunk.key,
+      column: chunk.column,
+      row: chunk.row,
+      bounds: chunk.bounds.clone(),
+      structures: chunk.items.length
+    };
+  }
+}
@@ -0,0 +1,450 @@
+import { ARCHETYPE_NAMES } from '../ai/Archetypes';
+import { SeededRandom } from '../utils/Random';
+import {
+  EnemySpawnDefinition,
+  LevelDefinition,
+  LightDefinition,
+  MaterialDefinition,
+  StructureDefinition,
+  StructureGroupDefinition
+} from './LevelFormat';
+import { Vec3 } from './Schema';
+
+export interface HeightDistribution {
+  min: number;
+  max: number;
+  /** Above 1 favours short towers, below 1 tall ones */
+  skew: number;
+}
+
+export interface CitySettings {
+  seed: number;
+  /** Half-width of the square the city covers; rounded to whole blocks */
+  extent: number;
+  /** Street grid spacing; each block holds at most one tower */
+  blockSize: number;
+  streetWidth: number;
+  districts: number;
+  /** Chance a block holds a tower */
+  density: number;
+  towerHeight: HeightDistribution;
+  /** Chance an empty block gets a floating platform */
+  platformChance: number;
+  /** Chance neighbouring towers are joined by a bridge */
+  bridgeChance: number;
+  /** Chance a tower carries a neon sign */
+  signChance: number;
+  /** What signs can say */
+  signWords: string[];
+  /** Neon accents; each district takes one */
+  palette: string[];
+  /** Dark base colors for towers, bridges and platforms */
+  baseColors: string[];
+  /** Open space kept clear around the player spawn */
+  plazaRadius: number;
+  enemiesPerDistrict: number;
+}
+
+export const DEFAULT_CITY_SETTINGS: CitySettings = {
+  seed: 1,
+  extent: 100,
+  blockSize: 20,
+  streetWidth: 6,
+  districts: 5,
+  density: 0.6,
+  towerHeight: { min: 12, max: 90, skew: 2 },
+  platformChance: 0.35,
+  bridgeChance: 0.3,
+  signChance: 0.5,
+  signWords: ['RAMEN', 'HOTEL', 'BAR', 'OPEN 24H', 'NOODLES', 'CYBER', 'ARCADE', 'CLINIC', 'DATA', 'SYNTH', 'NEON', 'KARAOKE'],
+  palette: ['#ff00ff', '#00ffff', '#ff0066', '#00ff88'],
+  baseColors: ['#1a1a2e', '#2e2e3e', '#0a0a1a'],
+  plazaRadius: 16,
+  enemiesPerDistrict: 1
+};
+
+interface District {
+  center: { x: number; z: number };
+  accent: string;
+  /** Scales tower heights; downtown is tallest */
+  heightScale: number;
+  structures: StructureDefinition[];
+  platforms: StructureDefinition[];
+  blocks: Block[];
+}
+
+interface Block {
+  x: number;
+  z: number;
+  district: District;
+  tower: Tower | null;
+}
+
+interface Tower {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number;
+}
+
+// Salts for the independent random streams of each generation stage
+const STREAMS = { districts: 1, towers: 2, signs: 3, bridges: 4, platforms: 5, enemies: 6 };
+
+// Lowest and highest bridge decks, and clearance below a tower's roof
+const BRIDGE_MIN_HEIGHT = 8;
+const BRIDGE_ROOF_CLEARANCE = 4;
+
+/**
+ * Generate a city level: districts of towers on a street grid, floating platforms,
+ * bridges between neighbouring towers and neon signage
+ * The same settings always produce the same level
+ */
+export function generateCity(options: Partial<CitySettings> = {}): LevelDefinition {
+  const settings = { ...DEFAULT_CITY_SETTINGS, ...options };
+  const random = new SeededRandom(settings.seed);
+  const blocksPerSide = Math.max(2, Math.round(settings.extent * 2 / settings.blockSize));
+  const extent = blocksPerSide * settings.blockSize / 2;
+  
+  const districts = createDistricts(settings, extent, random.fork(STREAMS.districts));
+  const blocks = createBlocks(settings, blocksPerSide, extent, districts);
+  placeTowers(settings, extent, blocks, random.fork(STREAMS.towers));
+  placeSigns(settings, blocks, random.fork(STREAMS.signs));
+  placeBridges(settings, blocks, blocksPerSide, random.fork(STREAMS.bridges));
+  placePlatforms(settings, blocks, random.fork(STREAMS.platforms));
+  
+  const structureGroups: StructureGroupDefinition[] = [];
+  const floatRandom = random.fork(STREAMS.platforms + 100);
+  districts.forEach((district, index) => {
+    if (district.structures.length > 0) {
+      structureGroups.push({ name: `district-${index + 1}`, structures: district.structures });
+    }
+    if (district.platforms.length > 0) {
+      structureGroups.push({
+        name: `district-${index + 1}-platforms`,
+        float: { amplitude: floatRandom.range(1, 2.5), frequency: floatRandom.range(0.2, 0.4), spinSpeed: 0 },
+        structures: district.platforms
+      });
+    }
+  });
+  
+  const background = '#0a0a1a';
+  return {
+    name: `city-${settings.seed}`,
+    title: 'NEON CITY',
+    seed: settings.seed,
+    // Every seed shares the same assets
+    assets: 'city',
+    background,
+    // Thin out at the city's edge, like the megastructure's fog does at its ground's edge
+    fog: { type: 'exp2', color: background, density: round(1 / extent, 4) },
+    ground: {
+      size: extent * 2,
+      material: { color: '#0a0a1a', metalness: 0.9, roughness: 0.1, emissive: '#00ffff', emissiveIntensity: 0.1 },
+      // Grid lines run down the middle of every street
+      grid: { divisions: blocksPerSide, centerColor: settings.palette[0], lineColor: settings.palette[1 % settings.palette.length], opacity: 0.5 },
+      // Wet streets mirror the signs above them
+      reflection: 0.5
+    },
+    ambient: ['rain', 'dust'],
+    // Smog over the streets, starting at dusk
+    atmosphere: { preset: 'smog', hour: 19, dayLength: 600 },
+    structureGroups,
+    lights: createLights(extent, districts),
+    playerSpawn: { position: [0, 5, 0] },
+    enemies: createEnemies(settings, districts, random.fork(STREAMS.enemies)),
+    triggers: [],
+    intro: createIntro(extent, settings.towerHeight.max)
+  };
+}
+
+function round(value: number, digits: number = 2): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Snap a neon ring's radius to half units, so rings of similar size share one instanced batch
+ */
+function ringRadius(radius: number): number {
+  return Math.round(radius * 2) / 2;
+}
+
+function createDistricts(settings: CitySettings, extent: number, random: SeededRandom): District[] {
+  // Shuffle so districts don't always take the palette in order
+  const palette = random.shuffle([...settings.palette]);
+  const districts: District[] = [];
+  for (let i = 0; i < settings.districts; i++) {
+    // Downtown sits at the spawn; the rest scatter around it
+    const angle = random.range(0, Math.PI * 2);
+    const distance = i === 0 ? 0 : random.range(0.4, 0.9) * extent;
+    districts.push({
+      center: { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance },
+      accent: palette[i % palette.length],
+      heightScale: i === 0 ? 1 : random.range(0.35, 0.8),
+      structures: [],
+      platforms: [],
+      blocks: []
+    });
+  }
+  return districts;
+}
+
+function createBlocks(settings: CitySettings, blocksPerSide: number, extent: number, districts: District[]): Block[][] {
+  const blocks: Block[][] = [];
+  for (let column = 0; column < blocksPerSide; column++) {
+    blocks.push([]);
+    for (let row = 0; row < blocksPerSide; row++) {
+      const x = -extent + (column + 0.5) * settings.blockSize;
+      const z = -extent + (row + 0.5) * settings.blockSize;
+      
+      // Each block belongs to the nearest district center
+      let district = districts[0];
+      for (const candidate of districts) {
+        if (Math.hypot(x - candidate.center.x, z - candidate.center.z) <
+          Math.hypot(x - district.center.x, z - district.center.z)) {
+          district = candidate;
+        }
+      }
+      
+      const block: Block = { x, z, district, tower: null };
+      blocks[column].push(block);
+      district.blocks.push(block);
+    }
+  }
+  return blocks;
+}
+
+function towerMaterial(settings: CitySettings, accent: string, random: SeededRandom): MaterialDefinition {
+  return {
+    color: random.pick(settings.baseColors),
+    metalness: round(random.range(0.7, 0.95)),
+    roughness: round(random.range(0.1, 0.3)),
+    emissive: accent,
+    emissiveIntensity: round(random.range(0.03, 0.1)),
+    panels: { repeat: 3 }
+  };
+}
+
+function placeTowers(settings: CitySettings, extent: number, blocks: Block[][], random: SeededRandom): void {
+  const lot = settings.blockSize - settings.streetWidth;
+  const { min, max, skew } = settings.towerHeight;
+  
+  for (const block of blocks.flat()) {
+    // Draw every value up front so skipped blocks don't shift later ones
+    const occupied = random.next();
+    const widthFactor = random.range(0.5, 1);
+    const depthFactor = random.range(0.5, 1);
+    const jitterX = random.next();
+    const jitterZ = random.next();
+    const heightRoll = random.next();
+    const cylinder = random.chance(0.2);
+    
+    if (Math.hypot(block.x, block.z) < settings.plazaRadius + settings.blockSize / 2) continue;
+    if (occupied >= settings.density) continue;
+    
+    const district = block.district;
+    const width = lot * widthFactor;
+    const depth = cylinder ? width : lot * depthFactor;
+    // Towers thin out towards the edge of the city
+    const falloff = 1 - 0.5 * Math.min(1, Math.hypot(block.x, block.z) / extent);
+    const height = Math.max(min, (min + (max - min) * heightRoll ** skew) * district.heightScale * falloff);
+    const tower: Tower = {
+      x: block.x + (jitterX - 0.5) * (lot - width),
+      z: block.z + (jitterZ - 0.5) * (lot - depth),
+      width,
+      depth,
+      height
+    };
+    block.tower = tower;
+    
+    district.structures.push({
+      geometry: cylinder
+        ? { shape: 'cylinder', radiusTop: round(width / 2 * 0.85), radiusBottom: round(width / 2), height: round(height), radialSegments: 16 }
+        : { shape: 'box', size: [round(width), round(height), round(depth)] },
+      position: [round(tower.x), round(height / 2), round(tower.z)],
+      material: towerMaterial(settings, district.accent, random),
+      // Edges on boxes, a ring round the base of cylinders
+      ...(cylinder
+        ? { neonRing: { color: district.accent, radius: ringRadius(width / 2 + 1) } }
+        : { neonEdges: district.accent }),
+      shadows: true
+    });
+  }
+}
+
+/**
+ * Glowing panels on tower faces, kept out of collision and shadows
+ */
+function placeSigns(settings: CitySettings, blocks: Block[][], random: SeededRandom): void {
+  for (const block of blocks.flat()) {
+    const tower = block.tower;
+    if (!tower || !random.chance(settings.signChance)) continue;
+    
+    const face = random.int(0, 3);
+    const alongX = face < 2;
+    const span = (alongX ? tower.width : tower.depth) * random.range(0.4, 0.8);
+    const height = random.range(2, 6);
+    const y = Math.min(tower.height - height, tower.height * random.range(0.3, 0.8));
+    const side = face % 2 === 0 ? 1 : -1;
+    const offset = (alongX ? tower.depth : tower.width) / 2 + 0.3;
+    const color = random.chance(0.7) ? block.district.accent : random.pick(settings.palette);
+    
+    block.district.structures.push({
+      geometry: { shape: 'box', size: alongX ? [round(span), round(height), 0.4] : [0.4, round(height), round(span)] },
+      position: alongX
+        ? [round(tower.x), round(y + height / 2), round(tower.z + side * offset)]
+        : [round(tower.x + side * offset), round(y + height / 2), round(tower.z)],
+      material: { color, emissive: color, emissiveIntensity: 2, metalness: 0, roughness: 0.5 },
+      sign: { text: random.pick(settings.signWords), color },
+      shadows: false,
+      collide: false
+    });
+  }
+}
+
+/**
+ * Walkways between towers in neighbouring blocks whose facing sides overlap
+ */
+function placeBridges(settings: CitySettings, blocks: Block[][], blocksPerSide: number, random: SeededRandom): void {
+  const width = 3;
+  const thickness = 0.8;
+  
+  for (let column = 0; column < blocksPerSide; column++) {
+    for (let row = 0; row < blocksPerSide; row++) {
+      const fromBlock = blocks[column][row];
+      const from = fromBlock.tower;
+      const neighbours = [blocks[column + 1]?.[row]?.tower, blocks[column][row + 1]?.tower];
+      
+      neighbours.forEach((to, axis) => {
+        const roll = random.next();
+        const heightRoll = random.next();
+        if (!from || !to || roll >= settings.bridgeChance) return;
+        
+        const top = Math.min(from.height, to.height) - BRIDGE_ROOF_CLEARANCE;
+        if (top <= BRIDGE_MIN_HEIGHT) return;
+        const y = BRIDGE_MIN_HEIGHT + (top - BRIDGE_MIN_HEIGHT) * heightRoll;
+        
+        // axis 0 spans along x between east-west neighbours, axis 1 along z
+        const [fromCenter, toCenter] = axis === 0 ? [from.x, to.x] : [from.z, to.z];
+        const [fromHalf, toHalf] = axis === 0 ? [from.width / 2, to.width / 2] : [from.depth / 2, to.depth / 2];
+        const start = fromCenter + fromHalf;
+        const end = toCenter - toHalf;
+        if (end - start < 1) return;
+        
+        // The deck has to meet both towers' faces
+        const [fromCross, toCross] = axis === 0 ? [from.z, to.z] : [from.x, to.x];
+        const [fromCrossHalf, toCrossHalf] = axis === 0 ? [from.depth / 2, to.depth / 2] : [from.width / 2, to.width / 2];
+        const low = Math.max(fromCross - fromCrossHalf, toCross - toCrossHalf) + width / 2;
+        const high = Math.min(fromCross + fromCrossHalf, toCross + toCrossHalf) - width / 2;
+        if (low > high) return;
+        const cross = (low + high) / 2;
+        
+        const length = end - start;
+        const middle = (start + end) / 2;
+        fromBlock.district.structures.push({
+          geometry: { shape: 'box', size: axis === 0 ? [round(length), thickness, width] : [width, thickness, round(length)] },
+          position: axis === 0 ? [round(middle), round(y), round(cross)] : [round(cross), round(y), round(middle)],
+          material: { color: random.pick(settings.baseColors), metalness: 0.8, roughness: 0.3 },
+          neonEdges: fromBlock.district.accent,
+          shadows: true
+        });
+      });
+    }
+  }
+}
+
+/**
+ * Hovering discs over empty blocks, ringed in their district's accent
+ */
+function placePlatforms(settings: CitySettings, blocks: Block[][], random: SeededRandom): void {
+  for (const block of blocks.flat()) {
+    const chance = random.next();
+    const radius = random.range(4, (settings.blockSize - settings.streetWidth) / 2);
+    const height = random.range(10, 40);
+    if (block.tower || chance >= settings.platformChance) continue;
+    if (Math.hypot(block.x, block.z) < settings.plazaRadius) continue;
+    
+    const district = block.district;
+    district.platforms.push({
+      geometry: { shape: 'cylinder', radiusTop: round(radius), radiusBottom: round(radius * 0.8), height: 1, radialSegments: 24 },
+      position: [round(block.x), round(height), round(block.z)],
+      material: { color: random.pick(settings.baseColors), metalness: 0.8, roughness: 0.2, emissive: district.accent, emissiveIntensity: 0.2 },
+      neonRing: { color: district.accent, radius: ringRadius(radius + 0.5) },
+      shadows: true
+    });
+  }
+}
+
+function createLights(extent: number, districts: District[]): LightDefinition[] {
+  const lights: LightDefinition[] = [
+    { type: 'ambient', color: '#404060', intensity: 0.3 },
+    {
+      type: 'directional',
+      color: '#ffffff',
+      intensity: 0.5,
+      position: [extent / 2, 100, extent / 2],
+      castShadow: true,
+      shadowExtent: extent,
+      shadowMapSize: 2048
+    }
+  ];
+  
+  // One pulsing glow per district; only downtown's casts shadows to keep the shadow budget flat
+  districts.forEach((district, index) => {
+    lights.push({
+      type: 'point',
+      color: district.accent,
+      intensity: 2,
+      distance: 60,
+      position: [round(district.center.x), 25, round(district.center.z)],
+      castShadow: index === 0,
+      shadowMapSize: 512,
+      pulse: { amplitude: 0.5, speed: 1 + index * 0.3 },
+      marker: true
+    });
+  });
+  return lights;
+}
+
+/**
+ * Guards walking the streets around a block in each district
+ */
+function createEnemies(settings: CitySettings, districts: District[], random: SeededRandom): EnemySpawnDefinition[] {
+  const enemies: EnemySpawnDefinition[] = [];
+  const half = settings.blockSize / 2;
+  
+  for (const district of districts) {
+    const candidates = district.blocks.filter(block => Math.hypot(block.x, block.z) > settings.plazaRadius * 2);
+    for (let i = 0; i < settings.enemiesPerDistrict && candidates.length > 0; i++) {
+      const block = candidates.splice(random.int(0, candidates.length - 1), 1)[0];
+      // Street corners are always clear of the block's tower
+      const route: Vec3[] = [
+        [block.x - half, 5, block.z - half],
+        [block.x + half, 5, block.z - half],
+        [block.x + half, 5, block.z + half],
+        [block.x - half, 5, block.z + half]
+      ];
+      enemies.push({ archetype: random.pick(ARCHETYPE_NAMES), position: route[0], patrolRoute: route });
+    }
+  }
+  return enemies;
+}
+
+/**
+ * Sweep over the skyline and come down behind the spawn
+ */
+function createIntro(extent: number, maxHeight: number): LevelDefinition['intro'] {
+  return {
+    name: 'intro',
+    shots: [{
+      name: 'skyline',
+      keyframes: [
+        { time: 0, position: [-extent, maxHeight, extent], lookAt: [0, maxHeight / 3, 0], fov: 55 },
+        { time: 4, position: [extent * 0.6, maxHeight * 0.8, extent * 0.8], lookAt: [0, maxHeight / 4, 0], roll: -4 },
+        { time: 8, position: [0, 21, 30], lookAt: [0, 6, 0], fov: 75, roll: 0, ease: 'easeOutCubic' }
+      ]
+    }],
+    cues: [{ time: 1, name: 'title' }, { time: 5, name: 'titleEnd' }]
+  };
+}
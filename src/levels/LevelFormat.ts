@@ -0,0 +1,304 @@
+import { ArchetypeName, ARCHETYPE_NAMES } from '../ai/Archetypes';
+import { CameraSequence } from '../cameras/CameraSequencer';
+import { AtmosphereDefinition } from '../core/atmosphere/Atmosphere';
+import { ATMOSPHERE_PRESET_NAMES } from '../core/atmosphere/AtmospherePresets';
+import { AMBIENT_PARTICLE_PRESETS, AmbientParticlePreset } from '../core/particles/ParticlePresets';
+import { Easing, EasingName } from '../utils/Easing';
+import { array, boolean, color, literal, number, object, optional, string, Validator, variant, Vec3, vec3 } from './Schema';
+
+export interface MaterialDefinition {
+  color: string;
+  metalness?: number;
+  roughness?: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+  /** Below 1 makes the material transparent */
+  opacity?: number;
+  /** Generated hull-panel normal map, tiled `repeat` times across each face */
+  panels?: { repeat: number; seed?: number; strength?: number };
+}
+
+export type GeometryDefinition =
+  | { shape: 'box'; size: Vec3 }
+  | { shape: 'cylinder'; radiusTop: number; radiusBottom: number; height: number; radialSegments?: number };
+
+export interface StructureDefinition {
+  geometry: GeometryDefinition;
+  position: Vec3;
+  /** Euler angles in degrees */
+  rotation?: Vec3;
+  material: MaterialDefinition;
+  /** Glowing outline along the geometry's edges */
+  neonEdges?: string;
+  /** Glowing torus around the base; `sparks` crackle over its surface */
+  neonRing?: { color: string; radius: number; sparks?: boolean };
+  /** Neon text on a box's two largest faces, in a pixel font of letters, digits and - . : ! ? / & # + ' */
+  sign?: { text: string; color: string };
+  /** Cast and receive shadows */
+  shadows?: boolean;
+  /** Block movement and sight; defaults to true */
+  collide?: boolean;
+}
+
+/**
+ * Structures that move together, optionally bobbing and spinning slowly
+ */
+export interface StructureGroupDefinition {
+  name: string;
+  float?: { amplitude: number; frequency: number; spinSpeed: number };
+  structures: StructureDefinition[];
+}
+
+export type LightDefinition =
+  | { type: 'ambient'; color: string; intensity: number }
+  | {
+    type: 'point';
+    color: string;
+    intensity: number;
+    distance: number;
+    position: Vec3;
+    castShadow?: boolean;
+    shadowMapSize?: number;
+    pulse?: { amplitude: number; speed: number };
+    /** Draw a small glowing sphere at the light */
+    marker?: boolean;
+  }
+  | {
+    type: 'directional';
+    color: string;
+    intensity: number;
+    position: Vec3;
+    castShadow?: boolean;
+    /** Half-size of the square the shadow camera covers */
+    shadowExtent?: number;
+    shadowMapSize?: number;
+  };
+
+export type FogDefinition =
+  | { type: 'exp2'; color: string; density: number }
+  | { type: 'linear'; color: string; near: number; far: number };
+
+export interface GroundDefinition {
+  /** Width and depth of the square ground */
+  size: number;
+  material: MaterialDefinition;
+  /** Glowing grid lines; `pulseSpeed` sends bright rings out from the middle, 0 for none */
+  grid?: { divisions: number; centerColor: string; lineColor: string; opacity: number; pulseSpeed?: number };
+  /** How strongly the ground mirrors the scene, 0 to 1, on quality levels with reflections */
+  reflection?: number;
+}
+
+export interface EnemySpawnDefinition {
+  archetype: ArchetypeName;
+  position: Vec3;
+  patrolRoute?: Vec3[];
+}
+
+/**
+ * Box volume that reports the player entering and leaving it
+ */
+export interface TriggerDefinition {
+  name: string;
+  position: Vec3;
+  size: Vec3;
+  /** Fire only the first time the player enters */
+  once?: boolean;
+  /** Shown on the HUD when entered */
+  message?: string;
+  /** Switch to this level when entered */
+  loadLevel?: string;
+}
+
+/**
+ * Everything needed to build a playable level
+ */
+export interface LevelDefinition {
+  name: string;
+  /** Display name shown during the intro */
+  title?: string;
+  /** Seed a generated level was built from, shown on the HUD */
+  seed?: number;
+  /** Asset bundle preloaded before the level is played; defaults to the level's name */
+  assets?: string;
+  background: string;
+  fog?: FogDefinition;
+  ground?: GroundDefinition;
+  /** Particle weather that follows the player */
+  ambient?: AmbientParticlePreset[];
+  /** Sky, height fog and time of day; takes over the level's ambient and directional lights and fog color */
+  atmosphere?: AtmosphereDefinition;
+  structureGroups: StructureGroupDefinition[];
+  lights: LightDefinition[];
+  playerSpawn: { position: Vec3 };
+  enemies: EnemySpawnDefinition[];
+  triggers: TriggerDefinition[];
+  /** Camera flythrough played when the level starts */
+  intro?: CameraSequence;
+}
+
+const unit = () => number({ min: 0, max: 1 });
+const positive = () => number({ min: 0 });
+
+const material: Validator<MaterialDefinition> = object<MaterialDefinition>({
+  color: color(),
+  metalness: optional(unit()),
+  roughness: optional(unit()),
+  emissive: optional(color()),
+  emissiveIntensity: optional(positive()),
+  opacity: optional(unit()),
+  panels: optional(object({
+    repeat: number({ min: 1 }),
+    seed: optional(number({ min: 0, integer: true })),
+    strength: optional(positive())
+  }))
+});
+
+const geometry = variant<GeometryDefinition>('shape', {
+  box: object<{ shape: 'box'; size: Vec3 }>({ shape: literal('box'), size: vec3() }),
+  cylinder: object<Extract<GeometryDefinition, { shape: 'cylinder' }>>({
+    shape: literal('cylinder'),
+    radiusTop: positive(),
+    radiusBottom: positive(),
+    height: positive(),
+    radialSegments: optional(number({ min: 3, integer: true }))
+  })
+});
+
+const structure = object<StructureDefinition>({
+  geometry,
+  position: vec3(),
+  rotation: optional(vec3()),
+  material,
+  neonEdges: optional(color()),
+  neonRing: optional(object({ color: color(), radius: positive(), sparks: optional(boolean()) })),
+  sign: optional(object({ text: string(), color: color() })),
+  shadows: optional(boolean()),
+  collide: optional(boolean())
+});
+
+const structureGroup = object<StructureGroupDefinition>({
+  name: string(),
+  float: optional(object({ amplitude: number(), frequency: number(), spinSpeed: number() })),
+  structures: array(structure, 1)
+});
+
+type PointLight = Extract<LightDefinition, { type: 'point' }>;
+type DirectionalLight = Extract<LightDefinition, { type: 'directional' }>;
+
+const light = variant<LightDefinition>('type', {
+  ambient: object<Extract<LightDefinition, { type: 'ambient' }>>({
+    type: literal('ambient'),
+    color: color(),
+    intensity: positive()
+  }),
+  point: object<PointLight>({
+    type: literal('point'),
+    color: color(),
+    intensity: positive(),
+    distance: positive(),
+    position: vec3(),
+    castShadow: optional(boolean()),
+    shadowMapSize: optional(number({ min: 16, integer: true })),
+    pulse: optional(object({ amplitude: number(), speed: number() })),
+    marker: optional(boolean())
+  }),
+  directional: object<DirectionalLight>({
+    type: literal('directional'),
+    color: color(),
+    intensity: positive(),
+    position: vec3(),
+    castShadow: optional(boolean()),
+    shadowExtent: optional(positive()),
+    shadowMapSize: optional(number({ min: 16, integer: true }))
+  })
+});
+
+const fog = variant<FogDefinition>('type', {
+  exp2: object<Extract<FogDefinition, { type: 'exp2' }>>({ type: literal('exp2'), color: color(), density: positive() }),
+  linear: object<Extract<FogDefinition, { type: 'linear' }>>({
+    type: literal('linear'),
+    color: color(),
+    near: positive(),
+    far: positive()
+  })
+});
+
+const ground = object<GroundDefinition>({
+  size: number({ min: 1 }),
+  material,
+  grid: optional(object({
+    divisions: number({ min: 1, integer: true }),
+    centerColor: color(),
+    lineColor: color(),
+    opacity: unit(),
+    pulseSpeed: optional(positive())
+  })),
+  reflection: optional(unit())
+});
+
+const enemy = object<EnemySpawnDefinition>({
+  archetype: literal(...ARCHETYPE_NAMES),
+  position: vec3(),
+  patrolRoute: optional(array(vec3(), 1))
+});
+
+const trigger = object<TriggerDefinition>({
+  name: string(),
+  position: vec3(),
+  size: vec3(),
+  once: optional(boolean()),
+  message: optional(string()),
+  loadLevel: optional(string())
+});
+
+const intro = object<CameraSequence>({
+  name: string(),
+  shots: array(object({
+    name: string(),
+    transition: optional(literal('cut', 'blend')),
+    blendDuration: optional(positive()),
+    keyframes: array(object({
+      time: positive(),
+      position: vec3(),
+      lookAt: vec3(),
+      fov: optional(number({ min: 1, max: 179 })),
+      roll: optional(number()),
+      ease: optional(literal(...Object.keys(Easing) as EasingName[]))
+    }), 1)
+  }), 1),
+  cues: optional(array(object({ time: positive(), name: string() })))
+});
+
+const level = object<LevelDefinition>({
+  name: string(),
+  title: optional(string()),
+  seed: optional(number({ min: 0, integer: true })),
+  assets: optional(string()),
+  background: color(),
+  fog: optional(fog),
+  ground: optional(ground),
+  ambient: optional(array(literal(...AMBIENT_PARTICLE_PRESETS))),
+  atmosphere: optional(object<AtmosphereDefinition>({
+    preset: literal(...ATMOSPHERE_PRESET_NAMES),
+    hour: optional(number({ min: 0, max: 24 })),
+    dayLength: optional(positive())
+  })),
+  structureGroups: array(structureGroup),
+  lights: array(light),
+  playerSpawn: object({ position: vec3() }),
+  enemies: array(enemy),
+  triggers: array(trigger),
+  intro: optional(intro)
+});
+
+/**
+ * Check parsed JSON against the level format
+ * Errors name the offending property, e.g. "Level arena.lights[2].color: expected a '#rrggbb' color"
+ */
+export function validateLevel(data: unknown, source: string = 'level'): LevelDefinition {
+  try {
+    return level(data, source);
+  } catch (error) {
+    throw new Error(`Level ${(error as Error).message}`);
+  }
+}
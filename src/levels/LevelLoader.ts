@@ -0,0 +1,494 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import {
+  Collider,
+  FloatMotion,
+  LightPulse,
+  MeshRef,
+  Tag,
+  Transform,
+  Trigger,
+  createTransform
+} from '../ecs/Components';
+import { despawn } from '../ecs/Lifecycle';
+import { ResourceCache, disposeObject } from '../core/ResourceCache';
+import { createProp } from '../core/instancing/InstanceBatches';
+import { attachParticles } from '../core/particles/ParticleEffects';
+import { GroundReflection } from '../core/lighting/GroundReflection';
+import { ProceduralTextures } from '../core/procedural/ProceduralTextures';
+import { addNeonIntensity, createNeonGridMaterial, createScanlineMaterial } from '../core/procedural/NeonMaterials';
+import { hash1D } from '../utils/Noise';
+import { colliderPartFromMesh, createColliderPart } from '../physics/Colliders';
+import { Chunk, ChunkBuilder, ChunkItem, ChunkStreamer, StreamingSettings } from './ChunkStreamer';
+import {
+  GeometryDefinition,
+  LevelDefinition,
+  LightDefinition,
+  MaterialDefinition,
+  StructureDefinition,
+  TriggerDefinition,
+  validateLevel
+} from './LevelFormat';
+import { validateLevelLinks } from './Levels';
+import { Vec3 } from './Schema';
+
+/**
+ * Builds a level's scenery, lights and triggers into a scene and tears them down again
+ * Structures are streamed in chunks around the player; players and enemies are spawned
+ * by the simulation from the same definition
+ * Structures that look alike share geometry, materials and generated textures, and neon rings
+ * and light markers are instanced when the scene has instanced batches
+ */
+export class LevelLoader implements ChunkBuilder {
+  private registry: Registry;
+  private scene: THREE.Scene;
+  private level: LevelDefinition | null;
+  private root: THREE.Group;
+  private entities: Entity[];
+  private streamer: ChunkStreamer;
+  private resources: ResourceCache;
+  private textures: ProceduralTextures;
+  // Lights with the shadow map size the level asked for
+  private shadowCasters: { light: THREE.PointLight | THREE.DirectionalLight; size: number }[];
+  private shadowMapScale: number;
+  private reflection: GroundReflection | null;
+  // Ground reflection resolution as a fraction of the screen's; 0 turns reflections off
+  private reflectionResolution: number;
+
+  constructor(registry: Registry, scene: THREE.Scene, streaming: Partial<StreamingSettings> = {}) {
+    this.registry = registry;
+    this.scene = scene;
+    this.level = null;
+    this.root = new THREE.Group();
+    this.entities = [];
+    this.streamer = new ChunkStreamer(this, streaming);
+    this.resources = new ResourceCache();
+    this.textures = new ProceduralTextures(this.resources);
+    this.shadowCasters = [];
+    this.shadowMapScale = 1;
+    this.reflection = null;
+    this.reflectionResolution = 0;
+  }
+
+  /**
+   * Fetch and validate a level from a URL
+   */
+  public static async fetch(url: string): Promise<LevelDefinition> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Level ${url}: request failed with ${response.status}`);
+    }
+    return validateLevelLinks(validateLevel(await response.json(), url), url);
+  }
+
+  /**
+   * Build a level, replacing the current one
+   */
+  public load(level: LevelDefinition): void {
+    this.unload();
+    this.level = level;
+    this.root = new THREE.Group();
+    this.root.name = `level:${level.name}`;
+    this.scene.add(this.root);
+    
+    this.scene.background = new THREE.Color(level.background);
+    if (level.fog) {
+      this.scene.fog = level.fog.type === 'exp2'
+        ? new THREE.FogExp2(level.fog.color, level.fog.density)
+        : new THREE.Fog(level.fog.color, level.fog.near, level.fog.far);
+    }
+    
+    level.lights.forEach(light => this.createLight(light));
+    if (level.ground) {
+      this.createGround(level.ground);
+    }
+    level.triggers.forEach(trigger => this.createTrigger(trigger));
+    
+    // Structures stream in around the spawn
+    this.streamer.start(level, new THREE.Vector3().fromArray(level.playerSpawn.position));
+  }
+
+  /**
+   * Remove everything the current level built and free its GPU resources
+   */
+  public unload(): void {
+    if (!this.level) return;
+    
+    this.streamer.stop();
+    this.entities.forEach(entity => despawn(this.registry, entity));
+    this.entities = [];
+    this.shadowCasters = [];
+    this.reflection?.dispose();
+    this.reflection = null;
+    
+    this.root.removeFromParent();
+    disposeObject(this.root);
+    // Everything should have been released by now; this catches anything that wasn't
+    this.resources.clear();
+    
+    this.scene.background = null;
+    this.scene.fog = null;
+    this.level = null;
+  }
+
+  /**
+   * Get the definition of the loaded level, if any
+   */
+  public getLevel(): LevelDefinition | null {
+    return this.level;
+  }
+
+  /**
+   * Scale the shadow map sizes the level asks for, now and for levels loaded later
+   */
+  public setShadowMapScale(scale: number): void {
+    if (scale === this.shadowMapScale) return;
+    this.shadowMapScale = scale;
+    this.shadowCasters.forEach(({ light, size }) => this.applyShadowMapSize(light, size));
+  }
+
+  /**
+   * Reflect the scene in grounds that ask for it, at a fraction of the screen's resolution; 0 turns reflections off
+   */
+  public setReflectionResolution(resolution: number): void {
+    if (resolution === this.reflectionResolution) return;
+    this.reflectionResolution = resolution;
+    this.updateReflection();
+  }
+
+  /**
+   * Get the streamer that loads the level's structures chunk by chunk
+   */
+  public getStreamer(): ChunkStreamer {
+    return this.streamer;
+  }
+
+  /**
+   * Get the geometry, materials and textures shared by the level's structures
+   */
+  public getResources(): ResourceCache {
+    return this.resources;
+  }
+
+  /**
+   * Build one structure into its group's slice of the chunk
+   */
+  public buildItem(chunk: Chunk, item: ChunkItem): void {
+    let group = chunk.groups.get(item.group);
+    if (!group) {
+      group = new THREE.Group();
+      group.name = this.level!.structureGroups[item.group].name;
+      chunk.groups.set(item.group, group);
+      chunk.root.add(group);
+    }
+    
+    const mesh = this.createStructure(item.structure);
+    // Lets tools map a picked mesh back to its definition
+    mesh.userData.levelRef = { kind: 'structure', group: item.group, index: item.index };
+    group.add(mesh);
+    
+    chunk.details.push(...mesh.children);
+    if (mesh.castShadow) {
+      chunk.casters.push(mesh);
+    }
+  }
+
+  /**
+   * Give each of the chunk's groups an entity that moves and collides like the whole group would
+   */
+  public finishChunk(chunk: Chunk): void {
+    const clock = this.streamer.getClock();
+    
+    for (const [groupIndex, group] of chunk.groups) {
+      const definition = this.level!.structureGroups[groupIndex];
+      const entity = this.registry.createEntity();
+      chunk.entities.push(entity);
+      this.registry.addComponent(entity, Tag, { name: `${definition.name}@${chunk.key}` });
+      this.registry.addComponent(entity, Transform, createTransform(group.position));
+      this.registry.addComponent(entity, MeshRef, { object: group });
+      if (definition.float) {
+        // Start in phase with the group's chunks that are already floating
+        this.registry.addComponent(entity, FloatMotion, {
+          baseY: group.position.y,
+          ...definition.float,
+          angle: clock * definition.float.spinSpeed,
+          elapsedTime: clock
+        });
+      }
+      
+      // Collide against every structure; the group's motion carries riders along
+      const items = chunk.items.filter(item => item.group === groupIndex);
+      this.registry.addComponent(entity, Collider, {
+        parts: group.children
+          .filter((_, index) => items[index].structure.collide ?? true)
+          .map(mesh => {
+            mesh.updateMatrix();
+            return colliderPartFromMesh(mesh as THREE.Mesh);
+          }),
+        isStatic: true
+      });
+    }
+    this.root.add(chunk.root);
+  }
+
+  /**
+   * Tear down a chunk's entities and scenery
+   */
+  public disposeChunk(chunk: Chunk): void {
+    // Despawning frees each finished group
+    chunk.entities.forEach(entity => despawn(this.registry, entity));
+    chunk.root.removeFromParent();
+    // Groups of a chunk that was still building have no entity yet
+    disposeObject(chunk.root);
+  }
+
+  private track(entity: Entity): Entity {
+    this.entities.push(entity);
+    return entity;
+  }
+
+  private createStructure(definition: StructureDefinition): THREE.Mesh {
+    const material = definition.sign && definition.geometry.shape === 'box'
+      ? this.getSignMaterials(definition.geometry.size, definition.material, definition.sign)
+      : this.getMaterial(definition.material);
+    const mesh = new THREE.Mesh(this.getGeometry(definition.geometry), material);
+    mesh.position.fromArray(definition.position);
+    if (definition.rotation) {
+      const [x, y, z] = definition.rotation.map(THREE.MathUtils.degToRad);
+      mesh.rotation.set(x, y, z);
+    }
+    mesh.castShadow = definition.shadows ?? false;
+    mesh.receiveShadow = definition.shadows ?? false;
+    
+    if (definition.neonEdges) {
+      this.addNeonEdges(mesh, definition.geometry, definition.neonEdges);
+    }
+    if (definition.neonRing) {
+      this.addNeonRing(mesh, definition.neonRing.color, definition.neonRing.radius, definition.neonRing.sparks ?? false);
+    }
+    return mesh;
+  }
+
+  private addNeonEdges(mesh: THREE.Mesh, definition: GeometryDefinition, color: string): void {
+    const edges = this.resources.geometry(`edges:${JSON.stringify(definition)}`, () => new THREE.EdgesGeometry(mesh.geometry));
+    const lineMaterial = this.resources.material(`edges:${color}`, () => new THREE.LineBasicMaterial({
+      color: color,
+      linewidth: 2
+    }));
+    const edgeLines = new THREE.LineSegments(edges, lineMaterial);
+    mesh.add(edgeLines);
+  }
+
+  private addNeonRing(mesh: THREE.Mesh, color: string, radius: number, sparks: boolean): void {
+    const ring = createProp(this.scene, {
+      batch: `neonRing:${radius}`,
+      color,
+      emissive: color,
+      geometry: () => new THREE.TorusGeometry(radius, 0.3, 8, 32),
+      material: () => new THREE.MeshStandardMaterial({
+        emissiveIntensity: 3.0,
+        transparent: true,
+        opacity: 0.9
+      })
+    });
+    ring.rotation.x = Math.PI / 2;
+    // Sit the ring at the base of the structure
+    mesh.geometry.computeBoundingBox();
+    ring.position.y = mesh.geometry.boundingBox!.min.y;
+    mesh.add(ring);
+    
+    if (sparks) {
+      // Only sampled for spark positions, never drawn, so it holds nothing on the GPU
+      const surface = new THREE.TorusGeometry(radius, 0.3, 8, 32);
+      attachParticles(this.scene, 'ringSparks', ring, { shape: { type: 'surface', geometry: surface }, tint: color });
+    }
+  }
+
+  /**
+   * Materials per box face: the sign on the two faces across the box's thinnest side, the structure's own on the rest
+   * Each face takes its own reference, as disposal releases each face's material
+   */
+  private getSignMaterials(size: Vec3, definition: MaterialDefinition, sign: { text: string; color: string }): THREE.Material[] {
+    const thinnest = size.indexOf(Math.min(...size));
+    // Box faces are grouped +x, -x, +y, -y, +z, -z
+    return [0, 1, 2, 3, 4, 5].map(face => {
+      if (Math.floor(face / 2) !== thinnest) return this.getMaterial(definition);
+      return this.resources.material(`sign:${sign.color}:${sign.text}`, () => createScanlineMaterial({
+        map: this.textures.sign(sign),
+        // Signs with different text flicker out of step
+        seed: hash1D([...sign.text].reduce((sum, character) => sum * 31 + character.charCodeAt(0), 0) % 65536)
+      }));
+    });
+  }
+
+  private getGeometry(definition: GeometryDefinition): THREE.BufferGeometry {
+    return this.resources.geometry(JSON.stringify(definition), () => createGeometry(definition));
+  }
+
+  private getMaterial(definition: MaterialDefinition): THREE.MeshStandardMaterial {
+    return this.resources.material(JSON.stringify(definition), () => this.createMaterial(definition));
+  }
+
+  private createMaterial(definition: MaterialDefinition): THREE.MeshStandardMaterial {
+    const opacity = definition.opacity ?? 1;
+    const material = new THREE.MeshStandardMaterial({
+      color: definition.color,
+      metalness: definition.metalness ?? 0.5,
+      roughness: definition.roughness ?? 0.5,
+      emissive: definition.emissive ?? '#000000',
+      emissiveIntensity: definition.emissiveIntensity ?? 1,
+      transparent: opacity < 1,
+      opacity
+    });
+    
+    if (definition.panels) {
+      const { repeat, seed, strength } = definition.panels;
+      material.normalMap = this.textures.panelNormals({ seed: seed ?? 0 }, repeat);
+      material.normalScale.setScalar(strength ?? 1);
+    }
+    // Emissive trim dims by day with the rest of the neon
+    addNeonIntensity(material);
+    return material;
+  }
+
+  private createLight(definition: LightDefinition): void {
+    switch (definition.type) {
+      case 'ambient':
+        this.root.add(new THREE.AmbientLight(definition.color, definition.intensity));
+        return;
+      case 'point': {
+        const light = new THREE.PointLight(definition.color, definition.intensity, definition.distance);
+        light.position.fromArray(definition.position);
+        light.castShadow = definition.castShadow ?? false;
+        this.applyShadowMapSize(light, definition.shadowMapSize ?? 512);
+        this.root.add(light);
+        this.streamer.addLight(light);
+        
+        if (definition.pulse) {
+          const entity = this.track(this.registry.createEntity());
+          this.registry.addComponent(entity, LightPulse, {
+            light,
+            baseIntensity: definition.intensity,
+            ...definition.pulse,
+            elapsedTime: 0
+          });
+        }
+        
+        if (definition.marker) {
+          // Visible light source
+          const sphere = createProp(this.scene, {
+            batch: 'lightMarker',
+            color: definition.color,
+            geometry: () => new THREE.SphereGeometry(0.5, 16, 16),
+            material: () => new THREE.MeshBasicMaterial()
+          });
+          sphere.position.copy(light.position);
+          this.root.add(sphere);
+        }
+        return;
+      }
+      case 'directional': {
+        const light = new THREE.DirectionalLight(definition.color, definition.intensity);
+        light.position.fromArray(definition.position);
+        light.castShadow = definition.castShadow ?? false;
+        const extent = definition.shadowExtent ?? 100;
+        light.shadow.camera.left = -extent;
+        light.shadow.camera.right = extent;
+        light.shadow.camera.top = extent;
+        light.shadow.camera.bottom = -extent;
+        this.applyShadowMapSize(light, definition.shadowMapSize ?? 2048);
+        this.root.add(light);
+        return;
+      }
+    }
+  }
+
+  private applyShadowMapSize(light: THREE.PointLight | THREE.DirectionalLight, size: number): void {
+    if (!this.shadowCasters.some(caster => caster.light === light)) {
+      this.shadowCasters.push({ light, size });
+    }
+    const scaled = Math.max(64, Math.round(size * this.shadowMapScale));
+    if (light.shadow.mapSize.x === scaled) return;
+    light.shadow.mapSize.set(scaled, scaled);
+    // The map is reallocated at the new size on the next shadow render
+    light.shadow.map?.dispose();
+    light.shadow.map = null;
+  }
+
+  private createGround(definition: NonNullable<LevelDefinition['ground']>): void {
+    const { size } = definition;
+    const segments = Math.max(1, Math.round(size / 10));
+    const ground = new THREE.Mesh(new THREE.PlaneGeometry(size, size, segments, segments), this.createMaterial(definition.material));
+    ground.rotation.x = -Math.PI / 2;
+    ground.receiveShadow = true;
+    this.root.add(ground);
+    
+    if (definition.grid) {
+      const grid = new THREE.Mesh(new THREE.PlaneGeometry(size, size), createNeonGridMaterial({ size, ...definition.grid }));
+      grid.rotation.x = -Math.PI / 2;
+      grid.position.y = 0.1;
+      this.root.add(grid);
+    }
+    this.updateReflection();
+    
+    // Solid slab under the ground plane
+    const entity = this.track(this.registry.createEntity());
+    this.registry.addComponent(entity, Tag, { name: 'ground' });
+    this.registry.addComponent(entity, Transform, createTransform(ground.position));
+    this.registry.addComponent(entity, Collider, {
+      parts: [createColliderPart(
+        { type: 'aabb', halfExtents: new THREE.Vector3(size / 2, 1, size / 2) },
+        new THREE.Matrix4().makeTranslation(0, -1, 0)
+      )],
+      isStatic: true
+    });
+  }
+
+  /**
+   * Build, resize or remove the ground reflection to match the level and the reflection resolution
+   */
+  private updateReflection(): void {
+    const ground = this.level?.ground;
+    const strength = ground?.reflection ?? 0;
+    if (!ground || strength <= 0 || this.reflectionResolution <= 0) {
+      this.reflection?.dispose();
+      this.reflection = null;
+    } else if (this.reflection) {
+      this.reflection.setResolution(this.reflectionResolution);
+    } else {
+      this.reflection = new GroundReflection({ size: ground.size, strength, resolution: this.reflectionResolution });
+      this.root.add(this.reflection.getObject());
+    }
+  }
+
+  private createTrigger(definition: TriggerDefinition): void {
+    const center = new THREE.Vector3().fromArray(definition.position);
+    const size = new THREE.Vector3().fromArray(definition.size);
+    
+    const entity = this.track(this.registry.createEntity());
+    this.registry.addComponent(entity, Tag, { name: `trigger:${definition.name}` });
+    this.registry.addComponent(entity, Trigger, {
+      name: definition.name,
+      bounds: new THREE.Box3().setFromCenterAndSize(center, size),
+      once: definition.once ?? false,
+      fired: false,
+      occupants: new Set<Entity>(),
+      message: definition.message,
+      loadLevel: definition.loadLevel
+    });
+  }
+}
+
+function createGeometry(definition: GeometryDefinition): THREE.BufferGeometry {
+  switch (definition.shape) {
+    case 'box':
+      return new THREE.BoxGeometry(...definition.size);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(
+        definition.radiusTop,
+        definition.radiusBottom,
+        definition.height,
+        definition.radialSegments ?? 16
+      );
+  }
+}
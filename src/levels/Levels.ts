@@ -0,0 +1,73 @@
+import { randomSeed } from '../utils/Random';
+import { generateCity } from './CityGenerator';
+import { LevelDefinition, validateLevel } from './LevelFormat';
+import megastructure from './megastructure.json';
+
+/**
+ * Levels bundled with the game, by name
+ */
+const LEVELS = new Map<string, unknown>([
+  ['megastructure', megastructure]
+]);
+
+/**
+ * Levels generated from a seed, by name
+ * Asked for as `name` for a random seed or `name:<seed>` to reproduce one
+ */
+const GENERATED_LEVELS = new Map<string, (seed: number) => LevelDefinition>([
+  ['city', seed => generateCity({ seed })]
+]);
+
+export const DEFAULT_LEVEL = 'megastructure';
+
+/**
+ * Names of every bundled and generated level
+ */
+export function getLevelNames(): string[] {
+  return [...LEVELS.keys(), ...GENERATED_LEVELS.keys()];
+}
+
+/**
+ * Whether `getLevel` can load `name`: a bundled level, or a generated one with an optional numeric seed
+ */
+export function isLevelName(name: string): boolean {
+  const [base, seed] = name.split(':');
+  if (GENERATED_LEVELS.has(base)) {
+    return seed === undefined || /^\d+$/.test(seed);
+  }
+  return LEVELS.has(name);
+}
+
+/**
+ * Get a bundled or generated level, validated against the level format
+ */
+export function getLevel(name: string): LevelDefinition {
+  const [base, seed] = name.split(':');
+  const generate = GENERATED_LEVELS.get(base);
+  if (generate) {
+    if (seed !== undefined && !/^\d+$/.test(seed)) {
+      throw new Error(`Invalid seed '${seed}' for level '${base}'`);
+    }
+    const level = generate(seed === undefined ? randomSeed() : Number(seed) >>> 0);
+    return validateLevelLinks(validateLevel(level, level.name), level.name);
+  }
+  
+  if (!LEVELS.has(name)) {
+    throw new Error(`Unknown level '${name}'`);
+  }
+  return validateLevelLinks(validateLevel(LEVELS.get(name), name), name);
+}
+
+/**
+ * Check that every trigger's `loadLevel` names a level `getLevel` can load,
+ * so a typo fails when the level loads rather than when the player walks into the trigger
+ */
+export function validateLevelLinks(level: LevelDefinition, source: string = level.name): LevelDefinition {
+  level.triggers.forEach((trigger, index) => {
+    if (trigger.loadLevel !== undefined && !isLevelName(trigger.loadLevel)) {
+      throw new Error(`Level ${source}.triggers[${index}].loadLevel: unknown level '${trigger.loadLevel}', ` +
+        `expected one of ${getLevelNames().map(name => `'${name}'`).join(', ')}`);
+    }
+  });
+  return level;
+}
@@ -0,0 +1,110 @@
+/**
+ * Checks an unknown value against a shape and returns it typed
+ * Throws with the offending `path` when the value doesn't match
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Vec3 = [number, number, number];
+
+function fail(path: string, message: string): never {
+  throw new Error(`${path}: ${message}`);
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'expected a number');
+    if (options.integer && !Number.isInteger(value)) fail(path, 'expected an integer');
+    if (options.min !== undefined && value < options.min) fail(path, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) fail(path, `must be at most ${options.max}`);
+    return value;
+  };
+}
+
+export function string(): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== 'string' || value.length === 0) fail(path, 'expected a non-empty string');
+    return value;
+  };
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') fail(path, 'expected true or false');
+    return value;
+  };
+}
+
+export function literal<T extends string>(...options: readonly T[]): Validator<T> {
+  return (value, path) => {
+    if (!options.includes(value as T)) fail(path, `expected one of ${options.map(o => `'${o}'`).join(', ')}`);
+    return value as T;
+  };
+}
+
+/**
+ * A '#rrggbb' color string
+ */
+export function color(): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) fail(path, "expected a '#rrggbb' color");
+    return value;
+  };
+}
+
+export function vec3(): Validator<Vec3> {
+  const component = number();
+  return (value, path) => {
+    if (!Array.isArray(value) || value.length !== 3) fail(path, 'expected [x, y, z]');
+    return value.map((item, index) => component(item, `${path}[${index}]`)) as Vec3;
+  };
+}
+
+export function array<T>(item: Validator<T>, minLength: number = 0): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, 'expected an array');
+    if (value.length < minLength) fail(path, `needs at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}`);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Accept a missing value as undefined
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path));
+}
+
+/**
+ * An object with exactly these keys; unknown keys are rejected to catch typos
+ */
+export function object<T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'expected an object');
+    const input = value as Record<string, unknown>;
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) fail(`${path}.${key}`, 'unknown property');
+    }
+    
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const checked = shape[key](input[key], `${path}.${key}`);
+      if (checked !== undefined) result[key] = checked;
+    }
+    return result as T;
+  };
+}
+
+/**
+ * One of several object shapes, picked by the value of a discriminant key
+ */
+export function variant<T extends object>(key: string, shapes: Record<string, Validator<T>>): Validator<T> {
+  const names = Object.keys(shapes);
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null) fail(path, 'expected an object');
+    const kind = (value as Record<string, unknown>)[key];
+    if (typeof kind !== 'string' || !names.includes(kind)) {
+      fail(`${path}.${key}`, `expected one of ${names.map(n => `'${n}'`).join(', ')}`);
+    }
+    return shapes[kind](value, path);
+  };
+}
@@ -1,91 +1,323 @@
-import * as THREE from 'three';
 import { Renderer } from './core/Renderer';
-import { World } from './scenes/World';
+import { QualityManager } from './core/QualityManager';
+import { QUALITY_PRESETS, loadQualitySettings } from './core/QualitySettings';
+import { Simulation } from './core/Simulation';
 import { CinematicCamera } from './cameras/CinematicCamera';
-import { Player } from './characters/Player';
+import { ThirdPersonRig } from './cameras/ThirdPersonRig';
 import { EnemyAI } from './characters/EnemyAI';
+import { Player } from './characters/Player';
 import { InputManager } from './utils/InputManager';
 import { TimeManager } from './utils/TimeManager';
+import { AlertLevel } from './ecs/Components';
+import { EffectName } from './core/postprocessing/Effects';
+import { LevelDefinition } from './levels/LevelFormat';
+import { LevelLoader } from './levels/LevelLoader';
+import { DEFAULT_LEVEL, getLevel } from './levels/Levels';
+import { LevelEditor } from './editor/LevelEditor';
+import { AssetLoader } from './core/AssetLoader';
+import { AssetBundle, GAME_MANIFEST, getLevelBundle } from './core/assets/AssetManifest';
+import { LoadingScreen } from './ui/LoadingScreen';
+
+// HUD text per alert level, from calmest to most alarmed
+const ALERT_DISPLAY: { level: AlertLevel; text: string; color: string }[] = [
+  { level: 'unaware', text: '', color: '#00ffff' },
+  { level: 'suspicious', text: '? SUSPICIOUS', color: '#ffee00' },
+  { level: 'searching', text: '?! SEARCHING', color: '#ff8800' },
+  { level: 'alert', text: '! DETECTED', color: '#ff0033' }
+];
+
+// Furthest enemy the camera will lock on to or stay locked on
+const LOCK_ON_RANGE = 50;
+
+// Seconds a level message stays on screen
+const MESSAGE_DURATION = 3;
+
+// Enemy deaths further than this from the camera don't shake it
+const EXPLOSION_SHAKE_RANGE = 60;
+
+// Camera shake strengths cycled by the accessibility key
+const SHAKE_INTENSITIES = [1, 0.5, 0];
+
+// Reloads the leak check compares after the first one settles
+const LEAK_CHECK_RELOADS = 3;
+
+// Number keys toggle post-processing effects
+const EFFECT_KEYS: Record<string, EffectName> = {
+  Digit1: 'bloom',
+  Digit2: 'toneMapping',
+  Digit3: 'grain',
+  Digit4: 'vignette',
+  Digit5: 'chromaticAberration',
+  Digit6: 'depthOfField',
+  Digit9: 'atmosphere'
+};
+
+/**
+ * Short form of a large count for the HUD, e.g. 182400 -> 182.4k
+ */
+function formatCount(count: number): string {
+  if (count >= 1e6) return `${(count / 1e6).toFixed(1)}M`;
+  if (count >= 1e3) return `${(count / 1e3).toFixed(1)}k`;
+  return `${count}`;
+}
 
 /**
  * Main game class - Entry point for the cinematic browser game
  */
 class Game {
   private renderer!: Renderer;
-  private world!: World;
+  private quality!: QualityManager;
+  private simulation!: Simulation;
   private camera!: CinematicCamera;
   private player!: Player;
-  private enemies: EnemyAI[];
   private inputManager: InputManager;
   private timeManager: TimeManager;
   private isRunning: boolean;
+  private cameraRig!: ThirdPersonRig;
+  private editor!: LevelEditor;
+  private lockTarget: EnemyAI | null;
+  private messageTimeout: number;
+  private animationFrame: number;
+  private hud: HTMLElement;
+  private loading: LoadingScreen;
+  private assets!: AssetLoader;
+  // Set while a level's bundle loads; the simulation waits for it
+  private bundleLoading: boolean;
+  // Shown on the HUD once the game starts, e.g. why the asked-for level was replaced
+  private startupMessage: string | null;
+  // Removes every window listener the game added
+  private listeners: (() => void)[];
 
   constructor() {
-    this.enemies = [];
     this.inputManager = new InputManager();
-    this.timeManager = new TimeManager();
+    this.timeManager = new TimeManager({ tickRate: 60, maxStepsPerFrame: 5 });
     this.isRunning = false;
+    this.lockTarget = null;
+    this.messageTimeout = 0;
+    this.animationFrame = 0;
+    this.hud = document.createElement('div');
+    this.hud.id = 'hud';
+    this.loading = new LoadingScreen();
+    this.bundleLoading = false;
+    this.startupMessage = null;
+    this.listeners = [];
     
-    this.init();
+    this.init().catch((error: unknown) => this.onInitFailed(error));
   }
 
   private async init(): Promise<void> {
     console.log('Initializing Cinematic Browser Game...');
     
-    // Create world scene
-    this.world = new World();
+    // Everything on screen lives under one element, so dispose() can take it all down
+    document.body.appendChild(this.hud);
+    
+    // Load the core assets and the first level's before anything is built from them
+    const level = await this.resolveLevel();
+    this.assets = new AssetLoader();
+    await this.preloadAssets({ ...GAME_MANIFEST.core, ...getLevelBundle(GAME_MANIFEST, level) }, 'LOADING');
+    
+    // Create world, player and enemies from the chosen level
+    this.simulation = new Simulation(this.inputManager, level, this.assets);
+    this.simulation.setLevelGate((next) => this.ensureLevelAssets(next));
+    this.player = this.simulation.getPlayer();
     
     // Create cinematic camera
     this.camera = new CinematicCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
     
-    // Create renderer
-    this.renderer = new Renderer(this.world.getScene(), this.camera.getCamera());
+    // Create renderer at the quality the player picked last time
+    const quality = loadQualitySettings();
+    this.renderer = new Renderer(this.simulation.getWorld().getScene(), this.camera.getCamera(), {}, QUALITY_PRESETS[quality.level]);
+    this.quality = new QualityManager(this.renderer, this.simulation.getWorld(), quality);
     
-    // Create player
-    this.player = new Player(this.world.getScene(), new THREE.Vector3(0, 5, 50));
-    
-    // Create enemies
-    this.createEnemies();
+    // Load the chunks the camera can see first
+    this.simulation.getWorld().getStreamer().setView(this.camera.getCamera());
     
     // Setup camera to follow player
     this.setupCamera();
+    this.playIntro(level);
+    
+    // Level editor over the same scene, renderer and input
+    this.editor = new LevelEditor({
+      renderer: this.renderer,
+      camera: this.camera.getCamera(),
+      simulation: this.simulation,
+      input: this.inputManager
+    });
     
     // Add resize handler
-    window.addEventListener('resize', () => this.onWindowResize());
+    this.listen('resize', () => this.onWindowResize());
     
     // Add FPS counter to UI
     this.createUI();
     
+    // React to combat
+    this.bindEvents();
+    
     // Start game loop
+    this.loading.hide();
     this.isRunning = true;
     this.animate();
+    if (this.startupMessage) {
+      this.showMessage(this.startupMessage);
+    }
     
     console.log('Game initialized successfully!');
   }
 
-  private createEnemies(): void {
-    // Spawn multiple enemies around the scene
-    const enemyPositions = [
-      new THREE.Vector3(20, 5, 0),
-      new THREE.Vector3(-20, 5, -20),
-      new THREE.Vector3(0, 5, -40)
-    ];
+  /**
+   * Leave the loading screen up with what went wrong instead of a frozen LOADING bar
+   */
+  private onInitFailed(error: unknown): void {
+    console.error('Game failed to initialize:', error);
+    this.loading.showError('FAILED TO START', [error instanceof Error ? error.message : String(error)]);
+  }
+
+  /**
+   * Add a window listener that stop() removes again
+   */
+  private listen<K extends keyof WindowEventMap>(type: K, handler: (e: WindowEventMap[K]) => void): () => void {
+    window.addEventListener(type, handler);
+    const remove = () => window.removeEventListener(type, handler);
+    this.listeners.push(remove);
+    return remove;
+  }
+
+  /**
+   * Load a bundle behind the loading screen
+   * Optional assets that fail fall back quietly; for required ones the player picks retry or fall back
+   */
+  private async preloadAssets(bundle: AssetBundle, title: string): Promise<void> {
+    this.loading.show(title);
+    let pending = bundle;
+    for (;;) {
+      const { failed } = await this.assets.preload(pending, ({ fraction, url }) => {
+        this.loading.setProgress(fraction, `${title} ${Math.round(fraction * 100)}%${url ? ` - ${url}` : ''}`);
+      });
+      
+      const optional = failed.filter(failure => failure.entry.optional);
+      if (optional.length > 0) {
+        console.warn('Optional assets failed to load, using fallbacks:', optional);
+        this.assets.useFallbacks(optional);
+      }
+      
+      const required = failed.filter(failure => !failure.entry.optional);
+      if (required.length === 0) return;
+      const choice = await this.loading.askAboutFailures(required.map(failure => `${failure.name}: ${failure.error}`));
+      if (choice === 'continue') {
+        this.assets.useFallbacks(required);
+        return;
+      }
+      pending = Object.fromEntries(required.map(failure => [failure.name, failure.entry]));
+      this.loading.setProgress(0, title);
+    }
+  }
+
+  /**
+   * Level gate for the simulation: true once a level's bundle is loaded,
+   * otherwise starts loading it and pauses the game behind the loading screen
+   */
+  private ensureLevelAssets(level: LevelDefinition): boolean {
+    const bundle = getLevelBundle(GAME_MANIFEST, level);
+    if (this.assets.hasBundle(bundle)) return true;
     
-    enemyPositions.forEach(pos => {
-      const enemy = new EnemyAI(this.world.getScene(), pos);
-      this.enemies.push(enemy);
-    });
+    if (!this.bundleLoading) {
+      this.bundleLoading = true;
+      this.preloadAssets(bundle, `LOADING ${(level.title ?? level.name).toUpperCase()}`).then(() => {
+        this.bundleLoading = false;
+        this.loading.hide();
+      }, (error: unknown) => {
+        // Dropped rather than left for the gate to start loading again every step; the trigger can be entered again
+        console.error(`Assets for ${level.name} failed to load:`, error);
+        this.bundleLoading = false;
+        this.simulation.cancelPendingLevel();
+        this.loading.hide();
+        this.showMessage(`Could not load ${level.title ?? level.name}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    return false;
   }
 
   private setupCamera(): void {
-    // Position camera behind and above player for cinematic view
-    const playerPos = this.player.getPosition();
-    this.camera.setTargetPosition(
-      playerPos.x,
-      playerPos.y + 15,
-      playerPos.z + 30
-    );
-    this.camera.setTargetLookAt(playerPos.x, playerPos.y, playerPos.z);
+    // Third-person rig behind and above the player, settled before the first frame
+    this.cameraRig = new ThirdPersonRig(this.simulation.getRegistry());
+    this.cameraRig.setSubject(this.player.getPosition(), this.player.getVelocity());
+    this.cameraRig.snap();
+    this.camera.setRig(this.cameraRig);
+  }
+
+  /**
+   * Level named by the `level` URL parameter - a bundled level name or a URL to a level JSON file
+   */
+  private async resolveLevel(): Promise<LevelDefinition> {
+    const param = new URLSearchParams(window.location.search).get('level');
+    if (!param) {
+      return getLevel(DEFAULT_LEVEL);
+    }
+    try {
+      return param.endsWith('.json') ? await LevelLoader.fetch(param) : getLevel(param);
+    } catch (error) {
+      // A bad link still starts the game, on the default level, and says why once the HUD is up
+      console.error(error);
+      this.startupMessage = `${(error as Error).message} - playing ${DEFAULT_LEVEL} instead`;
+      return getLevel(DEFAULT_LEVEL);
+    }
+  }
+
+  /**
+   * Fly through the level, then blend back to the follow camera
+   * Enter or Escape skips straight to the blend
+   */
+  private playIntro(level: LevelDefinition): void {
+    // A level loaded mid-intro ends the old intro, taking its title and listeners with it
+    this.camera.skipSequence();
+    if (!level.intro) return;
+    
+    const sequencer = this.camera.getSequencer();
+    const events = sequencer.getEvents();
+    
+    const title = document.createElement('div');
+    title.id = 'intro-title';
+    title.style.position = 'fixed';
+    title.style.top = '40%';
+    title.style.left = '50%';
+    title.style.transform = 'translate(-50%, -50%)';
+    title.style.color = '#00ffff';
+    title.style.fontFamily = 'monospace';
+    title.style.fontSize = '40px';
+    title.style.letterSpacing = '8px';
+    title.style.textAlign = 'center';
+    title.style.textShadow = '0 0 20px #00ffff';
+    title.style.opacity = '0';
+    title.style.transition = 'opacity 1s';
+    title.style.zIndex = '1500';
+    // Level files come from URLs and imports, so their text never goes in as markup
+    title.textContent = level.title ?? level.name.toUpperCase();
+    title.appendChild(document.createElement('br'));
+    const hint = document.createElement('span');
+    hint.style.fontSize = '14px';
+    hint.style.letterSpacing = '2px';
+    hint.textContent = 'Press Enter to skip';
+    title.appendChild(hint);
+    this.hud.appendChild(title);
+    
+    const removeSkip = this.listen('keydown', (e) => {
+      if (e.code === 'Enter' || e.code === 'Escape') {
+        this.camera.skipSequence();
+      }
+    });
+    
+    const unsubscribeCue = events.on('cue', (cue) => {
+      if (cue.name === 'title') title.style.opacity = '1';
+      if (cue.name === 'titleEnd') title.style.opacity = '0';
+    });
+    const unsubscribeComplete = events.on('complete', () => {
+      title.remove();
+      removeSkip();
+      unsubscribeCue();
+      unsubscribeComplete();
+    });
+    
+    this.camera.playSequence(level.intro, { blendOut: 2 });
   }
 
   private createUI(): void {
@@ -100,7 +332,95 @@ class Game {
     fpsCounter.style.fontSize = '16px';
     fpsCounter.style.textShadow = '0 0 10px #00ffff';
     fpsCounter.style.zIndex = '1000';
-    document.body.appendChild(fpsCounter);
+    this.hud.appendChild(fpsCounter);
+    
+    // Create health bar and lives
+    const health = document.createElement('div');
+    health.style.position = 'fixed';
+    health.style.top = '10px';
+    health.style.left = '10px';
+    health.style.width = '200px';
+    health.style.height = '10px';
+    health.style.border = '1px solid #ff00ff';
+    health.style.boxShadow = '0 0 10px #ff00ff';
+    health.style.zIndex = '1000';
+    const healthFill = document.createElement('div');
+    healthFill.id = 'health-fill';
+    healthFill.style.height = '100%';
+    healthFill.style.background = '#ff00ff';
+    health.appendChild(healthFill);
+    this.hud.appendChild(health);
+    
+    const lives = document.createElement('div');
+    lives.id = 'lives';
+    lives.style.position = 'fixed';
+    lives.style.top = '26px';
+    lives.style.left = '10px';
+    lives.style.color = '#ff00ff';
+    lives.style.fontFamily = 'monospace';
+    lives.style.fontSize = '14px';
+    lives.style.textShadow = '0 0 10px #ff00ff';
+    lives.style.zIndex = '1000';
+    this.hud.appendChild(lives);
+    
+    // Create stamina bar
+    const stamina = document.createElement('div');
+    stamina.style.position = 'fixed';
+    stamina.style.top = '36px';
+    stamina.style.right = '10px';
+    stamina.style.width = '120px';
+    stamina.style.height = '6px';
+    stamina.style.border = '1px solid #00ffff';
+    stamina.style.boxShadow = '0 0 8px #00ffff';
+    stamina.style.zIndex = '1000';
+    const staminaFill = document.createElement('div');
+    staminaFill.id = 'stamina-fill';
+    staminaFill.style.height = '100%';
+    staminaFill.style.background = '#00ffff';
+    stamina.appendChild(staminaFill);
+    this.hud.appendChild(stamina);
+    
+    // Create enemy alert indicator
+    const alert = document.createElement('div');
+    alert.id = 'alert-indicator';
+    alert.style.position = 'fixed';
+    alert.style.top = '10px';
+    alert.style.left = '50%';
+    alert.style.transform = 'translateX(-50%)';
+    alert.style.fontFamily = 'monospace';
+    alert.style.fontSize = '16px';
+    alert.style.zIndex = '1000';
+    this.hud.appendChild(alert);
+    
+    // Create level message banner
+    const message = document.createElement('div');
+    message.id = 'level-message';
+    message.style.position = 'fixed';
+    message.style.top = '25%';
+    message.style.left = '50%';
+    message.style.transform = 'translateX(-50%)';
+    message.style.color = '#00ffff';
+    message.style.fontFamily = 'monospace';
+    message.style.fontSize = '20px';
+    message.style.textShadow = '0 0 10px #00ffff';
+    message.style.opacity = '0';
+    message.style.transition = 'opacity 0.5s';
+    message.style.zIndex = '1000';
+    this.hud.appendChild(message);
+    
+    // Create seed readout for generated levels, so layouts can be reproduced in bug reports
+    const seed = document.createElement('div');
+    seed.id = 'level-seed';
+    seed.style.position = 'fixed';
+    seed.style.bottom = '10px';
+    seed.style.right = '10px';
+    seed.style.color = '#00ffff';
+    seed.style.fontFamily = 'monospace';
+    seed.style.fontSize = '14px';
+    seed.style.textShadow = '0 0 10px #00ffff';
+    seed.style.zIndex = '1000';
+    this.hud.appendChild(seed);
+    this.updateSeedDisplay();
     
     // Create controls info
     const controls = document.createElement('div');
@@ -116,80 +436,337 @@ class Game {
     controls.innerHTML = `
       <strong>CONTROLS:</strong><br>
       WASD - Move Player<br>
-      Arrow Keys - Rotate Camera<br>
-      Space - Jump (future feature)
+      Shift - Sprint<br>
+      Q - Dash<br>
+      Space - Jump<br>
+      F / Left Click - Melee<br>
+      E / Right Click - Fire<br>
+      Arrow Keys - Orbit Camera<br>
+      Tab - Lock On<br>
+      1-6 - Toggle Bloom / Tone Mapping / Grain / Vignette / Aberration / DoF<br>
+      7 - Quality Low / Medium / High / Ultra<br>
+      8 - Auto Resolution On / Off<br>
+      9 - Toggle Height Fog &amp; Light Shafts<br>
+      [ / ] - Time of Day -1h / +1h<br>
+      0 - Camera Shake 100% / 50% / Off<br>
+      F8 - Reload Level &amp; Check GPU Memory<br>
+      \` - Level Editor
     `;
-    document.body.appendChild(controls);
+    this.hud.appendChild(controls);
+    
+    // Keep right click for firing
+    this.listen('contextmenu', (e) => e.preventDefault());
+    
+    this.listen('keydown', (e) => {
+      if (e.code === 'Backquote' && !e.repeat) {
+        this.toggleEditor();
+        return;
+      }
+      
+      // The editor has its own shortcuts
+      if (this.editor.isActive()) return;
+      
+      if (e.code === 'Tab') {
+        e.preventDefault();
+        if (!e.repeat) this.toggleLockOn();
+        return;
+      }
+      
+      if (e.code === 'F8') {
+        e.preventDefault();
+        if (!e.repeat) this.checkForLeaks();
+        return;
+      }
+      
+      if (e.code === 'Digit0' && !e.repeat) {
+        const shake = this.camera.getShake();
+        const index = SHAKE_INTENSITIES.indexOf(shake.getIntensity());
+        shake.setIntensity(SHAKE_INTENSITIES[(index + 1) % SHAKE_INTENSITIES.length]);
+        console.log(`Camera shake: ${Math.round(shake.getIntensity() * 100)}%`);
+        return;
+      }
+      
+      if (e.code === 'Digit7' && !e.repeat) {
+        console.log(`Quality: ${this.quality.cycleLevel()}`);
+        return;
+      }
+      
+      if (e.code === 'Digit8' && !e.repeat) {
+        this.quality.setAuto(!this.quality.getSettings().auto);
+        console.log(`Auto resolution: ${this.quality.getSettings().auto ? 'on' : 'off'}`);
+        return;
+      }
+      
+      if (e.code === 'BracketLeft' || e.code === 'BracketRight') {
+        const atmosphere = this.simulation.getWorld().getAtmosphere();
+        atmosphere.setHour(Math.round(atmosphere.getHour()) + (e.code === 'BracketLeft' ? -1 : 1));
+        console.log(`Time of day: ${atmosphere.getHour().toFixed(0).padStart(2, '0')}:00`);
+        return;
+      }
+      
+      const effect = EFFECT_KEYS[e.code];
+      if (effect && !e.repeat) {
+        const enabled = this.renderer.getPostProcessing().toggle(effect);
+        console.log(`${effect}: ${enabled ? 'on' : 'off'}`);
+      }
+    });
   }
 
-  private handleInput(deltaTime: number): void {
-    const moveSpeed = 10;
-    const movement = new THREE.Vector3();
+  private bindEvents(): void {
+    const events = this.simulation.getEvents();
+    const playerEntity = this.player.getEntity();
     
-    // Player movement
-    if (this.inputManager.isKeyPressed('KeyW')) {
-      movement.z -= moveSpeed * deltaTime;
-    }
-    if (this.inputManager.isKeyPressed('KeyS')) {
-      movement.z += moveSpeed * deltaTime;
-    }
-    if (this.inputManager.isKeyPressed('KeyA')) {
-      movement.x -= moveSpeed * deltaTime;
-    }
-    if (this.inputManager.isKeyPressed('KeyD')) {
-      movement.x += moveSpeed * deltaTime;
+    events.on('damage', (event) => {
+      if (event.target === playerEntity) {
+        this.camera.shake('hit');
+      }
+    });
+    
+    // Enemies go out with a bang that fades with distance from the camera
+    events.on('death', (event) => {
+      if (event.entity === playerEntity) return;
+      const distance = event.position.distanceTo(this.camera.getCamera().position);
+      const scale = 1 - distance / EXPLOSION_SHAKE_RANGE;
+      if (scale > 0) {
+        this.camera.shake('explosion', scale);
+      }
+    });
+    
+    events.on('noise', (event) => {
+      if (event.source === playerEntity && event.kind === 'footstep') {
+        this.camera.shake('footstep');
+      }
+    });
+    
+    // New scenery near the player has to be captured into the environment map and light probe
+    events.on('chunkLoaded', (event) => this.renderer.getEnvironment().invalidateNear(event.bounds));
+    
+    // A new level puts the player somewhere else entirely
+    events.on('levelLoaded', () => {
+      this.renderer.getEnvironment().invalidate();
+      this.updateSeedDisplay();
+      // The editor reloads the level on every change
+      if (this.editor?.isActive()) return;
+      this.lockTarget = null;
+      this.cameraRig.setSubject(this.player.getPosition(), this.player.getVelocity());
+      this.cameraRig.snap();
+      this.playIntro(this.simulation.getLevel());
+    });
+    
+    events.on('trigger', (event) => {
+      if (event.entered && event.message) {
+        this.showMessage(event.message);
+      }
+    });
+    
+    events.on('levelFailed', (event) => this.showMessage(`Could not load ${event.name}: ${event.error}`));
+    
+    events.on('gameOver', () => {
+      const overlay = document.createElement('div');
+      overlay.id = 'game-over';
+      overlay.style.position = 'fixed';
+      overlay.style.top = '50%';
+      overlay.style.left = '50%';
+      overlay.style.transform = 'translate(-50%, -50%)';
+      overlay.style.color = '#ff0066';
+      overlay.style.fontFamily = 'monospace';
+      overlay.style.fontSize = '32px';
+      overlay.style.textAlign = 'center';
+      overlay.style.textShadow = '0 0 20px #ff0066';
+      overlay.style.zIndex = '2000';
+      overlay.innerHTML = 'GAME OVER<br><span style="font-size: 16px;">Press R to restart</span>';
+      this.hud.appendChild(overlay);
+      
+      this.listen('keydown', (e) => {
+        if (e.code === 'KeyR') {
+          window.location.reload();
+        }
+      });
+    });
+  }
+
+  /**
+   * Show the current level's seed, if it was generated from one
+   */
+  private updateSeedDisplay(): void {
+    const seed = document.getElementById('level-seed');
+    if (!seed) return;
+    
+    const level = this.simulation.getLevel();
+    seed.textContent = level.seed === undefined ? '' : `SEED: ${level.seed}`;
+  }
+
+  /**
+   * Flash a line of text in the middle of the HUD
+   */
+  private showMessage(text: string): void {
+    const message = document.getElementById('level-message');
+    if (!message) return;
+    
+    message.textContent = text;
+    message.style.opacity = '1';
+    window.clearTimeout(this.messageTimeout);
+    this.messageTimeout = window.setTimeout(() => {
+      message.style.opacity = '0';
+    }, MESSAGE_DURATION * 1000);
+  }
+
+  private updateCamera(frameDelta: number): void {
+    // Arrow keys orbit the camera around the player
+    const orbitSpeed = 1.8;
+    let yaw = 0;
+    let pitch = 0;
+    if (this.inputManager.isKeyPressed('ArrowLeft')) yaw -= orbitSpeed * frameDelta;
+    if (this.inputManager.isKeyPressed('ArrowRight')) yaw += orbitSpeed * frameDelta;
+    if (this.inputManager.isKeyPressed('ArrowUp')) pitch += orbitSpeed * 0.5 * frameDelta;
+    if (this.inputManager.isKeyPressed('ArrowDown')) pitch -= orbitSpeed * 0.5 * frameDelta;
+    this.cameraRig.orbit(yaw, pitch);
+    
+    // Drop the lock once the target dies or gets away
+    if (this.lockTarget && (!this.simulation.getEnemies().includes(this.lockTarget) ||
+      this.lockTarget.getPosition().distanceTo(this.player.getPosition()) > LOCK_ON_RANGE)) {
+      this.lockTarget = null;
     }
     
-    if (movement.length() > 0) {
-      this.player.move(movement);
+    // Track the interpolated meshes, not the raw tick state
+    this.cameraRig.setSubject(this.player.getMesh().position, this.player.getVelocity());
+    this.cameraRig.setLockTarget(this.lockTarget?.getMesh().position ?? null);
+  }
+
+  /**
+   * Switch between playing and editing the current level
+   * Leaving the editor plays the edited level from its spawn with the follow camera
+   */
+  private toggleEditor(): void {
+    if (!this.editor.isActive()) {
+      this.camera.skipSequence();
+      this.editor.enable();
+      return;
     }
+    
+    this.editor.disable();
+    this.lockTarget = null;
+    this.cameraRig.setSubject(this.player.getPosition(), this.player.getVelocity());
+    this.cameraRig.snap();
   }
 
-  private updateCamera(): void {
-    // Smooth camera follow
+  /**
+   * Lock the camera onto the nearest living enemy in range, or release the lock
+   */
+  private toggleLockOn(): void {
+    if (this.lockTarget) {
+      this.lockTarget = null;
+      return;
+    }
+    
     const playerPos = this.player.getPosition();
-    this.camera.setTargetPosition(
-      playerPos.x,
-      playerPos.y + 15,
-      playerPos.z + 30
-    );
-    this.camera.setTargetLookAt(playerPos.x, playerPos.y, playerPos.z);
+    let nearest = LOCK_ON_RANGE;
+    for (const enemy of this.simulation.getEnemies()) {
+      const distance = enemy.getPosition().distanceTo(playerPos);
+      if (distance < nearest) {
+        nearest = distance;
+        this.lockTarget = enemy;
+      }
+    }
   }
 
   private animate(): void {
     if (!this.isRunning) return;
     
-    requestAnimationFrame(() => this.animate());
+    this.animationFrame = requestAnimationFrame(() => this.animate());
     
     // Update time
     this.timeManager.update();
-    const deltaTime = this.timeManager.getDeltaTime();
+    this.quality.update(this.timeManager.getDeltaTime());
     
-    // Handle input
-    this.handleInput(deltaTime);
+    // Movement is relative to where the camera looks
+    this.simulation.getPlayerController().setViewYaw(this.simulation.getRegistry(), this.cameraRig.getYaw());
     
-    // Update game objects
-    this.world.update(deltaTime);
-    this.player.update(deltaTime);
-    this.camera.update(deltaTime);
+    // Run the simulation in fixed steps; editing and loading pause it
+    while (this.timeManager.consumeFixedStep()) {
+      if (!this.editor.isActive() && !this.bundleLoading) {
+        this.simulation.step(this.timeManager.getFixedDeltaTime());
+      }
+    }
     
-    // Update enemies
-    const playerPos = this.player.getPosition();
-    this.enemies.forEach(enemy => {
-      enemy.update(deltaTime, playerPos);
-    });
+    if (this.editor.isActive()) {
+      this.editor.update(this.timeManager.getDeltaTime());
+      this.simulation.render(this.timeManager.getAlpha(), this.timeManager.getDeltaTime());
+      this.renderer.render();
+      return;
+    }
+    
+    this.render(this.timeManager.getAlpha(), this.timeManager.getDeltaTime());
+  }
+
+  /**
+   * Draw a frame, blending entity transforms between the last two ticks
+   */
+  private render(alpha: number, frameDelta: number): void {
+    this.simulation.render(alpha, frameDelta);
     
     // Update camera to follow player
-    this.updateCamera();
+    this.updateCamera(frameDelta);
+    this.camera.update(frameDelta);
+    
+    // Depth of field stays focused on the player
+    this.renderer.getPostProcessing().setFocusDistance(
+      this.camera.getCamera().position.distanceTo(this.player.getMesh().position)
+    );
+    // Reflections and neon bounce light are captured around the player
+    this.renderer.getEnvironment().update(frameDelta, this.player.getMesh().position);
+    // Fog and light shafts follow the hour and the neon around the camera
+    this.renderer.getPostProcessing().configure(
+      'atmosphere',
+      this.simulation.getWorld().getAtmosphere().getEffectParams(this.camera.getCamera().position)
+    );
     
     // Render scene
     this.renderer.render();
     
-    // Update FPS counter
+    // Update FPS counter with what the frame cost
     const fpsCounter = document.getElementById('fps-counter');
     if (fpsCounter) {
-      fpsCounter.textContent = `FPS: ${this.timeManager.getFPS()}`;
+      const stats = this.renderer.getStats();
+      const { level, auto } = this.quality.getSettings();
+      const resolution = auto ? ` ${Math.round(this.quality.getResolutionScale() * 100)}%` : '';
+      fpsCounter.textContent = `FPS: ${this.timeManager.getFPS()} | DRAWS: ${stats.drawCalls} | TRIS: ${formatCount(stats.triangles)} | ${level.toUpperCase()}${resolution}`;
+    }
+    
+    const healthFill = document.getElementById('health-fill');
+    if (healthFill) {
+      healthFill.style.width = `${Math.round(this.player.getHealth() / this.player.getMaxHealth() * 100)}%`;
+    }
+    
+    const lives = document.getElementById('lives');
+    if (lives) {
+      lives.textContent = `LIVES: ${this.player.getLives()}`;
+    }
+    
+    const staminaFill = document.getElementById('stamina-fill');
+    if (staminaFill) {
+      staminaFill.style.width = `${Math.round(this.player.getStamina() * 100)}%`;
     }
+    
+    this.updateAlertIndicator();
+  }
+
+  /**
+   * Show the most alarmed living enemy's alert level
+   */
+  private updateAlertIndicator(): void {
+    const indicator = document.getElementById('alert-indicator');
+    if (!indicator) return;
+    
+    let level = 0;
+    for (const enemy of this.simulation.getEnemies()) {
+      level = Math.max(level, ALERT_DISPLAY.findIndex(entry => entry.level === enemy.getState().alert));
+    }
+    
+    const display = ALERT_DISPLAY[level];
+    indicator.textContent = display.text;
+    indicator.style.color = display.color;
+    indicator.style.textShadow = `0 0 10px ${display.color}`;
   }
 
   private onWindowResize(): void {
@@ -197,8 +774,55 @@ class Game {
     this.renderer.resize();
   }
 
+  /**
+   * Reload the current level a few times and report whether GPU memory grew
+   * The first reload settles anything cached on first use; the ones after it should leave the counts alone
+   */
+  private checkForLeaks(): void {
+    const level = this.simulation.getLevel();
+    const reload = () => {
+      this.simulation.loadLevel(level);
+      // Draw a frame so whatever the level builds is uploaded and counted
+      this.render(0, 0);
+      return this.renderer.getStats();
+    };
+    
+    const before = reload();
+    let after = before;
+    for (let i = 0; i < LEAK_CHECK_RELOADS; i++) {
+      after = reload();
+    }
+    
+    const geometries = after.geometries - before.geometries;
+    const textures = after.textures - before.textures;
+    console.log(`Leak check over ${LEAK_CHECK_RELOADS} reloads of ${level.name}:`, { before, after });
+    this.showMessage(geometries > 0 || textures > 0
+      ? `GPU MEMORY GREW: +${geometries} GEOMETRIES, +${textures} TEXTURES`
+      : `GPU MEMORY STABLE: ${after.geometries} GEOMETRIES, ${after.textures} TEXTURES`);
+  }
+
+  /**
+   * Stop the game loop and stop listening to the window
+   */
   public stop(): void {
     this.isRunning = false;
+    cancelAnimationFrame(this.animationFrame);
+    this.listeners.forEach(remove => remove());
+    this.listeners = [];
+    window.clearTimeout(this.messageTimeout);
+  }
+
+  /**
+   * Stop the game and free everything it built: the level, characters, editor, HUD and renderer
+   */
+  public dispose(): void {
+    this.stop();
+    this.editor?.dispose();
+    this.camera?.dispose();
+    this.simulation?.dispose();
+    this.renderer?.dispose();
+    this.inputManager.dispose();
+    this.hud.remove();
   }
 }
 
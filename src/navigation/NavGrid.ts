@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { Collider, Transform } from '../ecs/Components';
+import { ColliderPart, updatePartWorld } from '../physics/Colliders';
+
+/**
+ * Navigation grid layout
+ */
+export interface NavGridOptions {
+  /** World-space extent along X and Z, centered on `center` */
+  width?: number;
+  depth?: number;
+  center?: THREE.Vector2;
+  cellSize?: number;
+  /** Clearance kept from obstacles */
+  agentRadius?: number;
+  /** Height band agents move in; obstacles outside it are ignored */
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+/**
+ * Walkable grid over the XZ plane built from static world colliders
+ * A cell is blocked when an obstacle in the agents' height band comes within
+ * agentRadius of its center
+ */
+export class NavGrid {
+  private cellSize: number;
+  private columns: number;
+  private rows: number;
+  private origin: THREE.Vector2;
+  private agentRadius: number;
+  private minHeight: number;
+  private maxHeight: number;
+  private blocked: Uint8Array;
+  private segment: THREE.Line3;
+  private point: THREE.Vector3;
+  private closest: THREE.Vector3;
+  private matrix: THREE.Matrix4;
+  private scratch: THREE.Matrix4;
+  private unitScale: THREE.Vector3;
+
+  constructor(options: NavGridOptions = {}) {
+    const width = options.width ?? 200;
+    const depth = options.depth ?? 200;
+    const center = options.center ?? new THREE.Vector2();
+    
+    this.cellSize = options.cellSize ?? 2;
+    this.columns = Math.ceil(width / this.cellSize);
+    this.rows = Math.ceil(depth / this.cellSize);
+    this.origin = new THREE.Vector2(center.x - width / 2, center.y - depth / 2);
+    this.agentRadius = options.agentRadius ?? 1.5;
+    this.minHeight = options.minHeight ?? 0.5;
+    this.maxHeight = options.maxHeight ?? 8;
+    this.blocked = new Uint8Array(this.columns * this.rows);
+    this.segment = new THREE.Line3();
+    this.point = new THREE.Vector3();
+    this.closest = new THREE.Vector3();
+    this.matrix = new THREE.Matrix4();
+    this.scratch = new THREE.Matrix4();
+    this.unitScale = new THREE.Vector3(1, 1, 1);
+  }
+
+  /**
+   * Rasterize every static collider into the grid
+   */
+  public build(registry: Registry): void {
+    this.blocked.fill(0);
+    
+    for (const entity of registry.query(Collider, Transform)) {
+      const collider = registry.getComponent(entity, Collider)!;
+      if (!collider.isStatic) continue;
+      
+      // Use the simulated transform so the grid matches this tick
+      const transform = registry.getComponent(entity, Transform)!;
+      this.matrix.compose(transform.position, transform.quaternion, this.unitScale);
+      collider.parts.forEach(part => {
+        updatePartWorld(part, this.matrix, this.scratch);
+        this.rasterize(part);
+      });
+    }
+  }
+
+  private rasterize(part: ColliderPart): void {
+    const bounds = part.bounds;
+    if (bounds.max.y < this.minHeight || bounds.min.y > this.maxHeight) return;
+    
+    const radius = this.agentRadius;
+    const minCol = Math.max(0, this.toColumn(bounds.min.x - radius));
+    const maxCol = Math.min(this.columns - 1, this.toColumn(bounds.max.x + radius));
+    const minRow = Math.max(0, this.toRow(bounds.min.z - radius));
+    const maxRow = Math.min(this.rows - 1, this.toRow(bounds.max.z + radius));
+    const bandY = (Math.max(this.minHeight, bounds.min.y) + Math.min(this.maxHeight, bounds.max.y)) / 2;
+    
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        this.cellCenter(col, row, this.point);
+        this.point.y = bandY;
+        
+        let distance: number;
+        if (part.shape.type === 'aabb') {
+          distance = bounds.distanceToPoint(this.point);
+        } else {
+          this.segment.set(part.start, part.end).closestPointToPoint(this.point, true, this.closest);
+          distance = this.closest.distanceTo(this.point) - part.shape.radius;
+        }
+        
+        if (distance < radius) {
+          this.blocked[row * this.columns + col] = 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Check if a cell exists and can be walked
+   */
+  public isWalkable(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.columns && row < this.rows &&
+      this.blocked[row * this.columns + col] === 0;
+  }
+
+  /**
+   * Convert a world position to its cell
+   */
+  public worldToCell(position: THREE.Vector3): { col: number; row: number } {
+    return { col: this.toColumn(position.x), row: this.toRow(position.z) };
+  }
+
+  /**
+   * Get the world-space center of a cell (y = 0)
+   */
+  public cellCenter(col: number, row: number, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    return out.set(
+      this.origin.x + (col + 0.5) * this.cellSize,
+      0,
+      this.origin.y + (row + 0.5) * this.cellSize
+    );
+  }
+
+  /**
+   * Find the walkable cell closest to a cell, searching outwards ring by ring
+   */
+  public nearestWalkable(col: number, row: number, maxRadius: number = 10): { col: number; row: number } | null {
+    if (this.isWalkable(col, row)) return { col, row };
+    
+    for (let radius = 1; radius <= maxRadius; radius++) {
+      let best: { col: number; row: number } | null = null;
+      let bestDistance = Infinity;
+      
+      for (let dr = -radius; dr <= radius; dr++) {
+        for (let dc = -radius; dc <= radius; dc++) {
+          if (Math.max(Math.abs(dc), Math.abs(dr)) !== radius) continue;
+          if (!this.isWalkable(col + dc, row + dr)) continue;
+          
+          const distance = dc * dc + dr * dr;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = { col: col + dc, row: row + dr };
+          }
+        }
+      }
+      if (best) return best;
+    }
+    return null;
+  }
+
+  /**
+   * Check that the straight line between two cells crosses only walkable cells
+   */
+  public hasLineOfSight(fromCol: number, fromRow: number, toCol: number, toRow: number): boolean {
+    // Supercover traversal so diagonal moves can't slip between blocked corners
+    let col = fromCol;
+    let row = fromRow;
+    const dc = Math.abs(toCol - fromCol);
+    const dr = Math.abs(toRow - fromRow);
+    const stepCol = toCol > fromCol ? 1 : -1;
+    const stepRow = toRow > fromRow ? 1 : -1;
+    let error = dc - dr;
+    
+    for (let i = 0; i < dc + dr; i++) {
+      if (!this.isWalkable(col, row)) return false;
+      
+      const e2 = error * 2;
+      if (e2 > -dr) {
+        error -= dr;
+        col += stepCol;
+      } else {
+        error += dc;
+        row += stepRow;
+      }
+    }
+    return this.isWalkable(toCol, toRow);
+  }
+
+  /**
+   * Get grid dimensions in cells
+   */
+  public getSize(): { columns: number; rows: number } {
+    return { columns: this.columns, rows: this.rows };
+  }
+
+  /**
+   * Get cell edge length in world units
+   */
+  public getCellSize(): number {
+    return this.cellSize;
+  }
+
+  private toColumn(x: number): number {
+    return Math.floor((x - this.origin.x) / this.cellSize);
+  }
+
+  private toRow(z: number): number {
+    return Math.floor((z - this.origin.y) / this.cellSize);
+  }
+}
@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+import { NavGrid } from './NavGrid';
+import { BinaryHeap } from '../utils/BinaryHeap';
+
+interface SearchNode {
+  index: number;
+  col: number;
+  row: number;
+  g: number;
+  f: number;
+  parent: SearchNode | null;
+  closed: boolean;
+}
+
+// Open-list entry with the node's f at the time it was pushed
+interface OpenEntry {
+  node: SearchNode;
+  f: number;
+}
+
+// 8-connected neighbourhood as [dc, dr, cost]
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2]
+];
+
+/**
+ * A* search over a NavGrid with line-of-sight path smoothing
+ */
+export class Pathfinder {
+  private grid: NavGrid;
+  private maxIterations: number;
+
+  constructor(grid: NavGrid, maxIterations: number = 4000) {
+    this.grid = grid;
+    this.maxIterations = maxIterations;
+  }
+
+  /**
+   * Find a smoothed path of world-space waypoints (excluding the start)
+   * Waypoints take the goal's height; returns null when the goal is unreachable
+   */
+  public findPath(start: THREE.Vector3, goal: THREE.Vector3): THREE.Vector3[] | null {
+    const startCell = this.grid.worldToCell(start);
+    const goalCell = this.grid.worldToCell(goal);
+    const from = this.grid.nearestWalkable(startCell.col, startCell.row);
+    const to = this.grid.nearestWalkable(goalCell.col, goalCell.row);
+    if (!from || !to) return null;
+    
+    const cells = this.search(from.col, from.row, to.col, to.row);
+    if (!cells) return null;
+    
+    const waypoints = this.smooth(cells).map(cell => {
+      const point = this.grid.cellCenter(cell.col, cell.row);
+      point.y = goal.y;
+      return point;
+    });
+    
+    // End exactly on the goal when it lies in open space
+    if (to.col === goalCell.col && to.row === goalCell.row) {
+      if (waypoints.length > 0) {
+        waypoints[waypoints.length - 1].copy(goal);
+      } else {
+        waypoints.push(goal.clone());
+      }
+    }
+    return waypoints;
+  }
+
+  private search(startCol: number, startRow: number, goalCol: number, goalRow: number): { col: number; row: number }[] | null {
+    const { columns } = this.grid.getSize();
+    const nodes = new Map<number, SearchNode>();
+    // Entries keep the f they were pushed with, so improving a node never reorders the heap under it
+    const open = new BinaryHeap<OpenEntry>(entry => entry.f);
+    
+    const heuristic = (col: number, row: number): number => {
+      // Octile distance matches the 8-connected step costs
+      const dc = Math.abs(col - goalCol);
+      const dr = Math.abs(row - goalRow);
+      return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr);
+    };
+    
+    const start: SearchNode = {
+      index: startRow * columns + startCol,
+      col: startCol,
+      row: startRow,
+      g: 0,
+      f: heuristic(startCol, startRow),
+      parent: null,
+      closed: false
+    };
+    nodes.set(start.index, start);
+    open.push({ node: start, f: start.f });
+    
+    let iterations = 0;
+    while (open.size() > 0 && iterations++ < this.maxIterations) {
+      const { node: current, f } = open.pop()!;
+      // Closed, or pushed again since with a better score
+      if (current.closed || f !== current.f) continue;
+      current.closed = true;
+      
+      if (current.col === goalCol && current.row === goalRow) {
+        return this.reconstruct(current);
+      }
+      
+      for (const [dc, dr, cost] of NEIGHBOURS) {
+        const col = current.col + dc;
+        const row = current.row + dr;
+        if (!this.grid.isWalkable(col, row)) continue;
+        // No cutting corners past blocked cells
+        if (dc !== 0 && dr !== 0 &&
+          (!this.grid.isWalkable(current.col + dc, current.row) || !this.grid.isWalkable(current.col, current.row + dr))) {
+          continue;
+        }
+        
+        const index = row * columns + col;
+        const g = current.g + cost;
+        let node = nodes.get(index);
+        if (node?.closed || (node && g >= node.g)) continue;
+        
+        if (!node) {
+          node = { index, col, row, g, f: 0, parent: null, closed: false };
+          nodes.set(index, node);
+        }
+        node.g = g;
+        node.f = g + heuristic(col, row);
+        node.parent = current;
+        // Any earlier entry for the node is now stale and skipped when popped
+        open.push({ node, f: node.f });
+      }
+    }
+    return null;
+  }
+
+  private reconstruct(node: SearchNode): { col: number; row: number }[] {
+    const cells: { col: number; row: number }[] = [];
+    for (let current: SearchNode | null = node; current; current = current.parent) {
+      cells.push({ col: current.col, row: current.row });
+    }
+    return cells.reverse();
+  }
+
+  /**
+   * String-pull the cell path: keep only cells the previous kept cell can't see past
+   */
+  private smooth(cells: { col: number; row: number }[]): { col: number; row: number }[] {
+    if (cells.length <= 2) return cells.slice(1);
+    
+    const result: { col: number; row: number }[] = [];
+    let anchor = cells[0];
+    
+    for (let i = 2; i < cells.length; i++) {
+      const candidate = cells[i];
+      if (!this.grid.hasLineOfSight(anchor.col, anchor.row, candidate.col, candidate.row)) {
+        anchor = cells[i - 1];
+        result.push(anchor);
+      }
+    }
+    result.push(cells[cells.length - 1]);
+    return result;
+  }
+}
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+
+/**
+ * Collision shapes
+ * - aabb: box aligned to world axes after transformation (rotation only grows it)
+ * - sphere: a point with a radius
+ * - capsule: a segment along local Y with a radius, matching CapsuleGeometry
+ */
+export type ColliderShape =
+  | { type: 'aabb'; halfExtents: THREE.Vector3 }
+  | { type: 'sphere'; radius: number }
+  | { type: 'capsule'; radius: number; halfHeight: number };
+
+/**
+ * One shape of a (possibly compound) collider
+ * The world-space fields are refreshed by the physics system every tick
+ */
+export interface ColliderPart {
+  shape: ColliderShape;
+  /** Placement relative to the owning entity's transform */
+  localMatrix: THREE.Matrix4;
+  /** World-space bounds, used by the broadphase */
+  bounds: THREE.Box3;
+  /** World-space segment of a sphere/capsule (equal ends for a sphere) */
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+const localBox = new THREE.Box3();
+const localPoint = new THREE.Vector3();
+
+/**
+ * Create a collider part
+ */
+export function createColliderPart(
+  shape: ColliderShape,
+  localMatrix: THREE.Matrix4 = new THREE.Matrix4()
+): ColliderPart {
+  return {
+    shape,
+    localMatrix: localMatrix.clone(),
+    bounds: new THREE.Box3(),
+    start: new THREE.Vector3(),
+    end: new THREE.Vector3()
+  };
+}
+
+/**
+ * Fit a collider part to a mesh's geometry
+ * Thin cylinders become capsules, spheres stay spheres, everything else is boxed
+ */
+export function colliderPartFromMesh(mesh: THREE.Mesh, localMatrix: THREE.Matrix4 = mesh.matrix): ColliderPart {
+  const geometry = mesh.geometry;
+  
+  if (geometry instanceof THREE.SphereGeometry) {
+    return createColliderPart({ type: 'sphere', radius: geometry.parameters.radius }, localMatrix);
+  }
+  
+  if (geometry instanceof THREE.CylinderGeometry) {
+    const { radiusTop, radiusBottom, height } = geometry.parameters;
+    const radius = Math.max(radiusTop, radiusBottom);
+    if (height > radius * 4) {
+      return createColliderPart({ type: 'capsule', radius, halfHeight: height / 2 - radius }, localMatrix);
+    }
+  }
+  
+  if (!geometry.boundingBox) {
+    geometry.computeBoundingBox();
+  }
+  const box = geometry.boundingBox!;
+  const center = box.getCenter(new THREE.Vector3());
+  const halfExtents = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+  const offset = new THREE.Matrix4().makeTranslation(center.x, center.y, center.z);
+  
+  return createColliderPart({ type: 'aabb', halfExtents }, localMatrix.clone().multiply(offset));
+}
+
+/**
+ * Get the radius of a rounded (sphere/capsule) part, or 0 for boxes
+ */
+export function getPartRadius(part: ColliderPart): number {
+  return part.shape.type === 'aabb' ? 0 : part.shape.radius;
+}
+
+/**
+ * Refresh a part's world-space cache from its owner's world matrix
+ */
+export function updatePartWorld(part: ColliderPart, ownerMatrix: THREE.Matrix4, scratch: THREE.Matrix4): void {
+  const matrix = scratch.multiplyMatrices(ownerMatrix, part.localMatrix);
+  const shape = part.shape;
+  
+  switch (shape.type) {
+    case 'aabb':
+      localBox.min.copy(shape.halfExtents).negate();
+      localBox.max.copy(shape.halfExtents);
+      part.bounds.copy(localBox).applyMatrix4(matrix);
+      part.start.copy(part.bounds.min);
+      part.end.copy(part.bounds.max);
+      break;
+    case 'sphere':
+      part.start.set(0, 0, 0).applyMatrix4(matrix);
+      part.end.copy(part.start);
+      part.bounds.setFromCenterAndSize(part.start, localPoint.setScalar(shape.radius * 2));
+      break;
+    case 'capsule':
+      part.start.set(0, -shape.halfHeight, 0).applyMatrix4(matrix);
+      part.end.set(0, shape.halfHeight, 0).applyMatrix4(matrix);
+      part.bounds.makeEmpty();
+      part.bounds.expandByPoint(part.start);
+      part.bounds.expandByPoint(part.end);
+      part.bounds.expandByScalar(shape.radius);
+      break;
+  }
+}
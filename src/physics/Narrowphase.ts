@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { ColliderPart, getPartRadius } from './Colliders';
+
+/**
+ * Penetration between a rounded mover and another part
+ * `normal` points away from the other part, towards the mover
+ */
+export interface Contact {
+  normal: THREE.Vector3;
+  depth: number;
+}
+
+const EPSILON = 1e-8;
+const pointA = new THREE.Vector3();
+const pointB = new THREE.Vector3();
+const clamped = new THREE.Vector3();
+const d1 = new THREE.Vector3();
+const d2 = new THREE.Vector3();
+const r = new THREE.Vector3();
+
+/**
+ * Compute the contact of a rounded part (sphere/capsule) against any part
+ * `skin` inflates the mover so resting contacts are still reported
+ * Returns false when they don't touch
+ */
+export function computeContact(mover: ColliderPart, other: ColliderPart, out: Contact, skin: number = 0): boolean {
+  const radius = getPartRadius(mover) + skin;
+  
+  if (other.shape.type === 'aabb') {
+    return segmentVsBox(mover.start, mover.end, radius, other.bounds, out);
+  }
+  
+  return segmentVsSegment(mover.start, mover.end, radius, other.start, other.end, getPartRadius(other), out);
+}
+
+/**
+ * Closest points between segments p1-q1 and p2-q2 (Ericson, Real-Time Collision Detection 5.1.9)
+ */
+export function closestPointsOnSegments(
+  p1: THREE.Vector3,
+  q1: THREE.Vector3,
+  p2: THREE.Vector3,
+  q2: THREE.Vector3,
+  outA: THREE.Vector3,
+  outB: THREE.Vector3
+): void {
+  d1.subVectors(q1, p1);
+  d2.subVectors(q2, p2);
+  r.subVectors(p1, p2);
+  const a = d1.dot(d1);
+  const e = d2.dot(d2);
+  const f = d2.dot(r);
+  let s = 0;
+  let t = 0;
+  
+  if (a <= EPSILON && e <= EPSILON) {
+    // Both segments degenerate into points
+  } else if (a <= EPSILON) {
+    t = THREE.MathUtils.clamp(f / e, 0, 1);
+  } else {
+    const c = d1.dot(r);
+    if (e <= EPSILON) {
+      s = THREE.MathUtils.clamp(-c / a, 0, 1);
+    } else {
+      const b = d1.dot(d2);
+      const denom = a * e - b * b;
+      s = denom > EPSILON ? THREE.MathUtils.clamp((b * f - c * e) / denom, 0, 1) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = THREE.MathUtils.clamp(-c / a, 0, 1);
+      } else if (t > 1) {
+        t = 1;
+        s = THREE.MathUtils.clamp((b - c) / a, 0, 1);
+      }
+    }
+  }
+  
+  outA.copy(p1).addScaledVector(d1, s);
+  outB.copy(p2).addScaledVector(d2, t);
+}
+
+function segmentVsSegment(
+  p1: THREE.Vector3,
+  q1: THREE.Vector3,
+  radius1: number,
+  p2: THREE.Vector3,
+  q2: THREE.Vector3,
+  radius2: number,
+  out: Contact
+): boolean {
+  closestPointsOnSegments(p1, q1, p2, q2, pointA, pointB);
+  
+  const radius = radius1 + radius2;
+  const distanceSq = pointA.distanceToSquared(pointB);
+  if (distanceSq >= radius * radius) return false;
+  
+  const distance = Math.sqrt(distanceSq);
+  if (distance > EPSILON) {
+    out.normal.subVectors(pointA, pointB).divideScalar(distance);
+  } else {
+    out.normal.set(0, 1, 0);
+  }
+  out.depth = radius - distance;
+  return true;
+}
+
+function segmentVsBox(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  radius: number,
+  box: THREE.Box3,
+  out: Contact
+): boolean {
+  // Distance from the segment to a convex box is convex along the segment,
+  // so a ternary search finds the closest point
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 20; i++) {
+    const m1 = low + (high - low) / 3;
+    const m2 = high - (high - low) / 3;
+    if (distanceToBoxSq(start, end, m1, box) < distanceToBoxSq(start, end, m2, box)) {
+      high = m2;
+    } else {
+      low = m1;
+    }
+  }
+  
+  pointA.lerpVectors(start, end, (low + high) / 2);
+  box.clampPoint(pointA, clamped);
+  const distanceSq = pointA.distanceToSquared(clamped);
+  if (distanceSq >= radius * radius) return false;
+  
+  if (distanceSq > EPSILON) {
+    const distance = Math.sqrt(distanceSq);
+    out.normal.subVectors(pointA, clamped).divideScalar(distance);
+    out.depth = radius - distance;
+    return true;
+  }
+  
+  // Segment is inside the box - push out along the axis of least penetration
+  const axes: [number, number, number, number][] = [
+    [1, 0, 0, box.max.x - Math.min(start.x, end.x)],
+    [-1, 0, 0, Math.max(start.x, end.x) - box.min.x],
+    [0, 1, 0, box.max.y - Math.min(start.y, end.y)],
+    [0, -1, 0, Math.max(start.y, end.y) - box.min.y],
+    [0, 0, 1, box.max.z - Math.min(start.z, end.z)],
+    [0, 0, -1, Math.max(start.z, end.z) - box.min.z]
+  ];
+  let best = axes[0];
+  for (const axis of axes) {
+    if (axis[3] < best[3]) best = axis;
+  }
+  
+  out.normal.set(best[0], best[1], best[2]);
+  out.depth = best[3] + radius;
+  return true;
+}
+
+function distanceToBoxSq(start: THREE.Vector3, end: THREE.Vector3, t: number, box: THREE.Box3): number {
+  pointB.lerpVectors(start, end, t);
+  return box.distanceToPoint(pointB) ** 2;
+}
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { Collider } from '../ecs/Components';
+import { closestPointsOnSegments } from './Narrowphase';
+
+const ray = new THREE.Ray();
+const hit = new THREE.Vector3();
+const onSight = new THREE.Vector3();
+const onPart = new THREE.Vector3();
+const expanded = new THREE.Box3();
+
+/**
+ * Check that the segment between two points misses all static world colliders
+ * Uses the world-space parts refreshed by the physics system each tick
+ */
+export function hasLineOfSight(registry: Registry, from: THREE.Vector3, to: THREE.Vector3): boolean {
+  const length = from.distanceTo(to);
+  if (length === 0) return true;
+  ray.origin.copy(from);
+  ray.direction.subVectors(to, from).divideScalar(length);
+  
+  for (const entity of registry.query(Collider)) {
+    const collider = registry.getComponent(entity, Collider)!;
+    if (!collider.isStatic) continue;
+    
+    for (const part of collider.parts) {
+      if (part.shape.type === 'aabb') {
+        if (ray.intersectBox(part.bounds, hit) && from.distanceTo(hit) <= length) return false;
+        continue;
+      }
+      
+      closestPointsOnSegments(from, to, part.start, part.end, onSight, onPart);
+      if (onSight.distanceToSquared(onPart) <= part.shape.radius * part.shape.radius) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Sweep a sphere from one point towards another against static world colliders
+ * Returns how far it travels before touching anything, or the full distance when clear
+ */
+export function sphereCast(registry: Registry, from: THREE.Vector3, to: THREE.Vector3, radius: number): number {
+  const length = from.distanceTo(to);
+  if (length === 0) return 0;
+  ray.origin.copy(from);
+  ray.direction.subVectors(to, from).divideScalar(length);
+  let nearest = length;
+  
+  for (const entity of registry.query(Collider)) {
+    const collider = registry.getComponent(entity, Collider)!;
+    if (!collider.isStatic) continue;
+    
+    for (const part of collider.parts) {
+      if (part.shape.type === 'aabb') {
+        // Growing the box by the radius is slightly conservative at its corners
+        expanded.copy(part.bounds).expandByScalar(radius);
+        if (ray.intersectBox(expanded, hit)) {
+          nearest = Math.min(nearest, from.distanceTo(hit));
+        }
+        continue;
+      }
+      
+      const reach = part.shape.radius + radius;
+      closestPointsOnSegments(from, to, part.start, part.end, onSight, onPart);
+      const gapSquared = onSight.distanceToSquared(onPart);
+      if (gapSquared > reach * reach) continue;
+      // Back off from the closest approach to where the surfaces first touch
+      const along = from.distanceTo(onSight) - Math.sqrt(reach * reach - gapSquared);
+      nearest = Math.min(nearest, Math.max(along, 0));
+    }
+  }
+  return nearest;
+}
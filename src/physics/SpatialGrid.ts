@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+
+/**
+ * Uniform grid broadphase over the XZ plane
+ * Items are bucketed into every column their bounds overlap; height is left
+ * to the narrowphase since the world is mostly laid out horizontally
+ */
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells: Map<string, T[]>;
+
+  constructor(cellSize: number = 10) {
+    this.cellSize = cellSize;
+    this.cells = new Map();
+  }
+
+  /**
+   * Insert an item covering the given bounds
+   */
+  public insert(item: T, bounds: THREE.Box3): void {
+    this.forEachCell(bounds, key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(item);
+    });
+  }
+
+  /**
+   * Collect every item whose cells overlap the bounds (deduplicated)
+   */
+  public query(bounds: THREE.Box3, out: Set<T> = new Set()): Set<T> {
+    this.forEachCell(bounds, key => {
+      this.cells.get(key)?.forEach(item => out.add(item));
+    });
+    return out;
+  }
+
+  /**
+   * Remove all items
+   */
+  public clear(): void {
+    this.cells.clear();
+  }
+
+  private forEachCell(bounds: THREE.Box3, callback: (key: string) => void): void {
+    const minX = Math.floor(bounds.min.x / this.cellSize);
+    const maxX = Math.floor(bounds.max.x / this.cellSize);
+    const minZ = Math.floor(bounds.min.z / this.cellSize);
+    const maxZ = Math.floor(bounds.max.z / this.cellSize);
+    
+    for (let x = minX; x <= maxX; x++) {
+      for (let z = minZ; z <= maxZ; z++) {
+        callback(`${x},${z}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { Atmosphere } from '../core/atmosphere/Atmosphere';
+
+/**
+ * Advances the time of day with the simulation, so the sky and lighting follow game time
+ * Runs just before world animation, which pulses neon lights at the intensity the hour sets
+ */
+export class AtmosphereSystem implements System {
+  public readonly order = SystemOrder.Animation - 10;
+  private atmosphere: Atmosphere;
+
+  constructor(atmosphere: Atmosphere) {
+    this.atmosphere = atmosphere;
+  }
+
+  public fixedUpdate(_registry: Registry, deltaTime: number): void {
+    this.atmosphere.update(deltaTime);
+  }
+}
@@ -0,0 +1,41 @@
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { AIState, Animator, Health, PlayerCombat, RigidBody, Transform } from '../ecs/Components';
+import { AnimationState } from '../characters/CharacterAnimator';
+
+// Squared distance per tick below which a character counts as standing still
+const MOVING_THRESHOLD = 0.0004;
+
+/**
+ * Picks each animated character's clip from its health, combat, AI and movement state,
+ * then advances its animation by the frame time
+ */
+export class CharacterAnimationSystem implements System {
+  public readonly order = SystemOrder.Presentation - 10;
+
+  public render(registry: Registry, _alpha: number, frameDelta: number): void {
+    for (const entity of registry.query(Animator)) {
+      const { animator } = registry.getComponent(entity, Animator)!;
+      animator.setState(this.chooseState(registry, entity));
+      animator.update(frameDelta);
+    }
+  }
+
+  private chooseState(registry: Registry, entity: Entity): AnimationState {
+    const health = registry.getComponent(entity, Health);
+    if (health && health.current <= 0) return 'death';
+    
+    const ai = registry.getComponent(entity, AIState);
+    if (ai && ai.attackPhase !== 'ready') return 'attack';
+    const combat = registry.getComponent(entity, PlayerCombat);
+    if (combat && (combat.meleeCooldown > 0 || combat.rangedCooldown > 0)) return 'attack';
+    
+    // Hovering enemies are never grounded, so only bodies under gravity can be in the air
+    const body = registry.getComponent(entity, RigidBody);
+    if (body && body.gravityScale > 0 && !body.grounded) return 'jump';
+    
+    const transform = registry.getComponent(entity, Transform);
+    if (transform && transform.position.distanceToSquared(transform.previousPosition) > MOVING_THRESHOLD) return 'run';
+    return 'idle';
+  }
+}
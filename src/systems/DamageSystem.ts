@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  DamageRequest,
+  Health,
+  HealthComponent,
+  MeshRef,
+  Respawn,
+  Shield,
+  Tag,
+  Transform,
+  Velocity
+} from '../ecs/Components';
+import { despawn } from '../ecs/Lifecycle';
+import { GameEvents } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+
+const FLASH_DURATION = 0.2;
+const FLASH_COLOR = new THREE.Color(0xff0000);
+
+/**
+ * Applies queued damage with invulnerability frames and knockback,
+ * drives hit flashes, and handles death, respawn and game over
+ */
+export class DamageSystem implements System {
+  public readonly order = SystemOrder.Combat;
+  private events: EventBus<GameEvents>;
+  private killHeight: number;
+  private originalEmissive: Map<Entity, THREE.Color>;
+  private forward: THREE.Vector3;
+  private toSource: THREE.Vector3;
+
+  constructor(events: EventBus<GameEvents>, killHeight: number = -50) {
+    this.events = events;
+    this.killHeight = killHeight;
+    this.originalEmissive = new Map();
+    this.forward = new THREE.Vector3();
+    this.toSource = new THREE.Vector3();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    for (const entity of registry.query(Health)) {
+      const health = registry.getComponent(entity, Health)!;
+      
+      health.invulnerableTimer = Math.max(0, health.invulnerableTimer - deltaTime);
+      health.flashTimer = Math.max(0, health.flashTimer - deltaTime);
+      
+      // Falling out of the world is always fatal
+      const transform = registry.getComponent(entity, Transform);
+      if (health.current > 0 && transform && transform.position.y < this.killHeight) {
+        health.invulnerableTimer = 0;
+        health.pending.push({ amount: health.current, source: null, knockback: null });
+      }
+      
+      if (health.current > 0) {
+        this.applyPending(registry, entity, health);
+      } else {
+        health.pending.length = 0;
+        this.updateRespawn(registry, entity, health, deltaTime);
+      }
+      
+      if (registry.isAlive(entity)) {
+        this.updateFeedback(registry, entity, health);
+      }
+    }
+  }
+
+  private applyPending(registry: Registry, entity: Entity, health: HealthComponent): void {
+    const position = registry.getComponent(entity, Transform)?.position ?? new THREE.Vector3();
+    
+    for (const request of health.pending) {
+      if (health.invulnerableTimer > 0) break;
+      
+      const amount = this.applyShield(registry, entity, request);
+      health.current = Math.max(0, health.current - amount);
+      health.invulnerableTimer = health.invulnerability;
+      health.flashTimer = FLASH_DURATION;
+      
+      const velocity = registry.getComponent(entity, Velocity);
+      if (velocity && request.knockback) {
+        velocity.linear.add(request.knockback);
+      }
+      
+      this.events.emit('damage', {
+        target: entity,
+        source: request.source,
+        amount,
+        remaining: health.current,
+        position: position.clone()
+      });
+      
+      if (health.current <= 0) {
+        this.die(registry, entity, position);
+        break;
+      }
+    }
+    
+    health.pending.length = 0;
+  }
+
+  /**
+   * Reduce damage coming from inside a shield's frontal arc
+   */
+  private applyShield(registry: Registry, entity: Entity, request: DamageRequest): number {
+    const shield = registry.getComponent(entity, Shield);
+    const transform = registry.getComponent(entity, Transform);
+    const source = request.source !== null ? registry.getComponent(request.source, Transform) : undefined;
+    if (!shield || !transform || !source) return request.amount;
+    
+    this.forward.set(0, 0, -1).applyQuaternion(transform.quaternion).setY(0).normalize();
+    this.toSource.subVectors(source.position, transform.position).setY(0).normalize();
+    if (this.forward.dot(this.toSource) < Math.cos(shield.arc / 2)) return request.amount;
+    
+    return request.amount * (1 - shield.reduction);
+  }
+
+  private die(registry: Registry, entity: Entity, position: THREE.Vector3): void {
+    this.events.emit('death', {
+      entity,
+      tag: registry.getComponent(entity, Tag)?.name,
+      position: position.clone()
+    });
+    
+    const respawn = registry.getComponent(entity, Respawn);
+    if (!respawn) {
+      this.restoreEmissive(registry, entity);
+      this.originalEmissive.delete(entity);
+      despawn(registry, entity);
+      return;
+    }
+    
+    // Lie still and out of sight until respawn
+    registry.getComponent(entity, Velocity)?.linear.set(0, 0, 0);
+    const object = registry.getComponent(entity, MeshRef)?.object;
+    if (object) {
+      object.visible = false;
+    }
+    
+    respawn.lives--;
+    respawn.timer = respawn.delay;
+    if (respawn.lives <= 0) {
+      this.events.emit('gameOver', { entity });
+    }
+  }
+
+  private updateRespawn(registry: Registry, entity: Entity, health: HealthComponent, deltaTime: number): void {
+    const respawn = registry.getComponent(entity, Respawn);
+    if (!respawn || respawn.lives <= 0) return;
+    
+    respawn.timer -= deltaTime;
+    if (respawn.timer > 0) return;
+    
+    health.current = health.max;
+    health.invulnerableTimer = 2;
+    
+    // Teleport without interpolating across the map
+    const transform = registry.getComponent(entity, Transform);
+    if (transform) {
+      transform.position.copy(respawn.spawnPoint);
+      transform.previousPosition.copy(respawn.spawnPoint);
+    }
+    registry.getComponent(entity, Velocity)?.linear.set(0, 0, 0);
+    
+    this.events.emit('playerRespawn', { entity, livesLeft: respawn.lives });
+  }
+
+  /**
+   * Red hit flash for everyone, blinking during invulnerability for respawning entities
+   */
+  private updateFeedback(registry: Registry, entity: Entity, health: HealthComponent): void {
+    const object = registry.getComponent(entity, MeshRef)?.object;
+    if (!(object instanceof THREE.Mesh)) return;
+    
+    const material = object.material as THREE.MeshStandardMaterial;
+    if (health.flashTimer > 0 && material.emissive) {
+      if (!this.originalEmissive.has(entity)) {
+        this.originalEmissive.set(entity, material.emissive.clone());
+      }
+      material.emissive.copy(FLASH_COLOR);
+    } else if (this.originalEmissive.has(entity)) {
+      this.restoreEmissive(registry, entity);
+      this.originalEmissive.delete(entity);
+    }
+    
+    if (registry.hasComponent(entity, Respawn) && health.current > 0) {
+      object.visible = health.invulnerableTimer === 0 || Math.floor(health.invulnerableTimer * 10) % 2 === 0;
+    }
+  }
+
+  private restoreEmissive(registry: Registry, entity: Entity): void {
+    const original = this.originalEmissive.get(entity);
+    const object = registry.getComponent(entity, MeshRef)?.object;
+    if (original && object instanceof THREE.Mesh) {
+      (object.material as THREE.MeshStandardMaterial).emissive.copy(original);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  AIState,
+  AIStateComponent,
+  Behavior,
+  Health,
+  MeshRef,
+  PlayerControl,
+  Transform,
+  TransformComponent
+} from '../ecs/Components';
+import { EnemyContext } from '../ai/EnemyBehaviors';
+import { dealDamage } from '../combat/Damage';
+import { spawnProjectile } from '../combat/Projectiles';
+import { GameEvents } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+
+const TURN_SPEED = 4;
+
+/**
+ * Runs each enemy's behavior tree and its attack cycle
+ * What the enemy knows comes from the PerceptionSystem via the blackboard
+ */
+export class EnemyAISystem implements System {
+  public readonly order = SystemOrder.AI;
+  private events: EventBus<GameEvents>;
+  private scene: THREE.Scene;
+  private direction: THREE.Vector3;
+  private euler: THREE.Euler;
+  private facing: THREE.Quaternion;
+
+  constructor(events: EventBus<GameEvents>, scene: THREE.Scene) {
+    this.events = events;
+    this.scene = scene;
+    this.direction = new THREE.Vector3();
+    this.euler = new THREE.Euler();
+    this.facing = new THREE.Quaternion();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    const player = this.findPlayer(registry);
+    
+    for (const entity of registry.query(AIState, Behavior, Transform)) {
+      const ai = registry.getComponent(entity, AIState)!;
+      const behavior = registry.getComponent(entity, Behavior)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      
+      ai.elapsedTime += deltaTime;
+      
+      const context: EnemyContext = {
+        blackboard: behavior.blackboard,
+        deltaTime,
+        time: ai.elapsedTime,
+        registry,
+        entity,
+        ai,
+        transform
+      };
+      behavior.tree.tick(context);
+      
+      this.updateAttack(registry, entity, ai, transform, player, deltaTime);
+      this.orient(ai, transform, deltaTime);
+      this.animateCore(registry, entity, ai);
+    }
+  }
+
+  /**
+   * Find the living player entity, if any
+   */
+  private findPlayer(registry: Registry): Entity | undefined {
+    return registry.query(PlayerControl, Transform).find(entity => {
+      const health = registry.getComponent(entity, Health);
+      return !health || health.current > 0;
+    });
+  }
+
+  /**
+   * Spin for visual effect, or turn to face the target for enemies that don't spin
+   */
+  private orient(ai: AIStateComponent, transform: TransformComponent, deltaTime: number): void {
+    if (ai.spinSpeed > 0) {
+      ai.spin += deltaTime * ai.spinSpeed;
+      this.euler.set(Math.sin(ai.elapsedTime) * 0.2, ai.spin, 0);
+      transform.quaternion.setFromEuler(this.euler);
+      return;
+    }
+    
+    const toTarget = this.direction.subVectors(ai.target, transform.position);
+    if (toTarget.x === 0 && toTarget.z === 0) return;
+    
+    // Models face -Z
+    this.euler.set(0, Math.atan2(-toTarget.x, -toTarget.z), 0);
+    this.facing.setFromEuler(this.euler);
+    transform.quaternion.rotateTowards(this.facing, TURN_SPEED * deltaTime);
+  }
+
+  /**
+   * Attack cycle: wind up (telegraphed by the emissive shell), strike or fire,
+   * then recover before the next attack
+   */
+  private updateAttack(
+    registry: Registry,
+    entity: Entity,
+    ai: AIStateComponent,
+    transform: TransformComponent,
+    player: Entity | undefined,
+    deltaTime: number
+  ): void {
+    const mesh = registry.getComponent(entity, MeshRef)?.object;
+    const material = mesh instanceof THREE.Mesh ? mesh.material as THREE.MeshStandardMaterial : undefined;
+    if (material && material.userData.baseEmissiveIntensity === undefined) {
+      material.userData.baseEmissiveIntensity = material.emissiveIntensity;
+    }
+    const baseIntensity: number = material?.userData.baseEmissiveIntensity ?? 0;
+    
+    switch (ai.attackPhase) {
+      case 'ready':
+        // The behavior tree's attack action starts the windup
+        break;
+      case 'windup':
+        ai.attackTimer -= deltaTime;
+        if (material) {
+          const charge = 1 - Math.max(0, ai.attackTimer) / ai.attackWindup;
+          material.emissiveIntensity = baseIntensity + charge * 2 + Math.sin(ai.elapsedTime * 30) * 0.3 * charge;
+        }
+        if (ai.attackTimer <= 0) {
+          this.strike(registry, entity, ai, transform, player);
+          ai.attackPhase = 'recover';
+          ai.attackTimer = ai.attackCooldown;
+        }
+        break;
+      case 'recover':
+        ai.attackTimer -= deltaTime;
+        if (material) {
+          material.emissiveIntensity = baseIntensity;
+        }
+        if (ai.attackTimer <= 0) {
+          ai.attackPhase = 'ready';
+        }
+        break;
+    }
+  }
+
+  private strike(
+    registry: Registry,
+    entity: Entity,
+    ai: AIStateComponent,
+    transform: TransformComponent,
+    player: Entity | undefined
+  ): void {
+    this.events.emit('attack', { attacker: entity, kind: 'enemy', position: transform.position.clone() });
+    if (player === undefined) return;
+    
+    const playerPosition = registry.getComponent(player, Transform)!.position;
+    const toPlayer = this.direction.subVectors(playerPosition, transform.position);
+    
+    if (ai.attackKind === 'ranged') {
+      spawnProjectile(registry, this.scene, entity, 'enemy', transform.position, toPlayer, {
+        damage: ai.attackDamage,
+        speed: ai.projectileSpeed,
+        radius: 0.4,
+        lifetime: (ai.attackRange * 1.5) / ai.projectileSpeed,
+        knockback: 6,
+        color: 0xff6600
+      });
+      return;
+    }
+    
+    // Allow a little slack so a strike that was telegraphed still lands
+    if (toPlayer.length() > ai.attackRange * 1.5) return;
+    
+    toPlayer.y = 0;
+    toPlayer.normalize().multiplyScalar(10);
+    toPlayer.y = 4;
+    dealDamage(registry, player, ai.attackDamage, { source: entity, knockback: toPlayer });
+  }
+
+  private animateCore(registry: Registry, entity: Entity, ai: AIStateComponent): void {
+    // Pulsate core for visual effect
+    const core = registry.getComponent(entity, MeshRef)?.object.children[0];
+    if (core) {
+      const scale = 1 + Math.sin(ai.elapsedTime * 5) * 0.2;
+      core.scale.set(scale, scale, scale);
+    }
+  }
+}
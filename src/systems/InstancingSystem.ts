@@ -0,0 +1,18 @@
+import { System, SystemOrder } from '../ecs/System';
+import { InstanceBatches } from '../core/instancing/InstanceBatches';
+
+/**
+ * Moves instanced props to their proxies once everything else has been placed for the frame
+ */
+export class InstancingSystem implements System {
+  public readonly order = SystemOrder.Presentation;
+  private batches: InstanceBatches;
+
+  constructor(batches: InstanceBatches) {
+    this.batches = batches;
+  }
+
+  public render(): void {
+    this.batches.sync();
+  }
+}
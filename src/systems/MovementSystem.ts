@@ -0,0 +1,21 @@
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { Transform, Velocity } from '../ecs/Components';
+
+/**
+ * Integrates velocity into position and applies horizontal damping
+ */
+export class MovementSystem implements System {
+  public readonly order = SystemOrder.Movement;
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    for (const entity of registry.query(Transform, Velocity)) {
+      const transform = registry.getComponent(entity, Transform)!;
+      const velocity = registry.getComponent(entity, Velocity)!;
+      
+      transform.position.addScaledVector(velocity.linear, deltaTime);
+      velocity.linear.x *= velocity.damping;
+      velocity.linear.z *= velocity.damping;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { NavAgent, NavAgentComponent, Transform, TransformComponent } from '../ecs/Components';
+import { NavGrid } from '../navigation/NavGrid';
+import { Pathfinder } from '../navigation/Pathfinder';
+
+/**
+ * Navigation tuning
+ */
+export interface NavigationSettings {
+  /** Seconds between grid rebuilds - the world geometry drifts */
+  rebuildInterval: number;
+  /** Seconds between path refreshes for a moving destination */
+  repathInterval: number;
+  /** Replan immediately once the destination moves this far */
+  repathDistance: number;
+  /** Horizontal distance at which a waypoint counts as reached */
+  waypointRadius: number;
+  separationWeight: number;
+}
+
+export const DEFAULT_NAVIGATION_SETTINGS: NavigationSettings = {
+  rebuildInterval: 1,
+  repathInterval: 0.5,
+  repathDistance: 3,
+  waypointRadius: 1,
+  separationWeight: 1
+};
+
+/**
+ * Plans paths for nav agents and steers them along with separation
+ */
+export class NavigationSystem implements System {
+  public readonly order = SystemOrder.AI + 10;
+  private grid: NavGrid;
+  private pathfinder: Pathfinder;
+  private settings: NavigationSettings;
+  private rebuildTimer: number;
+  private seek: THREE.Vector3;
+  private separation: THREE.Vector3;
+  private offset: THREE.Vector3;
+
+  constructor(grid: NavGrid = new NavGrid(), settings: Partial<NavigationSettings> = {}) {
+    this.grid = grid;
+    this.pathfinder = new Pathfinder(grid);
+    this.settings = { ...DEFAULT_NAVIGATION_SETTINGS, ...settings };
+    this.rebuildTimer = 0;
+    this.seek = new THREE.Vector3();
+    this.separation = new THREE.Vector3();
+    this.offset = new THREE.Vector3();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    this.rebuildTimer -= deltaTime;
+    if (this.rebuildTimer <= 0) {
+      this.grid.build(registry);
+      this.rebuildTimer = this.settings.rebuildInterval;
+    }
+    
+    const agents = registry.query(NavAgent, Transform);
+    for (const entity of agents) {
+      const agent = registry.getComponent(entity, NavAgent)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      
+      if (!agent.destination) {
+        agent.path.length = 0;
+        continue;
+      }
+      
+      agent.repathTimer -= deltaTime;
+      if (agent.repathTimer <= 0 || agent.pathGoal.distanceTo(agent.destination) > this.settings.repathDistance) {
+        this.plan(agent, transform);
+      }
+      
+      this.computeSeek(agent, transform);
+      
+      // Push away from neighbours that crowd in
+      this.separation.set(0, 0, 0);
+      for (const other of agents) {
+        if (other === entity) continue;
+        
+        const otherPosition = registry.getComponent(other, Transform)!.position;
+        this.offset.subVectors(transform.position, otherPosition);
+        this.offset.y = 0;
+        const distance = this.offset.length();
+        if (distance > 0 && distance < agent.separationRadius) {
+          this.separation.addScaledVector(this.offset, (agent.separationRadius - distance) / (agent.separationRadius * distance));
+        }
+      }
+      
+      this.seek.addScaledVector(this.separation, agent.speed * this.settings.separationWeight);
+      if (this.seek.length() > agent.speed) {
+        this.seek.setLength(agent.speed);
+      }
+      transform.position.addScaledVector(this.seek, deltaTime);
+    }
+  }
+
+  private plan(agent: NavAgentComponent, transform: TransformComponent): void {
+    const destination = agent.destination!;
+    agent.pathGoal.copy(destination);
+    agent.repathTimer = this.settings.repathInterval;
+    // Unreachable goals fall back to heading straight at them
+    agent.path = this.pathfinder.findPath(transform.position, destination) ?? [destination.clone()];
+    agent.pathIndex = 0;
+  }
+
+  /**
+   * Desired velocity towards the current waypoint, advancing past reached ones
+   */
+  private computeSeek(agent: NavAgentComponent, transform: TransformComponent): void {
+    this.seek.set(0, 0, 0);
+    
+    while (agent.pathIndex < agent.path.length) {
+      const waypoint = agent.path[agent.pathIndex];
+      const isLast = agent.pathIndex === agent.path.length - 1;
+      this.seek.subVectors(waypoint, transform.position);
+      const horizontal = Math.hypot(this.seek.x, this.seek.z);
+      
+      if (!isLast && horizontal < this.settings.waypointRadius) {
+        agent.pathIndex++;
+        continue;
+      }
+      
+      // Ease into the final waypoint instead of overshooting it
+      const distance = this.seek.length();
+      const speed = isLast ? Math.min(agent.speed, distance * 2) : agent.speed;
+      if (distance > 0) {
+        this.seek.multiplyScalar(speed / distance);
+      }
+      return;
+    }
+  }
+
+  /**
+   * Rebuild the grid on the next tick, e.g. after the level geometry changed
+   */
+  public invalidate(): void {
+    this.rebuildTimer = 0;
+  }
+
+  /**
+   * Get the grid paths are planned on
+   */
+  public getGrid(): NavGrid {
+    return this.grid;
+  }
+}
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { MeshRef, Tag } from '../ecs/Components';
+import { GameEvents } from '../core/GameEvents';
+import { ParticleEffects } from '../core/particles/ParticleEffects';
+import { EventBus } from '../utils/EventBus';
+
+// Enemies without a tint of their own burst in magenta
+const DEFAULT_DEATH_TINT = 0xff00ff;
+
+/**
+ * Turns gameplay events into particle bursts and advances every emitter each frame
+ * Enemy deaths burst in the enemy's `userData.particleTint`; hits on the player spark off its body
+ */
+export class ParticleSystem implements System {
+  public readonly order = SystemOrder.Presentation;
+  private effects: ParticleEffects;
+
+  constructor(registry: Registry, events: EventBus<GameEvents>, effects: ParticleEffects) {
+    this.effects = effects;
+    
+    // Handled as they happen: a dying enemy is despawned right after its death event
+    events.on('death', (event) => {
+      if (event.tag !== 'enemy') return;
+      const object = registry.getComponent(event.entity, MeshRef)?.object;
+      this.effects.burst('enemyDeath', event.position, { tint: object?.userData.particleTint ?? DEFAULT_DEATH_TINT });
+    });
+    events.on('damage', (event) => {
+      if (registry.getComponent(event.target, Tag)?.name !== 'player') return;
+      const object = registry.getComponent(event.target, MeshRef)?.object;
+      if (object instanceof THREE.Mesh) {
+        this.effects.burst('playerHit', object, { shape: { type: 'surface', geometry: object.geometry } });
+      } else {
+        this.effects.burst('playerHit', object ?? event.position);
+      }
+    });
+  }
+
+  public render(_registry: Registry, _alpha: number, frameDelta: number): void {
+    this.effects.update(frameDelta);
+  }
+}
@@ -0,0 +1,244 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  AIState,
+  AIStateComponent,
+  Behavior,
+  Faction,
+  Health,
+  Perception,
+  PerceptionComponent,
+  PlayerControl,
+  Transform,
+  TransformComponent
+} from '../ecs/Components';
+import { EnemyKeys } from '../ai/EnemyBehaviors';
+import { Blackboard } from '../ai/Blackboard';
+import { hasLineOfSight } from '../physics/Raycast';
+import { GameEvents, NoiseEvent } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+
+/**
+ * Perception tuning shared by every enemy
+ */
+export interface PerceptionSettings {
+  /** Awareness gained per second when seeing the target at the edge of sight range */
+  awarenessGain: number;
+  /** Extra gain per second at point blank range */
+  closeAwarenessGain: number;
+  awarenessDecay: number;
+  /** How long a noise or glimpse keeps an enemy suspicious, as a fraction of its memory */
+  suspicionMemory: number;
+}
+
+export const DEFAULT_PERCEPTION_SETTINGS: PerceptionSettings = {
+  awarenessGain: 1.2,
+  closeAwarenessGain: 4,
+  awarenessDecay: 0.3,
+  suspicionMemory: 0.5
+};
+
+/**
+ * Enemy senses: vision cone with line of sight, hearing and memory
+ * Turns what each enemy notices into an alert level and blackboard entries
+ */
+export class PerceptionSystem implements System {
+  public readonly order = SystemOrder.AI - 10;
+  private settings: PerceptionSettings;
+  private noises: NoiseEvent[];
+  private hits: { target: Entity; source: Entity }[];
+  private forward: THREE.Vector3;
+  private toTarget: THREE.Vector3;
+
+  constructor(events: EventBus<GameEvents>, settings: Partial<PerceptionSettings> = {}) {
+    this.settings = { ...DEFAULT_PERCEPTION_SETTINGS, ...settings };
+    this.noises = [];
+    this.hits = [];
+    this.forward = new THREE.Vector3();
+    this.toTarget = new THREE.Vector3();
+    
+    events.on('noise', (event) => this.noises.push(event));
+    events.on('damage', (event) => {
+      if (event.source !== null) {
+        this.hits.push({ target: event.target, source: event.source });
+      }
+    });
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    const player = this.findPlayer(registry);
+    const playerPosition = player !== undefined ? registry.getComponent(player, Transform)!.position : undefined;
+    
+    for (const entity of registry.query(Perception, AIState, Transform)) {
+      const perception = registry.getComponent(entity, Perception)!;
+      const ai = registry.getComponent(entity, AIState)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      
+      const seen = playerPosition !== undefined && this.canSee(registry, perception, ai, transform, playerPosition);
+      perception.canSeeTarget = seen;
+      
+      if (seen) {
+        this.see(perception, transform, playerPosition!, deltaTime);
+      } else {
+        perception.awareness = Math.max(0, perception.awareness - this.settings.awarenessDecay * deltaTime);
+        if (perception.alert === 'alert') {
+          // Lost sight - go and look where the target was last seen
+          perception.alert = 'searching';
+          perception.memoryTimer = perception.memory;
+        }
+        this.hear(registry, entity, perception, transform);
+      }
+      
+      this.feelHits(registry, entity, perception);
+      
+      if (perception.alert !== 'unaware' && perception.alert !== 'alert') {
+        perception.memoryTimer -= deltaTime;
+        if (perception.memoryTimer <= 0) {
+          perception.alert = 'unaware';
+          perception.lastKnownPosition = null;
+        }
+      }
+      
+      const behavior = registry.getComponent(entity, Behavior);
+      if (behavior) {
+        this.writeBlackboard(registry, behavior.blackboard, perception, ai, transform, player);
+      }
+    }
+    
+    this.noises.length = 0;
+    this.hits.length = 0;
+  }
+
+  /**
+   * Find the living player entity, if any
+   */
+  private findPlayer(registry: Registry): Entity | undefined {
+    return registry.query(PlayerControl, Transform).find(entity => {
+      const health = registry.getComponent(entity, Health);
+      return !health || health.current > 0;
+    });
+  }
+
+  /**
+   * Target inside sight range, inside the vision cone (or very close), and not behind geometry
+   */
+  private canSee(
+    registry: Registry,
+    perception: PerceptionComponent,
+    ai: AIStateComponent,
+    transform: TransformComponent,
+    target: THREE.Vector3
+  ): boolean {
+    const toTarget = this.toTarget.subVectors(target, transform.position);
+    const distance = toTarget.length();
+    if (distance > perception.sightRange) return false;
+    
+    if (distance > perception.proximityRange) {
+      // Enemies look where they are heading, or at what they are watching
+      this.forward.subVectors(ai.target, transform.position).setY(0);
+      if (this.forward.lengthSq() < 1e-6) {
+        this.forward.set(0, 0, -1).applyQuaternion(transform.quaternion).setY(0);
+      }
+      this.forward.normalize();
+      toTarget.setY(0).normalize();
+      if (toTarget.dot(this.forward) < Math.cos(perception.fieldOfView / 2)) return false;
+    }
+    
+    return hasLineOfSight(registry, transform.position, target);
+  }
+
+  /**
+   * Build awareness while the target is visible; full awareness means alert
+   */
+  private see(perception: PerceptionComponent, transform: TransformComponent, target: THREE.Vector3, deltaTime: number): void {
+    const settings = this.settings;
+    const closeness = 1 - Math.min(1, transform.position.distanceTo(target) / perception.sightRange);
+    perception.awareness = Math.min(1, perception.awareness +
+      (settings.awarenessGain + settings.closeAwarenessGain * closeness) * deltaTime);
+    
+    perception.lastKnownPosition = (perception.lastKnownPosition ?? new THREE.Vector3()).copy(target);
+    
+    // Once engaged, a sighting is enough to stay alert
+    if (perception.awareness >= 1 || perception.alert === 'alert' || perception.alert === 'searching') {
+      perception.awareness = 1;
+      perception.alert = 'alert';
+      perception.memoryTimer = perception.memory;
+    } else {
+      perception.alert = 'suspicious';
+      perception.memoryTimer = perception.memory * settings.suspicionMemory;
+    }
+  }
+
+  /**
+   * React to noises made by the other side within earshot
+   */
+  private hear(registry: Registry, entity: Entity, perception: PerceptionComponent, transform: TransformComponent): void {
+    const team = registry.getComponent(entity, Faction)?.team;
+    
+    for (const noise of this.noises) {
+      if (team !== undefined && registry.getComponent(noise.source, Faction)?.team === team) continue;
+      if (transform.position.distanceTo(noise.position) > noise.radius * perception.hearing) continue;
+      
+      perception.lastKnownPosition = (perception.lastKnownPosition ?? new THREE.Vector3()).copy(noise.position);
+      if (perception.alert === 'searching') {
+        perception.memoryTimer = perception.memory;
+      } else {
+        perception.alert = 'suspicious';
+        perception.memoryTimer = Math.max(perception.memoryTimer, perception.memory * this.settings.suspicionMemory);
+      }
+    }
+  }
+
+  /**
+   * Getting hit gives away where the attacker is
+   */
+  private feelHits(registry: Registry, entity: Entity, perception: PerceptionComponent): void {
+    for (const hit of this.hits) {
+      if (hit.target !== entity) continue;
+      
+      const source = registry.getComponent(hit.source, Transform);
+      if (!source) continue;
+      
+      perception.lastKnownPosition = (perception.lastKnownPosition ?? new THREE.Vector3()).copy(source.position);
+      if (perception.alert !== 'alert') {
+        perception.alert = 'searching';
+        perception.memoryTimer = perception.memory;
+      }
+    }
+  }
+
+  private writeBlackboard(
+    registry: Registry,
+    blackboard: Blackboard,
+    perception: PerceptionComponent,
+    ai: AIStateComponent,
+    transform: TransformComponent,
+    player: Entity | undefined
+  ): void {
+    if (perception.lastKnownPosition) {
+      blackboard.set(EnemyKeys.lastKnownPosition, perception.lastKnownPosition);
+    } else {
+      blackboard.delete(EnemyKeys.lastKnownPosition);
+    }
+    
+    // Only an alert enemy that can see the player treats it as a target
+    if (player === undefined || !perception.canSeeTarget || perception.alert !== 'alert') {
+      blackboard.delete(EnemyKeys.target);
+      blackboard.delete(EnemyKeys.targetPosition);
+      blackboard.delete(EnemyKeys.targetForward);
+      blackboard.set(EnemyKeys.targetDistance, Infinity);
+      return;
+    }
+    
+    const playerTransform = registry.getComponent(player, Transform)!;
+    const forward = blackboard.get<THREE.Vector3>(EnemyKeys.targetForward) ?? new THREE.Vector3();
+    forward.set(0, 0, -1).applyQuaternion(playerTransform.quaternion).setY(0).normalize();
+    
+    blackboard.set(EnemyKeys.target, player);
+    blackboard.set(EnemyKeys.targetPosition, playerTransform.position.clone());
+    blackboard.set(EnemyKeys.targetDistance, transform.position.distanceTo(playerTransform.position));
+    blackboard.set(EnemyKeys.targetForward, forward);
+    ai.target.copy(playerTransform.position);
+  }
+}
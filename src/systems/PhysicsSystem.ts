@@ -0,0 +1,221 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  Collider,
+  ColliderComponent,
+  RigidBody,
+  RigidBodyComponent,
+  Transform,
+  TransformComponent,
+  Velocity
+} from '../ecs/Components';
+import { ColliderPart, getPartRadius, updatePartWorld } from '../physics/Colliders';
+import { Contact, computeContact } from '../physics/Narrowphase';
+import { SpatialGrid } from '../physics/SpatialGrid';
+
+interface PartRef {
+  entity: Entity;
+  part: ColliderPart;
+}
+
+/**
+ * Physics tuning
+ */
+export interface PhysicsOptions {
+  gravity?: number;
+  /** Minimum contact normal Y that counts as standing on ground */
+  groundThreshold?: number;
+  maxSubsteps?: number;
+  cellSize?: number;
+  /** Contact tolerance so bodies resting on a surface stay in contact */
+  contactSkin?: number;
+}
+
+/**
+ * Collision and rigid body physics
+ * Resolves whatever motion earlier systems produced this tick by sweeping each
+ * body from its tick-start position in sub-steps and sliding along contacts
+ */
+export class PhysicsSystem implements System {
+  public readonly order = SystemOrder.Physics;
+  private gravity: number;
+  private groundThreshold: number;
+  private maxSubsteps: number;
+  private contactSkin: number;
+  private grid: SpatialGrid<PartRef>;
+  private candidates: Set<PartRef>;
+  private contact: Contact;
+  private matrix: THREE.Matrix4;
+  private previousMatrix: THREE.Matrix4;
+  private scratch: THREE.Matrix4;
+  private displacement: THREE.Vector3;
+  private sweptBounds: THREE.Box3;
+  private unitScale: THREE.Vector3;
+
+  constructor(options: PhysicsOptions = {}) {
+    this.gravity = options.gravity ?? -30;
+    this.groundThreshold = options.groundThreshold ?? 0.7;
+    this.maxSubsteps = options.maxSubsteps ?? 16;
+    this.contactSkin = options.contactSkin ?? 0.02;
+    this.grid = new SpatialGrid(options.cellSize ?? 10);
+    this.candidates = new Set();
+    this.contact = { normal: new THREE.Vector3(), depth: 0 };
+    this.matrix = new THREE.Matrix4();
+    this.previousMatrix = new THREE.Matrix4();
+    this.scratch = new THREE.Matrix4();
+    this.displacement = new THREE.Vector3();
+    this.sweptBounds = new THREE.Box3();
+    this.unitScale = new THREE.Vector3(1, 1, 1);
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    this.rebuildBroadphase(registry);
+    
+    for (const entity of registry.query(RigidBody, Collider, Transform)) {
+      const collider = registry.getComponent(entity, Collider)!;
+      if (collider.isStatic) continue;
+      
+      const body = registry.getComponent(entity, RigidBody)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      const velocity = registry.getComponent(entity, Velocity);
+      
+      // Gravity feeds next tick's integration
+      if (velocity) {
+        velocity.linear.y += this.gravity * body.gravityScale * deltaTime;
+      }
+      
+      this.carryWithGround(registry, body, transform);
+      this.sweep(registry, entity, body, transform, collider);
+    }
+  }
+
+  /**
+   * Refresh every collider's world cache and re-bucket it
+   */
+  private rebuildBroadphase(registry: Registry): void {
+    this.grid.clear();
+    
+    for (const entity of registry.query(Collider, Transform)) {
+      const collider = registry.getComponent(entity, Collider)!;
+      this.updateColliderWorld(registry.getComponent(entity, Transform)!, collider);
+      collider.parts.forEach(part => this.grid.insert({ entity, part }, part.bounds));
+    }
+  }
+
+  /**
+   * Move a body along with the collider it stood on last tick
+   */
+  private carryWithGround(registry: Registry, body: RigidBodyComponent, transform: TransformComponent): void {
+    if (body.groundEntity === null) return;
+    
+    const ground = registry.getComponent(body.groundEntity, Transform);
+    if (!ground) {
+      body.groundEntity = null;
+      return;
+    }
+    
+    // delta = current * inverse(previous) maps last tick's ground space onto this tick's
+    this.previousMatrix.compose(ground.previousPosition, ground.previousQuaternion, this.unitScale).invert();
+    this.matrix.compose(ground.position, ground.quaternion, this.unitScale).multiply(this.previousMatrix);
+    transform.position.applyMatrix4(this.matrix);
+  }
+
+  /**
+   * Sweep a body from its tick-start position to its current one
+   */
+  private sweep(
+    registry: Registry,
+    entity: Entity,
+    body: RigidBodyComponent,
+    transform: TransformComponent,
+    collider: ColliderComponent
+  ): void {
+    const displacement = this.displacement.subVectors(transform.position, transform.previousPosition);
+    
+    // Sub-step so no step moves further than half the thinnest part
+    const radius = Math.min(...collider.parts.map(getPartRadius).filter(value => value > 0));
+    const steps = Number.isFinite(radius)
+      ? THREE.MathUtils.clamp(Math.ceil(displacement.length() / (radius * 0.5)), 1, this.maxSubsteps)
+      : 1;
+    displacement.divideScalar(steps);
+    
+    // Gather candidates once for the whole swept volume
+    this.sweptBounds.makeEmpty();
+    collider.parts.forEach(part => this.sweptBounds.union(part.bounds));
+    transform.position.copy(transform.previousPosition);
+    this.updateColliderWorld(transform, collider);
+    collider.parts.forEach(part => this.sweptBounds.union(part.bounds));
+    this.candidates.clear();
+    this.grid.query(this.sweptBounds, this.candidates);
+    
+    body.grounded = false;
+    body.groundEntity = null;
+    
+    for (let i = 0; i < steps; i++) {
+      transform.position.add(displacement);
+      this.updateColliderWorld(transform, collider);
+      this.resolveContacts(registry, entity, body, transform, collider);
+    }
+  }
+
+  /**
+   * Push a body out of everything it overlaps and slide its velocity along contacts
+   */
+  private resolveContacts(
+    registry: Registry,
+    entity: Entity,
+    body: RigidBodyComponent,
+    transform: TransformComponent,
+    collider: ColliderComponent
+  ): void {
+    const velocity = registry.getComponent(entity, Velocity);
+    const contact = this.contact;
+    
+    for (const candidate of this.candidates) {
+      if (candidate.entity === entity) continue;
+      
+      for (const part of collider.parts) {
+        if (part.shape.type === 'aabb') continue;
+        if (!computeContact(part, candidate.part, contact, this.contactSkin)) continue;
+        
+        // Only the part beyond the skin is real penetration
+        const depth = contact.depth - this.contactSkin;
+        if (depth > 0) {
+          // Share the correction with other dynamic bodies by mass
+          const otherCollider = registry.getComponent(candidate.entity, Collider)!;
+          const otherBody = registry.getComponent(candidate.entity, RigidBody);
+          let share = 1;
+          if (!otherCollider.isStatic && otherBody) {
+            const otherTransform = registry.getComponent(candidate.entity, Transform)!;
+            share = otherBody.mass / (body.mass + otherBody.mass);
+            otherTransform.position.addScaledVector(contact.normal, -depth * (1 - share));
+            this.updateColliderWorld(otherTransform, otherCollider);
+          }
+          
+          transform.position.addScaledVector(contact.normal, depth * share);
+          this.updateColliderWorld(transform, collider);
+        }
+        
+        // Slide: remove the velocity component into the surface
+        if (velocity) {
+          const into = velocity.linear.dot(contact.normal);
+          if (into < 0) {
+            velocity.linear.addScaledVector(contact.normal, -into);
+          }
+        }
+        
+        if (contact.normal.y >= this.groundThreshold) {
+          body.grounded = true;
+          body.groundNormal.copy(contact.normal);
+          body.groundEntity = candidate.entity;
+        }
+      }
+    }
+  }
+
+  private updateColliderWorld(transform: TransformComponent, collider: ColliderComponent): void {
+    this.matrix.compose(transform.position, transform.quaternion, this.unitScale);
+    collider.parts.forEach(part => updatePartWorld(part, this.matrix, this.scratch));
+  }
+}
@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { Entity, Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import {
+  Faction,
+  Health,
+  PlayerCombat,
+  Transform,
+  TransformComponent
+} from '../ecs/Components';
+import { dealDamage, getHitRadius } from '../combat/Damage';
+import { spawnProjectile } from '../combat/Projectiles';
+import { GameEvents } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+import { InputSource } from '../utils/InputSource';
+
+/**
+ * Player attack tuning
+ */
+export interface PlayerCombatSettings {
+  meleeDamage: number;
+  meleeRange: number;
+  /** Full width of the melee swing in radians */
+  meleeArc: number;
+  meleeCooldown: number;
+  meleeKnockback: number;
+  rangedDamage: number;
+  rangedCooldown: number;
+  projectileSpeed: number;
+  projectileLifetime: number;
+  projectileRadius: number;
+  projectileKnockback: number;
+  /** How far the sound of each attack carries */
+  meleeNoiseRadius: number;
+  rangedNoiseRadius: number;
+}
+
+export const DEFAULT_PLAYER_COMBAT_SETTINGS: PlayerCombatSettings = {
+  meleeDamage: 25,
+  meleeRange: 4.5,
+  meleeArc: Math.PI * 0.6,
+  meleeCooldown: 0.45,
+  meleeKnockback: 18,
+  rangedDamage: 10,
+  rangedCooldown: 0.25,
+  projectileSpeed: 60,
+  projectileLifetime: 1.2,
+  projectileRadius: 0.35,
+  projectileKnockback: 4,
+  meleeNoiseRadius: 12,
+  rangedNoiseRadius: 40
+};
+
+/**
+ * Attack bindings - keys or mouse buttons
+ */
+export const COMBAT_BINDINGS = {
+  melee: { keys: ['KeyF'], mouseButtons: [0] },
+  ranged: { keys: ['KeyE'], mouseButtons: [2] }
+};
+
+/**
+ * Player melee swings and projectile fire
+ */
+export class PlayerCombatSystem implements System {
+  public readonly order = SystemOrder.Input + 10;
+  private input: InputSource;
+  private events: EventBus<GameEvents>;
+  private scene: THREE.Scene;
+  private settings: PlayerCombatSettings;
+  private forward: THREE.Vector3;
+  private toTarget: THREE.Vector3;
+
+  constructor(
+    input: InputSource,
+    events: EventBus<GameEvents>,
+    scene: THREE.Scene,
+    settings: Partial<PlayerCombatSettings> = {}
+  ) {
+    this.input = input;
+    this.events = events;
+    this.scene = scene;
+    this.settings = { ...DEFAULT_PLAYER_COMBAT_SETTINGS, ...settings };
+    this.forward = new THREE.Vector3();
+    this.toTarget = new THREE.Vector3();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    for (const entity of registry.query(PlayerCombat, Transform)) {
+      const health = registry.getComponent(entity, Health);
+      if (health && health.current <= 0) continue;
+      
+      const combat = registry.getComponent(entity, PlayerCombat)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      combat.meleeCooldown = Math.max(0, combat.meleeCooldown - deltaTime);
+      combat.rangedCooldown = Math.max(0, combat.rangedCooldown - deltaTime);
+      
+      this.forward.set(0, 0, -1).applyQuaternion(transform.quaternion);
+      this.forward.y = 0;
+      this.forward.normalize();
+      
+      if (combat.meleeCooldown === 0 && this.isDown(COMBAT_BINDINGS.melee)) {
+        combat.meleeCooldown = this.settings.meleeCooldown;
+        this.melee(registry, entity, transform);
+      }
+      
+      if (combat.rangedCooldown === 0 && this.isDown(COMBAT_BINDINGS.ranged)) {
+        combat.rangedCooldown = this.settings.rangedCooldown;
+        this.fire(registry, entity, transform);
+      }
+    }
+  }
+
+  private isDown(binding: { keys: string[]; mouseButtons: number[] }): boolean {
+    return binding.keys.some(key => this.input.isKeyPressed(key)) ||
+      binding.mouseButtons.some(button => this.input.isMouseButtonPressed(button));
+  }
+
+  /**
+   * Hit every enemy inside the swing arc in front of the player
+   */
+  private melee(registry: Registry, entity: Entity, transform: TransformComponent): void {
+    const settings = this.settings;
+    const minDot = Math.cos(settings.meleeArc / 2);
+    
+    for (const target of registry.query(Faction, Health, Transform)) {
+      if (registry.getComponent(target, Faction)!.team === 'player') continue;
+      
+      const toTarget = this.toTarget.subVectors(registry.getComponent(target, Transform)!.position, transform.position);
+      const distance = toTarget.length() - getHitRadius(registry, target);
+      if (distance > settings.meleeRange) continue;
+      
+      toTarget.y = 0;
+      toTarget.normalize();
+      if (toTarget.dot(this.forward) < minDot) continue;
+      
+      dealDamage(registry, target, settings.meleeDamage, {
+        source: entity,
+        knockback: toTarget.multiplyScalar(settings.meleeKnockback)
+      });
+    }
+    
+    this.events.emit('attack', { attacker: entity, kind: 'melee', position: transform.position.clone() });
+    this.events.emit('noise', { source: entity, position: transform.position.clone(), radius: settings.meleeNoiseRadius, kind: 'melee' });
+  }
+
+  /**
+   * Spawn a projectile travelling along the player's facing
+   */
+  private fire(registry: Registry, entity: Entity, transform: TransformComponent): void {
+    const settings = this.settings;
+    const origin = transform.position.clone().addScaledVector(this.forward, 1.5);
+    origin.y += 0.5;
+    
+    spawnProjectile(registry, this.scene, entity, 'player', origin, this.forward, {
+      damage: settings.rangedDamage,
+      speed: settings.projectileSpeed,
+      radius: settings.projectileRadius,
+      lifetime: settings.projectileLifetime,
+      knockback: settings.projectileKnockback,
+      color: 0x00ffff
+    });
+    
+    this.events.emit('attack', { attacker: entity, kind: 'ranged', position: origin });
+    this.events.emit('noise', { source: entity, position: origin.clone(), radius: settings.rangedNoiseRadius, kind: 'gunfire' });
+  }
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { Collider, Faction, Health, Projectile, Transform, Velocity } from '../ecs/Components';
+import { despawn } from '../ecs/Lifecycle';
+import { dealDamage, getHitRadius } from '../combat/Damage';
+
+/**
+ * Expires projectiles and resolves their hits against enemies and world geometry
+ */
+export class ProjectileSystem implements System {
+  public readonly order = SystemOrder.Combat;
+  private segment: THREE.Line3;
+  private closest: THREE.Vector3;
+  private knockback: THREE.Vector3;
+
+  constructor() {
+    this.segment = new THREE.Line3();
+    this.closest = new THREE.Vector3();
+    this.knockback = new THREE.Vector3();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    for (const entity of registry.query(Projectile, Transform)) {
+      const projectile = registry.getComponent(entity, Projectile)!;
+      const position = registry.getComponent(entity, Transform)!.position;
+      
+      projectile.lifetime -= deltaTime;
+      if (projectile.lifetime <= 0 || position.y < 0 || this.hitsWorld(registry, position, projectile.radius)) {
+        despawn(registry, entity);
+        continue;
+      }
+      
+      for (const target of registry.query(Faction, Health, Transform)) {
+        if (registry.getComponent(target, Faction)!.team === projectile.team) continue;
+        if (registry.getComponent(target, Health)!.current <= 0) continue;
+        
+        const targetPosition = registry.getComponent(target, Transform)!.position;
+        const reach = projectile.radius + getHitRadius(registry, target);
+        if (position.distanceToSquared(targetPosition) > reach * reach) continue;
+        
+        // Push along the direction of travel
+        const velocity = registry.getComponent(entity, Velocity);
+        const knockback = velocity
+          ? this.knockback.copy(velocity.linear).setY(0).normalize().multiplyScalar(projectile.knockback)
+          : null;
+        dealDamage(registry, target, projectile.damage, { source: projectile.owner, knockback });
+        despawn(registry, entity);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Check a projectile against static world colliders
+   */
+  private hitsWorld(registry: Registry, position: THREE.Vector3, radius: number): boolean {
+    for (const entity of registry.query(Collider)) {
+      const collider = registry.getComponent(entity, Collider)!;
+      if (!collider.isStatic) continue;
+      
+      for (const part of collider.parts) {
+        if (part.shape.type === 'aabb') {
+          if (part.bounds.distanceToPoint(position) <= radius) return true;
+          continue;
+        }
+        
+        this.segment.set(part.start, part.end).closestPointToPoint(position, true, this.closest);
+        const reach = part.shape.radius + radius;
+        if (this.closest.distanceToSquared(position) <= reach * reach) return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,28 @@
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { MeshRef, Transform } from '../ecs/Components';
+
+/**
+ * Snapshots transforms at the start of every tick and writes the
+ * interpolated transform to scene objects when rendering
+ */
+export class TransformSyncSystem implements System {
+  public readonly order = SystemOrder.Snapshot;
+
+  public fixedUpdate(registry: Registry): void {
+    for (const entity of registry.query(Transform)) {
+      const transform = registry.getComponent(entity, Transform)!;
+      transform.previousPosition.copy(transform.position);
+      transform.previousQuaternion.copy(transform.quaternion);
+    }
+  }
+
+  public render(registry: Registry, alpha: number): void {
+    for (const entity of registry.query(Transform, MeshRef)) {
+      const transform = registry.getComponent(entity, Transform)!;
+      const object = registry.getComponent(entity, MeshRef)!.object;
+      object.position.lerpVectors(transform.previousPosition, transform.position, alpha);
+      object.quaternion.slerpQuaternions(transform.previousQuaternion, transform.quaternion, alpha);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { Health, PlayerControl, Transform, Trigger } from '../ecs/Components';
+import { GameEvents } from '../core/GameEvents';
+import { EventBus } from '../utils/EventBus';
+
+/**
+ * Reports the player entering and leaving trigger volumes
+ * Runs after physics so it sees where bodies actually ended up
+ */
+export class TriggerSystem implements System {
+  public readonly order = SystemOrder.Physics + 10;
+  private events: EventBus<GameEvents>;
+
+  constructor(events: EventBus<GameEvents>) {
+    this.events = events;
+  }
+
+  public fixedUpdate(registry: Registry): void {
+    const players = registry.query(PlayerControl, Transform);
+    
+    for (const entity of registry.query(Trigger)) {
+      const trigger = registry.getComponent(entity, Trigger)!;
+      if (trigger.once && trigger.fired) continue;
+      
+      for (const player of players) {
+        const position = registry.getComponent(player, Transform)!.position;
+        const alive = (registry.getComponent(player, Health)?.current ?? 1) > 0;
+        const inside = alive && trigger.bounds.containsPoint(position);
+        const wasInside = trigger.occupants.has(player);
+        if (inside === wasInside) continue;
+        
+        if (inside) {
+          trigger.occupants.add(player);
+          trigger.fired = true;
+        } else {
+          trigger.occupants.delete(player);
+        }
+        this.events.emit('trigger', {
+          name: trigger.name,
+          entity: player,
+          entered: inside,
+          message: trigger.message,
+          loadLevel: trigger.loadLevel
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { FloatMotion, LightPulse, Transform } from '../ecs/Components';
+import { advanceShaderTime, neonIntensity } from '../core/procedural/NeonMaterials';
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Drives the ambient world animation - floating structures, pulsing neon and the clock of animated shaders
+ */
+export class WorldAnimationSystem implements System {
+  public readonly order = SystemOrder.Animation;
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    // Slow floating motion
+    for (const entity of registry.query(FloatMotion, Transform)) {
+      const motion = registry.getComponent(entity, FloatMotion)!;
+      const transform = registry.getComponent(entity, Transform)!;
+      
+      motion.elapsedTime += deltaTime;
+      motion.angle += deltaTime * motion.spinSpeed;
+      transform.position.y = motion.baseY + Math.sin(motion.elapsedTime * motion.frequency) * motion.amplitude;
+      transform.quaternion.setFromAxisAngle(UP, motion.angle);
+    }
+    
+    // Pulsate neon lights, dimmed along with the rest of the neon
+    for (const entity of registry.query(LightPulse)) {
+      const pulse = registry.getComponent(entity, LightPulse)!;
+      pulse.elapsedTime += deltaTime;
+      const intensity = pulse.baseIntensity + Math.sin(pulse.elapsedTime * pulse.speed) * pulse.amplitude;
+      pulse.light.intensity = intensity * neonIntensity.value;
+    }
+    
+    advanceShaderTime(deltaTime);
+  }
+}
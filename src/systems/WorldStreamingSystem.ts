@@ -0,0 +1,37 @@
+import * as THREE from 'three';
+import { Registry } from '../ecs/Registry';
+import { System, SystemOrder } from '../ecs/System';
+import { PlayerControl, Transform } from '../ecs/Components';
+import { ChunkStreamer } from '../levels/ChunkStreamer';
+
+/**
+ * Streams level chunks in and out around the player
+ * Runs before animation so streamed-in floating groups move from their first tick
+ */
+export class WorldStreamingSystem implements System {
+  public readonly order = SystemOrder.Animation - 10;
+  private streamer: ChunkStreamer;
+  private focus: THREE.Vector3;
+
+  constructor(streamer: ChunkStreamer) {
+    this.streamer = streamer;
+    this.focus = new THREE.Vector3();
+  }
+
+  public fixedUpdate(registry: Registry, deltaTime: number): void {
+    if (!this.updateFocus(registry)) return;
+    this.streamer.update(this.focus, deltaTime);
+  }
+
+  public render(registry: Registry): void {
+    if (!this.updateFocus(registry)) return;
+    this.streamer.updateDetail(this.focus);
+  }
+
+  private updateFocus(registry: Registry): boolean {
+    const player = registry.query(PlayerControl, Transform)[0];
+    if (player === undefined) return false;
+    this.focus.copy(registry.getComponent(player, Transform)!.position);
+    return true;
+  }
+}
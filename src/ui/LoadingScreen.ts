@@ -0,0 +1,94 @@
+/**
+ * What to do about assets that failed to load
+ */
+export type FailureChoice = 'retry' | 'continue';
+
+/**
+ * Drives the loading screen declared in index.html: a status line, a progress bar,
+ * and a list of failed assets with retry and continue buttons
+ */
+export class LoadingScreen {
+  private root: HTMLElement;
+  private status: HTMLElement;
+  private fill: HTMLElement;
+  private errors: HTMLElement;
+
+  constructor() {
+    this.root = findElement('loading');
+    this.status = findElement('loading-status');
+    this.fill = findElement('loading-fill');
+    this.errors = findElement('loading-errors');
+  }
+
+  /**
+   * Show the screen with an empty bar
+   */
+  public show(status: string): void {
+    this.root.classList.remove('hidden');
+    this.errors.replaceChildren();
+    this.setProgress(0, status);
+  }
+
+  /**
+   * Fill the bar to `fraction` of the way and say what is loading
+   */
+  public setProgress(fraction: number, status: string): void {
+    this.fill.style.width = `${Math.round(Math.min(Math.max(fraction, 0), 1) * 100)}%`;
+    this.status.textContent = status;
+  }
+
+  public hide(): void {
+    this.root.classList.add('hidden');
+  }
+
+  /**
+   * List what failed and wait for the player to retry those assets or continue without them
+   */
+  public askAboutFailures(failures: string[]): Promise<FailureChoice> {
+    this.status.textContent = `${failures.length} ASSET${failures.length === 1 ? '' : 'S'} FAILED TO LOAD`;
+    
+    const actions = document.createElement('div');
+    this.errors.replaceChildren(this.createList(failures), actions);
+    
+    return new Promise(resolve => {
+      const addButton = (label: string, choice: FailureChoice) => {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.addEventListener('click', () => {
+          this.errors.replaceChildren();
+          resolve(choice);
+        });
+        actions.appendChild(button);
+      };
+      addButton('RETRY', 'retry');
+      addButton('CONTINUE WITHOUT', 'continue');
+    });
+  }
+
+  /**
+   * Show the screen with an error the game can't recover from, e.g. when starting up failed
+   */
+  public showError(status: string, errors: string[]): void {
+    this.root.classList.remove('hidden');
+    this.status.textContent = status;
+    this.errors.replaceChildren(this.createList(errors));
+  }
+
+  private createList(lines: string[]): HTMLElement {
+    const list = document.createElement('ul');
+    lines.forEach(line => {
+      const item = document.createElement('li');
+      item.textContent = line;
+      list.appendChild(item);
+    });
+    return list;
+  }
+}
+
+function findElement(id: string): HTMLElement {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error(`Loading screen: #${id} is missing from index.html`);
+  }
+  return element;
+}
@@ -0,0 +1,88 @@
+/**
+ * Binary min-heap ordered by a score function
+ */
+export class BinaryHeap<T> {
+  private items: T[];
+  private score: (item: T) => number;
+
+  constructor(score: (item: T) => number) {
+    this.items = [];
+    this.score = score;
+  }
+
+  /**
+   * Add an item
+   */
+  public push(item: T): void {
+    this.items.push(item);
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  /**
+   * Remove and return the lowest-scoring item
+   */
+  public pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.sinkDown(0);
+    }
+    return top;
+  }
+
+  /**
+   * Get number of items
+   */
+  public size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Remove all items
+   */
+  public clear(): void {
+    this.items.length = 0;
+  }
+
+  private bubbleUp(index: number): void {
+    const item = this.items[index];
+    const score = this.score(item);
+    
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.items[parentIndex];
+      if (score >= this.score(parent)) break;
+      
+      this.items[index] = parent;
+      index = parentIndex;
+    }
+    this.items[index] = item;
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.items.length;
+    const item = this.items[index];
+    const score = this.score(item);
+    
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let swap = -1;
+      let swapScore = score;
+      
+      if (left < length && this.score(this.items[left]) < swapScore) {
+        swap = left;
+        swapScore = this.score(this.items[left]);
+      }
+      if (right < length && this.score(this.items[right]) < swapScore) {
+        swap = right;
+      }
+      if (swap === -1) break;
+      
+      this.items[index] = this.items[swap];
+      index = swap;
+    }
+    this.items[index] = item;
+  }
+}
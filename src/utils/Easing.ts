@@ -0,0 +1,15 @@
+/**
+ * Easing curves mapping progress 0-1 to eased progress 0-1
+ */
+export const Easing = {
+  linear: (t: number): number => t,
+  easeInQuad: (t: number): number => t * t,
+  easeOutQuad: (t: number): number => t * (2 - t),
+  easeInOutQuad: (t: number): number => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: (t: number): number => t * t * t,
+  easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInOutSine: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2
+};
+
+export type EasingName = keyof typeof Easing;
@@ -0,0 +1,60 @@
+type Handler<T> = (event: T) => void;
+type AnyHandler<Events> = Handler<Events[keyof Events]>;
+
+/**
+ * Typed publish/subscribe bus
+ * `Events` maps event names to their payload types
+ */
+export class EventBus<Events extends object> {
+  private handlers: Map<keyof Events, Set<AnyHandler<Events>>>;
+
+  constructor() {
+    this.handlers = new Map();
+  }
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  public on<K extends keyof Events>(type: K, handler: Handler<Events[K]>): () => void {
+    let handlers = this.getHandlers(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers as Set<AnyHandler<Events>>);
+    }
+    handlers.add(handler);
+    
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  public off<K extends keyof Events>(type: K, handler: Handler<Events[K]>): void {
+    this.getHandlers(type)?.delete(handler);
+  }
+
+  /**
+   * Notify every subscriber of an event
+   */
+  public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    // Copy so handlers may unsubscribe while being called
+    const handlers = this.getHandlers(type);
+    if (!handlers) return;
+    
+    Array.from(handlers).forEach(handler => handler(event));
+  }
+
+  /**
+   * Remove every subscriber
+   */
+  public clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Subscribers of one event; `on` only ever adds handlers for that event's payload to its set
+   */
+  private getHandlers<K extends keyof Events>(type: K): Set<Handler<Events[K]>> | undefined {
+    return this.handlers.get(type) as Set<Handler<Events[K]>> | undefined;
+  }
+}
@@ -1,43 +1,57 @@
+import { InputSource } from './InputSource';
+
 /**
  * Input manager for handling keyboard and mouse controls
+ * Listens on the given window; without one (e.g. under Node) it stays idle
  */
-export class InputManager {
+export class InputManager implements InputSource {
   private keys: Map<string, boolean>;
   private mousePosition: { x: number; y: number };
   private mouseButtons: Map<number, boolean>;
+  private target: Window | undefined;
 
-  constructor() {
+  constructor(target: Window | undefined = typeof window !== 'undefined' ? window : undefined) {
     this.keys = new Map();
     this.mousePosition = { x: 0, y: 0 };
     this.mouseButtons = new Map();
+    this.target = target;
     
-    this.setupEventListeners();
+    if (target) {
+      this.setupEventListeners(target);
+    }
   }
 
-  private setupEventListeners(): void {
+  private setupEventListeners(target: Window): void {
     // Keyboard events
-    window.addEventListener('keydown', (e) => {
-      this.keys.set(e.code, true);
-    });
+    target.addEventListener('keydown', this.onKeyDown);
+    target.addEventListener('keyup', this.onKeyUp);
+    
+    // Mouse events
+    target.addEventListener('mousemove', this.onMouseMove);
+    target.addEventListener('mousedown', this.onMouseDown);
+    target.addEventListener('mouseup', this.onMouseUp);
+  }
 
-    window.addEventListener('keyup', (e) => {
-      this.keys.set(e.code, false);
-    });
+  private onKeyDown = (e: KeyboardEvent): void => {
+    this.keys.set(e.code, true);
+  };
 
-    // Mouse events
-    window.addEventListener('mousemove', (e) => {
-      this.mousePosition.x = (e.clientX / window.innerWidth) * 2 - 1;
-      this.mousePosition.y = -(e.clientY / window.innerHeight) * 2 + 1;
-    });
+  private onKeyUp = (e: KeyboardEvent): void => {
+    this.keys.set(e.code, false);
+  };
 
-    window.addEventListener('mousedown', (e) => {
-      this.mouseButtons.set(e.button, true);
-    });
+  private onMouseMove = (e: MouseEvent): void => {
+    this.mousePosition.x = (e.clientX / this.target!.innerWidth) * 2 - 1;
+    this.mousePosition.y = -(e.clientY / this.target!.innerHeight) * 2 + 1;
+  };
 
-    window.addEventListener('mouseup', (e) => {
-      this.mouseButtons.set(e.button, false);
-    });
-  }
+  private onMouseDown = (e: MouseEvent): void => {
+    this.mouseButtons.set(e.button, true);
+  };
+
+  private onMouseUp = (e: MouseEvent): void => {
+    this.mouseButtons.set(e.button, false);
+  };
 
   /**
    * Check if a key is currently pressed
@@ -67,4 +81,19 @@ export class InputManager {
     this.keys.clear();
     this.mouseButtons.clear();
   }
+
+  /**
+   * Stop listening for input and forget what was held
+   */
+  public dispose(): void {
+    if (this.target) {
+      this.target.removeEventListener('keydown', this.onKeyDown);
+      this.target.removeEventListener('keyup', this.onKeyUp);
+      this.target.removeEventListener('mousemove', this.onMouseMove);
+      this.target.removeEventListener('mousedown', this.onMouseDown);
+      this.target.removeEventListener('mouseup', this.onMouseUp);
+      this.target = undefined;
+    }
+    this.clear();
+  }
 }
@@ -0,0 +1,20 @@
+/**
+ * Read-only view of input state consumed by gameplay systems
+ * Implemented by the DOM-backed InputManager and by ScriptedInput for headless runs
+ */
+export interface InputSource {
+  /**
+   * Check if a key is currently pressed
+   */
+  isKeyPressed(keyCode: string): boolean;
+
+  /**
+   * Check if a mouse button is pressed
+   */
+  isMouseButtonPressed(button: number): boolean;
+
+  /**
+   * Get normalized mouse position (-1 to 1)
+   */
+  getMousePosition(): { x: number; y: number };
+}
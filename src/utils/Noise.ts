@@ -0,0 +1,139 @@
+/**
+ * Deterministic hash of an integer lattice point and seed to [0, 1)
+ */
+export function hash1D(x: number, seed: number = 0): number {
+  let h = Math.imul(x | 0, 0x27d4eb2d) ^ Math.imul(seed | 0, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * 1D Perlin gradient noise in [-1, 1]; smooth, and 0 at every integer
+ */
+export function perlin1D(x: number, seed: number = 0): number {
+  const cell = Math.floor(x);
+  const t = x - cell;
+  const g0 = hash1D(cell, seed) * 2 - 1;
+  const g1 = hash1D(cell + 1, seed) * 2 - 1;
+  // Quintic fade keeps the second derivative continuous
+  const fade = t * t * t * (t * (t * 6 - 15) + 10);
+  const value = g0 * t + (g1 * (t - 1) - g0 * t) * fade;
+  // Gradients in [-1, 1] give values in [-0.5, 0.5]
+  return value * 2;
+}
+
+/**
+ * Deterministic hash of a 2D integer lattice point and seed to [0, 1)
+ */
+export function hash2D(x: number, y: number, seed: number = 0): number {
+  return hash1D(Math.imul(x | 0, 0x1b873593) ^ (y | 0), seed);
+}
+
+// Lattice coordinate wrapped into [0, period) so noise repeats every `period` cells
+function wrap(cell: number, period: number): number {
+  return period > 0 ? ((cell % period) + period) % period : cell;
+}
+
+/**
+ * 2D Perlin gradient noise in roughly [-1, 1]
+ * A `period` in cells makes it tile, e.g. across a texture
+ */
+export function perlin2D(x: number, y: number, seed: number = 0, period: number = 0): number {
+  const cellX = Math.floor(x);
+  const cellY = Math.floor(y);
+  const tx = x - cellX;
+  const ty = y - cellY;
+  
+  const corner = (dx: number, dy: number) => {
+    const angle = hash2D(wrap(cellX + dx, period), wrap(cellY + dy, period), seed) * Math.PI * 2;
+    return Math.cos(angle) * (tx - dx) + Math.sin(angle) * (ty - dy);
+  };
+  const fadeX = tx * tx * tx * (tx * (tx * 6 - 15) + 10);
+  const fadeY = ty * ty * ty * (ty * (ty * 6 - 15) + 10);
+  const bottom = corner(0, 0) + (corner(1, 0) - corner(0, 0)) * fadeX;
+  const top = corner(0, 1) + (corner(1, 1) - corner(0, 1)) * fadeX;
+  // Unit gradients peak at sqrt(0.5)
+  return (bottom + (top - bottom) * fadeY) * Math.SQRT2;
+}
+
+const SKEW = (Math.sqrt(3) - 1) / 2;
+const UNSKEW = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * 2D simplex noise in roughly [-1, 1]
+ * Cheaper than Perlin with fewer axis-aligned artifacts, but it doesn't tile
+ */
+export function simplex2D(x: number, y: number, seed: number = 0): number {
+  const skew = (x + y) * SKEW;
+  const cellX = Math.floor(x + skew);
+  const cellY = Math.floor(y + skew);
+  const unskew = (cellX + cellY) * UNSKEW;
+  const x0 = x - (cellX - unskew);
+  const y0 = y - (cellY - unskew);
+  
+  // Which of the cell's two triangles the point is in
+  const stepX = x0 > y0 ? 1 : 0;
+  const stepY = 1 - stepX;
+  const corners: [number, number, number, number][] = [
+    [x0, y0, 0, 0],
+    [x0 - stepX + UNSKEW, y0 - stepY + UNSKEW, stepX, stepY],
+    [x0 - 1 + 2 * UNSKEW, y0 - 1 + 2 * UNSKEW, 1, 1]
+  ];
+  
+  let value = 0;
+  for (const [dx, dy, offsetX, offsetY] of corners) {
+    const falloff = 0.5 - dx * dx - dy * dy;
+    if (falloff <= 0) continue;
+    const angle = hash2D(cellX + offsetX, cellY + offsetY, seed) * Math.PI * 2;
+    value += falloff ** 4 * (Math.cos(angle) * dx + Math.sin(angle) * dy);
+  }
+  // Scales the peak contribution of unit gradients to about 1
+  return value * 99;
+}
+
+/**
+ * 2D Worley (cellular) noise: distance to the nearest of one random point per cell, in [0, ~1.5]
+ * A `period` in cells makes it tile
+ */
+export function worley2D(x: number, y: number, seed: number = 0, period: number = 0): number {
+  const cellX = Math.floor(x);
+  const cellY = Math.floor(y);
+  
+  let nearest = Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const hashX = wrap(cellX + dx, period);
+      const hashY = wrap(cellY + dy, period);
+      const pointX = cellX + dx + hash2D(hashX, hashY, seed);
+      const pointY = cellY + dy + hash2D(hashX, hashY, seed + 1);
+      nearest = Math.min(nearest, Math.hypot(pointX - x, pointY - y));
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Fractal sum of `octaves` layers of a noise, each at twice the frequency and half the amplitude
+ * of the last; normalized back to the noise's own range
+ */
+export function fbm2D(
+  noise: (x: number, y: number, seed: number, period: number) => number,
+  x: number,
+  y: number,
+  octaves: number,
+  seed: number = 0,
+  period: number = 0
+): number {
+  let value = 0;
+  let amplitude = 1;
+  let total = 0;
+  let frequency = 1;
+  for (let octave = 0; octave < octaves; octave++) {
+    value += noise(x * frequency, y * frequency, seed + octave, period * frequency) * amplitude;
+    total += amplitude;
+    amplitude /= 2;
+    frequency *= 2;
+  }
+  return value / total;
+}
@@ -0,0 +1,79 @@
+/**
+ * Small seedable pseudo-random generator (mulberry32)
+ * The same seed always produces the same sequence, so generated content can be reproduced
+ */
+export class SeededRandom {
+  private state: number;
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next value in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Value in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * True with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates) and return it
+   */
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Independent generator for a sub-task, so adding draws to one part of a
+   * generator doesn't reshuffle everything generated after it
+   */
+  public fork(salt: number): SeededRandom {
+    return new SeededRandom(Math.imul(this.seed ^ salt, 0x9e3779b1) ^ (salt >>> 3));
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+}
+
+/**
+ * A fresh 32-bit seed for when none was asked for
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
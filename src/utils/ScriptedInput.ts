@@ -0,0 +1,69 @@
+import { InputSource } from './InputSource';
+
+/**
+ * Input source driven from code instead of DOM events
+ * Used by the headless simulation and tests to replay input deterministically
+ */
+export class ScriptedInput implements InputSource {
+  private keys: Set<string>;
+  private mouseButtons: Set<number>;
+  private mousePosition: { x: number; y: number };
+
+  constructor() {
+    this.keys = new Set();
+    this.mouseButtons = new Set();
+    this.mousePosition = { x: 0, y: 0 };
+  }
+
+  /**
+   * Hold a key down
+   */
+  public press(keyCode: string): void {
+    this.keys.add(keyCode);
+  }
+
+  /**
+   * Release a held key
+   */
+  public release(keyCode: string): void {
+    this.keys.delete(keyCode);
+  }
+
+  /**
+   * Hold or release a mouse button
+   */
+  public setMouseButton(button: number, pressed: boolean): void {
+    if (pressed) {
+      this.mouseButtons.add(button);
+    } else {
+      this.mouseButtons.delete(button);
+    }
+  }
+
+  /**
+   * Set normalized mouse position (-1 to 1)
+   */
+  public setMousePosition(x: number, y: number): void {
+    this.mousePosition = { x, y };
+  }
+
+  public isKeyPressed(keyCode: string): boolean {
+    return this.keys.has(keyCode);
+  }
+
+  public isMouseButtonPressed(button: number): boolean {
+    return this.mouseButtons.has(button);
+  }
+
+  public getMousePosition(): { x: number; y: number } {
+    return { ...this.mousePosition };
+  }
+
+  /**
+   * Release everything
+   */
+  public clear(): void {
+    this.keys.clear();
+    this.mouseButtons.clear();
+  }
+}
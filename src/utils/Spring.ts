@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+/**
+ * Critically damped spring step: reaches the target without overshoot in about `smoothTime`
+ * Returns the new value and updates `state.velocity`; the result is independent of frame rate
+ */
+export function dampSpring(
+  current: number,
+  target: number,
+  state: { velocity: number },
+  smoothTime: number,
+  deltaTime: number
+): number {
+  if (smoothTime <= 0) {
+    state.velocity = 0;
+    return target;
+  }
+  if (deltaTime <= 0) return current;
+  
+  // Exact solution of the critically damped oscillator over one step
+  const omega = 2 / smoothTime;
+  const decay = Math.exp(-omega * deltaTime);
+  const change = current - target;
+  const temp = (state.velocity + omega * change) * deltaTime;
+  state.velocity = (state.velocity - omega * temp) * decay;
+  return target + (change + temp) * decay;
+}
+
+/**
+ * Critically damped spring pulling a vector towards a target
+ */
+export class SpringVector3 {
+  public readonly value: THREE.Vector3;
+  public readonly velocity: THREE.Vector3;
+  public smoothTime: number;
+  private axis: { velocity: number };
+
+  constructor(smoothTime: number, initial: THREE.Vector3 = new THREE.Vector3()) {
+    this.value = initial.clone();
+    this.velocity = new THREE.Vector3();
+    this.smoothTime = smoothTime;
+    this.axis = { velocity: 0 };
+  }
+
+  /**
+   * Advance towards the target and return the new value
+   */
+  public update(target: THREE.Vector3, deltaTime: number): THREE.Vector3 {
+    for (const key of ['x', 'y', 'z'] as const) {
+      this.axis.velocity = this.velocity[key];
+      this.value[key] = dampSpring(this.value[key], target[key], this.axis, this.smoothTime, deltaTime);
+      this.velocity[key] = this.axis.velocity;
+    }
+    return this.value;
+  }
+
+  /**
+   * Jump straight to a value and come to rest
+   */
+  public snap(value: THREE.Vector3): void {
+    this.value.copy(value);
+    this.velocity.set(0, 0, 0);
+  }
+}
@@ -1,5 +1,18 @@
+/**
+ * Options for the fixed-timestep simulation clock
+ */
+export interface TimeManagerOptions {
+  /** Simulation ticks per second */
+  tickRate?: number;
+  /** Maximum fixed steps run in a single frame before time is dropped */
+  maxStepsPerFrame?: number;
+  /** Clock in milliseconds; defaults to performance.now, inject one for headless runs */
+  now?: () => number;
+}
+
 /**
  * Time manager for handling delta time and frame rate
+ * Also drives the fixed-timestep accumulator used by the simulation loop
  */
 export class TimeManager {
   private lastTime: number;
@@ -7,20 +20,32 @@ export class TimeManager {
   private fps: number;
   private frameCount: number;
   private fpsUpdateTime: number;
+  private fixedDeltaTime: number;
+  private maxStepsPerFrame: number;
+  private accumulator: number;
+  private simulationTime: number;
+  private tick: number;
+  private now: () => number;
 
-  constructor() {
-    this.lastTime = performance.now();
+  constructor(options: TimeManagerOptions = {}) {
+    this.now = options.now ?? (() => performance.now());
+    this.lastTime = this.now();
     this.deltaTime = 0;
     this.fps = 60;
     this.frameCount = 0;
     this.fpsUpdateTime = 0;
+    this.fixedDeltaTime = 1 / (options.tickRate ?? 60);
+    this.maxStepsPerFrame = options.maxStepsPerFrame ?? 5;
+    this.accumulator = 0;
+    this.simulationTime = 0;
+    this.tick = 0;
   }
 
   /**
    * Update time calculations - call once per frame
    */
   public update(): void {
-    const currentTime = performance.now();
+    const currentTime = this.now();
     this.deltaTime = (currentTime - this.lastTime) / 1000;
     this.lastTime = currentTime;
 
@@ -33,6 +58,29 @@ export class TimeManager {
       this.frameCount = 0;
       this.fpsUpdateTime = 0;
     }
+
+    // Feed the fixed-step accumulator, dropping time beyond the per-frame
+    // step budget so a long stall (e.g. a background tab) can't spiral
+    this.accumulator += this.deltaTime;
+    const maxAccumulated = this.maxStepsPerFrame * this.fixedDeltaTime;
+    if (this.accumulator > maxAccumulated) {
+      this.accumulator = maxAccumulated;
+    }
+  }
+
+  /**
+   * Consume one fixed step from the accumulator
+   * Returns false once there is not enough accumulated time left for a step
+   */
+  public consumeFixedStep(): boolean {
+    if (this.accumulator < this.fixedDeltaTime) {
+      return false;
+    }
+
+    this.accumulator -= this.fixedDeltaTime;
+    this.simulationTime += this.fixedDeltaTime;
+    this.tick++;
+    return true;
   }
 
   /**
@@ -42,6 +90,48 @@ export class TimeManager {
     return this.deltaTime;
   }
 
+  /**
+   * Get the fixed simulation step in seconds
+   */
+  public getFixedDeltaTime(): number {
+    return this.fixedDeltaTime;
+  }
+
+  /**
+   * Set the simulation tick rate (ticks per second)
+   */
+  public setTickRate(tickRate: number): void {
+    this.fixedDeltaTime = 1 / Math.max(1, tickRate);
+  }
+
+  /**
+   * Set the maximum number of fixed steps run per frame
+   */
+  public setMaxStepsPerFrame(steps: number): void {
+    this.maxStepsPerFrame = Math.max(1, Math.floor(steps));
+  }
+
+  /**
+   * Get interpolation factor (0-1) between the previous and current tick
+   */
+  public getAlpha(): number {
+    return this.accumulator / this.fixedDeltaTime;
+  }
+
+  /**
+   * Get number of fixed ticks simulated since start
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get simulated time in seconds (advances only in fixed steps)
+   */
+  public getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
   /**
    * Get current FPS
    */